@@ -15,11 +15,21 @@ CREATE TABLE teams (
     name TEXT NOT NULL CHECK (length(name) >= 2 AND length(name) <= 120),
     slug TEXT NOT NULL UNIQUE CHECK (length(slug) >= 2 AND length(slug) <= 120),
     billing_address JSONB,
+    rounding_mode TEXT CHECK (rounding_mode IN ('none', 'up', 'down', 'nearest')),
+    rounding_increment_minutes INTEGER CHECK (rounding_increment_minutes IS NULL OR rounding_increment_minutes > 0),
+    rounding_minimum_minutes INTEGER CHECK (rounding_minimum_minutes IS NULL OR rounding_minimum_minutes >= 0),
+    overlap_policy TEXT DEFAULT 'allow' NOT NULL CHECK (overlap_policy IN ('allow', 'warn', 'reject')),
+    max_timer_hours INTEGER CHECK (max_timer_hours IS NULL OR (max_timer_hours >= 1 AND max_timer_hours <= 168)),
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
 COMMENT ON TABLE teams IS 'Teams are the primary unit of data organization. All business data is scoped to a team.';
+COMMENT ON COLUMN teams.rounding_mode IS 'Default time rounding: none (exact seconds), up, down or nearest increment. Overridable per client and project.';
+COMMENT ON COLUMN teams.rounding_increment_minutes IS 'Increment billable durations are rounded to (e.g. 6 or 15 minutes)';
+COMMENT ON COLUMN teams.rounding_minimum_minutes IS 'Minimum billable duration of a time entry';
+COMMENT ON COLUMN teams.overlap_policy IS 'How overlapping time entries of one user are handled: allow, warn (saved but flagged) or reject';
+COMMENT ON COLUMN teams.max_timer_hours IS 'Timers running longer are stopped by the runaway timer sweep, at this many hours after they started. NULL disables the sweep';
 
 CREATE INDEX idx_teams_slug ON teams(slug);
 
@@ -37,11 +47,15 @@ CREATE TABLE users (
     instance_role TEXT DEFAULT 'USER' NOT NULL CHECK (instance_role IN ('USER', 'ADMIN')),
     display_name VARCHAR(120),
     email_verified_at TIMESTAMPTZ,
+    time_zone TEXT DEFAULT 'UTC' NOT NULL,
+    week_start SMALLINT DEFAULT 1 NOT NULL CHECK (week_start BETWEEN 0 AND 6),
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
 COMMENT ON COLUMN users.instance_role IS 'Instance-level role: ADMIN can manage all teams and users, USER is a regular user.';
+COMMENT ON COLUMN users.time_zone IS 'IANA time zone (e.g. Europe/Berlin) in which the user''s days begin, for date ranges given as local dates';
+COMMENT ON COLUMN users.week_start IS 'First day of the user''s week: 0 (Sunday) to 6 (Saturday)';
 
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_instance_role ON users(instance_role);
@@ -57,6 +71,7 @@ CREATE TABLE team_memberships (
     team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     role TEXT NOT NULL CHECK (role IN ('OWNER', 'ADMIN', 'MEMBER', 'VIEWER', 'BILLING')),
+    hourly_rate_cents INTEGER CHECK (hourly_rate_cents IS NULL OR hourly_rate_cents >= 0),
     invited_at TIMESTAMPTZ,
     joined_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
@@ -65,6 +80,7 @@ CREATE TABLE team_memberships (
 
 COMMENT ON TABLE team_memberships IS 'Links users to teams with their role (OWNER/ADMIN/MEMBER/VIEWER/BILLING).';
 COMMENT ON COLUMN team_memberships.role IS 'Team-level role: OWNER (full control), ADMIN (manage team), MEMBER (create/edit), VIEWER (read-only), BILLING (manage billing).';
+COMMENT ON COLUMN team_memberships.hourly_rate_cents IS 'Default billable rate of the user in this team. Applies when neither the task, the project member nor the project sets a rate.';
 
 CREATE INDEX idx_team_memberships_team_id ON team_memberships(team_id);
 CREATE INDEX idx_team_memberships_user_id ON team_memberships(user_id);
@@ -90,6 +106,18 @@ CREATE INDEX idx_invites_email ON invites(email);
 CREATE INDEX idx_invites_token ON invites(token);
 CREATE INDEX idx_invites_expires_at ON invites(expires_at);
 
+-- Calendar feeds table
+CREATE TABLE calendar_feeds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    last_accessed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE calendar_feeds IS 'Secret iCalendar feed URL of a user''s time entries. Deleting the row revokes the feed.';
+COMMENT ON COLUMN calendar_feeds.token IS 'Secret part of the feed URL; anyone who has it can read the feed';
+
 -- Clients table
 CREATE TABLE clients (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -103,11 +131,16 @@ CREATE TABLE clients (
     notes TEXT,
     default_hourly_rate_cents INTEGER CHECK (default_hourly_rate_cents >= 0),
     currency VARCHAR(3) DEFAULT 'USD' NOT NULL,
+    rounding_mode TEXT CHECK (rounding_mode IN ('none', 'up', 'down', 'nearest')),
+    rounding_increment_minutes INTEGER CHECK (rounding_increment_minutes IS NULL OR rounding_increment_minutes > 0),
+    rounding_minimum_minutes INTEGER CHECK (rounding_minimum_minutes IS NULL OR rounding_minimum_minutes >= 0),
     archived_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
+COMMENT ON COLUMN clients.rounding_mode IS 'Overrides the team rounding rule when set (NULL inherits the team rule)';
+
 CREATE INDEX idx_clients_team_id ON clients(team_id);
 CREATE INDEX idx_clients_name_lower ON clients(lower(name));
 CREATE INDEX idx_clients_email ON clients(email) WHERE email IS NOT NULL;
@@ -136,11 +169,16 @@ CREATE TABLE projects (
     budget_amount_cents INTEGER CHECK (budget_amount_cents IS NULL OR budget_amount_cents >= 0),
     start_date DATE,
     due_date DATE,
+    rounding_mode TEXT CHECK (rounding_mode IN ('none', 'up', 'down', 'nearest')),
+    rounding_increment_minutes INTEGER CHECK (rounding_increment_minutes IS NULL OR rounding_increment_minutes > 0),
+    rounding_minimum_minutes INTEGER CHECK (rounding_minimum_minutes IS NULL OR rounding_minimum_minutes >= 0),
     archived_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
+COMMENT ON COLUMN projects.rounding_mode IS 'Overrides the client and team rounding rules when set (NULL inherits)';
+
 CREATE INDEX idx_projects_team_id ON projects(team_id);
 CREATE INDEX idx_projects_client_id ON projects(client_id);
 CREATE INDEX idx_projects_client_id_team ON projects(team_id, client_id);
@@ -161,6 +199,7 @@ CREATE TABLE project_members (
     project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     role TEXT NOT NULL CHECK (role IN ('MANAGER', 'CONTRIBUTOR', 'VIEWER')),
+    hourly_rate_cents INTEGER CHECK (hourly_rate_cents IS NULL OR hourly_rate_cents >= 0),
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     UNIQUE (project_id, user_id)
@@ -168,6 +207,7 @@ CREATE TABLE project_members (
 
 COMMENT ON TABLE project_members IS 'Links users to projects with their role (MANAGER/CONTRIBUTOR/VIEWER).';
 COMMENT ON COLUMN project_members.role IS 'Project-level role: MANAGER (full control), CONTRIBUTOR (can log time), VIEWER (read-only).';
+COMMENT ON COLUMN project_members.hourly_rate_cents IS 'Billable rate of the user on this project. Overrides the project and user rates, but not task rates.';
 
 CREATE INDEX idx_project_members_team_id ON project_members(team_id);
 CREATE INDEX idx_project_members_project_id ON project_members(project_id);
@@ -227,6 +267,119 @@ CREATE INDEX idx_task_assignees_task_id ON task_assignees(task_id);
 CREATE INDEX idx_task_assignees_user_id ON task_assignees(user_id);
 CREATE INDEX idx_task_assignees_team_user ON task_assignees(team_id, user_id);
 
+-- Rate history table
+CREATE TABLE rate_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES project_tasks(id) ON DELETE CASCADE,
+    project_member_id UUID REFERENCES project_members(id) ON DELETE CASCADE,
+    team_membership_id UUID REFERENCES team_memberships(id) ON DELETE CASCADE,
+    hourly_rate_cents INTEGER CHECK (hourly_rate_cents IS NULL OR hourly_rate_cents >= 0),
+    effective_from TIMESTAMPTZ NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CONSTRAINT rate_history_single_subject CHECK (num_nonnulls(client_id, project_id, task_id, project_member_id, team_membership_id) = 1)
+);
+
+COMMENT ON TABLE rate_history IS 'Effective-dated hourly rates of clients, projects, tasks, project members and team members. Time entries are priced with the rate in effect when they started.';
+COMMENT ON COLUMN rate_history.hourly_rate_cents IS 'Rate from effective_from until the next change (NULL means no rate at this level, so resolution falls through)';
+COMMENT ON COLUMN rate_history.effective_from IS 'Moment the rate takes effect. The earliest rate also applies to time before it.';
+
+CREATE UNIQUE INDEX unique_rate_history_client ON rate_history(client_id, effective_from) WHERE client_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_rate_history_project ON rate_history(project_id, effective_from) WHERE project_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_rate_history_task ON rate_history(task_id, effective_from) WHERE task_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_rate_history_project_member ON rate_history(project_member_id, effective_from) WHERE project_member_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_rate_history_team_membership ON rate_history(team_membership_id, effective_from) WHERE team_membership_id IS NOT NULL;
+CREATE INDEX idx_rate_history_team_id ON rate_history(team_id);
+
+CREATE TRIGGER update_rate_history_updated_at
+    BEFORE UPDATE ON rate_history
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE cost_rates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    hourly_cost_cents INTEGER NOT NULL CHECK (hourly_cost_cents >= 0),
+    effective_from TIMESTAMPTZ NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (team_id, user_id, effective_from)
+);
+
+COMMENT ON TABLE cost_rates IS 'Effective-dated internal cost of team members per hour. Only visible to team owners and admins.';
+COMMENT ON COLUMN cost_rates.hourly_cost_cents IS 'What an hour of this user costs the team, from effective_from until the next change';
+COMMENT ON COLUMN cost_rates.effective_from IS 'Moment the cost rate takes effect. The earliest cost rate also applies to time before it.';
+
+CREATE INDEX idx_cost_rates_user_id ON cost_rates(user_id);
+
+CREATE TRIGGER update_cost_rates_updated_at
+    BEFORE UPDATE ON cost_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Member capacities table
+CREATE TABLE member_capacities (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    team_membership_id UUID NOT NULL REFERENCES team_memberships(id) ON DELETE CASCADE,
+    weekday_hours NUMERIC(4,2)[] NOT NULL CHECK (
+        array_length(weekday_hours, 1) = 7
+        AND array_position(weekday_hours, NULL) IS NULL
+        AND 0 <= ALL(weekday_hours)
+        AND 24 >= ALL(weekday_hours)
+    ),
+    effective_from DATE NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (team_membership_id, effective_from)
+);
+
+COMMENT ON TABLE member_capacities IS 'Effective-dated weekly capacity of team members: the hours they are expected to work on each weekday.';
+COMMENT ON COLUMN member_capacities.weekday_hours IS 'Hours per weekday, Sunday first (index 1 is Sunday, 7 is Saturday)';
+COMMENT ON COLUMN member_capacities.effective_from IS 'First day the capacity applies, until the next change. The earliest capacity also applies to days before it.';
+
+CREATE INDEX idx_member_capacities_team_id ON member_capacities(team_id);
+
+CREATE TRIGGER update_member_capacities_updated_at
+    BEFORE UPDATE ON member_capacities
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Allocations table
+CREATE TABLE allocations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES project_tasks(id) ON DELETE SET NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL CHECK (end_date >= start_date),
+    hours_per_day NUMERIC(4,2) NOT NULL CHECK (hours_per_day > 0 AND hours_per_day <= 24),
+    note TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE allocations IS 'Planned work: hours per day a member is scheduled on a project between two dates';
+COMMENT ON COLUMN allocations.hours_per_day IS 'Planned on each working day of the member in the range: days with capacity, or Monday to Friday without one';
+
+CREATE INDEX idx_allocations_team_dates ON allocations(team_id, start_date, end_date);
+CREATE INDEX idx_allocations_user_id ON allocations(user_id);
+CREATE INDEX idx_allocations_project_id ON allocations(project_id);
+
+CREATE TRIGGER update_allocations_updated_at
+    BEFORE UPDATE ON allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Time entries table
 CREATE TABLE time_entries (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -236,26 +389,40 @@ CREATE TABLE time_entries (
     user_id UUID REFERENCES users(id) ON DELETE CASCADE,
     client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
     note TEXT,
+    tags TEXT[] DEFAULT ARRAY[]::TEXT[] NOT NULL,
     started_at TIMESTAMPTZ NOT NULL,
     stopped_at TIMESTAMPTZ CHECK (stopped_at IS NULL OR stopped_at > started_at),
     duration_seconds INTEGER,
+    billable_duration_seconds INTEGER,
     billable BOOLEAN DEFAULT TRUE NOT NULL,
     hourly_rate_cents INTEGER CHECK (hourly_rate_cents IS NULL OR hourly_rate_cents >= 0),
+    rate_source TEXT CHECK (rate_source IN ('task', 'project_member', 'project', 'user', 'client')),
     amount_cents INTEGER,
+    cost_cents INTEGER,
+    split_from_id UUID REFERENCES time_entries(id) ON DELETE SET NULL,
+    merged_from_ids UUID[] DEFAULT ARRAY[]::UUID[] NOT NULL,
+    auto_stopped_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
 COMMENT ON COLUMN time_entries.note IS 'Optional description/note about what was worked on';
+COMMENT ON COLUMN time_entries.tags IS 'Labels such as meeting or onsite, taken from the team''s time_entry_tags';
 COMMENT ON COLUMN time_entries.started_at IS 'When the timer started';
 COMMENT ON COLUMN time_entries.stopped_at IS 'When the timer stopped (NULL if running)';
-COMMENT ON COLUMN time_entries.duration_seconds IS 'Auto-calculated duration in seconds (stopped_at - started_at)';
+COMMENT ON COLUMN time_entries.duration_seconds IS 'Auto-calculated duration in seconds (stopped_at - started_at, excluding pauses)';
+COMMENT ON COLUMN time_entries.billable_duration_seconds IS 'Duration after applying the project/client/team rounding rule; used for billing and invoicing';
 COMMENT ON COLUMN time_entries.billable IS 'Whether this time entry is billable to the client';
 COMMENT ON COLUMN time_entries.task_id IS 'Optional task within the project';
 COMMENT ON COLUMN time_entries.user_id IS 'User who logged this time entry';
 COMMENT ON COLUMN time_entries.client_id IS 'Denormalized client_id from project for easier queries';
 COMMENT ON COLUMN time_entries.hourly_rate_cents IS 'Stored hourly rate in cents at time of entry creation (uses rate resolution)';
-COMMENT ON COLUMN time_entries.amount_cents IS 'Auto-calculated billing amount: (duration_seconds * hourly_rate_cents / 3600)';
+COMMENT ON COLUMN time_entries.rate_source IS 'Level the hourly rate was resolved from: task, project_member, project, user (team member default) or client. NULL when no rate applied';
+COMMENT ON COLUMN time_entries.cost_cents IS 'Internal cost of the entry: (duration_seconds * cost rate of the user when it started / 3600). NULL when the user has no cost rate';
+COMMENT ON COLUMN time_entries.amount_cents IS 'Auto-calculated billing amount: (billable_duration_seconds * hourly_rate_cents / 3600)';
+COMMENT ON COLUMN time_entries.split_from_id IS 'Entry this one was split off from; the original keeps the first part';
+COMMENT ON COLUMN time_entries.auto_stopped_at IS 'When the runaway timer sweep stopped this timer at the team''s maximum duration. Cleared once the entry is edited';
+COMMENT ON COLUMN time_entries.merged_from_ids IS 'Entries merged into this one. They were deleted by the merge, so the IDs are kept for auditing only';
 
 CREATE INDEX idx_time_entries_team_id ON time_entries(team_id);
 CREATE INDEX idx_time_entries_project_id ON time_entries(project_id);
@@ -268,12 +435,203 @@ CREATE INDEX idx_time_entries_team_started ON time_entries(team_id, started_at);
 CREATE INDEX idx_time_entries_user_started ON time_entries(user_id, started_at);
 CREATE INDEX idx_time_entries_project_started ON time_entries(project_id, started_at);
 CREATE INDEX idx_time_entries_billable ON time_entries(team_id, billable);
+CREATE INDEX idx_time_entries_tags ON time_entries USING gin(tags);
+CREATE INDEX idx_time_entries_split_from_id ON time_entries(split_from_id);
+CREATE INDEX idx_time_entries_running ON time_entries(started_at) WHERE stopped_at IS NULL;
+CREATE INDEX idx_time_entries_auto_stopped ON time_entries(user_id) WHERE auto_stopped_at IS NOT NULL;
 
 CREATE TRIGGER update_time_entries_updated_at
     BEFORE UPDATE ON time_entries
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Time entry pauses table
+CREATE TABLE time_entry_pauses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    time_entry_id UUID NOT NULL REFERENCES time_entries(id) ON DELETE CASCADE,
+    paused_at TIMESTAMPTZ NOT NULL,
+    resumed_at TIMESTAMPTZ CHECK (resumed_at IS NULL OR resumed_at >= paused_at),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE time_entry_pauses IS 'Pause segments of a timer. Paused time is excluded from the time entry''s duration_seconds.';
+COMMENT ON COLUMN time_entry_pauses.resumed_at IS 'When the timer was resumed (NULL while the timer is paused)';
+
+CREATE INDEX idx_time_entry_pauses_team_id ON time_entry_pauses(team_id);
+CREATE INDEX idx_time_entry_pauses_time_entry_id ON time_entry_pauses(time_entry_id);
+CREATE UNIQUE INDEX unique_open_pause_per_time_entry ON time_entry_pauses(time_entry_id) WHERE resumed_at IS NULL;
+
+-- Time entry idempotency keys table
+CREATE TABLE time_entry_idempotency_keys (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    key VARCHAR(100) NOT NULL CHECK (length(key) > 0),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    operation TEXT NOT NULL CHECK (operation IN ('start_timer', 'stop_timer', 'pause_timer', 'resume_timer', 'create_time_entry')),
+    time_entry_id UUID REFERENCES time_entries(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (user_id, key)
+);
+
+COMMENT ON TABLE time_entry_idempotency_keys IS 'Client-generated keys of timer and time entry mutations, so operations queued offline and replayed more than once take effect only once.';
+COMMENT ON COLUMN time_entry_idempotency_keys.time_entry_id IS 'Time entry the operation created, stopped, paused or resumed; a replay returns it';
+
+CREATE INDEX idx_time_entry_idempotency_keys_time_entry_id ON time_entry_idempotency_keys(time_entry_id);
+
+-- Time entry tags table
+CREATE TABLE time_entry_tags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL CHECK (length(trim(name)) > 0),
+    color TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE time_entry_tags IS 'Tags team members can put on time entries. Managed by team owners and admins.';
+COMMENT ON COLUMN time_entry_tags.name IS 'Tag as stored in time_entries.tags; renaming or deleting a tag updates the time entries';
+
+CREATE UNIQUE INDEX unique_time_entry_tag_per_team ON time_entry_tags(team_id, lower(name));
+
+-- Calendar import rules table
+CREATE TABLE calendar_import_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    match_type TEXT NOT NULL CHECK (match_type IN ('title_keyword', 'attendee_domain')),
+    pattern TEXT NOT NULL CHECK (length(pattern) >= 1 AND length(pattern) <= 255),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES project_tasks(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE calendar_import_rules IS 'Rules a user defines to match imported calendar events to projects. Checked oldest first.';
+COMMENT ON COLUMN calendar_import_rules.pattern IS 'Keyword searched for in the event title (case-insensitive), or an e-mail domain of an attendee';
+
+CREATE INDEX idx_calendar_import_rules_team_user ON calendar_import_rules(team_id, user_id);
+
+-- Timesheets table
+CREATE TABLE timesheets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    week_start TIMESTAMPTZ NOT NULL,
+    week_end TIMESTAMPTZ NOT NULL CHECK (week_end > week_start),
+    status TEXT DEFAULT 'submitted' NOT NULL CHECK (status IN ('submitted', 'approved', 'rejected')),
+    submitted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    review_comment TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (team_id, user_id, week_start)
+);
+
+COMMENT ON TABLE timesheets IS 'A week of a user''s time entries submitted for approval. Approved weeks lock their time entries.';
+COMMENT ON COLUMN timesheets.week_start IS 'Start of the submitted week (inclusive), as the submitter''s local midnight';
+COMMENT ON COLUMN timesheets.week_end IS 'End of the submitted week (exclusive)';
+COMMENT ON COLUMN timesheets.status IS 'Approval status: submitted (awaiting review), approved (locked), rejected (editable, can be resubmitted)';
+COMMENT ON COLUMN timesheets.reviewed_by IS 'Project MANAGER or team OWNER/ADMIN who approved or rejected the timesheet';
+
+CREATE INDEX idx_timesheets_team_id ON timesheets(team_id);
+CREATE INDEX idx_timesheets_user_week ON timesheets(user_id, week_start);
+CREATE INDEX idx_timesheets_status ON timesheets(team_id, status);
+
+CREATE TRIGGER update_timesheets_updated_at
+    BEFORE UPDATE ON timesheets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Leave types table
+CREATE TABLE leave_types (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL CHECK (length(trim(name)) > 0),
+    paid BOOLEAN DEFAULT true NOT NULL,
+    color TEXT,
+    archived_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE leave_types IS 'Kinds of leave team members can request (e.g. vacation, sick leave). Managed by team owners and admins.';
+COMMENT ON COLUMN leave_types.paid IS 'Whether the leave is paid; unpaid leave still counts as time off';
+COMMENT ON COLUMN leave_types.archived_at IS 'Archived types can no longer be requested but keep their existing requests';
+
+CREATE UNIQUE INDEX unique_leave_type_per_team ON leave_types(team_id, lower(name));
+
+CREATE TRIGGER update_leave_types_updated_at
+    BEFORE UPDATE ON leave_types
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Leave requests table
+CREATE TABLE leave_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id UUID NOT NULL REFERENCES leave_types(id) ON DELETE RESTRICT,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL CHECK (end_date >= start_date),
+    hours_per_day NUMERIC(4,2) CHECK (hours_per_day > 0 AND hours_per_day <= 24),
+    note TEXT,
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    review_comment TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE leave_requests IS 'Time off requested by team members. Approved leave reduces expected hours but is never billable time.';
+COMMENT ON COLUMN leave_requests.start_date IS 'First day of leave (inclusive), a date in the user''s time zone';
+COMMENT ON COLUMN leave_requests.end_date IS 'Last day of leave (inclusive), a date in the user''s time zone';
+COMMENT ON COLUMN leave_requests.hours_per_day IS 'Hours of leave on each day for partial days; NULL for whole days';
+COMMENT ON COLUMN leave_requests.status IS 'Approval status: pending (awaiting review), approved, rejected, cancelled (withdrawn by the user or an admin)';
+COMMENT ON COLUMN leave_requests.reviewed_by IS 'Team OWNER/ADMIN who approved, rejected or cancelled the request';
+
+CREATE INDEX idx_leave_requests_team_status ON leave_requests(team_id, status);
+CREATE INDEX idx_leave_requests_user_dates ON leave_requests(user_id, start_date, end_date);
+CREATE INDEX idx_leave_requests_leave_type_id ON leave_requests(leave_type_id);
+
+CREATE TRIGGER update_leave_requests_updated_at
+    BEFORE UPDATE ON leave_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Team holidays table
+CREATE TABLE team_holidays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    name VARCHAR(200) NOT NULL CHECK (length(trim(name)) > 0),
+    source_uid TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (team_id, date)
+);
+
+COMMENT ON TABLE team_holidays IS 'Public holidays of a team; a day off for every member. Entered by hand or imported from an .ics calendar.';
+COMMENT ON COLUMN team_holidays.source_uid IS 'UID of the iCalendar event the holiday was imported from, NULL when entered by hand';
+
+-- Period closes table
+CREATE TABLE period_closes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    closed_through TIMESTAMPTZ NOT NULL,
+    closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    closed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    reopened_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reopened_at TIMESTAMPTZ,
+    reopen_reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE period_closes IS 'Accounting period closes per team. The latest close that has not been reopened locks time entries and invoices dated before it.';
+COMMENT ON COLUMN period_closes.closed_through IS 'Time entries starting and invoices issued before this moment can no longer be created, edited or deleted';
+COMMENT ON COLUMN period_closes.reopened_by IS 'Team OWNER who reopened the period (NULL while the close is in effect)';
+
+CREATE INDEX idx_period_closes_team_id ON period_closes(team_id);
+CREATE INDEX idx_period_closes_active ON period_closes(team_id, closed_through) WHERE reopened_at IS NULL;
+
 -- Invoices table
 CREATE TABLE invoices (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -11,6 +11,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import { RateHistory } from '@/components/rate-history';
+import { RecalculateRates } from '@/components/recalculate-rates';
 
 const GET_CLIENT_QUERY = gql(`
   query GetClientForEdit($id: ID!, $teamId: ID) {
@@ -24,6 +26,9 @@ const GET_CLIENT_QUERY = gql(`
       taxId
       defaultHourlyRateCents
       currency
+      roundingMode
+      roundingIncrementMinutes
+      roundingMinimumMinutes
       notes
       archivedAt
     }
@@ -64,6 +69,9 @@ export default function EditClientPage() {
 		contactName: '',
 		defaultHourlyRateCents: '',
 		currency: 'USD',
+		roundingMode: '',
+		roundingIncrementMinutes: '',
+		roundingMinimumMinutes: '',
 		notes: '',
 		taxId: '',
 		billingAddress: {
@@ -93,6 +101,9 @@ export default function EditClientPage() {
 					? (client.defaultHourlyRateCents / 100).toString()
 					: '',
 				currency: client.currency || 'USD',
+				roundingMode: client.roundingMode || '',
+				roundingIncrementMinutes: client.roundingIncrementMinutes?.toString() || '',
+				roundingMinimumMinutes: client.roundingMinimumMinutes?.toString() || '',
 				notes: client.notes || '',
 				taxId: client.taxId || '',
 				billingAddress: {
@@ -127,6 +138,15 @@ export default function EditClientPage() {
 				input.defaultHourlyRateCents = parseFloat(formData.defaultHourlyRateCents) * 100;
 			}
 
+			// Rounding rule; an empty mode inherits the rule from the level above
+			input.roundingMode = formData.roundingMode || null;
+			input.roundingIncrementMinutes = formData.roundingMode && formData.roundingIncrementMinutes
+				? parseInt(formData.roundingIncrementMinutes, 10)
+				: null;
+			input.roundingMinimumMinutes = formData.roundingMode && formData.roundingMinimumMinutes
+				? parseInt(formData.roundingMinimumMinutes, 10)
+				: null;
+
 			// Add billing address if any field is filled
 			const hasAddress = Object.values(formData.billingAddress).some(v => v.trim() !== '');
 			if (hasAddress) {
@@ -277,6 +297,50 @@ export default function EditClientPage() {
 							</div>
 						</div>
 
+						<div className="grid grid-cols-3 gap-4">
+							<div>
+								<Label htmlFor="roundingMode">Time Rounding</Label>
+								<select
+									id="roundingMode"
+									value={formData.roundingMode}
+									onChange={(e) => setFormData({ ...formData, roundingMode: e.target.value })}
+									className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+								>
+									<option value="">Use team default</option>
+									<option value="none">No rounding</option>
+									<option value="up">Round up</option>
+									<option value="down">Round down</option>
+									<option value="nearest">Round to nearest</option>
+								</select>
+							</div>
+
+							<div>
+								<Label htmlFor="roundingIncrement">Increment (minutes)</Label>
+								<Input
+									id="roundingIncrement"
+									type="number"
+									min="1"
+									value={formData.roundingIncrementMinutes}
+									onChange={(e) => setFormData({ ...formData, roundingIncrementMinutes: e.target.value })}
+									placeholder="15"
+									disabled={!formData.roundingMode || formData.roundingMode === 'none'}
+								/>
+							</div>
+
+							<div>
+								<Label htmlFor="roundingMinimum">Minimum (minutes)</Label>
+								<Input
+									id="roundingMinimum"
+									type="number"
+									min="0"
+									value={formData.roundingMinimumMinutes}
+									onChange={(e) => setFormData({ ...formData, roundingMinimumMinutes: e.target.value })}
+									placeholder="0"
+									disabled={!formData.roundingMode}
+								/>
+							</div>
+						</div>
+
 						<div>
 							<Label htmlFor="taxId">Tax ID</Label>
 							<Input
@@ -401,6 +465,14 @@ export default function EditClientPage() {
 					</Button>
 				</div>
 			</form>
+
+			<div className="mt-6 max-w-2xl">
+				<RateHistory clientId={clientId} currency={formData.currency} />
+			</div>
+
+			<div className="mt-6 max-w-2xl">
+				<RecalculateRates clientId={clientId} currency={formData.currency} />
+			</div>
 		</div>
 	);
 }
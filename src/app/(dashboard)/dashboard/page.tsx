@@ -1,10 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { useQuery, useMutation } from 'urql';
-import { useAuth, useCanAccessInvoices } from '@/lib/auth-context';
+import { useQuery } from 'urql';
+import { useAuth, useCanAccessInvoices, useCanManageTeam } from '@/lib/auth-context';
 import { gql } from '@/lib/gql';
+import { useOfflineQueue } from '@/lib/offline-queue';
 import { formatDuration } from '@/lib/time-utils';
+import { getLocalMonthRange, getLocalWeekRange, toLocalDate } from '@/lib/time-zones';
+import { useUserPreferences } from '@/lib/user-preferences';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,8 +17,8 @@ import { Timer } from '@/components/timer';
 import { Clock, DollarSign, FileText, TrendingUp, Plus, ArrowRight } from 'lucide-react';
 
 const DASHBOARD_QUERY = gql(`
-  query Dashboard($teamId: ID!, $thisWeekStart: DateTime!, $thisMonthStart: DateTime!) {
-    thisWeekEntries: timeEntries(teamId: $teamId, from: $thisWeekStart, limit: 1000) {
+  query Dashboard($teamId: ID!, $thisWeekStart: String!, $thisMonthStart: String!) {
+    thisWeekEntries: timeEntries(teamId: $teamId, fromDate: $thisWeekStart, limit: 1000) {
       nodes {
         id
         durationSeconds
@@ -39,7 +42,7 @@ const DASHBOARD_QUERY = gql(`
         }
       }
     }
-    thisMonthEntries: timeEntries(teamId: $teamId, from: $thisMonthStart, limit: 1000) {
+    thisMonthEntries: timeEntries(teamId: $teamId, fromDate: $thisMonthStart, limit: 1000) {
       nodes {
         id
         durationSeconds
@@ -53,6 +56,11 @@ const DASHBOARD_QUERY = gql(`
         amountCents
       }
     }
+    thisWeekTagTotals: tagTotals(teamId: $teamId, fromDate: $thisWeekStart) {
+      tag
+      entryCount
+      durationSeconds
+    }
     recentEntries: timeEntries(teamId: $teamId, limit: 10, orderBy: "started_at", order: "desc") {
       nodes {
         id
@@ -110,27 +118,6 @@ const LIST_TASKS_FOR_TIMER_QUERY = gql(`
   }
 `);
 
-const START_TIMER_MUTATION = gql(`
-  mutation StartTimerFromDashboard(
-    $projectId: ID!
-    $taskId: ID
-    $note: String
-    $billable: Boolean = true
-  ) {
-    startTimer(
-      projectId: $projectId
-      taskId: $taskId
-      note: $note
-      billable: $billable
-    ) {
-      id
-      startedAt
-      note
-      billable
-    }
-  }
-`);
-
 const DASHBOARD_INVOICES_QUERY = gql(`
   query DashboardInvoices($teamId: ID!, $thisMonthStart: DateTime!, $lastMonthStart: DateTime!, $lastMonthEnd: DateTime!) {
     sentInvoices: invoices(teamId: $teamId, status: "sent", limit: 100) {
@@ -176,28 +163,59 @@ const DASHBOARD_INVOICES_QUERY = gql(`
   }
 `);
 
+const TEAM_UTILIZATION_QUERY = gql(`
+  query TeamUtilization($teamId: ID!, $fromDate: String!, $toDate: String!) {
+    utilizationReport(teamId: $teamId, fromDate: $fromDate, toDate: $toDate) {
+      rows {
+        userId
+        expectedSeconds
+        leaveSeconds
+        loggedSeconds
+        billableSeconds
+        utilization
+        billableUtilization
+        user {
+          id
+          name
+          displayName
+        }
+      }
+      total {
+        expectedSeconds
+        leaveSeconds
+        loggedSeconds
+        billableSeconds
+        utilization
+        billableUtilization
+      }
+    }
+  }
+`);
+
+// Utilization outside these bounds counts as over- or under-booked
+const OVERBOOKED_UTILIZATION = 1.1;
+const UNDERBOOKED_UTILIZATION = 0.8;
+
 export default function DashboardPage() {
 	const { user, currentTeam } = useAuth();
 	const canAccessInvoices = useCanAccessInvoices();
+	const canManageTeam = useCanManageTeam();
 	const [showStartDialog, setShowStartDialog] = useState(false);
 	const [selectedProjectId, setSelectedProjectId] = useState('');
 	const [selectedTaskId, setSelectedTaskId] = useState('');
 	const [note, setNote] = useState('');
+	const preferences = useUserPreferences();
 
 	// Date calculations
 	const now = new Date();
 
-	// Start of this week (Monday)
-	const dayOfWeek = now.getDay();
-	const diff = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-	const thisWeekStart = new Date(now);
-	thisWeekStart.setDate(now.getDate() + diff);
-	thisWeekStart.setHours(0, 0, 0, 0);
-
-	// Start of this month
-	const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+	// This week and month, as dates in the user's time zone
+	const today = toLocalDate(now, preferences?.timeZone ?? 'UTC');
+	const thisWeekStart = getLocalWeekRange(today, preferences?.weekStart).fromDate;
+	const thisMonthStart = getLocalMonthRange(today).fromDate;
 
-	// Start and end of last month
+	// Invoice months, by issue date
+	const invoiceMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
 	const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 	const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
 
@@ -206,10 +224,21 @@ export default function DashboardPage() {
 		query: DASHBOARD_QUERY,
 		variables: {
 			teamId: currentTeam?.id || '',
-			thisWeekStart: thisWeekStart.toISOString(),
-			thisMonthStart: thisMonthStart.toISOString(),
+			thisWeekStart,
+			thisMonthStart,
 		},
-		pause: !currentTeam?.id,
+		pause: !currentTeam?.id || !preferences,
+	});
+
+	// Month to date, so days still ahead don't count as under-booked (only for owners and admins)
+	const [utilizationResult] = useQuery({
+		query: TEAM_UTILIZATION_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+			fromDate: thisMonthStart,
+			toDate: today,
+		},
+		pause: !currentTeam?.id || !preferences || !canManageTeam,
 	});
 
 	// Query projects for timer dialog
@@ -240,14 +269,14 @@ export default function DashboardPage() {
 		query: DASHBOARD_INVOICES_QUERY,
 		variables: {
 			teamId: currentTeam?.id || '',
-			thisMonthStart: thisMonthStart.toISOString(),
+			thisMonthStart: invoiceMonthStart.toISOString(),
 			lastMonthStart: lastMonthStart.toISOString(),
 			lastMonthEnd: lastMonthEnd.toISOString(),
 		},
 		pause: !currentTeam?.id || !canAccessInvoices,
 	});
 
-	const [, startTimerMutation] = useMutation(START_TIMER_MUTATION);
+	const { startTimer } = useOfflineQueue(currentTeam?.id);
 
 	const data = dashboardResult.data;
 	const fetching = dashboardResult.fetching;
@@ -262,7 +291,8 @@ export default function DashboardPage() {
 	const handleStartTimer = async () => {
 		if (!selectedProjectId) return;
 
-		const result = await startTimerMutation({
+		// Offline, the timer starts on this device and is synced once the connection returns
+		const result = await startTimer({
 			projectId: selectedProjectId,
 			taskId: selectedTaskId || undefined,
 			note: note || undefined,
@@ -274,6 +304,8 @@ export default function DashboardPage() {
 			setSelectedProjectId('');
 			setSelectedTaskId('');
 			setNote('');
+		} else {
+			alert('Failed to start timer: ' + result.error);
 		}
 	};
 
@@ -334,6 +366,24 @@ export default function DashboardPage() {
 
 	const projectStats = Object.values(hoursByProject || {}).sort((a: any, b: any) => b.seconds - a.seconds);
 
+	// Only worth showing once the team tags its time
+	const tagTotals = data?.thisWeekTagTotals || [];
+	const tagStats = tagTotals.some((stat: any) => stat.tag) ? tagTotals : [];
+
+	const utilization = utilizationResult.data?.utilizationReport;
+	const utilizationRows = [...(utilization?.rows || [])].sort((a: any, b: any) =>
+		(a.user?.displayName || a.user?.name || '').localeCompare(b.user?.displayName || b.user?.name || '')
+	);
+
+	const formatUtilization = (ratio: number | null) => (ratio === null ? '—' : `${Math.round(ratio * 100)}%`);
+
+	const getUtilizationColor = (ratio: number | null) => {
+		if (ratio === null) return 'text-muted-foreground';
+		if (ratio > OVERBOOKED_UTILIZATION) return 'text-red-600 dark:text-red-400';
+		if (ratio < UNDERBOOKED_UTILIZATION) return 'text-yellow-600 dark:text-yellow-400';
+		return 'text-green-600 dark:text-green-400';
+	};
+
 	const formatCurrency = (cents: number) => {
 		return new Intl.NumberFormat('en-US', {
 			style: 'currency',
@@ -736,6 +786,102 @@ export default function DashboardPage() {
 					</div>
 				)}
 			</div>
+
+			{/* Hours by Tag */}
+			{tagStats.length > 0 && (
+				<div className="mt-6 border dark:border-border rounded-lg bg-card dark:bg-card">
+					<div className="p-6 border-b dark:border-border">
+						<h2 className="text-lg font-semibold">Hours by Tag (This Week)</h2>
+						<p className="text-sm text-muted-foreground mt-1">
+							Entries with several tags count towards each of them.
+						</p>
+					</div>
+					<div className="p-6 space-y-3">
+						{tagStats.map((stat: any) => {
+							const percentage = thisWeekSeconds > 0 ? ((stat.durationSeconds / thisWeekSeconds) * 100).toFixed(0) : 0;
+							return (
+								<div key={stat.tag ?? ''}>
+									<div className="flex items-center justify-between mb-2">
+										<span className={`text-sm font-medium ${stat.tag ? '' : 'text-muted-foreground'}`}>
+											{stat.tag ?? 'Untagged'}
+										</span>
+										<span className="text-sm font-semibold">
+											{(stat.durationSeconds / 3600).toFixed(1)}h
+											<span className="font-normal text-muted-foreground">
+												{' '}
+												· {stat.entryCount} {stat.entryCount === 1 ? 'entry' : 'entries'}
+											</span>
+										</span>
+									</div>
+									<div className="w-full bg-muted rounded-full h-2">
+										<div className="h-2 rounded-full bg-primary" style={{ width: `${Math.min(Number(percentage), 100)}%` }} />
+									</div>
+								</div>
+							);
+						})}
+					</div>
+				</div>
+			)}
+
+			{/* Team Utilization */}
+			{canManageTeam && (
+				<div className="mt-6 border dark:border-border rounded-lg bg-card dark:bg-card">
+					<div className="p-6 border-b dark:border-border">
+						<h2 className="text-lg font-semibold">Team Utilization (This Month)</h2>
+						<p className="text-sm text-muted-foreground mt-1">
+							Logged time against expected hours so far this month: capacity less leave and holidays. Set
+							capacity in the{' '}
+							<Link href="/team/settings" className="underline">
+								team settings
+							</Link>
+							.
+						</p>
+					</div>
+					<div className="p-6">
+						{utilizationResult.fetching && !utilization ? (
+							<p className="text-muted-foreground">Loading...</p>
+						) : utilizationResult.error ? (
+							<p className="text-red-600 dark:text-red-400 text-sm">{utilizationResult.error.message}</p>
+						) : utilizationRows.length === 0 ? (
+							<p className="text-muted-foreground text-center py-8">No capacity or logged time this month</p>
+						) : (
+							<div className="overflow-x-auto">
+								<table className="w-full text-sm">
+									<thead>
+										<tr className="border-b dark:border-border text-left text-muted-foreground">
+											<th className="py-2 pr-4 font-medium">Member</th>
+											<th className="py-2 px-4 font-medium text-right">Expected</th>
+											<th className="py-2 px-4 font-medium text-right">Leave</th>
+											<th className="py-2 px-4 font-medium text-right">Logged</th>
+											<th className="py-2 px-4 font-medium text-right">Billable</th>
+											<th className="py-2 px-4 font-medium text-right">Utilization</th>
+											<th className="py-2 pl-4 font-medium text-right">Billable Utilization</th>
+										</tr>
+									</thead>
+									<tbody>
+										{[...utilizationRows, { ...utilization.total, userId: null }].map((row: any) => (
+											<tr
+												key={row.userId ?? 'total'}
+												className={`border-b dark:border-border last:border-0 ${row.userId ? '' : 'font-semibold'}`}
+											>
+												<td className="py-2 pr-4">{row.userId ? row.user?.displayName || row.user?.name : 'Team'}</td>
+												<td className="py-2 px-4 text-right">{formatDuration(row.expectedSeconds)}</td>
+												<td className="py-2 px-4 text-right text-muted-foreground">{formatDuration(row.leaveSeconds)}</td>
+												<td className="py-2 px-4 text-right">{formatDuration(row.loggedSeconds)}</td>
+												<td className="py-2 px-4 text-right">{formatDuration(row.billableSeconds)}</td>
+												<td className={`py-2 px-4 text-right font-medium ${getUtilizationColor(row.utilization)}`}>
+													{formatUtilization(row.utilization)}
+												</td>
+												<td className="py-2 pl-4 text-right">{formatUtilization(row.billableUtilization)}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						)}
+					</div>
+				</div>
+			)}
 		</div>
 	);
 }
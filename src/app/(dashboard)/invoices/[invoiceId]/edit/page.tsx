@@ -37,6 +37,7 @@ const GET_INVOICE_QUERY = gql(`
           startedAt
           stoppedAt
           durationSeconds
+          billableDurationSeconds
           user {
             id
             name
@@ -611,7 +612,7 @@ export default function EditInvoicePage({
                                   <span>{entry.stoppedAt ? formatTime(entry.stoppedAt) : 'Running'}</span>
                                 </div>
                                 <div className="font-medium min-w-[60px]">
-                                  {formatDuration(entry.durationSeconds)}
+                                  {formatDuration(entry.billableDurationSeconds ?? entry.durationSeconds)}
                                 </div>
                                 {entry.note && (
                                   <div className="flex-1 text-foreground/70">
@@ -54,6 +54,7 @@ const GET_INVOICE_QUERY = gql(`
           startedAt
           stoppedAt
           durationSeconds
+          billableDurationSeconds
           user {
             id
             name
@@ -124,6 +125,7 @@ const GET_NEW_TIME_ENTRIES_QUERY = gql(`
         startedAt
         stoppedAt
         durationSeconds
+        billableDurationSeconds
         hourlyRateCents
         user {
           id
@@ -138,7 +140,6 @@ const GET_NEW_TIME_ENTRIES_QUERY = gql(`
         task {
           id
           name
-          hourlyRateCents
         }
       }
     }
@@ -398,11 +399,7 @@ export default function InvoiceDetailPage({
 
       // Group by project, task, and rate
       const grouped = selectedEntries.reduce((acc: any, entry: any) => {
-        const rate =
-          entry.task?.hourlyRateCents ||
-          entry.project?.defaultHourlyRateCents ||
-          entry.hourlyRateCents ||
-          0;
+        const rate = entry.hourlyRateCents ?? 0;
         const groupKey = `${entry.project.id}-${entry.task?.id || 'no-task'}-${rate}`;
 
         if (!acc[groupKey]) {
@@ -446,7 +443,7 @@ export default function InvoiceDetailPage({
         } else {
           // Create new line item
           const totalHours = group.entries.reduce(
-            (sum: number, e: any) => sum + e.durationSeconds / 3600,
+            (sum: number, e: any) => sum + (e.billableDurationSeconds ?? e.durationSeconds) / 3600,
             0
           );
 
@@ -647,7 +644,7 @@ export default function InvoiceDetailPage({
                         <span>•</span>
                         <span>{formatTime(entry.startedAt)} → {formatTime(entry.stoppedAt)}</span>
                         <span>•</span>
-                        <span>{formatDuration(entry.durationSeconds)}</span>
+                        <span>{formatDuration(entry.billableDurationSeconds ?? entry.durationSeconds)}</span>
                       </div>
                       {entry.note && <div className="mt-1 text-xs text-foreground/70">{entry.note}</div>}
                     </div>
@@ -904,7 +901,7 @@ export default function InvoiceDetailPage({
                                     <span>{entry.stoppedAt ? formatTime(entry.stoppedAt) : 'Running'}</span>
                                   </div>
                                   <div className="font-medium min-w-[60px]">
-                                    {formatDuration(entry.durationSeconds)}
+                                    {formatDuration(entry.billableDurationSeconds ?? entry.durationSeconds)}
                                   </div>
                                   {entry.note && (
                                     <div className="flex-1 text-foreground/70">
@@ -13,6 +13,8 @@ import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ArrowLeft, Plus, Trash2, Clock } from 'lucide-react';
 import { formatDuration } from '@/lib/time-utils';
+import { addDays, getBrowserTimeZone, toLocalDate } from '@/lib/time-zones';
+import { useUserPreferences } from '@/lib/user-preferences';
 
 const LIST_CLIENTS_QUERY = gql(`
   query ListClientsForInvoice($args: ListArgs!) {
@@ -28,10 +30,12 @@ const LIST_CLIENTS_QUERY = gql(`
 `);
 
 const LIST_UNBILLED_TIME_ENTRIES_QUERY = gql(`
-  query ListUnbilledTimeEntries($teamId: ID!, $clientId: ID!) {
+  query ListUnbilledTimeEntries($teamId: ID!, $clientId: ID!, $fromDate: String, $toDate: String) {
     timeEntries(
       teamId: $teamId
       clientId: $clientId
+      fromDate: $fromDate
+      toDate: $toDate
       uninvoicedOnly: true
       billable: true
       limit: 500
@@ -44,6 +48,7 @@ const LIST_UNBILLED_TIME_ENTRIES_QUERY = gql(`
         startedAt
         stoppedAt
         durationSeconds
+        billableDurationSeconds
         billable
         hourlyRateCents
         amountCents
@@ -56,12 +61,10 @@ const LIST_UNBILLED_TIME_ENTRIES_QUERY = gql(`
           id
           name
           code
-          defaultHourlyRateCents
         }
         task {
           id
           name
-          hourlyRateCents
         }
       }
     }
@@ -95,6 +98,7 @@ interface TimeEntry {
   startedAt: string;
   stoppedAt: string | null;
   durationSeconds: number;
+  billableDurationSeconds: number | null;
   billable: boolean;
   hourlyRateCents: number | null;
   amountCents: number | null;
@@ -107,12 +111,10 @@ interface TimeEntry {
     id: string;
     name: string;
     code: string | null;
-    defaultHourlyRateCents: number | null;
   };
   task: {
     id: string;
     name: string;
-    hourlyRateCents: number | null;
   } | null;
 }
 
@@ -155,17 +157,14 @@ export default function NewInvoicePage() {
 
   // Form state
   const [clientId, setClientId] = useState('');
-  const [invoiceNumber, setInvoiceNumber] = useState(
-    new Date().toISOString().split('T')[0]
-  );
-  const [issuedDate, setIssuedDate] = useState(
-    new Date().toISOString().split('T')[0]
-  );
-  const [dueDate, setDueDate] = useState(() => {
-    const date = new Date();
-    date.setDate(date.getDate() + 30);
-    return date.toISOString().split('T')[0];
-  });
+  const preferences = useUserPreferences();
+  const timeZone = preferences?.timeZone ?? getBrowserTimeZone();
+  const [invoiceNumber, setInvoiceNumber] = useState(() => toLocalDate(new Date(), timeZone));
+  const [issuedDate, setIssuedDate] = useState(() => toLocalDate(new Date(), timeZone));
+  const [dueDate, setDueDate] = useState(() => addDays(toLocalDate(new Date(), timeZone), 30));
+  // Optional period of the entries to invoice, as dates in the user's time zone
+  const [periodFrom, setPeriodFrom] = useState('');
+  const [periodTo, setPeriodTo] = useState('');
   const [taxRatePercent, setTaxRatePercent] = useState('0');
   const [notes, setNotes] = useState('');
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
@@ -192,6 +191,8 @@ export default function NewInvoicePage() {
     variables: {
       teamId: currentTeam?.id || '',
       clientId: clientId || '',
+      fromDate: periodFrom || undefined,
+      toDate: periodTo || undefined,
     },
     pause: !currentTeam?.id || !clientId,
   });
@@ -200,35 +201,34 @@ export default function NewInvoicePage() {
   const [, addInvoiceItemMutation] = useMutation(ADD_INVOICE_ITEM_MUTATION);
 
   const clients = clientsResult.data?.clients.nodes || [];
-  const selectedClient = clients.find((c: any) => c.id === clientId);
   const timeEntries = (timeEntriesResult.data?.timeEntries.nodes || []) as TimeEntry[];
 
   // Filter for stopped time entries only (server already filters for unbilled & billable)
   const unbilledTimeEntries = timeEntries.filter((entry) => entry.stoppedAt);
 
-  // Helper to get the effective hourly rate for a time entry
-  const getEffectiveRate = (entry: TimeEntry): number => {
-    // Priority: task rate > project rate > client rate > $0
-    if (entry.task?.hourlyRateCents) {
-      return entry.task.hourlyRateCents;
-    }
-    if (entry.project.defaultHourlyRateCents) {
-      return entry.project.defaultHourlyRateCents;
-    }
-    if (selectedClient?.defaultHourlyRateCents) {
-      return selectedClient.defaultHourlyRateCents;
-    }
-    return 0;
+  // Helper to get the rounded duration a time entry is billed for
+  const getBillableSeconds = (entry: TimeEntry): number => {
+    return entry.billableDurationSeconds ?? entry.durationSeconds;
+  };
+
+  // Helper to get the rate a time entry was stored with when it was priced
+  const getEntryRate = (entry: TimeEntry): number => {
+    return entry.hourlyRateCents ?? 0;
+  };
+
+  // Helper to get the amount a time entry was stored with when it was priced
+  const getEntryAmountCents = (entry: TimeEntry): number => {
+    return entry.amountCents ?? Math.round((getBillableSeconds(entry) / 3600) * getEntryRate(entry));
   };
 
   // Group time entries by project, task, and rate
   const groupedEntries: GroupedEntry[] = unbilledTimeEntries.reduce((acc, entry) => {
-    const effectiveRate = getEffectiveRate(entry);
+    const effectiveRate = getEntryRate(entry);
     const groupKey = `${entry.project.id}-${entry.task?.id || 'no-task'}-${effectiveRate}`;
 
     let group = acc.find((g) => g.groupKey === groupKey);
     if (!group) {
-      const totalHours = entry.durationSeconds / 3600;
+      const totalHours = getBillableSeconds(entry) / 3600;
       group = {
         groupKey,
         projectName: entry.project.name,
@@ -237,14 +237,14 @@ export default function NewInvoicePage() {
         hourlyRateCents: effectiveRate,
         entries: [entry],
         totalHours,
-        totalAmount: (totalHours * effectiveRate) / 100,
+        totalAmount: getEntryAmountCents(entry) / 100,
       };
       acc.push(group);
     } else {
       group.entries.push(entry);
-      const hours = entry.durationSeconds / 3600;
+      const hours = getBillableSeconds(entry) / 3600;
       group.totalHours += hours;
-      group.totalAmount += (hours * effectiveRate) / 100;
+      group.totalAmount += getEntryAmountCents(entry) / 100;
     }
 
     return acc;
@@ -331,6 +331,16 @@ export default function NewInvoicePage() {
     return groupRates.get(group.groupKey) ?? group.hourlyRateCents;
   };
 
+  // Amount for some of a group's entries: their stored amounts, unless the rate was adjusted
+  const getGroupAmountCents = (group: GroupedEntry, entries: TimeEntry[]): number => {
+    const rate = getGroupRate(group);
+    if (rate === group.hourlyRateCents) {
+      return entries.reduce((sum, entry) => sum + getEntryAmountCents(entry), 0);
+    }
+    const hours = entries.reduce((sum, entry) => sum + getBillableSeconds(entry) / 3600, 0);
+    return Math.round(hours * rate);
+  };
+
   const addLineItem = () => {
     setLineItems([
       ...lineItems,
@@ -362,6 +372,7 @@ export default function NewInvoicePage() {
     return new Date(date).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
+      timeZone,
     });
   };
 
@@ -377,16 +388,11 @@ export default function NewInvoicePage() {
     const timeEntryTotal = Array.from(selectedGroups).reduce((sum, groupKey) => {
       const group = groupedEntries.find((g) => g.groupKey === groupKey);
       if (group) {
-        const rate = getGroupRate(group);
         // Only count selected entries in this group
         const selectedEntriesInGroup = group.entries.filter((entry) =>
           selectedEntries.has(entry.id)
         );
-        const totalHours = selectedEntriesInGroup.reduce(
-          (hours, entry) => hours + entry.durationSeconds / 3600,
-          0
-        );
-        return sum + (totalHours * rate) / 100;
+        return sum + getGroupAmountCents(group, selectedEntriesInGroup) / 100;
       }
       return sum;
     }, 0);
@@ -470,7 +476,7 @@ export default function NewInvoicePage() {
 
           // Calculate total hours from selected entries only
           const totalHours = selectedEntriesInGroup.reduce(
-            (sum, entry) => sum + entry.durationSeconds / 3600,
+            (sum, entry) => sum + getBillableSeconds(entry) / 3600,
             0
           );
 
@@ -616,6 +622,24 @@ export default function NewInvoicePage() {
                 <p className="text-sm text-muted-foreground">
                   Entries are grouped by project, task, and rate. You can adjust rates before adding to invoice.
                 </p>
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  <Label htmlFor="periodFrom">Period</Label>
+                  <Input
+                    id="periodFrom"
+                    type="date"
+                    value={periodFrom}
+                    onChange={(e) => setPeriodFrom(e.target.value)}
+                    className="w-40"
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    id="periodTo"
+                    type="date"
+                    value={periodTo}
+                    onChange={(e) => setPeriodTo(e.target.value)}
+                    className="w-40"
+                  />
+                </div>
               </div>
               {groupedEntries.length > 0 && (
                 <div className="flex gap-2">
@@ -662,10 +686,10 @@ export default function NewInvoicePage() {
                           selectedEntries.has(entry.id)
                         );
                         const selectedHours = selectedEntriesInGroup.reduce(
-                          (sum, entry) => sum + entry.durationSeconds / 3600,
+                          (sum, entry) => sum + getBillableSeconds(entry) / 3600,
                           0
                         );
-                        const amount = (selectedHours * currentRate) / 100;
+                        const amount = getGroupAmountCents(group, selectedEntriesInGroup) / 100;
 
                         return (
                           <div
@@ -738,6 +762,7 @@ export default function NewInvoicePage() {
                                               hour: 'numeric',
                                               minute: '2-digit',
                                               hour12: true,
+                                              timeZone,
                                             })}
                                           </span>
                                           <span>→</span>
@@ -747,10 +772,14 @@ export default function NewInvoicePage() {
                                                 hour: 'numeric',
                                                 minute: '2-digit',
                                                 hour12: true,
+                                                timeZone,
                                               })}
                                           </span>
                                           <span>•</span>
-                                          <span>{formatDuration(entry.durationSeconds)}</span>
+                                          <span>{formatDuration(getBillableSeconds(entry))}</span>
+                                          {getBillableSeconds(entry) !== entry.durationSeconds && (
+                                            <span>(tracked {formatDuration(entry.durationSeconds)})</span>
+                                          )}
                                         </div>
                                         {entry.note && (
                                           <div className="mt-1 text-foreground/70">{entry.note}</div>
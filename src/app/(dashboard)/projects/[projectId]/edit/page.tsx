@@ -12,6 +12,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft, AlertCircle } from 'lucide-react';
 import Link from 'next/link';
+import { RateHistory } from '@/components/rate-history';
+import { RecalculateRates } from '@/components/recalculate-rates';
 
 const GET_PROJECT_QUERY = gql(`
   query GetProjectForEdit($id: ID!) {
@@ -28,6 +30,9 @@ const GET_PROJECT_QUERY = gql(`
       budgetAmountCents
       startDate
       dueDate
+      roundingMode
+      roundingIncrementMinutes
+      roundingMinimumMinutes
       client {
         id
         name
@@ -109,6 +114,9 @@ export default function EditProjectPage() {
 		budgetAmountCents: '',
 		startDate: '',
 		dueDate: '',
+		roundingMode: '',
+		roundingIncrementMinutes: '',
+		roundingMinimumMinutes: '',
 	});
 
 	const [error, setError] = useState<string | null>(null);
@@ -136,6 +144,9 @@ export default function EditProjectPage() {
 					: '',
 				startDate: project.startDate || '',
 				dueDate: project.dueDate || '',
+				roundingMode: project.roundingMode || '',
+				roundingIncrementMinutes: project.roundingIncrementMinutes?.toString() || '',
+				roundingMinimumMinutes: project.roundingMinimumMinutes?.toString() || '',
 			});
 		}
 	}, [result.data]);
@@ -162,6 +173,15 @@ export default function EditProjectPage() {
 				input.defaultHourlyRateCents = parseFloat(formData.defaultHourlyRateCents) * 100;
 			}
 
+			// Rounding rule; an empty mode inherits the rule from the level above
+			input.roundingMode = formData.roundingMode || null;
+			input.roundingIncrementMinutes = formData.roundingMode && formData.roundingIncrementMinutes
+				? parseInt(formData.roundingIncrementMinutes, 10)
+				: null;
+			input.roundingMinimumMinutes = formData.roundingMode && formData.roundingMinimumMinutes
+				? parseInt(formData.roundingMinimumMinutes, 10)
+				: null;
+
 			// Add budget if provided
 			if (formData.budgetType === 'hours' && formData.budgetHours) {
 				input.budgetType = 'hours';
@@ -381,6 +401,55 @@ export default function EditProjectPage() {
 					</div>
 				</div>
 
+				{/* Time Rounding */}
+				<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
+					<h2 className="text-lg font-semibold mb-4 dark:text-card-foreground">Time Rounding</h2>
+
+					<div className="grid grid-cols-3 gap-4">
+						<div>
+							<Label htmlFor="roundingMode">Rounding</Label>
+							<select
+								id="roundingMode"
+								value={formData.roundingMode}
+								onChange={(e) => setFormData({ ...formData, roundingMode: e.target.value })}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+							>
+								<option value="">Use client or team default</option>
+								<option value="none">No rounding</option>
+								<option value="up">Round up</option>
+								<option value="down">Round down</option>
+								<option value="nearest">Round to nearest</option>
+							</select>
+						</div>
+
+						<div>
+							<Label htmlFor="roundingIncrement">Increment (minutes)</Label>
+							<Input
+								id="roundingIncrement"
+								type="number"
+								min="1"
+								value={formData.roundingIncrementMinutes}
+								onChange={(e) => setFormData({ ...formData, roundingIncrementMinutes: e.target.value })}
+								placeholder="15"
+								disabled={!formData.roundingMode || formData.roundingMode === 'none'}
+							/>
+						</div>
+
+						<div>
+							<Label htmlFor="roundingMinimum">Minimum (minutes)</Label>
+							<Input
+								id="roundingMinimum"
+								type="number"
+								min="0"
+								value={formData.roundingMinimumMinutes}
+								onChange={(e) => setFormData({ ...formData, roundingMinimumMinutes: e.target.value })}
+								placeholder="0"
+								disabled={!formData.roundingMode}
+							/>
+						</div>
+					</div>
+				</div>
+
 				{/* Timeline */}
 				<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
 					<h2 className="text-lg font-semibold mb-4 dark:text-card-foreground">Timeline</h2>
@@ -472,6 +541,14 @@ export default function EditProjectPage() {
 					</Button>
 				</div>
 			</form>
+
+			<div className="mt-6 max-w-2xl">
+				<RateHistory projectId={projectId} />
+			</div>
+
+			<div className="mt-6 max-w-2xl">
+				<RecalculateRates projectId={projectId} />
+			</div>
 		</div>
 	);
 }
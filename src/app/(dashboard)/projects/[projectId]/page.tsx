@@ -27,8 +27,9 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '@/components/ui/select';
-import { useAuth, useCanAccessFinancials } from '@/lib/auth-context';
+import { useAuth, useCanAccessFinancials, useCanManageTeam } from '@/lib/auth-context';
 import { useProjectPermissions, getRoleBadgeColor, getRoleDisplayName } from '@/lib/use-project-permissions';
+import { ProjectProfitability } from '@/components/project-profitability';
 
 const GET_PROJECT_QUERY = gql(`
   query GetProject($id: ID!) {
@@ -81,6 +82,7 @@ const GET_PROJECT_QUERY = gql(`
       members {
         id
         role
+        hourlyRateCents
         user {
           id
           name
@@ -113,6 +115,7 @@ const ADD_PROJECT_MEMBER_MUTATION = gql(`
     addProjectMember(projectId: $projectId, userId: $userId, role: $role) {
       id
       role
+      hourlyRateCents
       user {
         id
         name
@@ -129,6 +132,15 @@ const REMOVE_PROJECT_MEMBER_MUTATION = gql(`
   }
 `);
 
+const SET_MEMBER_RATE_MUTATION = gql(`
+  mutation SetProjectMemberRate($projectMemberId: ID!, $hourlyRateCents: Int, $effectiveFrom: DateTime!) {
+    setHourlyRate(projectMemberId: $projectMemberId, hourlyRateCents: $hourlyRateCents, effectiveFrom: $effectiveFrom) {
+      id
+      hourlyRateCents
+    }
+  }
+`);
+
 const ADD_TASK_ASSIGNEE_MUTATION = gql(`
   mutation AddTaskAssignee($taskId: ID!, $userId: ID!) {
     addTaskAssignee(taskId: $taskId, userId: $userId) {
@@ -168,6 +180,7 @@ export default function ProjectDetailPage() {
 	const projectId = params.projectId as string;
 	const { currentTeam } = useAuth();
 	const canAccessFinancials = useCanAccessFinancials();
+	const canManageTeam = useCanManageTeam();
 
 	// Task modal state
 	const [showTaskModal, setShowTaskModal] = useState(false);
@@ -187,6 +200,11 @@ export default function ProjectDetailPage() {
 	const [selectedRole, setSelectedRole] = useState('CONTRIBUTOR');
 	const [addingMember, setAddingMember] = useState(false);
 
+	// Project member rate modal state
+	const [rateMember, setRateMember] = useState<any | null>(null);
+	const [memberRate, setMemberRate] = useState('');
+	const [savingMemberRate, setSavingMemberRate] = useState(false);
+
 	// Task assignee state
 	const [assigneeModalTaskId, setAssigneeModalTaskId] = useState<string | null>(null);
 	const [addingAssignee, setAddingAssignee] = useState(false);
@@ -212,6 +230,7 @@ export default function ProjectDetailPage() {
 	const [, createTaskMutation] = useMutation(CREATE_TASK_MUTATION);
 	const [, addProjectMemberMutation] = useMutation(ADD_PROJECT_MEMBER_MUTATION);
 	const [, removeProjectMemberMutation] = useMutation(REMOVE_PROJECT_MEMBER_MUTATION);
+	const [, setMemberRateMutation] = useMutation(SET_MEMBER_RATE_MUTATION);
 	const [, addTaskAssigneeMutation] = useMutation(ADD_TASK_ASSIGNEE_MUTATION);
 	const [, removeTaskAssigneeMutation] = useMutation(REMOVE_TASK_ASSIGNEE_MUTATION);
 
@@ -370,6 +389,35 @@ export default function ProjectDetailPage() {
 		// On success, keep the optimistic state (member stays removed)
 	};
 
+	const handleOpenMemberRate = (member: any) => {
+		setRateMember(member);
+		setMemberRate(member.hourlyRateCents !== null ? (member.hourlyRateCents / 100).toFixed(2) : '');
+	};
+
+	const handleSaveMemberRate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!rateMember || !project) return;
+
+		setSavingMemberRate(true);
+		const hourlyRateCents = memberRate ? Math.round(parseFloat(memberRate) * 100) : null;
+		const result = await setMemberRateMutation({
+			projectMemberId: rateMember.id,
+			hourlyRateCents,
+			effectiveFrom: new Date().toISOString(),
+		});
+
+		if (result.error) {
+			alert('Failed to update member rate: ' + result.error.message);
+		} else {
+			const currentMembers = optimisticMembers.length > 0 ? optimisticMembers : project.members;
+			setOptimisticMembers(
+				currentMembers.map((m: any) => (m.id === rateMember.id ? { ...m, hourlyRateCents } : m))
+			);
+			setRateMember(null);
+		}
+		setSavingMemberRate(false);
+	};
+
 	const handleAddTaskAssignee = async (taskId: string, userId: string) => {
 		if (!project) return;
 
@@ -777,9 +825,27 @@ export default function ProjectDetailPage() {
 										<p className="text-sm text-muted-foreground">{member.user.email}</p>
 									</div>
 									<div className="flex items-center gap-2">
+										{canAccessFinancials && (
+											<span className="text-sm text-muted-foreground">
+												{member.hourlyRateCents !== null && member.hourlyRateCents !== undefined
+													? `${formatCurrency(member.hourlyRateCents)}/hr`
+													: 'Default rate'}
+											</span>
+										)}
 										<Badge variant="outline" className={getRoleBadgeColor(member.role)}>
 											{getRoleDisplayName(member.role)}
 										</Badge>
+										{permissions.canAddMembers && canAccessFinancials && (
+											<Button
+												size="sm"
+												variant="ghost"
+												className="h-8 w-8 p-0"
+												title="Set member rate"
+												onClick={() => handleOpenMemberRate(member)}
+											>
+												<DollarSign className="w-4 h-4 text-muted-foreground" />
+											</Button>
+										)}
 										{permissions.canAddMembers && (
 											<Button
 												size="sm"
@@ -798,6 +864,13 @@ export default function ProjectDetailPage() {
 				</div>
 			</div>
 
+			{/* Profitability Section (costs are only visible to owners and admins) */}
+			{canManageTeam && (
+				<div className="mt-6">
+					<ProjectProfitability projectId={projectId} />
+				</div>
+			)}
+
 			{/* Add Task Modal */}
 			<Dialog open={showTaskModal} onOpenChange={setShowTaskModal}>
 				<DialogContent className="sm:max-w-[500px]">
@@ -975,6 +1048,45 @@ export default function ProjectDetailPage() {
 				</DialogContent>
 			</Dialog>
 
+			{/* Project Member Rate Modal */}
+			<Dialog open={rateMember !== null} onOpenChange={() => setRateMember(null)}>
+				<DialogContent className="sm:max-w-[425px]">
+					<form onSubmit={handleSaveMemberRate}>
+						<DialogHeader>
+							<DialogTitle>Member Rate</DialogTitle>
+							<DialogDescription>
+								Hourly rate of {rateMember?.user.displayName || rateMember?.user.name} on this project. It
+								overrides the project and team member rates, but not task rates, for time logged from now on.
+							</DialogDescription>
+						</DialogHeader>
+
+						<div className="space-y-4 py-4">
+							<div>
+								<Label htmlFor="member-rate">Hourly Rate</Label>
+								<Input
+									id="member-rate"
+									type="number"
+									step="0.01"
+									min="0"
+									value={memberRate}
+									onChange={(e) => setMemberRate(e.target.value)}
+									placeholder="Use default rate"
+								/>
+							</div>
+						</div>
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => setRateMember(null)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={savingMemberRate}>
+								{savingMemberRate ? 'Saving...' : 'Save Rate'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</DialogContent>
+			</Dialog>
+
 			{/* Add Task Assignee Modal */}
 			<Dialog open={assigneeModalTaskId !== null} onOpenChange={() => setAssigneeModalTaskId(null)}>
 				<DialogContent className="sm:max-w-[425px]">
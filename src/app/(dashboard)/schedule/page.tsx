@@ -0,0 +1,639 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { useAuth, useCanManageTeam } from '@/lib/auth-context';
+import { gql } from '@/lib/gql';
+import { addDays, formatLocalDate, toLocalDate } from '@/lib/time-zones';
+import { useUserPreferences } from '@/lib/user-preferences';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, Plus, Pencil, X, AlertTriangle } from 'lucide-react';
+
+const RESOURCE_SCHEDULE_QUERY = gql(`
+  query ResourceSchedule($teamId: ID!, $fromDate: String!, $weeks: Int!) {
+    resourceSchedule(teamId: $teamId, fromDate: $fromDate, weeks: $weeks) {
+      fromDate
+      toDate
+      weeks {
+        weekStart
+        weekEnd
+      }
+      memberWeeks {
+        userId
+        weekStart
+        expectedSeconds
+        leaveSeconds
+        plannedSeconds
+        actualSeconds
+        overbookedSeconds
+        conflictDates
+        user {
+          id
+          name
+          displayName
+        }
+      }
+      cells {
+        userId
+        projectId
+        weekStart
+        plannedSeconds
+        actualSeconds
+        project {
+          id
+          name
+          code
+          color
+        }
+      }
+      allocations {
+        id
+        userId
+        projectId
+        taskId
+        startDate
+        endDate
+        hoursPerDay
+        note
+        user {
+          id
+          name
+          displayName
+        }
+        project {
+          id
+          name
+          code
+          color
+        }
+        task {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+const LIST_PROJECTS_FOR_SCHEDULE_QUERY = gql(`
+  query ListProjectsForSchedule($args: ListArgs!) {
+    projects(args: $args) {
+      nodes {
+        id
+        name
+        code
+      }
+    }
+  }
+`);
+
+const LIST_TASKS_FOR_SCHEDULE_QUERY = gql(`
+  query ListTasksForSchedule($projectId: ID!, $status: Status) {
+    project(id: $projectId) {
+      id
+      tasks(status: $status, limit: 100) {
+        nodes {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+const CREATE_ALLOCATION_MUTATION = gql(`
+  mutation CreateAllocation(
+    $teamId: ID!
+    $userId: ID!
+    $projectId: ID!
+    $taskId: ID
+    $startDate: String!
+    $endDate: String!
+    $hoursPerDay: Float!
+    $note: String
+  ) {
+    createAllocation(
+      teamId: $teamId
+      userId: $userId
+      projectId: $projectId
+      taskId: $taskId
+      startDate: $startDate
+      endDate: $endDate
+      hoursPerDay: $hoursPerDay
+      note: $note
+    ) {
+      id
+    }
+  }
+`);
+
+const UPDATE_ALLOCATION_MUTATION = gql(`
+  mutation UpdateAllocation(
+    $id: ID!
+    $userId: ID
+    $projectId: ID
+    $taskId: ID
+    $startDate: String
+    $endDate: String
+    $hoursPerDay: Float
+    $note: String
+  ) {
+    updateAllocation(
+      id: $id
+      userId: $userId
+      projectId: $projectId
+      taskId: $taskId
+      startDate: $startDate
+      endDate: $endDate
+      hoursPerDay: $hoursPerDay
+      note: $note
+    ) {
+      id
+    }
+  }
+`);
+
+const DELETE_ALLOCATION_MUTATION = gql(`
+  mutation DeleteAllocation($id: ID!) {
+    deleteAllocation(id: $id)
+  }
+`);
+
+const SCHEDULE_WEEKS = 6;
+
+const formatHours = (seconds: number) => `${Number((seconds / 3600).toFixed(1))}h`;
+
+export default function SchedulePage() {
+	const { currentTeam } = useAuth();
+	const canManageTeam = useCanManageTeam();
+	const preferences = useUserPreferences();
+
+	const today = toLocalDate(new Date(), preferences?.timeZone ?? 'UTC');
+	const [weekOffset, setWeekOffset] = useState(0);
+
+	const [showAllocationDialog, setShowAllocationDialog] = useState(false);
+	const [editingAllocation, setEditingAllocation] = useState<any>(null);
+	const [allocationUserId, setAllocationUserId] = useState('');
+	const [allocationProjectId, setAllocationProjectId] = useState('');
+	const [allocationTaskId, setAllocationTaskId] = useState('');
+	const [allocationStartDate, setAllocationStartDate] = useState('');
+	const [allocationEndDate, setAllocationEndDate] = useState('');
+	const [allocationHours, setAllocationHours] = useState('');
+	const [allocationNote, setAllocationNote] = useState('');
+	const [allocationError, setAllocationError] = useState('');
+	const [error, setError] = useState('');
+
+	const [result, refetch] = useQuery({
+		query: RESOURCE_SCHEDULE_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+			fromDate: addDays(today, weekOffset * 7),
+			weeks: SCHEDULE_WEEKS,
+		},
+		pause: !currentTeam?.id || !preferences || !canManageTeam,
+	});
+
+	const [projectsResult] = useQuery({
+		query: LIST_PROJECTS_FOR_SCHEDULE_QUERY,
+		variables: {
+			args: {
+				teamId: currentTeam?.id || '',
+				limit: 100,
+				offset: 0,
+			},
+		},
+		pause: !currentTeam?.id || !showAllocationDialog,
+	});
+
+	const [tasksResult] = useQuery({
+		query: LIST_TASKS_FOR_SCHEDULE_QUERY,
+		variables: {
+			projectId: allocationProjectId,
+			status: 'active',
+		},
+		pause: !allocationProjectId || !showAllocationDialog,
+	});
+
+	const [createAllocationResult, createAllocation] = useMutation(CREATE_ALLOCATION_MUTATION);
+	const [updateAllocationResult, updateAllocation] = useMutation(UPDATE_ALLOCATION_MUTATION);
+	const [, deleteAllocation] = useMutation(DELETE_ALLOCATION_MUTATION);
+
+	if (!canManageTeam) {
+		return (
+			<div className="max-w-4xl">
+				<h1 className="text-3xl font-bold mb-6">Schedule</h1>
+				<div className="border border-yellow-500 rounded-lg p-4 bg-yellow-50 dark:bg-yellow-900/20">
+					<p className="text-yellow-700 dark:text-yellow-400">
+						Only team owners and admins can plan the team&apos;s schedule.
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	const schedule = result.data?.resourceSchedule;
+	const weeks = schedule?.weeks || [];
+	const projects = projectsResult.data?.projects.nodes || [];
+	const tasks = tasksResult.data?.project?.tasks.nodes || [];
+
+	// One row per member, with their projects below
+	const members: any[] = [];
+	for (const memberWeek of schedule?.memberWeeks || []) {
+		let member = members.find((m) => m.userId === memberWeek.userId);
+		if (!member) {
+			member = { userId: memberWeek.userId, user: memberWeek.user, weeks: {}, projects: [] };
+			members.push(member);
+		}
+		member.weeks[memberWeek.weekStart] = memberWeek;
+	}
+	for (const cell of schedule?.cells || []) {
+		const member = members.find((m) => m.userId === cell.userId);
+		if (!member) continue;
+		let project = member.projects.find((p: any) => p.project.id === cell.projectId);
+		if (!project) {
+			project = { project: cell.project, weeks: {} };
+			member.projects.push(project);
+		}
+		project.weeks[cell.weekStart] = cell;
+	}
+	const memberName = (member: any) => member.user.displayName || member.user.name;
+	members.sort((a, b) => memberName(a).localeCompare(memberName(b)));
+	for (const member of members) {
+		member.projects.sort((a: any, b: any) => a.project.name.localeCompare(b.project.name));
+	}
+
+	const openAllocationDialog = (allocation: any = null) => {
+		setEditingAllocation(allocation);
+		setAllocationUserId(allocation?.userId ?? '');
+		setAllocationProjectId(allocation?.projectId ?? '');
+		setAllocationTaskId(allocation?.taskId ?? '');
+		setAllocationStartDate(allocation?.startDate ?? weeks[0]?.weekStart ?? today);
+		setAllocationEndDate(allocation?.endDate ?? (weeks[0] ? addDays(weeks[0].weekStart, 4) : today));
+		setAllocationHours(allocation ? String(allocation.hoursPerDay) : '');
+		setAllocationNote(allocation?.note ?? '');
+		setAllocationError('');
+		setShowAllocationDialog(true);
+	};
+
+	const handleSaveAllocation = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setAllocationError('');
+
+		const hoursPerDay = parseFloat(allocationHours.replace(',', '.'));
+		if (isNaN(hoursPerDay) || hoursPerDay <= 0 || hoursPerDay > 24) {
+			setAllocationError('Hours per day must be more than 0 and at most 24');
+			return;
+		}
+
+		const variables = {
+			userId: allocationUserId,
+			projectId: allocationProjectId,
+			taskId: allocationTaskId || null,
+			startDate: allocationStartDate,
+			endDate: allocationEndDate,
+			hoursPerDay,
+			note: allocationNote.trim() || null,
+		};
+
+		const response = editingAllocation
+			? await updateAllocation({ id: editingAllocation.id, ...variables })
+			: await createAllocation({ teamId: currentTeam?.id || '', ...variables });
+
+		if (response.error) {
+			setAllocationError(response.error.message);
+			return;
+		}
+
+		setShowAllocationDialog(false);
+		refetch({ requestPolicy: 'network-only' });
+	};
+
+	const handleDeleteAllocation = async (allocation: any) => {
+		const name = allocation.user.displayName || allocation.user.name;
+		if (!confirm(`Delete the allocation of ${name} on ${allocation.project.name}?`)) return;
+
+		setError('');
+		const response = await deleteAllocation({ id: allocation.id });
+
+		if (response.error) {
+			setError(response.error.message);
+		} else {
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const formatWeek = (week: any) => formatLocalDate(week.weekStart, { month: 'short', day: 'numeric' });
+
+	const formatRange = (allocation: any) => {
+		const start = formatLocalDate(allocation.startDate);
+		return allocation.startDate === allocation.endDate ? start : `${start} – ${formatLocalDate(allocation.endDate)}`;
+	};
+
+	const conflictTitle = (memberWeek: any) => {
+		if (memberWeek.conflictDates.length === 0) return undefined;
+
+		const dates = memberWeek.conflictDates.map((date: string) =>
+			formatLocalDate(date, { weekday: 'short', month: 'short', day: 'numeric' })
+		);
+		return `More planned than expected on ${dates.join(', ')}`;
+	};
+
+	return (
+		<div>
+			<div className="flex items-center justify-between mb-6">
+				<h1 className="text-3xl font-bold dark:text-foreground">Schedule</h1>
+				<div className="flex items-center gap-2">
+					<Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset - SCHEDULE_WEEKS)}>
+						<ChevronLeft className="w-4 h-4" />
+					</Button>
+					<Button variant="outline" size="sm" onClick={() => setWeekOffset(0)} disabled={weekOffset === 0}>
+						This Week
+					</Button>
+					<Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset + SCHEDULE_WEEKS)}>
+						<ChevronRight className="w-4 h-4" />
+					</Button>
+					<Button onClick={() => openAllocationDialog()}>
+						<Plus className="w-4 h-4 mr-2" />
+						Allocate
+					</Button>
+				</div>
+			</div>
+
+			<p className="text-sm text-muted-foreground mb-6">
+				Planned hours per member and project, week by week, against logged time and each member&apos;s expected
+				hours (capacity less leave and holidays). Allocations plan their hours on every working day, so planning
+				over leave, holidays or beyond capacity shows as a conflict. Members without a capacity aren&apos;t checked.
+			</p>
+
+			{(error || result.error) && (
+				<div className="border border-red-500 rounded-lg p-4 bg-red-50 dark:bg-red-900/20 mb-6">
+					<p className="text-red-700 dark:text-red-400">{error || `Error loading schedule: ${result.error?.message}`}</p>
+				</div>
+			)}
+
+			{result.fetching && !schedule ? (
+				<div className="border dark:border-border rounded-lg p-12 text-center bg-card dark:bg-card">
+					<p className="text-muted-foreground dark:text-muted-foreground">Loading schedule...</p>
+				</div>
+			) : schedule && (
+				<>
+					<div className="border dark:border-border rounded-lg bg-card dark:bg-card overflow-x-auto mb-6">
+						<table className="w-full text-sm">
+							<thead>
+								<tr className="border-b dark:border-border text-left text-muted-foreground">
+									<th className="p-3 font-medium">Member / Project</th>
+									{weeks.map((week: any) => (
+										<th key={week.weekStart} className="p-3 font-medium text-right whitespace-nowrap">
+											{formatWeek(week)}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{members.map((member) => (
+									<Fragment key={member.userId}>
+										<tr className="border-b dark:border-border bg-muted/30">
+											<td className="p-3 font-semibold">{memberName(member)}</td>
+											{weeks.map((week: any) => {
+												const memberWeek = member.weeks[week.weekStart];
+												const hasConflict = memberWeek.conflictDates.length > 0;
+												return (
+													<td
+														key={week.weekStart}
+														title={conflictTitle(memberWeek)}
+														className={`p-3 text-right whitespace-nowrap ${
+															hasConflict ? 'text-red-600 dark:text-red-400 font-medium' : ''
+														}`}
+													>
+														{hasConflict && <AlertTriangle className="w-3 h-3 inline mr-1" />}
+														{formatHours(memberWeek.plannedSeconds)}
+														<span className="text-muted-foreground font-normal"> / {formatHours(memberWeek.expectedSeconds)}</span>
+													</td>
+												);
+											})}
+										</tr>
+										{member.projects.map((row: any) => (
+											<tr key={row.project.id} className="border-b dark:border-border">
+												<td className="p-3 pl-6">
+													<div className="flex items-center gap-2">
+														<div
+															className="w-3 h-3 rounded-full"
+															style={{ backgroundColor: row.project.color || '#6B7280' }}
+														/>
+														{row.project.code ? `[${row.project.code}] ` : ''}
+														{row.project.name}
+													</div>
+												</td>
+												{weeks.map((week: any) => {
+													const cell = row.weeks[week.weekStart];
+													return (
+														<td key={week.weekStart} className="p-3 text-right whitespace-nowrap">
+															{cell && (cell.plannedSeconds > 0 || cell.actualSeconds > 0) ? (
+																<>
+																	{formatHours(cell.actualSeconds)}
+																	<span className="text-muted-foreground"> / {formatHours(cell.plannedSeconds)}</span>
+																</>
+															) : (
+																<span className="text-muted-foreground">—</span>
+															)}
+														</td>
+													);
+												})}
+											</tr>
+										))}
+									</Fragment>
+								))}
+							</tbody>
+						</table>
+						<p className="text-xs text-muted-foreground p-3 border-t dark:border-border">
+							Members: planned / expected. Projects: logged / planned.
+						</p>
+					</div>
+
+					<div className="border dark:border-border rounded-lg bg-card dark:bg-card">
+						<div className="p-6 border-b dark:border-border">
+							<h2 className="text-lg font-semibold">Allocations</h2>
+						</div>
+						<div className="p-6">
+							{schedule.allocations.length === 0 ? (
+								<p className="text-muted-foreground text-center py-8">Nothing planned in these weeks</p>
+							) : (
+								<div className="space-y-3">
+									{schedule.allocations.map((allocation: any) => (
+										<div
+											key={allocation.id}
+											className="flex items-center justify-between p-4 border dark:border-border rounded-lg"
+										>
+											<div className="flex items-start gap-3">
+												<div
+													className="w-1 h-10 rounded-full mt-1"
+													style={{ backgroundColor: allocation.project.color || '#6B7280' }}
+												/>
+												<div>
+													<p className="font-medium">
+														{allocation.user.displayName || allocation.user.name}: {allocation.project.name}
+														{allocation.task && (
+															<span className="text-muted-foreground font-normal"> • {allocation.task.name}</span>
+														)}
+													</p>
+													<p className="text-sm text-muted-foreground">
+														{formatRange(allocation)} • {allocation.hoursPerDay}h/day
+														{allocation.note && ` • ${allocation.note}`}
+													</p>
+												</div>
+											</div>
+											<div className="flex items-center gap-1">
+												<Button size="sm" variant="ghost" onClick={() => openAllocationDialog(allocation)}>
+													<Pencil className="w-4 h-4" />
+												</Button>
+												<Button size="sm" variant="ghost" onClick={() => handleDeleteAllocation(allocation)}>
+													<X className="w-4 h-4" />
+												</Button>
+											</div>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+					</div>
+				</>
+			)}
+
+			<Dialog open={showAllocationDialog} onOpenChange={setShowAllocationDialog}>
+				<DialogContent className="max-w-lg">
+					<DialogHeader>
+						<DialogTitle>{editingAllocation ? 'Edit Allocation' : 'Allocate'}</DialogTitle>
+					</DialogHeader>
+
+					{allocationError && (
+						<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+							{allocationError}
+						</div>
+					)}
+
+					<form onSubmit={handleSaveAllocation} className="space-y-4">
+						<div>
+							<Label htmlFor="allocationUser">Member *</Label>
+							<select
+								id="allocationUser"
+								value={allocationUserId}
+								onChange={(e) => setAllocationUserId(e.target.value)}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+								required
+							>
+								<option value="">Select a member</option>
+								{members.map((member) => (
+									<option key={member.userId} value={member.userId}>
+										{memberName(member)}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div>
+							<Label htmlFor="allocationProject">Project *</Label>
+							<select
+								id="allocationProject"
+								value={allocationProjectId}
+								onChange={(e) => {
+									setAllocationProjectId(e.target.value);
+									setAllocationTaskId('');
+								}}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+								required
+							>
+								<option value="">Select a project</option>
+								{projects.map((project: any) => (
+									<option key={project.id} value={project.id}>
+										{project.code ? `[${project.code}] ` : ''}
+										{project.name}
+									</option>
+								))}
+							</select>
+						</div>
+
+						{allocationProjectId && tasks.length > 0 && (
+							<div>
+								<Label htmlFor="allocationTask">Task</Label>
+								<select
+									id="allocationTask"
+									value={allocationTaskId}
+									onChange={(e) => setAllocationTaskId(e.target.value)}
+									className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+								>
+									<option value="">Any task</option>
+									{tasks.map((task: any) => (
+										<option key={task.id} value={task.id}>
+											{task.name}
+										</option>
+									))}
+								</select>
+							</div>
+						)}
+
+						<div className="grid grid-cols-3 gap-4">
+							<div>
+								<Label htmlFor="allocationStartDate">First Day *</Label>
+								<Input
+									id="allocationStartDate"
+									type="date"
+									value={allocationStartDate}
+									onChange={(e) => {
+										setAllocationStartDate(e.target.value);
+										if (e.target.value > allocationEndDate) setAllocationEndDate(e.target.value);
+									}}
+									required
+								/>
+							</div>
+							<div>
+								<Label htmlFor="allocationEndDate">Last Day *</Label>
+								<Input
+									id="allocationEndDate"
+									type="date"
+									value={allocationEndDate}
+									min={allocationStartDate}
+									onChange={(e) => setAllocationEndDate(e.target.value)}
+									required
+								/>
+							</div>
+							<div>
+								<Label htmlFor="allocationHours">Hours per Day *</Label>
+								<Input
+									id="allocationHours"
+									value={allocationHours}
+									onChange={(e) => setAllocationHours(e.target.value)}
+									placeholder="e.g. 4"
+									inputMode="decimal"
+									required
+								/>
+							</div>
+						</div>
+
+						<div>
+							<Label htmlFor="allocationNote">Note</Label>
+							<Textarea
+								id="allocationNote"
+								value={allocationNote}
+								onChange={(e) => setAllocationNote(e.target.value)}
+								rows={2}
+							/>
+						</div>
+
+						<div className="flex gap-3">
+							<Button type="submit" disabled={createAllocationResult.fetching || updateAllocationResult.fetching}>
+								{editingAllocation ? 'Save' : 'Allocate'}
+							</Button>
+							<Button type="button" variant="outline" onClick={() => setShowAllocationDialog(false)}>
+								Cancel
+							</Button>
+						</div>
+					</form>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
+import { getBrowserTimeZone } from '@/lib/time-zones';
 
 const ME_QUERY = gql(`
   query Me {
@@ -16,6 +17,8 @@ const ME_QUERY = gql(`
       email
       name
       displayName
+      timeZone
+      weekStart
     }
   }
 `);
@@ -25,20 +28,28 @@ const UPDATE_PROFILE_MUTATION = gql(`
     $name: String
     $displayName: String
     $email: String
+    $timeZone: String
+    $weekStart: Int
   ) {
     updateUserProfile(
       name: $name
       displayName: $displayName
       email: $email
+      timeZone: $timeZone
+      weekStart: $weekStart
     ) {
       id
       email
       name
       displayName
+      timeZone
+      weekStart
     }
   }
 `);
 
+const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 const UPDATE_PASSWORD_MUTATION = gql(`
   mutation UpdateUserPassword(
     $currentPassword: String!
@@ -51,6 +62,34 @@ const UPDATE_PASSWORD_MUTATION = gql(`
   }
 `);
 
+const CALENDAR_FEED_QUERY = gql(`
+  query MyCalendarFeed {
+    myCalendarFeed {
+      id
+      path
+      lastAccessedAt
+      createdAt
+    }
+  }
+`);
+
+const CREATE_CALENDAR_FEED_MUTATION = gql(`
+  mutation CreateCalendarFeed {
+    createCalendarFeed {
+      id
+      path
+      lastAccessedAt
+      createdAt
+    }
+  }
+`);
+
+const REVOKE_CALENDAR_FEED_MUTATION = gql(`
+  mutation RevokeCalendarFeed {
+    revokeCalendarFeed
+  }
+`);
+
 export default function SettingsPage() {
   const { user } = useAuth();
 
@@ -61,6 +100,12 @@ export default function SettingsPage() {
   const [profileMessage, setProfileMessage] = useState('');
   const [profileError, setProfileError] = useState('');
 
+  // Time zone form state
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [weekStart, setWeekStart] = useState('1');
+  const [timeZoneMessage, setTimeZoneMessage] = useState('');
+  const [timeZoneError, setTimeZoneError] = useState('');
+
   // Password form state
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -68,13 +113,27 @@ export default function SettingsPage() {
   const [passwordMessage, setPasswordMessage] = useState('');
   const [passwordError, setPasswordError] = useState('');
 
+  // Calendar feed state
+  const [calendarFeedError, setCalendarFeedError] = useState('');
+  const [calendarFeedCopied, setCalendarFeedCopied] = useState(false);
+
   const [meResult] = useQuery({
     query: ME_QUERY,
     pause: !user,
   });
 
+  const [calendarFeedResult, refetchCalendarFeed] = useQuery({
+    query: CALENDAR_FEED_QUERY,
+    pause: !user,
+  });
+
   const [, updateProfileMutation] = useMutation(UPDATE_PROFILE_MUTATION);
   const [, updatePasswordMutation] = useMutation(UPDATE_PASSWORD_MUTATION);
+  const [createCalendarFeedResult, createCalendarFeedMutation] = useMutation(CREATE_CALENDAR_FEED_MUTATION);
+  const [revokeCalendarFeedResult, revokeCalendarFeedMutation] = useMutation(REVOKE_CALENDAR_FEED_MUTATION);
+
+  const calendarFeed = calendarFeedResult.data?.myCalendarFeed;
+  const calendarFeedUrl = calendarFeed && typeof window !== 'undefined' ? `${window.location.origin}${calendarFeed.path}` : '';
 
   // Initialize form with current user data
   useEffect(() => {
@@ -82,9 +141,14 @@ export default function SettingsPage() {
       setName(meResult.data.me.name || '');
       setDisplayName(meResult.data.me.displayName || '');
       setEmail(meResult.data.me.email || '');
+      setTimeZone(meResult.data.me.timeZone);
+      setWeekStart(String(meResult.data.me.weekStart));
     }
   }, [meResult.data]);
 
+  const browserTimeZone = getBrowserTimeZone();
+  const timeZones = Intl.supportedValuesOf('timeZone');
+
   const handleProfileSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setProfileMessage('');
@@ -104,6 +168,24 @@ export default function SettingsPage() {
     }
   };
 
+  const handleTimeZoneSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTimeZoneMessage('');
+    setTimeZoneError('');
+
+    const result = await updateProfileMutation({
+      timeZone,
+      weekStart: Number(weekStart),
+    });
+
+    if (result.error) {
+      setTimeZoneError(result.error.message);
+    } else {
+      setTimeZoneMessage('Time zone updated successfully');
+      setTimeout(() => setTimeZoneMessage(''), 3000);
+    }
+  };
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setPasswordMessage('');
@@ -137,6 +219,40 @@ export default function SettingsPage() {
     }
   };
 
+  const handleCreateCalendarFeed = async () => {
+    if (calendarFeed && !confirm('Generate a new feed URL? Calendars subscribed to the current URL will stop updating.')) {
+      return;
+    }
+    setCalendarFeedError('');
+
+    const result = await createCalendarFeedMutation({});
+    if (result.error) {
+      setCalendarFeedError(result.error.message);
+    } else {
+      refetchCalendarFeed({ requestPolicy: 'network-only' });
+    }
+  };
+
+  const handleRevokeCalendarFeed = async () => {
+    if (!confirm('Revoke the calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+    setCalendarFeedError('');
+
+    const result = await revokeCalendarFeedMutation({});
+    if (result.error) {
+      setCalendarFeedError(result.error.message);
+    } else {
+      refetchCalendarFeed({ requestPolicy: 'network-only' });
+    }
+  };
+
+  const handleCopyCalendarFeed = async () => {
+    await navigator.clipboard.writeText(calendarFeedUrl);
+    setCalendarFeedCopied(true);
+    setTimeout(() => setCalendarFeedCopied(false), 3000);
+  };
+
   if (meResult.fetching && !meResult.data) {
     return (
       <div className="p-12 text-center">
@@ -204,6 +320,71 @@ export default function SettingsPage() {
           </form>
         </Card>
 
+        {/* Time Zone Settings */}
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-2 dark:text-card-foreground">Time Zone</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Days and weeks in reports, the dashboard and invoices begin at midnight in this time zone.
+          </p>
+
+          <form onSubmit={handleTimeZoneSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="timeZone">Time Zone</Label>
+              <select
+                id="timeZone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+              >
+                {!timeZones.includes(timeZone) && <option value={timeZone}>{timeZone}</option>}
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+              {timeZone !== browserTimeZone && (
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Your browser is set to {browserTimeZone}.{' '}
+                  <button type="button" onClick={() => setTimeZone(browserTimeZone)} className="underline">
+                    Use it
+                  </button>
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="weekStart">Week Starts On</Label>
+              <select
+                id="weekStart"
+                value={weekStart}
+                onChange={(e) => setWeekStart(e.target.value)}
+                className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+              >
+                {WEEK_DAYS.map((day, index) => (
+                  <option key={day} value={index}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {timeZoneMessage && (
+              <div className="p-3 bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300 rounded-lg">
+                {timeZoneMessage}
+              </div>
+            )}
+
+            {timeZoneError && (
+              <div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+                {timeZoneError}
+              </div>
+            )}
+
+            <Button type="submit">Update Time Zone</Button>
+          </form>
+        </Card>
+
         {/* Password Settings */}
         <Card className="p-6">
           <h2 className="text-xl font-semibold mb-4 dark:text-card-foreground">Change Password</h2>
@@ -260,6 +441,61 @@ export default function SettingsPage() {
             <Button type="submit">Change Password</Button>
           </form>
         </Card>
+
+        {/* Calendar Feed */}
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-2 dark:text-card-foreground">Calendar Feed</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Subscribe to your time entries from Google Calendar, Outlook or Apple Calendar. Running timers show up as
+            tentative. Anyone with the URL can see your entries, so keep it private and revoke it if it leaks.
+          </p>
+
+          {calendarFeed ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={calendarFeedUrl} readOnly onFocus={(e) => e.target.select()} />
+                <Button type="button" variant="outline" onClick={handleCopyCalendarFeed}>
+                  {calendarFeedCopied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Includes the last 90 days by default; add <code>?from=YYYY-MM-DD&amp;to=YYYY-MM-DD</code> for another
+                range.{' '}
+                {calendarFeed.lastAccessedAt
+                  ? `Last fetched ${new Date(calendarFeed.lastAccessedAt).toLocaleString()}.`
+                  : 'Not fetched yet.'}
+              </p>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCreateCalendarFeed}
+                  disabled={createCalendarFeedResult.fetching}
+                >
+                  Generate New URL
+                </Button>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={handleRevokeCalendarFeed}
+                  disabled={revokeCalendarFeedResult.fetching}
+                >
+                  Revoke
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button type="button" onClick={handleCreateCalendarFeed} disabled={createCalendarFeedResult.fetching}>
+              Create Feed URL
+            </Button>
+          )}
+
+          {calendarFeedError && (
+            <div className="mt-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+              {calendarFeedError}
+            </div>
+          )}
+        </Card>
       </div>
     </div>
   );
@@ -11,7 +11,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { useRouter } from 'next/navigation';
-import { Settings, Users, Mail, Copy, Check, X, Trash2 } from 'lucide-react';
+import { addDays, formatLocalDate } from '@/lib/time-zones';
+import { Settings, Users, Mail, Copy, Check, X, Trash2, Lock, DollarSign, Tag, Pencil, Plane, CalendarDays, Gauge } from 'lucide-react';
 import Link from 'next/link';
 
 const TEAM_SETTINGS_QUERY = gql(`
@@ -21,12 +22,36 @@ const TEAM_SETTINGS_QUERY = gql(`
       name
       slug
       billingAddress
+      roundingMode
+      roundingIncrementMinutes
+      roundingMinimumMinutes
+      overlapPolicy
+      maxTimerHours
+      closedThrough
+    }
+    periodCloses(teamId: $teamId) {
+      id
+      closedThrough
+      closedAt
+      reopenedAt
+      reopenReason
+      closedByUser {
+        id
+        name
+        displayName
+      }
+      reopenedByUser {
+        id
+        name
+        displayName
+      }
     }
     teamMembers(teamId: $teamId) {
       id
       teamId
       userId
       role
+      hourlyRateCents
       user {
         id
         name
@@ -47,11 +72,34 @@ const TEAM_SETTINGS_QUERY = gql(`
 `);
 
 const UPDATE_TEAM_MUTATION = gql(`
-  mutation UpdateTeam($teamId: ID!, $name: String, $billingAddress: JSON) {
-    updateTeam(teamId: $teamId, name: $name, billingAddress: $billingAddress) {
+  mutation UpdateTeam(
+    $teamId: ID!
+    $name: String
+    $billingAddress: JSON
+    $roundingMode: String
+    $roundingIncrementMinutes: Int
+    $roundingMinimumMinutes: Int
+    $overlapPolicy: String
+    $maxTimerHours: Int
+  ) {
+    updateTeam(
+      teamId: $teamId
+      name: $name
+      billingAddress: $billingAddress
+      roundingMode: $roundingMode
+      roundingIncrementMinutes: $roundingIncrementMinutes
+      roundingMinimumMinutes: $roundingMinimumMinutes
+      overlapPolicy: $overlapPolicy
+      maxTimerHours: $maxTimerHours
+    ) {
       id
       name
       billingAddress
+      roundingMode
+      roundingIncrementMinutes
+      roundingMinimumMinutes
+      overlapPolicy
+      maxTimerHours
     }
   }
 `);
@@ -65,6 +113,15 @@ const UPDATE_MEMBER_ROLE_MUTATION = gql(`
   }
 `);
 
+const SET_MEMBER_RATE_MUTATION = gql(`
+  mutation SetTeamMemberRate($teamMembershipId: ID!, $hourlyRateCents: Int, $effectiveFrom: DateTime!) {
+    setHourlyRate(teamMembershipId: $teamMembershipId, hourlyRateCents: $hourlyRateCents, effectiveFrom: $effectiveFrom) {
+      id
+      hourlyRateCents
+    }
+  }
+`);
+
 const REMOVE_MEMBER_MUTATION = gql(`
   mutation RemoveTeamMember($membershipId: ID!) {
     removeTeamMember(membershipId: $membershipId)
@@ -89,6 +146,177 @@ const CANCEL_INVITE_MUTATION = gql(`
   }
 `);
 
+const CLOSE_PERIOD_MUTATION = gql(`
+  mutation ClosePeriod($teamId: ID!, $closedThrough: DateTime!) {
+    closePeriod(teamId: $teamId, closedThrough: $closedThrough) {
+      id
+      closedThrough
+    }
+  }
+`);
+
+const REOPEN_PERIOD_MUTATION = gql(`
+  mutation ReopenPeriod($id: ID!, $reason: String!) {
+    reopenPeriod(id: $id, reason: $reason) {
+      id
+      reopenedAt
+    }
+  }
+`);
+
+const COST_RATES_QUERY = gql(`
+  query CostRates($teamId: ID!) {
+    costRates(teamId: $teamId) {
+      id
+      userId
+      hourlyCostCents
+      effectiveFrom
+      effectiveTo
+      user {
+        id
+        name
+        displayName
+      }
+    }
+  }
+`);
+
+const SET_COST_RATE_MUTATION = gql(`
+  mutation SetCostRate($teamId: ID!, $userId: ID!, $hourlyCostCents: Int!, $effectiveFrom: DateTime!) {
+    setCostRate(teamId: $teamId, userId: $userId, hourlyCostCents: $hourlyCostCents, effectiveFrom: $effectiveFrom) {
+      id
+    }
+  }
+`);
+
+const DELETE_COST_RATE_MUTATION = gql(`
+  mutation DeleteCostRate($id: ID!) {
+    deleteCostRate(id: $id)
+  }
+`);
+
+const MEMBER_CAPACITIES_QUERY = gql(`
+  query MemberCapacities($teamId: ID!) {
+    memberCapacities(teamId: $teamId) {
+      id
+      userId
+      weekdayHours
+      weeklyHours
+      effectiveFrom
+      effectiveTo
+      user {
+        id
+        name
+        displayName
+      }
+    }
+  }
+`);
+
+const SET_MEMBER_CAPACITY_MUTATION = gql(`
+  mutation SetMemberCapacity($teamId: ID!, $userId: ID!, $weekdayHours: [Float!]!, $effectiveFrom: String!) {
+    setMemberCapacity(teamId: $teamId, userId: $userId, weekdayHours: $weekdayHours, effectiveFrom: $effectiveFrom) {
+      id
+    }
+  }
+`);
+
+const DELETE_MEMBER_CAPACITY_MUTATION = gql(`
+  mutation DeleteMemberCapacity($id: ID!) {
+    deleteMemberCapacity(id: $id)
+  }
+`);
+
+// Capacity lists hours per weekday, Sunday first
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_WEEKDAY_HOURS = ['0', '8', '8', '8', '8', '8', '0'];
+
+const TIME_ENTRY_TAGS_QUERY = gql(`
+  query TimeEntryTags($teamId: ID!) {
+    timeEntryTags(teamId: $teamId) {
+      id
+      name
+    }
+  }
+`);
+
+const CREATE_TIME_ENTRY_TAG_MUTATION = gql(`
+  mutation CreateTimeEntryTag($teamId: ID!, $name: String!) {
+    createTimeEntryTag(teamId: $teamId, name: $name) {
+      id
+    }
+  }
+`);
+
+const UPDATE_TIME_ENTRY_TAG_MUTATION = gql(`
+  mutation UpdateTimeEntryTag($id: ID!, $name: String) {
+    updateTimeEntryTag(id: $id, name: $name) {
+      id
+      name
+    }
+  }
+`);
+
+const DELETE_TIME_ENTRY_TAG_MUTATION = gql(`
+  mutation DeleteTimeEntryTag($id: ID!) {
+    deleteTimeEntryTag(id: $id)
+  }
+`);
+
+const LEAVE_SETTINGS_QUERY = gql(`
+  query LeaveSettings($teamId: ID!, $fromDate: String) {
+    leaveTypes(teamId: $teamId) {
+      id
+      name
+      paid
+    }
+    teamHolidays(teamId: $teamId, fromDate: $fromDate) {
+      id
+      date
+      name
+    }
+  }
+`);
+
+const CREATE_LEAVE_TYPE_MUTATION = gql(`
+  mutation CreateLeaveType($teamId: ID!, $name: String!, $paid: Boolean) {
+    createLeaveType(teamId: $teamId, name: $name, paid: $paid) {
+      id
+    }
+  }
+`);
+
+const ARCHIVE_LEAVE_TYPE_MUTATION = gql(`
+  mutation ArchiveLeaveType($id: ID!) {
+    archiveLeaveType(id: $id) {
+      id
+      archivedAt
+    }
+  }
+`);
+
+const CREATE_TEAM_HOLIDAY_MUTATION = gql(`
+  mutation CreateTeamHoliday($teamId: ID!, $date: String!, $name: String!) {
+    createTeamHoliday(teamId: $teamId, date: $date, name: $name) {
+      id
+    }
+  }
+`);
+
+const DELETE_TEAM_HOLIDAY_MUTATION = gql(`
+  mutation DeleteTeamHoliday($id: ID!) {
+    deleteTeamHoliday(id: $id)
+  }
+`);
+
+const IMPORT_TEAM_HOLIDAYS_MUTATION = gql(`
+  mutation ImportTeamHolidays($teamId: ID!, $ics: String!) {
+    importTeamHolidays(teamId: $teamId, ics: $ics) {
+      id
+    }
+  }
+`);
+
 export default function TeamSettingsPage() {
 	const { currentTeam, user } = useAuth();
 	const canManageTeam = useCanManageTeam();
@@ -101,6 +329,13 @@ export default function TeamSettingsPage() {
 	const [postalCode, setPostalCode] = useState('');
 	const [country, setCountry] = useState('United States');
 
+	const [roundingMode, setRoundingMode] = useState('none');
+	const [roundingIncrement, setRoundingIncrement] = useState('');
+	const [roundingMinimum, setRoundingMinimum] = useState('');
+
+	const [overlapPolicy, setOverlapPolicy] = useState('allow');
+	const [maxTimerHours, setMaxTimerHours] = useState('');
+
 	const [showInviteDialog, setShowInviteDialog] = useState(false);
 	const [inviteEmail, setInviteEmail] = useState('');
 	const [inviteRole, setInviteRole] = useState('MEMBER');
@@ -111,6 +346,34 @@ export default function TeamSettingsPage() {
 	const [showRemoveDialog, setShowRemoveDialog] = useState(false);
 	const [memberToRemove, setMemberToRemove] = useState<any>(null);
 
+	const [memberToRate, setMemberToRate] = useState<any>(null);
+	const [memberRate, setMemberRate] = useState('');
+
+	const [costRateUserId, setCostRateUserId] = useState('');
+	const [costRateAmount, setCostRateAmount] = useState('');
+	const [costRateFrom, setCostRateFrom] = useState('');
+	const [costRateError, setCostRateError] = useState('');
+
+	const [capacityUserId, setCapacityUserId] = useState('');
+	const [capacityFrom, setCapacityFrom] = useState('');
+	const [capacityHours, setCapacityHours] = useState<string[]>(DEFAULT_WEEKDAY_HOURS);
+	const [capacityError, setCapacityError] = useState('');
+
+	const [newTagName, setNewTagName] = useState('');
+	const [tagError, setTagError] = useState('');
+
+	const [newLeaveTypeName, setNewLeaveTypeName] = useState('');
+	const [newLeaveTypePaid, setNewLeaveTypePaid] = useState(true);
+	const [holidayDate, setHolidayDate] = useState('');
+	const [holidayName, setHolidayName] = useState('');
+	const [leaveError, setLeaveError] = useState('');
+	const [holidayImportMessage, setHolidayImportMessage] = useState('');
+
+	const [closeThroughDate, setCloseThroughDate] = useState('');
+	const [periodError, setPeriodError] = useState('');
+	const [periodToReopen, setPeriodToReopen] = useState<any>(null);
+	const [reopenReason, setReopenReason] = useState('');
+
 	const [result, refetch] = useQuery({
 		query: TEAM_SETTINGS_QUERY,
 		variables: {
@@ -119,11 +382,61 @@ export default function TeamSettingsPage() {
 		pause: !currentTeam?.id,
 	});
 
+	// Cost rates are only visible to owners and admins
+	const [costRatesResult, refetchCostRates] = useQuery({
+		query: COST_RATES_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id || !canManageTeam,
+	});
+
+	const [capacitiesResult, refetchCapacities] = useQuery({
+		query: MEMBER_CAPACITIES_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id || !canManageTeam,
+	});
+
+	const [tagsResult, refetchTags] = useQuery({
+		query: TIME_ENTRY_TAGS_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id || !canManageTeam,
+	});
+
+	// Holidays from the start of this year on
+	const [leaveSettingsResult, refetchLeaveSettings] = useQuery({
+		query: LEAVE_SETTINGS_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+			fromDate: `${new Date().getFullYear()}-01-01`,
+		},
+		pause: !currentTeam?.id || !canManageTeam,
+	});
+
 	const [, updateTeam] = useMutation(UPDATE_TEAM_MUTATION);
 	const [, updateMemberRole] = useMutation(UPDATE_MEMBER_ROLE_MUTATION);
 	const [, removeMember] = useMutation(REMOVE_MEMBER_MUTATION);
+	const [, setMemberRateMutation] = useMutation(SET_MEMBER_RATE_MUTATION);
 	const [, createInvite] = useMutation(CREATE_INVITE_MUTATION);
 	const [, cancelInvite] = useMutation(CANCEL_INVITE_MUTATION);
+	const [, closePeriod] = useMutation(CLOSE_PERIOD_MUTATION);
+	const [, reopenPeriod] = useMutation(REOPEN_PERIOD_MUTATION);
+	const [, setCostRate] = useMutation(SET_COST_RATE_MUTATION);
+	const [, deleteCostRate] = useMutation(DELETE_COST_RATE_MUTATION);
+	const [, setMemberCapacity] = useMutation(SET_MEMBER_CAPACITY_MUTATION);
+	const [, deleteMemberCapacity] = useMutation(DELETE_MEMBER_CAPACITY_MUTATION);
+	const [, createTimeEntryTag] = useMutation(CREATE_TIME_ENTRY_TAG_MUTATION);
+	const [, updateTimeEntryTag] = useMutation(UPDATE_TIME_ENTRY_TAG_MUTATION);
+	const [, deleteTimeEntryTag] = useMutation(DELETE_TIME_ENTRY_TAG_MUTATION);
+	const [, createLeaveType] = useMutation(CREATE_LEAVE_TYPE_MUTATION);
+	const [, archiveLeaveType] = useMutation(ARCHIVE_LEAVE_TYPE_MUTATION);
+	const [, createTeamHoliday] = useMutation(CREATE_TEAM_HOLIDAY_MUTATION);
+	const [, deleteTeamHoliday] = useMutation(DELETE_TEAM_HOLIDAY_MUTATION);
+	const [importHolidaysResult, importTeamHolidays] = useMutation(IMPORT_TEAM_HOLIDAYS_MUTATION);
 
 	// Initialize form when data loads
 	useEffect(() => {
@@ -137,6 +450,11 @@ export default function TeamSettingsPage() {
 				setPostalCode(addr.postalCode || '');
 				setCountry(addr.country || 'United States');
 			}
+			setRoundingMode(result.data.team.roundingMode || 'none');
+			setRoundingIncrement(result.data.team.roundingIncrementMinutes?.toString() || '');
+			setRoundingMinimum(result.data.team.roundingMinimumMinutes?.toString() || '');
+			setOverlapPolicy(result.data.team.overlapPolicy || 'allow');
+			setMaxTimerHours(result.data.team.maxTimerHours?.toString() || '');
 		}
 	}, [result.data]);
 
@@ -191,6 +509,46 @@ export default function TeamSettingsPage() {
 		}
 	};
 
+	const handleUpdateRounding = async () => {
+		const response = await updateTeam({
+			teamId: currentTeam?.id || '',
+			roundingMode,
+			roundingIncrementMinutes: roundingIncrement ? parseInt(roundingIncrement, 10) : null,
+			roundingMinimumMinutes: roundingMinimum ? parseInt(roundingMinimum, 10) : null,
+		});
+
+		if (!response.error) {
+			alert('Rounding rules updated successfully');
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleUpdateOverlapPolicy = async () => {
+		const response = await updateTeam({
+			teamId: currentTeam?.id || '',
+			overlapPolicy,
+		});
+
+		if (!response.error) {
+			alert('Overlap policy updated successfully');
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleUpdateMaxTimerHours = async () => {
+		const response = await updateTeam({
+			teamId: currentTeam?.id || '',
+			maxTimerHours: maxTimerHours ? parseInt(maxTimerHours, 10) : null,
+		});
+
+		if (response.error) {
+			alert(response.error.message);
+		} else {
+			alert('Timer limit updated successfully');
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
 	const handleChangeRole = async (membershipId: string, newRole: string) => {
 		const response = await updateMemberRole({
 			membershipId,
@@ -202,6 +560,24 @@ export default function TeamSettingsPage() {
 		}
 	};
 
+	const handleSaveMemberRate = async () => {
+		if (!memberToRate) return;
+
+		const response = await setMemberRateMutation({
+			teamMembershipId: memberToRate.id,
+			hourlyRateCents: memberRate ? Math.round(parseFloat(memberRate) * 100) : null,
+			effectiveFrom: new Date().toISOString(),
+		});
+
+		if (response.error) {
+			alert('Failed to update member rate: ' + response.error.message);
+		} else {
+			setMemberToRate(null);
+			setMemberRate('');
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
 	const handleRemoveMember = async () => {
 		if (!memberToRemove) return;
 
@@ -253,6 +629,242 @@ export default function TeamSettingsPage() {
 		}
 	};
 
+	const handleSetCostRate = async () => {
+		if (!costRateUserId || !costRateAmount || !costRateFrom) return;
+
+		setCostRateError('');
+		const response = await setCostRate({
+			teamId: currentTeam?.id || '',
+			userId: costRateUserId,
+			hourlyCostCents: Math.round(parseFloat(costRateAmount) * 100),
+			effectiveFrom: new Date(`${costRateFrom}T00:00`).toISOString(),
+		});
+
+		if (response.error) {
+			setCostRateError(response.error.message);
+		} else {
+			setCostRateUserId('');
+			setCostRateAmount('');
+			setCostRateFrom('');
+			refetchCostRates({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleDeleteCostRate = async (id: string) => {
+		if (!confirm('Delete this cost rate? Costs of logged time will be recalculated.')) return;
+
+		setCostRateError('');
+		const response = await deleteCostRate({ id });
+
+		if (response.error) {
+			setCostRateError(response.error.message);
+		} else {
+			refetchCostRates({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleSetCapacity = async () => {
+		if (!capacityUserId || !capacityFrom) return;
+
+		const weekdayHours = capacityHours.map((hours) => parseFloat(hours.replace(',', '.')) || 0);
+
+		setCapacityError('');
+		const response = await setMemberCapacity({
+			teamId: currentTeam?.id || '',
+			userId: capacityUserId,
+			weekdayHours,
+			effectiveFrom: capacityFrom,
+		});
+
+		if (response.error) {
+			setCapacityError(response.error.message);
+		} else {
+			setCapacityUserId('');
+			setCapacityFrom('');
+			setCapacityHours(DEFAULT_WEEKDAY_HOURS);
+			refetchCapacities({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleDeleteCapacity = async (id: string) => {
+		if (!confirm('Delete this capacity?')) return;
+
+		setCapacityError('');
+		const response = await deleteMemberCapacity({ id });
+
+		if (response.error) {
+			setCapacityError(response.error.message);
+		} else {
+			refetchCapacities({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleCreateTag = async () => {
+		if (!newTagName.trim()) return;
+
+		setTagError('');
+		const response = await createTimeEntryTag({
+			teamId: currentTeam?.id || '',
+			name: newTagName.trim(),
+		});
+
+		if (response.error) {
+			setTagError(response.error.message);
+		} else {
+			setNewTagName('');
+			refetchTags({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleRenameTag = async (tag: any) => {
+		const name = prompt('Rename tag (time entries keep it under the new name):', tag.name);
+		if (!name || name.trim() === tag.name) return;
+
+		setTagError('');
+		const response = await updateTimeEntryTag({ id: tag.id, name: name.trim() });
+
+		if (response.error) {
+			setTagError(response.error.message);
+		} else {
+			refetchTags({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleDeleteTag = async (tag: any) => {
+		if (!confirm(`Delete the tag "${tag.name}"? It will be removed from all time entries.`)) return;
+
+		setTagError('');
+		const response = await deleteTimeEntryTag({ id: tag.id });
+
+		if (response.error) {
+			setTagError(response.error.message);
+		} else {
+			refetchTags({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleCreateLeaveType = async () => {
+		if (!newLeaveTypeName.trim()) return;
+
+		setLeaveError('');
+		const response = await createLeaveType({
+			teamId: currentTeam?.id || '',
+			name: newLeaveTypeName.trim(),
+			paid: newLeaveTypePaid,
+		});
+
+		if (response.error) {
+			setLeaveError(response.error.message);
+		} else {
+			setNewLeaveTypeName('');
+			setNewLeaveTypePaid(true);
+			refetchLeaveSettings({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleArchiveLeaveType = async (leaveType: any) => {
+		if (!confirm(`Archive "${leaveType.name}"? It can no longer be requested; existing leave keeps it.`)) return;
+
+		setLeaveError('');
+		const response = await archiveLeaveType({ id: leaveType.id });
+
+		if (response.error) {
+			setLeaveError(response.error.message);
+		} else {
+			refetchLeaveSettings({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleCreateHoliday = async () => {
+		if (!holidayDate || !holidayName.trim()) return;
+
+		setLeaveError('');
+		setHolidayImportMessage('');
+		const response = await createTeamHoliday({
+			teamId: currentTeam?.id || '',
+			date: holidayDate,
+			name: holidayName.trim(),
+		});
+
+		if (response.error) {
+			setLeaveError(response.error.message);
+		} else {
+			setHolidayDate('');
+			setHolidayName('');
+			refetchLeaveSettings({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleDeleteHoliday = async (holiday: any) => {
+		if (!confirm(`Delete the holiday "${holiday.name}"?`)) return;
+
+		setLeaveError('');
+		const response = await deleteTeamHoliday({ id: holiday.id });
+
+		if (response.error) {
+			setLeaveError(response.error.message);
+		} else {
+			refetchLeaveSettings({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleImportHolidays = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+
+		setLeaveError('');
+		setHolidayImportMessage('');
+		const response = await importTeamHolidays({
+			teamId: currentTeam?.id || '',
+			ics: await file.text(),
+		});
+
+		if (response.error) {
+			setLeaveError(response.error.message);
+		} else {
+			setHolidayImportMessage(`Imported ${response.data.importTeamHolidays.length} holidays from ${file.name}.`);
+			refetchLeaveSettings({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleClosePeriod = async () => {
+		if (!closeThroughDate) return;
+
+		setPeriodError('');
+		const response = await closePeriod({
+			teamId: currentTeam?.id || '',
+			// Records dated before midnight of the chosen day are locked
+			closedThrough: new Date(`${closeThroughDate}T00:00:00`).toISOString(),
+		});
+
+		if (response.error) {
+			setPeriodError(response.error.message);
+		} else {
+			setCloseThroughDate('');
+			refetch({ requestPolicy: 'network-only' });
+		}
+	};
+
+	const handleReopenPeriod = async () => {
+		if (!periodToReopen || !reopenReason.trim()) return;
+
+		setPeriodError('');
+		const response = await reopenPeriod({
+			id: periodToReopen.id,
+			reason: reopenReason.trim(),
+		});
+
+		if (response.error) {
+			setPeriodError(response.error.message);
+		} else {
+			refetch({ requestPolicy: 'network-only' });
+		}
+
+		setPeriodToReopen(null);
+		setReopenReason('');
+	};
+
 	const copyInviteLink = (token: string) => {
 		const url = `${window.location.origin}/invite/${token}`;
 		navigator.clipboard.writeText(url);
@@ -277,6 +889,13 @@ export default function TeamSettingsPage() {
 		}
 	};
 
+	const formatCurrency = (cents: number) => {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency: 'USD',
+		}).format(cents / 100);
+	};
+
 	const formatDate = (date: string) => {
 		return new Date(date).toLocaleDateString('en-US', {
 			month: 'short',
@@ -370,6 +989,109 @@ export default function TeamSettingsPage() {
 						</div>
 					</div>
 
+					{/* Time Rounding */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<h2 className="text-xl font-semibold mb-2">Time Rounding</h2>
+						<p className="text-sm text-muted-foreground mb-4">
+							Applied to billable durations when time entries are stopped or saved. Clients and projects can
+							override these rules.
+						</p>
+						<div className="space-y-4">
+							<div className="grid grid-cols-3 gap-3">
+								<div>
+									<Label htmlFor="roundingMode">Rounding</Label>
+									<select
+										id="roundingMode"
+										value={roundingMode}
+										onChange={(e) => setRoundingMode(e.target.value)}
+										className="w-full px-3 py-2 border dark:border-border rounded-lg bg-background"
+									>
+										<option value="none">No rounding</option>
+										<option value="up">Round up</option>
+										<option value="down">Round down</option>
+										<option value="nearest">Round to nearest</option>
+									</select>
+								</div>
+								<div>
+									<Label htmlFor="roundingIncrement">Increment (minutes)</Label>
+									<Input
+										id="roundingIncrement"
+										type="number"
+										min="1"
+										value={roundingIncrement}
+										onChange={(e) => setRoundingIncrement(e.target.value)}
+										placeholder="15"
+										disabled={roundingMode === 'none'}
+									/>
+								</div>
+								<div>
+									<Label htmlFor="roundingMinimum">Minimum (minutes)</Label>
+									<Input
+										id="roundingMinimum"
+										type="number"
+										min="0"
+										value={roundingMinimum}
+										onChange={(e) => setRoundingMinimum(e.target.value)}
+										placeholder="0"
+									/>
+								</div>
+							</div>
+
+							<Button onClick={handleUpdateRounding}>Save Rounding Rules</Button>
+						</div>
+					</div>
+
+					{/* Overlapping Time Entries */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<h2 className="text-xl font-semibold mb-2">Overlapping Time Entries</h2>
+						<p className="text-sm text-muted-foreground mb-4">
+							Decide what happens when a member logs time that overlaps another of their entries, including
+							starting a second timer.
+						</p>
+						<div className="space-y-4">
+							<div>
+								<Label htmlFor="overlapPolicy">Policy</Label>
+								<select
+									id="overlapPolicy"
+									value={overlapPolicy}
+									onChange={(e) => setOverlapPolicy(e.target.value)}
+									className="w-full px-3 py-2 border dark:border-border rounded-lg bg-background"
+								>
+									<option value="allow">Allow overlaps</option>
+									<option value="warn">Allow, but warn</option>
+									<option value="reject">Reject overlapping entries</option>
+								</select>
+							</div>
+
+							<Button onClick={handleUpdateOverlapPolicy}>Save Overlap Policy</Button>
+						</div>
+					</div>
+
+					{/* Runaway Timers */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<h2 className="text-xl font-semibold mb-2">Runaway Timers</h2>
+						<p className="text-sm text-muted-foreground mb-4">
+							Timers running longer than this are stopped automatically at the limit, and their owner is asked
+							to correct the entry. Leave empty to never stop timers.
+						</p>
+						<div className="space-y-4">
+							<div>
+								<Label htmlFor="maxTimerHours">Maximum timer duration (hours)</Label>
+								<Input
+									id="maxTimerHours"
+									type="number"
+									min="1"
+									max="168"
+									value={maxTimerHours}
+									onChange={(e) => setMaxTimerHours(e.target.value)}
+									placeholder="No limit"
+								/>
+							</div>
+
+							<Button onClick={handleUpdateMaxTimerHours}>Save Timer Limit</Button>
+						</div>
+					</div>
+
 					{/* Team Members */}
 					<div className="border dark:border-border rounded-lg bg-card p-6">
 						<div className="flex items-center justify-between mb-4">
@@ -399,6 +1121,22 @@ export default function TeamSettingsPage() {
 										<p className="text-sm text-muted-foreground">{member.user.email}</p>
 									</div>
 									<div className="flex items-center gap-3">
+										<Button
+											size="sm"
+											variant="ghost"
+											title="Set default rate"
+											onClick={() => {
+												setMemberToRate(member);
+												setMemberRate(
+													member.hourlyRateCents !== null ? (member.hourlyRateCents / 100).toFixed(2) : ''
+												);
+											}}
+										>
+											<DollarSign className="w-4 h-4 mr-1" />
+											{member.hourlyRateCents !== null && member.hourlyRateCents !== undefined
+												? `${formatCurrency(member.hourlyRateCents)}/hr`
+												: 'No default rate'}
+										</Button>
 										{currentTeam?.role === 'OWNER' && member.role !== 'OWNER' ? (
 											<select
 												value={member.role}
@@ -435,6 +1173,398 @@ export default function TeamSettingsPage() {
 						</div>
 					</div>
 
+					{/* Cost Rates */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<DollarSign className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Cost Rates</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							What an hour of each member costs the team. Used for project profitability and only visible to
+							owners and admins. Logged time is costed with the rate in effect when it started.
+						</p>
+
+						{costRateError && (
+							<div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+								{costRateError}
+							</div>
+						)}
+
+						<div className="grid grid-cols-4 gap-3 items-end mb-4">
+							<div>
+								<Label htmlFor="costRateUser">Member</Label>
+								<select
+									id="costRateUser"
+									value={costRateUserId}
+									onChange={(e) => setCostRateUserId(e.target.value)}
+									className="w-full px-3 py-2 border dark:border-border rounded-md text-sm bg-background"
+								>
+									<option value="">Select a member</option>
+									{result.data?.teamMembers.map((member: any) => (
+										<option key={member.userId} value={member.userId}>
+											{member.user.displayName || member.user.name}
+										</option>
+									))}
+								</select>
+							</div>
+							<div>
+								<Label htmlFor="costRateFrom">Effective From</Label>
+								<Input
+									id="costRateFrom"
+									type="date"
+									value={costRateFrom}
+									onChange={(e) => setCostRateFrom(e.target.value)}
+								/>
+							</div>
+							<div>
+								<Label htmlFor="costRateAmount">Hourly Cost</Label>
+								<Input
+									id="costRateAmount"
+									type="number"
+									step="0.01"
+									min="0"
+									value={costRateAmount}
+									onChange={(e) => setCostRateAmount(e.target.value)}
+								/>
+							</div>
+							<Button
+								onClick={handleSetCostRate}
+								disabled={!costRateUserId || !costRateAmount || !costRateFrom}
+							>
+								Add Cost Rate
+							</Button>
+						</div>
+
+						{costRatesResult.data?.costRates && costRatesResult.data.costRates.length > 0 ? (
+							<div className="space-y-3">
+								{costRatesResult.data.costRates.map((costRate: any) => (
+									<div
+										key={costRate.id}
+										className="flex items-center justify-between p-4 border dark:border-border rounded-lg"
+									>
+										<div className="flex-1">
+											<p className="font-medium">
+												{costRate.user.displayName || costRate.user.name}:{' '}
+												{formatCurrency(costRate.hourlyCostCents)}/hr
+											</p>
+											<p className="text-sm text-muted-foreground">
+												From {formatDate(costRate.effectiveFrom)}
+												{costRate.effectiveTo && ` until ${formatDate(costRate.effectiveTo)}`}
+											</p>
+										</div>
+										<Button size="sm" variant="ghost" onClick={() => handleDeleteCostRate(costRate.id)}>
+											<X className="w-4 h-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+						) : (
+							<p className="text-sm text-muted-foreground">No cost rates recorded yet.</p>
+						)}
+					</div>
+
+					{/* Capacity */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<Gauge className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Capacity</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							How many hours each member is available per weekday. Expected hours are the capacity less
+							approved leave and holidays, and utilization compares logged time against them. Before a member&apos;s
+							first capacity takes effect, they aren&apos;t expected to work.
+						</p>
+
+						{capacityError && (
+							<div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+								{capacityError}
+							</div>
+						)}
+
+						<div className="grid grid-cols-3 gap-3 items-end mb-3">
+							<div>
+								<Label htmlFor="capacityUser">Member</Label>
+								<select
+									id="capacityUser"
+									value={capacityUserId}
+									onChange={(e) => setCapacityUserId(e.target.value)}
+									className="w-full px-3 py-2 border dark:border-border rounded-md text-sm bg-background"
+								>
+									<option value="">Select a member</option>
+									{result.data?.teamMembers.map((member: any) => (
+										<option key={member.userId} value={member.userId}>
+											{member.user.displayName || member.user.name}
+										</option>
+									))}
+								</select>
+							</div>
+							<div>
+								<Label htmlFor="capacityFrom">Effective From</Label>
+								<Input
+									id="capacityFrom"
+									type="date"
+									value={capacityFrom}
+									onChange={(e) => setCapacityFrom(e.target.value)}
+								/>
+							</div>
+							<Button onClick={handleSetCapacity} disabled={!capacityUserId || !capacityFrom}>
+								Set Capacity
+							</Button>
+						</div>
+						<div className="grid grid-cols-7 gap-2 mb-4">
+							{WEEKDAY_LABELS.map((label, index) => (
+								<div key={label}>
+									<Label htmlFor={`capacityHours${index}`}>{label}</Label>
+									<Input
+										id={`capacityHours${index}`}
+										type="number"
+										step="0.25"
+										min="0"
+										max="24"
+										value={capacityHours[index]}
+										onChange={(e) =>
+											setCapacityHours(capacityHours.map((hours, i) => (i === index ? e.target.value : hours)))
+										}
+									/>
+								</div>
+							))}
+						</div>
+
+						{capacitiesResult.data?.memberCapacities && capacitiesResult.data.memberCapacities.length > 0 ? (
+							<div className="space-y-3">
+								{capacitiesResult.data.memberCapacities.map((capacity: any) => (
+									<div
+										key={capacity.id}
+										className="flex items-center justify-between p-4 border dark:border-border rounded-lg"
+									>
+										<div className="flex-1">
+											<p className="font-medium">
+												{capacity.user.displayName || capacity.user.name}: {capacity.weeklyHours}h/week
+											</p>
+											<p className="text-sm text-muted-foreground">
+												{capacity.weekdayHours
+													.map((hours: number, index: number) => `${WEEKDAY_LABELS[index]} ${hours}`)
+													.join(' · ')}
+											</p>
+											<p className="text-sm text-muted-foreground">
+												From {formatLocalDate(capacity.effectiveFrom)}
+												{capacity.effectiveTo && ` through ${formatLocalDate(addDays(capacity.effectiveTo, -1))}`}
+											</p>
+										</div>
+										<Button size="sm" variant="ghost" onClick={() => handleDeleteCapacity(capacity.id)}>
+											<X className="w-4 h-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+						) : (
+							<p className="text-sm text-muted-foreground">No capacity recorded yet.</p>
+						)}
+					</div>
+
+					{/* Time Entry Tags */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<Tag className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Time Entry Tags</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							Tags members can put on their time entries, e.g. to mark meetings or support work across
+							projects. Only tags from this list can be used.
+						</p>
+
+						{tagError && (
+							<div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+								{tagError}
+							</div>
+						)}
+
+						<div className="flex gap-3 mb-4">
+							<Input
+								value={newTagName}
+								onChange={(e) => setNewTagName(e.target.value)}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter') {
+										e.preventDefault();
+										handleCreateTag();
+									}
+								}}
+								placeholder="New tag"
+								maxLength={50}
+							/>
+							<Button onClick={handleCreateTag} disabled={!newTagName.trim()}>
+								Add Tag
+							</Button>
+						</div>
+
+						{tagsResult.data?.timeEntryTags && tagsResult.data.timeEntryTags.length > 0 ? (
+							<div className="flex flex-wrap gap-2">
+								{tagsResult.data.timeEntryTags.map((tag: any) => (
+									<Badge key={tag.id} variant="secondary" className="flex items-center gap-1 text-sm">
+										{tag.name}
+										<button onClick={() => handleRenameTag(tag)} className="ml-1" aria-label="Rename tag">
+											<Pencil className="w-3 h-3" />
+										</button>
+										<button onClick={() => handleDeleteTag(tag)} aria-label="Delete tag">
+											<X className="w-3 h-3" />
+										</button>
+									</Badge>
+								))}
+							</div>
+						) : (
+							<p className="text-sm text-muted-foreground">No tags defined yet.</p>
+						)}
+					</div>
+
+					{/* Leave Types */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<Plane className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Leave Types</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							Kinds of time off members can request, e.g. vacation or sick leave. Requests are approved by
+							owners and admins, and approved leave counts toward expected hours without being billable.
+						</p>
+
+						{leaveError && (
+							<div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+								{leaveError}
+							</div>
+						)}
+
+						<div className="flex gap-3 mb-4">
+							<Input
+								value={newLeaveTypeName}
+								onChange={(e) => setNewLeaveTypeName(e.target.value)}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter') {
+										e.preventDefault();
+										handleCreateLeaveType();
+									}
+								}}
+								placeholder="New leave type"
+								maxLength={100}
+							/>
+							<select
+								value={newLeaveTypePaid ? 'paid' : 'unpaid'}
+								onChange={(e) => setNewLeaveTypePaid(e.target.value === 'paid')}
+								className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+							>
+								<option value="paid">Paid</option>
+								<option value="unpaid">Unpaid</option>
+							</select>
+							<Button onClick={handleCreateLeaveType} disabled={!newLeaveTypeName.trim()}>
+								Add Type
+							</Button>
+						</div>
+
+						{leaveSettingsResult.data?.leaveTypes && leaveSettingsResult.data.leaveTypes.length > 0 ? (
+							<div className="flex flex-wrap gap-2">
+								{leaveSettingsResult.data.leaveTypes.map((leaveType: any) => (
+									<Badge key={leaveType.id} variant="secondary" className="flex items-center gap-1 text-sm">
+										{leaveType.name}
+										{!leaveType.paid && <span className="text-muted-foreground">(unpaid)</span>}
+										<button
+											onClick={() => handleArchiveLeaveType(leaveType)}
+											className="ml-1"
+											aria-label="Archive leave type"
+										>
+											<X className="w-3 h-3" />
+										</button>
+									</Badge>
+								))}
+							</div>
+						) : (
+							<p className="text-sm text-muted-foreground">No leave types defined yet.</p>
+						)}
+					</div>
+
+					{/* Holidays */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<CalendarDays className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Holidays</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							Public holidays are a day off for every member. Import them from an .ics holiday calendar or
+							add them one by one; a date can have one holiday.
+						</p>
+
+						<div className="flex flex-wrap items-end gap-3 mb-4">
+							<div>
+								<Label htmlFor="holidayDate">Date</Label>
+								<Input
+									id="holidayDate"
+									type="date"
+									value={holidayDate}
+									onChange={(e) => setHolidayDate(e.target.value)}
+								/>
+							</div>
+							<div className="flex-1 min-w-48">
+								<Label htmlFor="holidayName">Name</Label>
+								<Input
+									id="holidayName"
+									value={holidayName}
+									onChange={(e) => setHolidayName(e.target.value)}
+									placeholder="e.g. New Year's Day"
+									maxLength={200}
+								/>
+							</div>
+							<Button onClick={handleCreateHoliday} disabled={!holidayDate || !holidayName.trim()}>
+								Add Holiday
+							</Button>
+						</div>
+
+						<div className="mb-4">
+							<Label htmlFor="holidayFile">Import from calendar (.ics)</Label>
+							<input
+								id="holidayFile"
+								type="file"
+								accept=".ics,text/calendar"
+								onChange={handleImportHolidays}
+								disabled={importHolidaysResult.fetching}
+								className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary file:text-primary-foreground mt-1"
+							/>
+							<p className="text-xs text-muted-foreground mt-1">
+								All-day events become holidays; an imported holiday replaces the one already on its date.
+							</p>
+							{holidayImportMessage && (
+								<p className="text-sm text-muted-foreground mt-2">{holidayImportMessage}</p>
+							)}
+						</div>
+
+						{leaveSettingsResult.data?.teamHolidays && leaveSettingsResult.data.teamHolidays.length > 0 ? (
+							<div className="divide-y divide-border dark:divide-border">
+								{leaveSettingsResult.data.teamHolidays.map((holiday: any) => (
+									<div key={holiday.id} className="flex items-center justify-between py-2">
+										<div>
+											<span className="font-medium">{holiday.name}</span>
+											<span className="text-sm text-muted-foreground ml-3">
+												{formatLocalDate(holiday.date, {
+													weekday: 'short',
+													month: 'short',
+													day: 'numeric',
+													year: 'numeric',
+												})}
+											</span>
+										</div>
+										<Button
+											size="sm"
+											variant="ghost"
+											onClick={() => handleDeleteHoliday(holiday)}
+											aria-label="Delete holiday"
+										>
+											<Trash2 className="w-4 h-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+						) : (
+							<p className="text-sm text-muted-foreground">No holidays this year.</p>
+						)}
+					</div>
+
 					{/* Pending Invites */}
 					{result.data?.teamInvites && result.data.teamInvites.length > 0 && (
 						<div className="border dark:border-border rounded-lg bg-card p-6">
@@ -485,6 +1615,82 @@ export default function TeamSettingsPage() {
 							</div>
 						</div>
 					)}
+
+					{/* Accounting Period */}
+					<div className="border dark:border-border rounded-lg bg-card p-6">
+						<div className="flex items-center gap-2 mb-4">
+							<Lock className="w-5 h-5" />
+							<h2 className="text-xl font-semibold">Accounting Period</h2>
+						</div>
+						<p className="text-sm text-muted-foreground mb-4">
+							{result.data?.team?.closedThrough
+								? `Time entries and invoices dated before ${formatDate(result.data.team.closedThrough)} are locked.`
+								: 'No accounting period has been closed.'}
+						</p>
+
+						{periodError && (
+							<div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+								{periodError}
+							</div>
+						)}
+
+						{currentTeam?.role === 'OWNER' && (
+							<div className="flex items-end gap-3 mb-4">
+								<div>
+									<Label htmlFor="closeThrough">Lock records before</Label>
+									<Input
+										id="closeThrough"
+										type="date"
+										value={closeThroughDate}
+										onChange={(e) => setCloseThroughDate(e.target.value)}
+									/>
+								</div>
+								<Button onClick={handleClosePeriod} disabled={!closeThroughDate}>
+									Close Period
+								</Button>
+							</div>
+						)}
+
+						{result.data?.periodCloses && result.data.periodCloses.length > 0 && (
+							<div className="space-y-3">
+								{result.data.periodCloses.map((period: any) => (
+									<div
+										key={period.id}
+										className="flex items-center justify-between p-4 border dark:border-border rounded-lg"
+									>
+										<div className="flex-1">
+											<p className="font-medium">Closed through {formatDate(period.closedThrough)}</p>
+											<p className="text-sm text-muted-foreground">
+												Closed on {formatDate(period.closedAt)}
+												{period.closedByUser && ` by ${period.closedByUser.displayName || period.closedByUser.name}`}
+											</p>
+											{period.reopenedAt && (
+												<p className="text-sm text-muted-foreground">
+													Reopened on {formatDate(period.reopenedAt)}
+													{period.reopenedByUser &&
+														` by ${period.reopenedByUser.displayName || period.reopenedByUser.name}`}
+													{period.reopenReason && `: ${period.reopenReason}`}
+												</p>
+											)}
+										</div>
+										{period.reopenedAt ? (
+											<Badge className="bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400">
+												reopened
+											</Badge>
+										) : currentTeam?.role === 'OWNER' ? (
+											<Button size="sm" variant="outline" onClick={() => setPeriodToReopen(period)}>
+												Reopen
+											</Button>
+										) : (
+											<Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+												closed
+											</Badge>
+										)}
+									</div>
+								))}
+							</div>
+						)}
+					</div>
 				</div>
 			)}
 
@@ -646,6 +1852,102 @@ export default function TeamSettingsPage() {
 					</div>
 				</DialogContent>
 			</Dialog>
+
+			{/* Member Rate Dialog */}
+			<Dialog
+				open={!!memberToRate}
+				onOpenChange={(open) => {
+					if (!open) {
+						setMemberToRate(null);
+						setMemberRate('');
+					}
+				}}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Default Hourly Rate</DialogTitle>
+						<DialogDescription>
+							Default rate of <strong>{memberToRate?.user?.displayName || memberToRate?.user?.name}</strong>{' '}
+							for time logged from now on. It applies on projects without a project or member rate; task
+							rates still take precedence.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4">
+						<div>
+							<Label htmlFor="memberRate">Hourly Rate</Label>
+							<Input
+								id="memberRate"
+								type="number"
+								step="0.01"
+								min="0"
+								value={memberRate}
+								onChange={(e) => setMemberRate(e.target.value)}
+								placeholder="No default rate"
+							/>
+						</div>
+						<div className="flex gap-3">
+							<Button onClick={handleSaveMemberRate}>Save Rate</Button>
+							<Button
+								variant="outline"
+								onClick={() => {
+									setMemberToRate(null);
+									setMemberRate('');
+								}}
+							>
+								Cancel
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			{/* Reopen Period Dialog */}
+			<Dialog
+				open={!!periodToReopen}
+				onOpenChange={(open) => {
+					if (!open) {
+						setPeriodToReopen(null);
+						setReopenReason('');
+					}
+				}}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Reopen Accounting Period</DialogTitle>
+						<DialogDescription>
+							Time entries and invoices dated before{' '}
+							{periodToReopen && formatDate(periodToReopen.closedThrough)} will become editable again.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4">
+						<div>
+							<Label htmlFor="reopenReason">Reason</Label>
+							<Textarea
+								id="reopenReason"
+								value={reopenReason}
+								onChange={(e) => setReopenReason(e.target.value)}
+								placeholder="Why does this period need to be reopened?"
+							/>
+						</div>
+						<div className="flex gap-3">
+							<Button onClick={handleReopenPeriod} disabled={!reopenReason.trim()}>
+								Reopen Period
+							</Button>
+							<Button
+								variant="outline"
+								onClick={() => {
+									setPeriodToReopen(null);
+									setReopenReason('');
+								}}
+							>
+								Cancel
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
 		</div>
 	);
 }
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation } from 'urql';
+import { useAuth } from '@/lib/auth-context';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { formatDuration } from '@/lib/time-utils';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+
+const IMPORT_TIME_ENTRIES_MUTATION = gql(`
+  mutation ImportTimeEntries(
+    $teamId: ID!
+    $format: String!
+    $csv: String!
+    $dryRun: Boolean
+  ) {
+    importTimeEntries(
+      teamId: $teamId
+      format: $format
+      csv: $csv
+      dryRun: $dryRun
+    ) {
+      dryRun
+      committed
+      errorCount
+      rows {
+        rowNumber
+        clientName
+        projectName
+        taskName
+        userEmail
+        note
+        startedAt
+        durationSeconds
+        billable
+        createsClient
+        createsProject
+        createsTask
+        errors
+      }
+    }
+  }
+`);
+
+const FORMATS = [
+	{ value: 'toggl', label: 'Toggl Track (Detailed report CSV)' },
+	{ value: 'clockify', label: 'Clockify (Detailed report CSV)' },
+	{ value: 'harvest', label: 'Harvest (Detailed time report CSV)' },
+];
+
+export default function ImportTimeEntriesPage() {
+	const router = useRouter();
+	const { currentTeam } = useAuth();
+	const [format, setFormat] = useState('toggl');
+	const [csv, setCsv] = useState('');
+	const [fileName, setFileName] = useState('');
+	const [preview, setPreview] = useState<any>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const [importResult, importTimeEntries] = useMutation(IMPORT_TIME_ENTRIES_MUTATION);
+
+	const formatDateTime = (date: string) => {
+		return new Date(date).toLocaleString('en-US', {
+			month: 'short',
+			day: 'numeric',
+			year: 'numeric',
+			hour: 'numeric',
+			minute: '2-digit',
+		});
+	};
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		setPreview(null);
+		setError(null);
+		setFileName(file?.name || '');
+		setCsv(file ? await file.text() : '');
+	};
+
+	const runImport = async (dryRun: boolean) => {
+		if (!currentTeam?.id || !csv) return;
+		setError(null);
+
+		const response = await importTimeEntries({
+			teamId: currentTeam.id,
+			format,
+			csv,
+			dryRun,
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		const result = response.data?.importTimeEntries;
+		if (!dryRun && result?.committed) {
+			alert(`Imported ${result.rows.length} time entries`);
+			router.push('/time');
+			return;
+		}
+
+		setPreview(result);
+	};
+
+	return (
+		<div>
+			<div className="mb-6">
+				<Link
+					href="/time"
+					className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4"
+				>
+					<ArrowLeft className="w-4 h-4 mr-2" />
+					Back to Time Tracking
+				</Link>
+				<h1 className="text-3xl font-bold dark:text-foreground">Import Time Entries</h1>
+				<p className="text-muted-foreground mt-1">
+					Clients, projects and tasks are matched by name and created when missing. Members are matched by
+					e-mail; rows without one are logged for you. Nothing is saved unless every row is valid.
+				</p>
+			</div>
+
+			{error && (
+				<div className="border border-red-500 rounded-lg p-4 bg-red-50 dark:bg-red-900/20 mb-6">
+					<p className="text-red-700 dark:text-red-400">{error}</p>
+				</div>
+			)}
+
+			<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card max-w-2xl mb-6">
+				<div className="space-y-4">
+					<div>
+						<Label htmlFor="format">Export Format</Label>
+						<select
+							id="format"
+							value={format}
+							onChange={(e) => {
+								setFormat(e.target.value);
+								setPreview(null);
+							}}
+							className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+						>
+							{FORMATS.map((option) => (
+								<option key={option.value} value={option.value}>
+									{option.label}
+								</option>
+							))}
+						</select>
+					</div>
+
+					<div>
+						<Label htmlFor="file">CSV File</Label>
+						<input
+							id="file"
+							type="file"
+							accept=".csv,text/csv"
+							onChange={handleFileChange}
+							className="block w-full text-sm text-muted-foreground file:mr-4 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-muted file:text-foreground"
+						/>
+					</div>
+
+					<div className="flex gap-3">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => runImport(true)}
+							disabled={!csv || importResult.fetching}
+						>
+							{importResult.fetching ? 'Checking...' : 'Preview'}
+						</Button>
+						<Button
+							type="button"
+							onClick={() => runImport(false)}
+							disabled={!preview || preview.errorCount > 0 || preview.rows.length === 0 || importResult.fetching}
+						>
+							Import {preview ? `${preview.rows.length} Entries` : ''}
+						</Button>
+					</div>
+				</div>
+			</div>
+
+			{preview && (
+				<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
+					<div className="flex items-center justify-between mb-4">
+						<h2 className="text-lg font-semibold dark:text-card-foreground">Preview of {fileName}</h2>
+						{preview.errorCount > 0 ? (
+							<Badge variant="destructive">
+								{preview.errorCount} of {preview.rows.length} rows have errors
+							</Badge>
+						) : (
+							<Badge variant="secondary">{preview.rows.length} rows ready to import</Badge>
+						)}
+					</div>
+
+					{preview.rows.length === 0 ? (
+						<p className="text-sm text-muted-foreground">The file has no time entries.</p>
+					) : (
+						<table className="w-full text-sm">
+							<thead>
+								<tr className="text-left text-muted-foreground border-b dark:border-border">
+									<th className="py-2 font-medium">Row</th>
+									<th className="py-2 font-medium">Started</th>
+									<th className="py-2 font-medium">Duration</th>
+									<th className="py-2 font-medium">Client / Project / Task</th>
+									<th className="py-2 font-medium">Member</th>
+									<th className="py-2 font-medium">Note</th>
+								</tr>
+							</thead>
+							<tbody>
+								{preview.rows.map((row: any) => (
+									<tr key={row.rowNumber} className="border-b dark:border-border last:border-0 align-top">
+										<td className="py-2">{row.rowNumber}</td>
+										<td className="py-2">{row.startedAt ? formatDateTime(row.startedAt) : '—'}</td>
+										<td className="py-2">{row.durationSeconds ? formatDuration(row.durationSeconds) : '—'}</td>
+										<td className="py-2">
+											{[row.clientName, row.projectName, row.taskName].filter(Boolean).join(' / ') || '—'}
+											{(row.createsClient || row.createsProject || row.createsTask) && (
+												<span className="ml-2 text-xs text-muted-foreground">
+													(new{' '}
+													{[
+														row.createsClient && 'client',
+														row.createsProject && 'project',
+														row.createsTask && 'task',
+													]
+														.filter(Boolean)
+														.join(', ')}
+													)
+												</span>
+											)}
+											{row.errors.map((rowError: string) => (
+												<p key={rowError} className="text-red-700 dark:text-red-400">
+													{rowError}
+												</p>
+											))}
+										</td>
+										<td className="py-2">{row.userEmail || 'You'}</td>
+										<td className="py-2 text-muted-foreground">{row.note || '—'}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,18 +1,29 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useQuery, useMutation } from 'urql';
+import { useQuery, useMutation, useSubscription } from 'urql';
 import { useAuth, useCanManageTeam, useCanAccessFinancials } from '@/lib/auth-context';
 import { gql } from '@/lib/gql';
+import { useOfflineQueue } from '@/lib/offline-queue';
 import { Timer } from '@/components/timer';
 import { TimeEntryModal } from '@/components/time-entry-modal';
+import { TimeEntryExport } from '@/components/time-entry-export';
+import { CalendarImportDialog } from '@/components/calendar-import-dialog';
+import { WeeklyTimesheetGrid } from '@/components/weekly-timesheet-grid';
+import { TimeEntryBulkActions } from '@/components/time-entry-bulk-actions';
+import { LeaveRequestDialog } from '@/components/leave-request-dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { formatDuration } from '@/lib/time-utils';
-import { List, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays, formatLocalDate, getBrowserTimeZone, getLocalWeekRange, startOfLocalDay, toLocalDate } from '@/lib/time-zones';
+import { useUserPreferences } from '@/lib/user-preferences';
+import { List, Calendar, Table, ChevronLeft, ChevronRight, Upload, Download, CalendarPlus, Plane } from 'lucide-react';
+import Link from 'next/link';
 
 const LIST_PROJECTS_QUERY = gql(`
   query ListProjects($args: ListArgs!) {
@@ -60,6 +71,15 @@ const LIST_TEAM_MEMBERS_QUERY = gql(`
   }
 `);
 
+const LIST_TIME_ENTRY_TAGS_FOR_FILTER_QUERY = gql(`
+  query ListTimeEntryTagsForFilter($teamId: ID!) {
+    timeEntryTags(teamId: $teamId) {
+      id
+      name
+    }
+  }
+`);
+
 const LIST_TIME_ENTRIES_QUERY = gql(`
   query ListTimeEntries(
     $teamId: ID!
@@ -70,6 +90,7 @@ const LIST_TIME_ENTRIES_QUERY = gql(`
     $from: DateTime
     $to: DateTime
     $billable: Boolean
+    $tags: [String!]
     $offset: Int = 0
     $limit: Int = 50
     $orderBy: String
@@ -84,6 +105,7 @@ const LIST_TIME_ENTRIES_QUERY = gql(`
       from: $from
       to: $to
       billable: $billable
+      tags: $tags
       offset: $offset
       limit: $limit
       orderBy: $orderBy
@@ -96,6 +118,7 @@ const LIST_TIME_ENTRIES_QUERY = gql(`
         stoppedAt
         durationSeconds
         billable
+        tags
         hourlyRateCents
         amountCents
         project {
@@ -121,23 +144,141 @@ const LIST_TIME_ENTRIES_QUERY = gql(`
   }
 `);
 
-const START_TIMER_MUTATION = gql(`
-  mutation StartTimer(
-    $projectId: ID!
-    $taskId: ID
-    $note: String
-    $billable: Boolean = true
-  ) {
-    startTimer(
-      projectId: $projectId
-      taskId: $taskId
-      note: $note
-      billable: $billable
-    ) {
+const TIMESHEET_QUERY = gql(`
+  query WeekTimesheet($teamId: ID!, $userId: ID!, $weekStart: DateTime!) {
+    timesheet(teamId: $teamId, userId: $userId, weekStart: $weekStart) {
+      id
+      status
+      submittedAt
+      reviewedAt
+      reviewComment
+      reviewer {
+        id
+        name
+      }
+    }
+  }
+`);
+
+const PENDING_TIMESHEETS_QUERY = gql(`
+  query PendingTimesheets($teamId: ID!) {
+    timesheets(teamId: $teamId, status: "submitted", limit: 50, order: "asc") {
+      nodes {
+        id
+        userId
+        weekStart
+        weekEnd
+        submittedAt
+        totalSeconds
+        user {
+          id
+          name
+          displayName
+        }
+      }
+      total
+    }
+  }
+`);
+
+const SUBMIT_TIMESHEET_MUTATION = gql(`
+  mutation SubmitTimesheet($teamId: ID!, $weekStart: DateTime!) {
+    submitTimesheet(teamId: $teamId, weekStart: $weekStart) {
+      id
+      status
+      submittedAt
+    }
+  }
+`);
+
+const APPROVE_TIMESHEET_MUTATION = gql(`
+  mutation ApproveTimesheet($id: ID!, $comment: String) {
+    approveTimesheet(id: $id, comment: $comment) {
       id
-      startedAt
-      note
-      billable
+      status
+      reviewedAt
+    }
+  }
+`);
+
+const REJECT_TIMESHEET_MUTATION = gql(`
+  mutation RejectTimesheet($id: ID!, $comment: String!) {
+    rejectTimesheet(id: $id, comment: $comment) {
+      id
+      status
+      reviewedAt
+      reviewComment
+    }
+  }
+`);
+
+const LEAVE_DAYS_QUERY = gql(`
+  query WeekLeaveDays($teamId: ID!, $userId: ID, $fromDate: String!, $toDate: String!) {
+    leaveDays(teamId: $teamId, userId: $userId, fromDate: $fromDate, toDate: $toDate, includePending: true) {
+      date
+      kind
+      name
+      paid
+      hours
+      pending
+      leaveRequestId
+      teamHolidayId
+    }
+  }
+`);
+
+const PENDING_LEAVE_REQUESTS_QUERY = gql(`
+  query PendingLeaveRequests($teamId: ID!) {
+    leaveRequests(teamId: $teamId, status: "pending", orderBy: "start_date", order: "asc", limit: 50) {
+      nodes {
+        id
+        userId
+        startDate
+        endDate
+        hoursPerDay
+        note
+        createdAt
+        leaveType {
+          id
+          name
+          paid
+        }
+        user {
+          id
+          name
+          displayName
+        }
+      }
+    }
+  }
+`);
+
+const APPROVE_LEAVE_REQUEST_MUTATION = gql(`
+  mutation ApproveLeaveRequest($id: ID!, $comment: String) {
+    approveLeaveRequest(id: $id, comment: $comment) {
+      id
+      status
+      reviewedAt
+    }
+  }
+`);
+
+const REJECT_LEAVE_REQUEST_MUTATION = gql(`
+  mutation RejectLeaveRequest($id: ID!, $comment: String!) {
+    rejectLeaveRequest(id: $id, comment: $comment) {
+      id
+      status
+      reviewedAt
+      reviewComment
+    }
+  }
+`);
+
+const TIME_ENTRY_EVENTS_SUBSCRIPTION = gql(`
+  subscription TimeEntryEvents($teamId: ID!, $userId: ID) {
+    timeEntryEvents(teamId: $teamId, userId: $userId) {
+      type
+      timeEntryId
     }
   }
 `);
@@ -147,24 +288,36 @@ export default function TimesheetsPage() {
 	const canManageTeam = useCanManageTeam();
 	const canAccessFinancials = useCanAccessFinancials();
 	const [showStartDialog, setShowStartDialog] = useState(false);
+	const [showExportDialog, setShowExportDialog] = useState(false);
+	const [showCalendarImportDialog, setShowCalendarImportDialog] = useState(false);
+	const [showLeaveDialog, setShowLeaveDialog] = useState(false);
 	const [selectedProjectId, setSelectedProjectId] = useState('');
 	const [selectedTaskId, setSelectedTaskId] = useState('');
 	const [note, setNote] = useState('');
 	const [showTimeEntryModal, setShowTimeEntryModal] = useState(false);
 	const [selectedTimeEntry, setSelectedTimeEntry] = useState<any>(null);
+	// Time entries ticked in the list view for bulk changes
+	const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
 	// Default to current user's ID for filtering
 	const [selectedUserId, setSelectedUserId] = useState<string>(user?.id || '');
+	// Tag filter of the list view
+	const [selectedTag, setSelectedTag] = useState('');
 
-	// View mode: 'list' or 'calendar'
-	const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
+	// View mode: 'list', 'calendar' or 'grid'
+	const [viewMode, setViewMode] = useState<'list' | 'calendar' | 'grid'>('list');
+	const isWeekView = viewMode === 'calendar' || viewMode === 'grid';
 
-	// Week navigation for calendar view
-	const [weekStart, setWeekStart] = useState(() => {
-		const today = new Date();
-		const day = today.getDay();
-		const diff = today.getDate() - day; // Sunday is 0
-		return new Date(today.setDate(diff));
-	});
+	// Days begin at midnight in the user's time zone
+	const preferences = useUserPreferences();
+	const timeZone = preferences?.timeZone ?? getBrowserTimeZone();
+
+	// Week navigation for calendar view, in weeks from the current one
+	const [weekOffset, setWeekOffset] = useState(0);
+	const weekStartDate = addDays(
+		getLocalWeekRange(toLocalDate(new Date(), timeZone), preferences?.weekStart).fromDate,
+		weekOffset * 7
+	);
+	const weekStart = startOfLocalDay(weekStartDate, timeZone);
 
 	// Update selectedUserId when user loads
 	useEffect(() => {
@@ -195,6 +348,15 @@ export default function TimesheetsPage() {
 		pause: !currentTeam?.id,
 	});
 
+	// Fetch the team's tags for the list filter
+	const [tagsResult] = useQuery({
+		query: LIST_TIME_ENTRY_TAGS_FOR_FILTER_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id,
+	});
+
 	// Fetch tasks for selected project in start timer dialog
 	const [tasksResult] = useQuery({
 		query: LIST_TASKS_FOR_START_TIMER_QUERY,
@@ -207,34 +369,26 @@ export default function TimesheetsPage() {
 
 	// Calculate week date range for calendar view
 	const getWeekDateRange = () => {
-		const weekEnd = new Date(weekStart);
-		weekEnd.setDate(weekEnd.getDate() + 6);
+		const to = startOfLocalDay(addDays(weekStartDate, 7), timeZone);
 		return {
 			from: weekStart.toISOString(),
-			to: weekEnd.toISOString(),
+			to: new Date(to.getTime() - 1).toISOString(),
 		};
 	};
 
 	const navigateWeek = (direction: 'prev' | 'next') => {
-		setWeekStart((current) => {
-			const newDate = new Date(current);
-			newDate.setDate(newDate.getDate() + (direction === 'next' ? 7 : -7));
-			return newDate;
-		});
+		setWeekOffset((current) => current + (direction === 'next' ? 1 : -1));
 	};
 
 	const goToToday = () => {
-		const today = new Date();
-		const day = today.getDay();
-		const diff = today.getDate() - day;
-		setWeekStart(new Date(today.setDate(diff)));
+		setWeekOffset(0);
 	};
 
 	// Fetch recent time entries
 	// Always default to current user's entries
 	// Admins can optionally select another user
 	const effectiveUserId = selectedUserId || user?.id || undefined;
-	const weekRange = viewMode === 'calendar' ? getWeekDateRange() : { from: undefined, to: undefined };
+	const weekRange = isWeekView ? getWeekDateRange() : { from: undefined, to: undefined };
 
 	const [timeEntriesResult, refetchTimeEntries] = useQuery({
 		query: LIST_TIME_ENTRIES_QUERY,
@@ -243,24 +397,205 @@ export default function TimesheetsPage() {
 			userId: effectiveUserId,
 			from: weekRange.from,
 			to: weekRange.to,
-			limit: viewMode === 'calendar' ? 500 : 20,
+			tags: !isWeekView && selectedTag ? [selectedTag] : undefined,
+			limit: isWeekView ? 500 : 20,
 			offset: 0,
 		},
 		pause: !currentTeam?.id,
 		requestPolicy: 'cache-and-network',
 	});
 
-	const [, startTimerMutation] = useMutation(START_TIMER_MUTATION);
+	// Keep the list current when the displayed user's entries change elsewhere
+	const [{ data: timeEntryEventData }] = useSubscription({
+		query: TIME_ENTRY_EVENTS_SUBSCRIPTION,
+		variables: {
+			teamId: currentTeam?.id || '',
+			userId: effectiveUserId,
+		},
+		pause: !currentTeam?.id || !effectiveUserId,
+	});
+
+	useEffect(() => {
+		if (timeEntryEventData) {
+			refetchTimeEntries({ requestPolicy: 'network-only' });
+		}
+	}, [timeEntryEventData, refetchTimeEntries]);
+
+	// Timesheets cover the displayed week, starting at midnight in the user's time zone
+	const timesheetWeekStart = weekStart;
+
+	const [timesheetResult, refetchTimesheet] = useQuery({
+		query: TIMESHEET_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+			userId: effectiveUserId || '',
+			weekStart: timesheetWeekStart.toISOString(),
+		},
+		pause: !currentTeam?.id || !effectiveUserId || !isWeekView,
+		requestPolicy: 'cache-and-network',
+	});
+
+	const [pendingTimesheetsResult, refetchPendingTimesheets] = useQuery({
+		query: PENDING_TIMESHEETS_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id,
+		requestPolicy: 'cache-and-network',
+	});
+
+	// Leave and holidays of the displayed week, including leave awaiting approval
+	const [leaveDaysResult, refetchLeaveDays] = useQuery({
+		query: LEAVE_DAYS_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+			userId: effectiveUserId,
+			fromDate: weekStartDate,
+			toDate: addDays(weekStartDate, 6),
+		},
+		pause: !currentTeam?.id || !effectiveUserId || viewMode !== 'calendar',
+		requestPolicy: 'cache-and-network',
+	});
+
+	const [pendingLeaveResult, refetchPendingLeave] = useQuery({
+		query: PENDING_LEAVE_REQUESTS_QUERY,
+		variables: {
+			teamId: currentTeam?.id || '',
+		},
+		pause: !currentTeam?.id || !canManageTeam,
+		requestPolicy: 'cache-and-network',
+	});
+
+	const { startTimer } = useOfflineQueue(currentTeam?.id);
+	const [submitTimesheetResult, submitTimesheetMutation] = useMutation(SUBMIT_TIMESHEET_MUTATION);
+	const [, approveTimesheetMutation] = useMutation(APPROVE_TIMESHEET_MUTATION);
+	const [, rejectTimesheetMutation] = useMutation(REJECT_TIMESHEET_MUTATION);
+	const [timesheetToReject, setTimesheetToReject] = useState<any>(null);
+	const [rejectComment, setRejectComment] = useState('');
+	const [timesheetError, setTimesheetError] = useState('');
+	const [, approveLeaveRequestMutation] = useMutation(APPROVE_LEAVE_REQUEST_MUTATION);
+	const [, rejectLeaveRequestMutation] = useMutation(REJECT_LEAVE_REQUEST_MUTATION);
+	const [leaveRequestToReject, setLeaveRequestToReject] = useState<any>(null);
 
 	const teamMembers = teamMembersResult.data?.teamMembers || [];
 	const projects = projectsResult.data?.projects.nodes || [];
+	const timeEntryTags = tagsResult.data?.timeEntryTags || [];
 	const tasks = tasksResult.data?.project?.tasks.nodes || [];
 	const timeEntries = timeEntriesResult.data?.timeEntries.nodes || [];
+	const weekTimesheet = timesheetResult.data?.timesheet || null;
+	// Own timesheets are listed in the week view, not as approvals
+	const pendingTimesheets = (pendingTimesheetsResult.data?.timesheets.nodes || []).filter(
+		(timesheet: any) => timesheet.userId !== user?.id
+	);
+	const isWeekLocked = weekTimesheet?.status === 'approved';
+	const leaveDays = leaveDaysResult.data?.leaveDays || [];
+	const pendingLeaveRequests = pendingLeaveResult.data?.leaveRequests.nodes || [];
+
+	const refreshTimesheets = () => {
+		refetchTimesheet({ requestPolicy: 'network-only' });
+		refetchPendingTimesheets({ requestPolicy: 'network-only' });
+	};
+
+	const handleSubmitTimesheet = async () => {
+		setTimesheetError('');
+		const result = await submitTimesheetMutation({
+			teamId: currentTeam?.id || '',
+			weekStart: timesheetWeekStart.toISOString(),
+		});
+
+		if (result.error) {
+			setTimesheetError(result.error.message);
+		} else {
+			refreshTimesheets();
+		}
+	};
+
+	const handleApproveTimesheet = async (timesheetId: string) => {
+		setTimesheetError('');
+		const result = await approveTimesheetMutation({ id: timesheetId });
+
+		if (result.error) {
+			setTimesheetError(result.error.message);
+		} else {
+			refreshTimesheets();
+		}
+	};
+
+	const handleRejectTimesheet = async () => {
+		if (!timesheetToReject || !rejectComment.trim()) return;
+
+		setTimesheetError('');
+		const result = await rejectTimesheetMutation({
+			id: timesheetToReject.id,
+			comment: rejectComment,
+		});
+
+		if (result.error) {
+			setTimesheetError(result.error.message);
+		} else {
+			setTimesheetToReject(null);
+			setRejectComment('');
+			refreshTimesheets();
+		}
+	};
+
+	const refreshLeave = () => {
+		refetchLeaveDays({ requestPolicy: 'network-only' });
+		refetchPendingLeave({ requestPolicy: 'network-only' });
+	};
+
+	const handleApproveLeaveRequest = async (leaveRequestId: string) => {
+		setTimesheetError('');
+		const result = await approveLeaveRequestMutation({ id: leaveRequestId });
+
+		if (result.error) {
+			setTimesheetError(result.error.message);
+		} else {
+			refreshLeave();
+		}
+	};
+
+	const handleRejectLeaveRequest = async () => {
+		if (!leaveRequestToReject || !rejectComment.trim()) return;
+
+		setTimesheetError('');
+		const result = await rejectLeaveRequestMutation({
+			id: leaveRequestToReject.id,
+			comment: rejectComment.trim(),
+		});
+
+		if (result.error) {
+			setTimesheetError(result.error.message);
+		} else {
+			setLeaveRequestToReject(null);
+			setRejectComment('');
+			refreshLeave();
+		}
+	};
+
+	const formatLeaveRange = (leaveRequest: any) => {
+		const start = formatLocalDate(leaveRequest.startDate);
+		return leaveRequest.startDate === leaveRequest.endDate
+			? start
+			: `${start} – ${formatLocalDate(leaveRequest.endDate)}`;
+	};
+
+	const getTimesheetBadgeColor = (status: string) => {
+		switch (status) {
+			case 'approved':
+				return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+			case 'rejected':
+				return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+			default:
+				return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+		}
+	};
 
 	const handleStartTimer = async () => {
 		if (!selectedProjectId) return;
 
-		const result = await startTimerMutation({
+		// Offline, the timer starts on this device and is synced once the connection returns
+		const result = await startTimer({
 			projectId: selectedProjectId,
 			taskId: selectedTaskId || undefined,
 			note: note || undefined,
@@ -273,6 +608,8 @@ export default function TimesheetsPage() {
 			setSelectedTaskId('');
 			setNote('');
 			refetchTimeEntries({ requestPolicy: 'network-only' });
+		} else {
+			alert('Failed to start timer: ' + result.error);
 		}
 	};
 
@@ -281,6 +618,7 @@ export default function TimesheetsPage() {
 			month: 'short',
 			day: 'numeric',
 			year: 'numeric',
+			timeZone,
 		});
 	};
 
@@ -288,6 +626,7 @@ export default function TimesheetsPage() {
 		return new Date(date).toLocaleTimeString('en-US', {
 			hour: 'numeric',
 			minute: '2-digit',
+			timeZone,
 		});
 	};
 
@@ -301,22 +640,20 @@ export default function TimesheetsPage() {
 
 	// Group time entries by day for calendar view
 	const groupEntriesByDay = () => {
-		const days: Array<{ date: Date; entries: any[] }> = [];
+		const days: Array<{ date: Date; entries: any[]; leave: any[] }> = [];
 
 		for (let i = 0; i < 7; i++) {
-			const date = new Date(weekStart);
-			date.setDate(date.getDate() + i);
-
-			const dayEntries = timeEntries.filter((entry: any) => {
-				const entryDate = new Date(entry.startedAt);
-				return (
-					entryDate.getFullYear() === date.getFullYear() &&
-					entryDate.getMonth() === date.getMonth() &&
-					entryDate.getDate() === date.getDate()
-				);
-			});
+			const localDate = addDays(weekStartDate, i);
+
+			const dayEntries = timeEntries.filter(
+				(entry: any) => toLocalDate(new Date(entry.startedAt), timeZone) === localDate
+			);
 
-			days.push({ date, entries: dayEntries });
+			days.push({
+				date: startOfLocalDay(localDate, timeZone),
+				entries: dayEntries,
+				leave: leaveDays.filter((leaveDay: any) => leaveDay.date === localDate),
+			});
 		}
 
 		return days;
@@ -334,12 +671,14 @@ export default function TimesheetsPage() {
 	const handleEditTimeEntry = (entry: any) => {
 		setSelectedTimeEntry({
 			id: entry.id,
+			userId: entry.user?.id,
 			projectId: entry.project.id,
 			taskId: entry.task?.id,
 			note: entry.note,
 			startedAt: entry.startedAt,
 			stoppedAt: entry.stoppedAt,
 			billable: entry.billable,
+			tags: entry.tags,
 		});
 		setShowTimeEntryModal(true);
 	};
@@ -367,6 +706,26 @@ export default function TimesheetsPage() {
 							</select>
 						</div>
 					)}
+					<Button variant="outline" size="sm" onClick={() => setShowExportDialog(true)}>
+						<Download className="w-4 h-4 mr-2" />
+						Export
+					</Button>
+					<Button variant="outline" size="sm" onClick={() => setShowCalendarImportDialog(true)}>
+						<CalendarPlus className="w-4 h-4 mr-2" />
+						From Calendar
+					</Button>
+					<Button variant="outline" size="sm" onClick={() => setShowLeaveDialog(true)}>
+						<Plane className="w-4 h-4 mr-2" />
+						Request Leave
+					</Button>
+					{canManageTeam && (
+						<Button variant="outline" size="sm" asChild>
+							<Link href="/time/import">
+								<Upload className="w-4 h-4 mr-2" />
+								Import
+							</Link>
+						</Button>
+					)}
 					<Timer
 						variant="compact"
 						onStart={() => setShowStartDialog(true)}
@@ -394,9 +753,17 @@ export default function TimesheetsPage() {
 						<Calendar className="w-4 h-4 mr-2" />
 						Calendar
 					</Button>
+					<Button
+						variant={viewMode === 'grid' ? 'default' : 'outline'}
+						size="sm"
+						onClick={() => setViewMode('grid')}
+					>
+						<Table className="w-4 h-4 mr-2" />
+						Grid
+					</Button>
 				</div>
 
-				{viewMode === 'calendar' && (
+				{isWeekView && (
 					<div className="flex items-center gap-2">
 						<Button variant="outline" size="sm" onClick={() => navigateWeek('prev')}>
 							<ChevronLeft className="w-4 h-4" />
@@ -405,13 +772,9 @@ export default function TimesheetsPage() {
 							Today
 						</Button>
 						<span className="text-sm font-medium px-4">
-							{weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+							{formatDate(weekStart.toISOString())}
 							{' - '}
-							{new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000).toLocaleDateString('en-US', {
-								month: 'short',
-								day: 'numeric',
-								year: 'numeric',
-							})}
+							{formatDate(startOfLocalDay(addDays(weekStartDate, 6), timeZone).toISOString())}
 						</span>
 						<Button variant="outline" size="sm" onClick={() => navigateWeek('next')}>
 							<ChevronRight className="w-4 h-4" />
@@ -420,6 +783,181 @@ export default function TimesheetsPage() {
 				)}
 			</div>
 
+			{timesheetError && (
+				<div className="mb-6 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+					{timesheetError}
+				</div>
+			)}
+
+			{/* Pending Timesheet Approvals */}
+			{pendingTimesheets.length > 0 && (
+				<div className="mb-6 border dark:border-border rounded-lg bg-card dark:bg-card overflow-hidden">
+					<div className="p-4 border-b dark:border-border">
+						<h2 className="text-lg font-semibold dark:text-card-foreground">Pending Approvals</h2>
+					</div>
+					<div className="divide-y divide-border dark:divide-border">
+						{pendingTimesheets.map((timesheet: any) => (
+							<div key={timesheet.id} className="flex items-center justify-between p-4">
+								<div>
+									<p className="font-medium">
+										{timesheet.user.displayName || timesheet.user.name}
+									</p>
+									<p className="text-sm text-muted-foreground">
+										Week of {formatDate(timesheet.weekStart)} • {formatDuration(timesheet.totalSeconds)} • Submitted{' '}
+										{formatDate(timesheet.submittedAt)}
+									</p>
+								</div>
+								<div className="flex gap-2">
+									<Button size="sm" onClick={() => handleApproveTimesheet(timesheet.id)}>
+										Approve
+									</Button>
+									<Button
+										size="sm"
+										variant="outline"
+										onClick={() => {
+											setTimesheetToReject(timesheet);
+											setRejectComment('');
+										}}
+									>
+										Reject
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+
+			{/* Pending Leave Requests */}
+			{pendingLeaveRequests.length > 0 && (
+				<div className="mb-6 border dark:border-border rounded-lg bg-card dark:bg-card overflow-hidden">
+					<div className="p-4 border-b dark:border-border">
+						<h2 className="text-lg font-semibold dark:text-card-foreground">Leave Requests</h2>
+					</div>
+					<div className="divide-y divide-border dark:divide-border">
+						{pendingLeaveRequests.map((leaveRequest: any) => (
+							<div key={leaveRequest.id} className="flex items-center justify-between p-4">
+								<div>
+									<p className="font-medium">
+										{leaveRequest.user.displayName || leaveRequest.user.name}
+									</p>
+									<p className="text-sm text-muted-foreground">
+										{leaveRequest.leaveType.name}
+										{!leaveRequest.leaveType.paid && ' (unpaid)'} • {formatLeaveRange(leaveRequest)}
+										{leaveRequest.hoursPerDay !== null && ` • ${leaveRequest.hoursPerDay}h/day`} • Requested{' '}
+										{formatDate(leaveRequest.createdAt)}
+									</p>
+									{leaveRequest.note && (
+										<p className="text-sm text-muted-foreground mt-1">{leaveRequest.note}</p>
+									)}
+								</div>
+								<div className="flex gap-2">
+									<Button size="sm" onClick={() => handleApproveLeaveRequest(leaveRequest.id)}>
+										Approve
+									</Button>
+									<Button
+										size="sm"
+										variant="outline"
+										onClick={() => {
+											setLeaveRequestToReject(leaveRequest);
+											setRejectComment('');
+										}}
+									>
+										Reject
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+
+			{/* Reject Leave Request Dialog */}
+			<Dialog open={!!leaveRequestToReject} onOpenChange={(open) => !open && setLeaveRequestToReject(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Reject Leave Request</DialogTitle>
+					</DialogHeader>
+
+					<div className="space-y-4">
+						<div>
+							<Label htmlFor="rejectLeaveComment">Comment *</Label>
+							<Textarea
+								id="rejectLeaveComment"
+								value={rejectComment}
+								onChange={(e) => setRejectComment(e.target.value)}
+								placeholder="Explain why the leave can't be approved"
+							/>
+						</div>
+
+						<div className="flex gap-3">
+							<Button variant="destructive" onClick={handleRejectLeaveRequest} disabled={!rejectComment.trim()}>
+								Reject
+							</Button>
+							<Button variant="outline" onClick={() => setLeaveRequestToReject(null)}>
+								Cancel
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			<LeaveRequestDialog
+				open={showLeaveDialog}
+				onOpenChange={setShowLeaveDialog}
+				teamId={currentTeam?.id || ''}
+				userId={user?.id || ''}
+				timeZone={timeZone}
+				onSuccess={refreshLeave}
+			/>
+
+			{/* Reject Timesheet Dialog */}
+			<Dialog open={!!timesheetToReject} onOpenChange={(open) => !open && setTimesheetToReject(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Reject Timesheet</DialogTitle>
+					</DialogHeader>
+
+					<div className="space-y-4">
+						<div>
+							<Label htmlFor="rejectComment">Comment *</Label>
+							<Textarea
+								id="rejectComment"
+								value={rejectComment}
+								onChange={(e) => setRejectComment(e.target.value)}
+								placeholder="Explain what needs to be corrected"
+							/>
+						</div>
+
+						<div className="flex gap-3">
+							<Button variant="destructive" onClick={handleRejectTimesheet} disabled={!rejectComment.trim()}>
+								Reject
+							</Button>
+							<Button variant="outline" onClick={() => setTimesheetToReject(null)}>
+								Cancel
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			<TimeEntryExport
+				open={showExportDialog}
+				onOpenChange={setShowExportDialog}
+				teamId={currentTeam?.id || ''}
+				userId={effectiveUserId}
+				projects={projects}
+				canManageTeam={canManageTeam}
+			/>
+
+			<CalendarImportDialog
+				open={showCalendarImportDialog}
+				onOpenChange={setShowCalendarImportDialog}
+				teamId={currentTeam?.id || ''}
+				projects={projects}
+				onSuccess={() => refetchTimeEntries({ requestPolicy: 'network-only' })}
+			/>
+
 			{/* Start Timer Dialog */}
 			<Dialog open={showStartDialog} onOpenChange={setShowStartDialog}>
 				<DialogContent>
@@ -502,23 +1040,48 @@ export default function TimesheetsPage() {
 			{viewMode === 'calendar' ? (
 				<div className="border dark:border-border rounded-lg bg-card dark:bg-card overflow-hidden">
 					<div className="p-6 border-b dark:border-border flex items-center justify-between">
-						<h2 className="text-xl font-semibold dark:text-card-foreground">Weekly Calendar</h2>
-						<Button size="sm" onClick={handleAddTimeEntry}>
-							Add Time Entry
-						</Button>
+						<div className="flex items-center gap-3">
+							<h2 className="text-xl font-semibold dark:text-card-foreground">Weekly Calendar</h2>
+							{weekTimesheet && (
+								<Badge className={getTimesheetBadgeColor(weekTimesheet.status)}>
+									{weekTimesheet.status}
+								</Badge>
+							)}
+						</div>
+						<div className="flex gap-2">
+							{effectiveUserId === user?.id && (!weekTimesheet || weekTimesheet.status === 'rejected') && (
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={handleSubmitTimesheet}
+									disabled={submitTimesheetResult.fetching}
+								>
+									Submit Week
+								</Button>
+							)}
+							<Button size="sm" onClick={handleAddTimeEntry} disabled={isWeekLocked}>
+								Add Time Entry
+							</Button>
+						</div>
 					</div>
 
+					{weekTimesheet?.reviewComment && (
+						<div className="px-6 py-3 border-b dark:border-border text-sm text-muted-foreground">
+							<span className="font-medium text-foreground">
+								{weekTimesheet.reviewer?.name || 'Reviewer'}:
+							</span>{' '}
+							{weekTimesheet.reviewComment}
+						</div>
+					)}
+
 					{timeEntriesResult.fetching ? (
 						<div className="p-12 text-center">
 							<p className="text-muted-foreground">Loading time entries...</p>
 						</div>
 					) : (
 						<div className="grid grid-cols-7 divide-x divide-border dark:divide-border">
-							{groupEntriesByDay().map(({ date, entries }, index) => {
-								const isToday =
-									date.getDate() === new Date().getDate() &&
-									date.getMonth() === new Date().getMonth() &&
-									date.getFullYear() === new Date().getFullYear();
+							{groupEntriesByDay().map(({ date, entries, leave }, index) => {
+								const isToday = toLocalDate(date, timeZone) === toLocalDate(new Date(), timeZone);
 								const dayTotal = getDayTotal(entries);
 
 								return (
@@ -531,14 +1094,14 @@ export default function TimesheetsPage() {
 										>
 											<div className="text-center">
 												<div className="text-xs font-medium text-muted-foreground uppercase">
-													{date.toLocaleDateString('en-US', { weekday: 'short' })}
+													{date.toLocaleDateString('en-US', { weekday: 'short', timeZone })}
 												</div>
 												<div
 													className={`text-lg font-semibold ${
 														isToday ? 'text-primary' : 'text-foreground'
 													}`}
 												>
-													{date.getDate()}
+													{date.toLocaleDateString('en-US', { day: 'numeric', timeZone })}
 												</div>
 												{dayTotal > 0 && (
 													<div className="text-xs text-muted-foreground mt-1">
@@ -550,6 +1113,26 @@ export default function TimesheetsPage() {
 
 										{/* Day Entries */}
 										<div className="flex-1 p-2 space-y-2 overflow-y-auto">
+											{leave.map((leaveDay: any) => (
+												<div
+													key={leaveDay.leaveRequestId || leaveDay.teamHolidayId}
+													className={`p-2 rounded text-xs ${
+														leaveDay.pending
+															? 'border border-dashed dark:border-border text-muted-foreground'
+															: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300'
+													}`}
+												>
+													<div className="font-semibold truncate">{leaveDay.name}</div>
+													<div className="truncate">
+														{leaveDay.kind === 'holiday'
+															? 'Holiday'
+															: leaveDay.hours !== null
+																? `${leaveDay.hours}h leave`
+																: 'Leave'}
+														{leaveDay.pending && ' (pending)'}
+													</div>
+												</div>
+											))}
 											{entries.map((entry: any) => (
 												<div
 													key={entry.id}
@@ -592,16 +1175,73 @@ export default function TimesheetsPage() {
 						</div>
 					)}
 				</div>
+			) : viewMode === 'grid' ? (
+				/* Grid View */
+				<div className="border dark:border-border rounded-lg bg-card dark:bg-card overflow-hidden">
+					<div className="p-6 border-b dark:border-border flex items-center gap-3">
+						<h2 className="text-xl font-semibold dark:text-card-foreground">Weekly Timesheet</h2>
+						{weekTimesheet && (
+							<Badge className={getTimesheetBadgeColor(weekTimesheet.status)}>
+								{weekTimesheet.status}
+							</Badge>
+						)}
+					</div>
+
+					{timeEntriesResult.fetching && !timeEntriesResult.data ? (
+						<div className="p-12 text-center">
+							<p className="text-muted-foreground">Loading time entries...</p>
+						</div>
+					) : (
+						<WeeklyTimesheetGrid
+							teamId={currentTeam?.id || ''}
+							weekStart={timesheetWeekStart}
+							timeZone={timeZone}
+							entries={timeEntries}
+							projects={projects}
+							editable={effectiveUserId === user?.id && !isWeekLocked}
+							onSaved={() => refetchTimeEntries({ requestPolicy: 'network-only' })}
+						/>
+					)}
+				</div>
 			) : (
 				/* List View */
 				<div className="border dark:border-border rounded-lg bg-card dark:bg-card overflow-hidden">
 					<div className="p-6 border-b dark:border-border flex items-center justify-between">
 						<h2 className="text-xl font-semibold dark:text-card-foreground">Recent Time Entries</h2>
-						<Button size="sm" onClick={handleAddTimeEntry}>
-							Add Time Entry
-						</Button>
+						<div className="flex items-center gap-2">
+							{timeEntryTags.length > 0 && (
+								<select
+									value={selectedTag}
+									onChange={(e) => {
+										setSelectedTag(e.target.value);
+										setSelectedEntryIds([]);
+									}}
+									className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+								>
+									<option value="">All tags</option>
+									{timeEntryTags.map((tag: any) => (
+										<option key={tag.id} value={tag.name}>
+											{tag.name}
+										</option>
+									))}
+								</select>
+							)}
+							<Button size="sm" onClick={handleAddTimeEntry}>
+								Add Time Entry
+							</Button>
+						</div>
 					</div>
 
+					<TimeEntryBulkActions
+						entries={timeEntries.filter((entry: any) => selectedEntryIds.includes(entry.id))}
+						projects={projects}
+						onComplete={(failedIds) => {
+							setSelectedEntryIds(failedIds);
+							refetchTimeEntries({ requestPolicy: 'network-only' });
+						}}
+						onClearSelection={() => setSelectedEntryIds([])}
+					/>
+
 					{timeEntriesResult.fetching ? (
 						<div className="p-12 text-center">
 							<p className="text-muted-foreground">Loading time entries...</p>
@@ -618,6 +1258,18 @@ export default function TimesheetsPage() {
 						<table className="w-full">
 							<thead className="bg-muted/50 dark:bg-muted/50 border-b dark:border-border">
 								<tr>
+									<th className="py-3 pl-4 w-8">
+										<Checkbox
+											checked={
+												timeEntries.length > 0 &&
+												timeEntries.every((entry: any) => selectedEntryIds.includes(entry.id))
+											}
+											onCheckedChange={(checked) =>
+												setSelectedEntryIds(checked === true ? timeEntries.map((entry: any) => entry.id) : [])
+											}
+											aria-label="Select all time entries"
+										/>
+									</th>
 									<th className="text-left py-3 px-4 text-sm font-semibold text-muted-foreground">Project</th>
 									<th className="text-left py-3 px-4 text-sm font-semibold text-muted-foreground">Task</th>
 									<th className="text-left py-3 px-4 text-sm font-semibold text-muted-foreground">Note</th>
@@ -637,6 +1289,19 @@ export default function TimesheetsPage() {
 										className="hover:bg-muted/30 dark:hover:bg-muted/30 cursor-pointer transition-colors"
 										onClick={() => handleEditTimeEntry(entry)}
 									>
+										<td className="py-4 pl-4" onClick={(e) => e.stopPropagation()}>
+											<Checkbox
+												checked={selectedEntryIds.includes(entry.id)}
+												onCheckedChange={(checked) =>
+													setSelectedEntryIds(
+														checked === true
+															? [...selectedEntryIds, entry.id]
+															: selectedEntryIds.filter((id) => id !== entry.id)
+													)
+												}
+												aria-label="Select time entry"
+											/>
+										</td>
 										<td className="py-4 px-4">
 											<div className="flex items-center gap-2">
 												<span className="font-semibold text-foreground dark:text-foreground">
@@ -666,6 +1331,15 @@ export default function TimesheetsPage() {
 											) : (
 												<span className="text-sm text-muted-foreground">-</span>
 											)}
+											{entry.tags.length > 0 && (
+												<div className="flex gap-1 mt-1 flex-wrap">
+													{entry.tags.map((tag: string) => (
+														<Badge key={tag} variant="secondary" className="text-xs">
+															{tag}
+														</Badge>
+													))}
+												</div>
+											)}
 										</td>
 										<td className="py-4 px-4">
 											<span className="text-sm text-foreground dark:text-foreground">
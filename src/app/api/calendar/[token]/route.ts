@@ -0,0 +1,99 @@
+// Description: API route serving a user's time entries as an iCalendar feed
+// Usage: GET /api/calendar/{token}.ics?from=2024-01-01&to=2024-03-31
+// The secret token replaces the login, so calendar apps can subscribe. Without from, the last 90 days are included.
+
+import { query } from "@/db";
+import { NextRequest, NextResponse } from "next/server";
+import { formatIcsCalendar } from "@/lib/ical";
+
+// Keeps a subscription to a long history from producing an unbounded response
+const MAX_EVENTS = 5000;
+const DEFAULT_DAYS = 90;
+
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await ctx.params;
+
+    const feedResult = await query(
+      `
+      UPDATE calendar_feeds
+      SET last_accessed_at = NOW()
+      WHERE token = $1
+      RETURNING user_id
+      `,
+      [token.replace(/\.ics$/, "")]
+    );
+
+    if (feedResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const userId = feedResult.rows[0].user_id;
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : null;
+
+    if (Number.isNaN(from.getTime()) || (to && Number.isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+
+    // Only entries in teams the user still belongs to
+    const result = await query(
+      `
+      SELECT te.id, te.started_at, te.stopped_at, te.note, te.updated_at,
+        p.name AS project_name, pt.name AS task_name
+      FROM time_entries te
+      JOIN projects p ON p.id = te.project_id
+      LEFT JOIN project_tasks pt ON pt.id = te.task_id
+      WHERE te.user_id = $1
+        AND EXISTS (SELECT 1 FROM team_memberships tm WHERE tm.team_id = te.team_id AND tm.user_id = $1)
+        AND te.started_at >= $2
+        AND ($3::timestamptz IS NULL OR te.started_at <= $3::timestamptz)
+      ORDER BY te.started_at DESC
+      LIMIT ${MAX_EVENTS}
+      `,
+      [userId, from, to]
+    );
+
+    const now = new Date();
+    const calendar = formatIcsCalendar(
+      'Ardine Time Entries',
+      result.rows.map((entry) => ({
+        uid: `${entry.id}@ardine`,
+        start: new Date(entry.started_at),
+        // Running timers end now and are marked tentative until they are stopped
+        end: entry.stopped_at ? new Date(entry.stopped_at) : now,
+        summary: entry.task_name ? `${entry.project_name} / ${entry.task_name}` : entry.project_name,
+        description: entry.note,
+        status: entry.stopped_at ? 'CONFIRMED' : 'TENTATIVE',
+        updatedAt: new Date(entry.updated_at),
+      }))
+    );
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="time-entries.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate calendar feed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+// Description: API route to export time entries as CSV or XLSX
+// Usage: GET /api/exports/time-entries?teamId=...&format=csv|xlsx&columns=date,project,hours
+// Accepts the same filters as the timeEntries query (projectId, taskId, userId, clientId, billable,
+// uninvoicedOnly, from, to, fromDate, toDate, and tags as a comma-separated list) and applies the same
+// visibility rules. Dates are the requesting user's. CSV is streamed batch by batch; XLSX is built in
+// memory and limited to MAX_XLSX_EXPORT_ROWS entries.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GraphQLError } from 'graphql';
+import { createContext, getViewerTimeZone, requireAuth, requireTeamAccess } from '@/graphql/context';
+import {
+  EXPORT_COLUMNS,
+  MAX_XLSX_EXPORT_ROWS,
+  TimeEntryFilters,
+  fetchExportRows,
+  parseExportColumns,
+  parseExportFormat,
+} from '@/graphql/exports';
+import { httpStatusFor, ValidationError } from '@/graphql/errors';
+import { resolveLocalDateRange } from '@/graphql/utils';
+import { toLocalDate } from '@/lib/time-zones';
+import { formatCsvRow } from '@/lib/csv';
+import { buildXlsx, XlsxCell } from '@/lib/xlsx';
+
+export async function GET(request: NextRequest) {
+  try {
+    const ctx = await createContext(request);
+    requireAuth(ctx);
+
+    const searchParams = request.nextUrl.searchParams;
+    const teamId = searchParams.get('teamId') ?? '';
+    await requireTeamAccess(ctx, teamId);
+
+    const format = parseExportFormat(searchParams.get('format'));
+    const columns = parseExportColumns(ctx, searchParams.get('columns'));
+    const timeZone = await getViewerTimeZone(ctx);
+    const filters: TimeEntryFilters = {
+      projectId: searchParams.get('projectId'),
+      taskId: searchParams.get('taskId'),
+      userId: searchParams.get('userId'),
+      clientId: searchParams.get('clientId'),
+      billable: searchParams.has('billable') ? searchParams.get('billable') === 'true' : null,
+      uninvoicedOnly: searchParams.get('uninvoicedOnly') === 'true',
+      tags: searchParams.get('tags')?.split(',').filter(Boolean) ?? null,
+      ...resolveLocalDateRange(
+        {
+          from: parseDateParam(searchParams.get('from'), 'from'),
+          to: parseDateParam(searchParams.get('to'), 'to'),
+          fromDate: searchParams.get('fromDate'),
+          toDate: searchParams.get('toDate'),
+        },
+        timeZone
+      ),
+    };
+
+    const header = columns.map((key) => EXPORT_COLUMNS[key].header);
+    const filename = `time-entries-${toLocalDate(new Date(), timeZone)}`;
+
+    if (format === 'xlsx') {
+      const rows: XlsxCell[][] = [header];
+      for await (const batch of fetchExportRows(ctx, teamId, filters)) {
+        if (rows.length - 1 + batch.length > MAX_XLSX_EXPORT_ROWS) {
+          throw new ValidationError(
+            `XLSX exports are limited to ${MAX_XLSX_EXPORT_ROWS} time entries. Narrow the filters or export CSV instead.`,
+            'format'
+          );
+        }
+        for (const row of batch) {
+          rows.push(columns.map((key) => EXPORT_COLUMNS[key].value(row, timeZone)));
+        }
+      }
+
+      return new NextResponse(new Uint8Array(buildXlsx(rows, 'Time Entries')), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+        },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const batches = fetchExportRows(ctx, teamId, filters);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(`${formatCsvRow(header)}\r\n`));
+      },
+      async pull(controller) {
+        try {
+          const next = await batches.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+
+          const lines = next.value.map((row) =>
+            formatCsvRow(
+              columns.map((key) => {
+                const value = EXPORT_COLUMNS[key].value(row, timeZone);
+                return value instanceof Date ? value.toISOString() : value;
+              })
+            )
+          );
+          controller.enqueue(encoder.encode(`${lines.join('\r\n')}\r\n`));
+        } catch (error) {
+          console.error('Error exporting time entries:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await batches.return(undefined);
+      },
+    });
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof GraphQLError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: httpStatusFor(error) }
+      );
+    }
+
+    console.error('Error exporting time entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to export time entries', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Helper to parse an ISO date-time request parameter
+ */
+function parseDateParam(value: string | null, field: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date: ${value}`, field);
+  }
+
+  return date;
+}
@@ -0,0 +1,51 @@
+// Description: API route to import time entries from a Toggl, Harvest or Clockify CSV export
+// Usage: POST /api/imports/time-entries (multipart form: file, teamId, format, dryRun, timeZone)
+// Same rules as the importTimeEntries mutation; without dryRun=false only a preview is returned.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GraphQLError } from 'graphql';
+import { createContext, requireAuth } from '@/graphql/context';
+import { importTimeEntries, parseImportFormat } from '@/graphql/imports';
+import { httpStatusFor } from '@/graphql/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const ctx = await createContext(request);
+    requireAuth(ctx);
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A CSV file is required' },
+        { status: 400 }
+      );
+    }
+
+    const report = await importTimeEntries(
+      ctx,
+      String(form.get('teamId') ?? ''),
+      parseImportFormat(String(form.get('format') ?? '')),
+      await file.text(),
+      {
+        dryRun: form.get('dryRun') !== 'false',
+        timeZone: form.get('timeZone') ? String(form.get('timeZone')) : null,
+      }
+    );
+
+    return NextResponse.json(report);
+  } catch (error: any) {
+    if (error instanceof GraphQLError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: httpStatusFor(error) }
+      );
+    }
+
+    console.error('Error importing time entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to import time entries', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -188,6 +188,15 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({ invoice }) => {
     });
   };
 
+  // Items built from time entries print the rounded billable duration of those entries in hours,
+  // not the stored quantity; other items print their quantity
+  const formatQuantity = (item: any) => {
+    if (item.billable_seconds != null) {
+      return `${(item.billable_seconds / 3600).toFixed(2)} h`;
+    }
+    return item.quantity;
+  };
+
   const client = invoice.client;
   const team = invoice.team;
   const items = invoice.items || [];
@@ -295,7 +304,7 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({ invoice }) => {
           {items.map((item: any, index: number) => (
             <View key={item.id || index} style={styles.tableRow}>
               <Text style={styles.tableCol1}>{item.description}</Text>
-              <Text style={styles.tableCol2}>{item.quantity}</Text>
+              <Text style={styles.tableCol2}>{formatQuantity(item)}</Text>
               <Text style={styles.tableCol3}>
                 {formatCurrency(item.rate_cents)}
               </Text>
@@ -28,7 +28,13 @@ export async function GET(
               'description', ii.description,
               'quantity', ii.quantity,
               'rate_cents', ii.rate_cents,
-              'amount_cents', ii.amount_cents
+              'amount_cents', ii.amount_cents,
+              'billable_seconds', (
+                SELECT SUM(COALESCE(te.billable_duration_seconds, te.duration_seconds))
+                FROM invoice_time_entries ite
+                JOIN time_entries te ON te.id = ite.time_entry_id
+                WHERE ite.invoice_item_id = ii.id
+              )
             )
           ) FILTER (WHERE ii.id IS NOT NULL),
           '[]'::jsonb
@@ -0,0 +1,43 @@
+// Description: Background job stopping timers that ran longer than their team's maximum timer duration
+// Usage: POST /api/jobs/stop-runaway-timers with "Authorization: Bearer $JOB_SECRET"
+// Meant to be called by a scheduler, e.g. every 15 minutes from cron:
+//   curl -fsS -X POST -H "Authorization: Bearer $JOB_SECRET" http://localhost:3000/api/jobs/stop-runaway-timers
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { createSystemContext } from '@/graphql/context';
+import { stopRunawayTimers } from '@/graphql/timers';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Background jobs are disabled; set JOB_SECRET to enable them' },
+      { status: 503 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(request.headers.get('authorization') ?? '');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const stopped = await stopRunawayTimers(createSystemContext());
+
+    return NextResponse.json({
+      stopped: stopped.length,
+      timeEntryIds: stopped.map((timeEntry) => timeEntry.id),
+    });
+  } catch (error: any) {
+    console.error('Error stopping runaway timers:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop runaway timers', message: error.message },
+      { status: 500 }
+    );
+  }
+}
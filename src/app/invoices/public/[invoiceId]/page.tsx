@@ -43,6 +43,7 @@ const GET_PUBLIC_INVOICE_QUERY = gql(`
           startedAt
           stoppedAt
           durationSeconds
+          billableDurationSeconds
         }
       }
     }
@@ -353,7 +354,7 @@ export default function PublicInvoicePage({
                                       <span>{entry.stoppedAt ? formatTime(entry.stoppedAt) : 'Running'}</span>
                                     </div>
                                     <div className="font-medium min-w-[60px]">
-                                      {formatDuration(entry.durationSeconds)}
+                                      {formatDuration(entry.billableDurationSeconds ?? entry.durationSeconds)}
                                     </div>
                                     {entry.note && (
                                       <div className="flex-1 text-foreground/70">
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatDuration } from '@/lib/time-utils';
+import { Trash2 } from 'lucide-react';
+
+const CALENDAR_IMPORT_RULES_QUERY = gql(`
+  query CalendarImportRules($teamId: ID!) {
+    calendarImportRules(teamId: $teamId) {
+      id
+      matchType
+      pattern
+      project {
+        id
+        name
+      }
+      task {
+        id
+        name
+      }
+    }
+  }
+`);
+
+const SUGGEST_TIME_ENTRIES_MUTATION = gql(`
+  mutation SuggestTimeEntriesFromCalendar($teamId: ID!, $ics: String!, $timezoneOffsetMinutes: Int) {
+    suggestTimeEntriesFromCalendar(teamId: $teamId, ics: $ics, timezoneOffsetMinutes: $timezoneOffsetMinutes) {
+      uid
+      summary
+      description
+      startedAt
+      stoppedAt
+      projectId
+      taskId
+      matchReason
+      overlapsExisting
+      client {
+        id
+        name
+      }
+    }
+  }
+`);
+
+const CREATE_TIME_ENTRIES_MUTATION = gql(`
+  mutation CreateTimeEntries($entries: [TimeEntryBatchInput!]!) {
+    createTimeEntries(entries: $entries) {
+      id
+    }
+  }
+`);
+
+const CREATE_CALENDAR_IMPORT_RULE_MUTATION = gql(`
+  mutation CreateCalendarImportRule($teamId: ID!, $matchType: String!, $pattern: String!, $projectId: ID!) {
+    createCalendarImportRule(teamId: $teamId, matchType: $matchType, pattern: $pattern, projectId: $projectId) {
+      id
+    }
+  }
+`);
+
+const DELETE_CALENDAR_IMPORT_RULE_MUTATION = gql(`
+  mutation DeleteCalendarImportRule($id: ID!) {
+    deleteCalendarImportRule(id: $id)
+  }
+`);
+
+interface CalendarImportDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	teamId: string;
+	projects: any[];
+	onSuccess: () => void;
+}
+
+interface SuggestionChoice {
+	selected: boolean;
+	projectId: string;
+	taskId: string | null;
+}
+
+/**
+ * Turns the events of an uploaded .ics file into time entries.
+ * Suggested projects come from the user's import rules and client e-mail domains; events that
+ * overlap existing time entries start unticked.
+ */
+export function CalendarImportDialog({ open, onOpenChange, teamId, projects, onSuccess }: CalendarImportDialogProps) {
+	const [suggestions, setSuggestions] = useState<any[] | null>(null);
+	const [choices, setChoices] = useState<Record<string, SuggestionChoice>>({});
+	const [fileName, setFileName] = useState('');
+	const [error, setError] = useState('');
+	const [ruleMatchType, setRuleMatchType] = useState('title_keyword');
+	const [rulePattern, setRulePattern] = useState('');
+	const [ruleProjectId, setRuleProjectId] = useState('');
+
+	const [rulesResult, refetchRules] = useQuery({
+		query: CALENDAR_IMPORT_RULES_QUERY,
+		variables: { teamId },
+		pause: !open || !teamId,
+	});
+
+	const [suggestResult, suggestTimeEntries] = useMutation(SUGGEST_TIME_ENTRIES_MUTATION);
+	const [createResult, createTimeEntries] = useMutation(CREATE_TIME_ENTRIES_MUTATION);
+	const [, createRule] = useMutation(CREATE_CALENDAR_IMPORT_RULE_MUTATION);
+	const [, deleteRule] = useMutation(DELETE_CALENDAR_IMPORT_RULE_MUTATION);
+
+	const rules = rulesResult.data?.calendarImportRules || [];
+	const selectedCount = Object.values(choices).filter((choice) => choice.selected).length;
+
+	const formatDateTime = (date: string) => {
+		return new Date(date).toLocaleString('en-US', {
+			weekday: 'short',
+			month: 'short',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: '2-digit',
+		});
+	};
+
+	const reset = () => {
+		setSuggestions(null);
+		setChoices({});
+		setFileName('');
+		setError('');
+	};
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (!isOpen) reset();
+		onOpenChange(isOpen);
+	};
+
+	const loadSuggestions = async (ics: string) => {
+		setError('');
+
+		const response = await suggestTimeEntries({
+			teamId,
+			ics,
+			// Events without a time zone are read in this browser's time zone
+			timezoneOffsetMinutes: new Date().getTimezoneOffset(),
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		const result = response.data?.suggestTimeEntriesFromCalendar || [];
+		setSuggestions(result);
+		setChoices(
+			Object.fromEntries(
+				result.map((suggestion: any) => [
+					suggestion.uid,
+					{
+						selected: !suggestion.overlapsExisting && !!suggestion.projectId,
+						projectId: suggestion.projectId || '',
+						taskId: suggestion.taskId,
+					},
+				])
+			)
+		);
+	};
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		reset();
+		if (!file) return;
+
+		setFileName(file.name);
+		await loadSuggestions(await file.text());
+	};
+
+	const updateChoice = (uid: string, update: Partial<SuggestionChoice>) => {
+		setChoices({ ...choices, [uid]: { ...choices[uid], ...update } });
+	};
+
+	const handleAccept = async () => {
+		if (!suggestions) return;
+		setError('');
+
+		const accepted = suggestions.filter((suggestion) => choices[suggestion.uid]?.selected);
+		if (accepted.some((suggestion) => !choices[suggestion.uid].projectId)) {
+			setError('Choose a project for every selected event');
+			return;
+		}
+
+		const response = await createTimeEntries({
+			entries: accepted.map((suggestion) => ({
+				projectId: choices[suggestion.uid].projectId,
+				taskId: choices[suggestion.uid].taskId,
+				note: suggestion.summary || null,
+				startedAt: suggestion.startedAt,
+				stoppedAt: suggestion.stoppedAt,
+			})),
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		onSuccess();
+		handleOpenChange(false);
+	};
+
+	const handleAddRule = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError('');
+
+		const response = await createRule({
+			teamId,
+			matchType: ruleMatchType,
+			pattern: rulePattern,
+			projectId: ruleProjectId,
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		setRulePattern('');
+		refetchRules({ requestPolicy: 'network-only' });
+	};
+
+	const handleDeleteRule = async (id: string) => {
+		const response = await deleteRule({ id });
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		refetchRules({ requestPolicy: 'network-only' });
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Import from Calendar</DialogTitle>
+				</DialogHeader>
+
+				<div className="space-y-6">
+					<div>
+						<Label htmlFor="calendarFile">Calendar file (.ics)</Label>
+						<input
+							id="calendarFile"
+							type="file"
+							accept=".ics,text/calendar"
+							onChange={handleFileChange}
+							className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary file:text-primary-foreground mt-1"
+						/>
+						<p className="text-xs text-muted-foreground mt-1">
+							Export your calendar from Google Calendar, Outlook or Apple Calendar. All-day and cancelled events
+							are skipped.
+						</p>
+					</div>
+
+					{suggestResult.fetching && <p className="text-sm text-muted-foreground">Reading {fileName}...</p>}
+
+					{suggestions && suggestions.length === 0 && (
+						<p className="text-sm text-muted-foreground">No timed events found in {fileName}.</p>
+					)}
+
+					{suggestions && suggestions.length > 0 && (
+						<div className="border dark:border-border rounded-lg divide-y dark:divide-border">
+							{suggestions.map((suggestion) => {
+								const choice = choices[suggestion.uid];
+								const durationSeconds =
+									(new Date(suggestion.stoppedAt).getTime() - new Date(suggestion.startedAt).getTime()) / 1000;
+
+								return (
+									<div key={suggestion.uid} className="flex items-center gap-3 p-3">
+										<Checkbox
+											checked={choice?.selected}
+											onCheckedChange={(checked) => updateChoice(suggestion.uid, { selected: checked === true })}
+										/>
+										<div className="flex-1 min-w-0">
+											<div className="font-medium truncate dark:text-foreground">
+												{suggestion.summary || '(No title)'}
+											</div>
+											<div className="text-xs text-muted-foreground">
+												{formatDateTime(suggestion.startedAt)} · {formatDuration(durationSeconds)}
+												{suggestion.matchReason && ` · ${suggestion.matchReason}`}
+											</div>
+											{suggestion.overlapsExisting && (
+												<Badge variant="outline" className="mt-1">
+													Overlaps an existing entry
+												</Badge>
+											)}
+										</div>
+										<select
+											value={choice?.projectId || ''}
+											onChange={(e) =>
+												updateChoice(suggestion.uid, {
+													projectId: e.target.value,
+													// The suggested task belongs to the suggested project
+													taskId: e.target.value === suggestion.projectId ? suggestion.taskId : null,
+													selected: !!e.target.value,
+												})
+											}
+											className="w-56 px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+										>
+											<option value="">
+												{suggestion.client ? `Choose a ${suggestion.client.name} project` : 'Choose a project'}
+											</option>
+											{projects.map((project: any) => (
+												<option key={project.id} value={project.id}>
+													{project.name}
+													{project.client ? ` - ${project.client.name}` : ''}
+												</option>
+											))}
+										</select>
+									</div>
+								);
+							})}
+						</div>
+					)}
+
+					<div>
+						<h3 className="font-semibold mb-2 dark:text-foreground">Matching Rules</h3>
+						<p className="text-xs text-muted-foreground mb-3">
+							Rules are checked in the order they were added. Without a matching rule, attendees are matched to
+							clients by e-mail domain.
+						</p>
+
+						{rules.length > 0 && (
+							<div className="space-y-2 mb-3">
+								{rules.map((rule: any) => (
+									<div key={rule.id} className="flex items-center justify-between text-sm">
+										<span className="dark:text-foreground">
+											{rule.matchType === 'title_keyword' ? 'Title contains' : 'Attendee from'}{' '}
+											<span className="font-medium">{rule.pattern}</span> → {rule.project.name}
+											{rule.task ? ` / ${rule.task.name}` : ''}
+										</span>
+										<Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+											<Trash2 className="w-4 h-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+						)}
+
+						<form onSubmit={handleAddRule} className="flex items-end gap-2">
+							<select
+								value={ruleMatchType}
+								onChange={(e) => setRuleMatchType(e.target.value)}
+								className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+							>
+								<option value="title_keyword">Title contains</option>
+								<option value="attendee_domain">Attendee domain</option>
+							</select>
+							<Input
+								value={rulePattern}
+								onChange={(e) => setRulePattern(e.target.value)}
+								placeholder={ruleMatchType === 'title_keyword' ? 'Standup' : 'example.com'}
+								required
+							/>
+							<select
+								value={ruleProjectId}
+								onChange={(e) => setRuleProjectId(e.target.value)}
+								required
+								className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+							>
+								<option value="">Project</option>
+								{projects.map((project: any) => (
+									<option key={project.id} value={project.id}>
+										{project.name}
+									</option>
+								))}
+							</select>
+							<Button type="submit" variant="outline">
+								Add Rule
+							</Button>
+						</form>
+					</div>
+
+					{error && (
+						<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+							{error}
+						</div>
+					)}
+
+					<div className="flex gap-3 justify-end">
+						<Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="button" onClick={handleAccept} disabled={selectedCount === 0 || createResult.fetching}>
+							{createResult.fetching ? 'Creating...' : `Create ${selectedCount} Time Entries`}
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
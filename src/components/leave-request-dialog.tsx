@@ -0,0 +1,304 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatLocalDate, toLocalDate } from '@/lib/time-zones';
+
+const LEAVE_REQUEST_DIALOG_QUERY = gql(`
+  query LeaveRequestDialog($teamId: ID!, $userId: ID!, $fromDate: String!) {
+    leaveTypes(teamId: $teamId) {
+      id
+      name
+      paid
+    }
+    leaveRequests(teamId: $teamId, userId: $userId, fromDate: $fromDate, orderBy: "start_date", order: "asc", limit: 20) {
+      nodes {
+        id
+        startDate
+        endDate
+        hoursPerDay
+        note
+        status
+        reviewComment
+        leaveType {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+const REQUEST_LEAVE_MUTATION = gql(`
+  mutation RequestLeave(
+    $teamId: ID!
+    $leaveTypeId: ID!
+    $startDate: String!
+    $endDate: String!
+    $hoursPerDay: Float
+    $note: String
+  ) {
+    requestLeave(
+      teamId: $teamId
+      leaveTypeId: $leaveTypeId
+      startDate: $startDate
+      endDate: $endDate
+      hoursPerDay: $hoursPerDay
+      note: $note
+    ) {
+      id
+      status
+    }
+  }
+`);
+
+const CANCEL_LEAVE_REQUEST_MUTATION = gql(`
+  mutation CancelLeaveRequest($id: ID!) {
+    cancelLeaveRequest(id: $id) {
+      id
+      status
+    }
+  }
+`);
+
+interface LeaveRequestDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	teamId: string;
+	userId: string;
+	// Time zone the user's days begin in, for today's date
+	timeZone: string;
+	onSuccess: () => void;
+}
+
+/**
+ * Requests time off for the current user and lists their upcoming leave.
+ * Leave takes effect once a team owner or admin approves it.
+ */
+export function LeaveRequestDialog({ open, onOpenChange, teamId, userId, timeZone, onSuccess }: LeaveRequestDialogProps) {
+	const today = toLocalDate(new Date(), timeZone);
+	const [leaveTypeId, setLeaveTypeId] = useState('');
+	const [startDate, setStartDate] = useState(today);
+	const [endDate, setEndDate] = useState(today);
+	const [hoursPerDay, setHoursPerDay] = useState('');
+	const [note, setNote] = useState('');
+	const [error, setError] = useState('');
+
+	const [result, refetch] = useQuery({
+		query: LEAVE_REQUEST_DIALOG_QUERY,
+		variables: { teamId, userId, fromDate: today },
+		pause: !open || !teamId || !userId,
+		requestPolicy: 'cache-and-network',
+	});
+
+	const [requestResult, requestLeave] = useMutation(REQUEST_LEAVE_MUTATION);
+	const [, cancelLeaveRequest] = useMutation(CANCEL_LEAVE_REQUEST_MUTATION);
+
+	const leaveTypes = result.data?.leaveTypes || [];
+	const requests = (result.data?.leaveRequests.nodes || []).filter(
+		(request: any) => request.status === 'pending' || request.status === 'approved'
+	);
+
+	const formatRange = (request: any) => {
+		const start = formatLocalDate(request.startDate);
+		return request.startDate === request.endDate ? start : `${start} – ${formatLocalDate(request.endDate)}`;
+	};
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (!isOpen) {
+			setStartDate(today);
+			setEndDate(today);
+			setHoursPerDay('');
+			setNote('');
+			setError('');
+		}
+		onOpenChange(isOpen);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError('');
+
+		const hours = hoursPerDay.trim() ? parseFloat(hoursPerDay.replace(',', '.')) : null;
+		if (hours !== null && (isNaN(hours) || hours <= 0 || hours > 24)) {
+			setError('Hours per day must be more than 0 and at most 24');
+			return;
+		}
+
+		const response = await requestLeave({
+			teamId,
+			leaveTypeId: leaveTypeId || leaveTypes[0]?.id,
+			startDate,
+			endDate,
+			hoursPerDay: hours,
+			note: note.trim() || null,
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		setHoursPerDay('');
+		setNote('');
+		refetch({ requestPolicy: 'network-only' });
+		onSuccess();
+	};
+
+	const handleCancelRequest = async (request: any) => {
+		if (!confirm(`Withdraw your ${request.leaveType.name.toLowerCase()} request for ${formatRange(request)}?`)) return;
+
+		setError('');
+		const response = await cancelLeaveRequest({ id: request.id });
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		refetch({ requestPolicy: 'network-only' });
+		onSuccess();
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Request Leave</DialogTitle>
+				</DialogHeader>
+
+				{error && (
+					<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+						{error}
+					</div>
+				)}
+
+				{result.data && leaveTypes.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						Your team has no leave types yet. Ask a team owner or admin to add them in the team settings.
+					</p>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-4">
+						<div>
+							<Label htmlFor="leaveType">Type *</Label>
+							<select
+								id="leaveType"
+								value={leaveTypeId || leaveTypes[0]?.id || ''}
+								onChange={(e) => setLeaveTypeId(e.target.value)}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+							>
+								{leaveTypes.map((leaveType: any) => (
+									<option key={leaveType.id} value={leaveType.id}>
+										{leaveType.name}
+										{leaveType.paid ? '' : ' (unpaid)'}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4">
+							<div>
+								<Label htmlFor="leaveStartDate">First Day *</Label>
+								<Input
+									id="leaveStartDate"
+									type="date"
+									value={startDate}
+									onChange={(e) => {
+										setStartDate(e.target.value);
+										if (e.target.value > endDate) setEndDate(e.target.value);
+									}}
+									required
+								/>
+							</div>
+							<div>
+								<Label htmlFor="leaveEndDate">Last Day *</Label>
+								<Input
+									id="leaveEndDate"
+									type="date"
+									value={endDate}
+									min={startDate}
+									onChange={(e) => setEndDate(e.target.value)}
+									required
+								/>
+							</div>
+						</div>
+
+						<div>
+							<Label htmlFor="leaveHoursPerDay">Hours per Day</Label>
+							<Input
+								id="leaveHoursPerDay"
+								value={hoursPerDay}
+								onChange={(e) => setHoursPerDay(e.target.value)}
+								placeholder="Whole days"
+								inputMode="decimal"
+							/>
+							<p className="text-xs text-muted-foreground mt-1">
+								Only for partial days, e.g. 4 for a half day.
+							</p>
+						</div>
+
+						<div>
+							<Label htmlFor="leaveNote">Note</Label>
+							<Textarea id="leaveNote" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+						</div>
+
+						<div className="flex gap-3">
+							<Button type="submit" disabled={requestResult.fetching || !startDate || !endDate}>
+								{requestResult.fetching ? 'Requesting...' : 'Request Leave'}
+							</Button>
+							<Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+								Close
+							</Button>
+						</div>
+					</form>
+				)}
+
+				<div className="border-t dark:border-border pt-4">
+					<h3 className="text-sm font-semibold mb-2">Upcoming Leave</h3>
+					{requests.length > 0 ? (
+						<div className="divide-y divide-border dark:divide-border">
+							{requests.map((request: any) => (
+								<div key={request.id} className="flex items-center justify-between py-2 text-sm">
+									<div>
+										<p className="font-medium">
+											{request.leaveType.name}
+											{request.hoursPerDay !== null && (
+												<span className="text-muted-foreground font-normal"> • {request.hoursPerDay}h/day</span>
+											)}
+										</p>
+										<p className="text-muted-foreground">{formatRange(request)}</p>
+									</div>
+									<div className="flex items-center gap-2">
+										<Badge
+											className={
+												request.status === 'approved'
+													? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+													: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400'
+											}
+										>
+											{request.status}
+										</Badge>
+										{request.status === 'pending' && (
+											<Button size="sm" variant="ghost" onClick={() => handleCancelRequest(request)}>
+												Withdraw
+											</Button>
+										)}
+									</div>
+								</div>
+							))}
+						</div>
+					) : (
+						<p className="text-sm text-muted-foreground">No upcoming leave.</p>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
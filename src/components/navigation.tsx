@@ -20,6 +20,7 @@ const allNavigationItems = [
   { name: 'Clients', href: '/clients' },
   { name: 'Projects', href: '/projects' },
   { name: 'Time', href: '/time' },
+  { name: 'Schedule', href: '/schedule', requiresRoles: ['OWNER', 'ADMIN'] },
   { name: 'Invoices', href: '/invoices', requiresRoles: ['OWNER', 'ADMIN', 'BILLING'] },
 ];
 
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from 'urql';
+import { gql } from '@/lib/gql';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const PROJECT_PROFITABILITY_QUERY = gql(`
+  query ProjectProfitability($projectId: ID!, $from: DateTime, $to: DateTime) {
+    projectProfitability(projectId: $projectId, from: $from, to: $to) {
+      total {
+        durationSeconds
+        revenueCents
+        costCents
+        marginCents
+        marginPercent
+      }
+      tasks {
+        taskId
+        durationSeconds
+        revenueCents
+        costCents
+        marginCents
+        marginPercent
+        task {
+          id
+          name
+        }
+      }
+      members {
+        userId
+        durationSeconds
+        revenueCents
+        costCents
+        marginCents
+        marginPercent
+        user {
+          id
+          name
+          displayName
+        }
+      }
+    }
+  }
+`);
+
+interface ProjectProfitabilityProps {
+	projectId: string;
+	currency?: string;
+}
+
+/**
+ * Revenue, internal cost and margin of a project, per task and per member.
+ * Only rendered for team owners and admins, who are the only ones allowed to see costs.
+ */
+export function ProjectProfitability({ projectId, currency = 'USD' }: ProjectProfitabilityProps) {
+	const [from, setFrom] = useState('');
+	const [to, setTo] = useState('');
+
+	const [result] = useQuery({
+		query: PROJECT_PROFITABILITY_QUERY,
+		variables: {
+			projectId,
+			from: from ? new Date(`${from}T00:00`).toISOString() : null,
+			to: to ? new Date(`${to}T23:59:59.999`).toISOString() : null,
+		},
+	});
+
+	const profitability = result.data?.projectProfitability;
+
+	const formatCurrency = (cents: number) => {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+		}).format(cents / 100);
+	};
+
+	const formatHours = (seconds: number) => {
+		return `${(seconds / 3600).toFixed(1)}h`;
+	};
+
+	const formatPercent = (percent: number | null) => {
+		return percent === null || percent === undefined ? '—' : `${percent.toFixed(1)}%`;
+	};
+
+	const getMarginColor = (cents: number) => {
+		return cents < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+	};
+
+	const renderTable = (title: string, lines: any[], getName: (line: any) => string) => (
+		<div className="mt-6">
+			<h3 className="text-sm font-semibold mb-2 text-muted-foreground">{title}</h3>
+			{lines.length === 0 ? (
+				<p className="text-sm text-muted-foreground">No time logged in this period</p>
+			) : (
+				<table className="w-full text-sm">
+					<thead>
+						<tr className="text-left text-muted-foreground border-b dark:border-border">
+							<th className="py-2 font-medium">Name</th>
+							<th className="py-2 font-medium text-right">Hours</th>
+							<th className="py-2 font-medium text-right">Revenue</th>
+							<th className="py-2 font-medium text-right">Cost</th>
+							<th className="py-2 font-medium text-right">Margin</th>
+							<th className="py-2 font-medium text-right">Margin %</th>
+						</tr>
+					</thead>
+					<tbody>
+						{lines.map((line: any) => (
+							<tr
+								key={line.taskId || line.userId || 'none'}
+								className="border-b dark:border-border last:border-0"
+							>
+								<td className="py-2">{getName(line)}</td>
+								<td className="py-2 text-right">{formatHours(line.durationSeconds)}</td>
+								<td className="py-2 text-right">{formatCurrency(line.revenueCents)}</td>
+								<td className="py-2 text-right">{formatCurrency(line.costCents)}</td>
+								<td className={`py-2 text-right ${getMarginColor(line.marginCents)}`}>
+									{formatCurrency(line.marginCents)}
+								</td>
+								<td className="py-2 text-right">{formatPercent(line.marginPercent)}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</div>
+	);
+
+	return (
+		<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
+			<div className="flex items-start justify-between gap-4 mb-4">
+				<div>
+					<h2 className="text-xl font-semibold dark:text-card-foreground">Profitability</h2>
+					<p className="text-sm text-muted-foreground">
+						Revenue from billable time against the internal cost of everyone who logged time
+					</p>
+				</div>
+				<div className="flex gap-3">
+					<div>
+						<Label htmlFor="profitabilityFrom">From</Label>
+						<Input id="profitabilityFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+					</div>
+					<div>
+						<Label htmlFor="profitabilityTo">To</Label>
+						<Input id="profitabilityTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+					</div>
+				</div>
+			</div>
+
+			{result.error && (
+				<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+					{result.error.message}
+				</div>
+			)}
+
+			{result.fetching && !profitability ? (
+				<p className="text-sm text-muted-foreground">Loading profitability...</p>
+			) : (
+				profitability && (
+					<>
+						<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+							<div>
+								<p className="text-sm text-muted-foreground">Revenue</p>
+								<p className="text-2xl font-bold">{formatCurrency(profitability.total.revenueCents)}</p>
+							</div>
+							<div>
+								<p className="text-sm text-muted-foreground">Cost</p>
+								<p className="text-2xl font-bold">{formatCurrency(profitability.total.costCents)}</p>
+							</div>
+							<div>
+								<p className="text-sm text-muted-foreground">Margin</p>
+								<p className={`text-2xl font-bold ${getMarginColor(profitability.total.marginCents)}`}>
+									{formatCurrency(profitability.total.marginCents)}
+								</p>
+							</div>
+							<div>
+								<p className="text-sm text-muted-foreground">Margin %</p>
+								<p className="text-2xl font-bold">{formatPercent(profitability.total.marginPercent)}</p>
+							</div>
+						</div>
+
+						{renderTable('By Task', profitability.tasks, (line) => line.task?.name || 'No task')}
+						{renderTable(
+							'By Member',
+							profitability.members,
+							(line) => line.user?.displayName || line.user?.name || 'Unknown'
+						)}
+					</>
+				)
+			)}
+		</div>
+	);
+}
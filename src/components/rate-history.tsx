@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const RATE_TIMELINE_QUERY = gql(`
+  query RateTimeline($clientId: ID, $projectId: ID, $taskId: ID) {
+    rateTimeline(clientId: $clientId, projectId: $projectId, taskId: $taskId) {
+      id
+      hourlyRateCents
+      effectiveFrom
+      effectiveTo
+      createdByUser {
+        id
+        name
+        displayName
+      }
+    }
+  }
+`);
+
+const SET_HOURLY_RATE_MUTATION = gql(`
+  mutation SetHourlyRate($clientId: ID, $projectId: ID, $taskId: ID, $hourlyRateCents: Int, $effectiveFrom: DateTime!) {
+    setHourlyRate(
+      clientId: $clientId
+      projectId: $projectId
+      taskId: $taskId
+      hourlyRateCents: $hourlyRateCents
+      effectiveFrom: $effectiveFrom
+    ) {
+      id
+    }
+  }
+`);
+
+interface RateHistoryProps {
+	clientId?: string;
+	projectId?: string;
+	taskId?: string;
+	currency?: string;
+	onChange?: () => void;
+}
+
+/**
+ * Rate timeline of a client, project or task, with a form to schedule or back-date a rate change.
+ * Time entries are priced with the rate in effect when they started.
+ */
+export function RateHistory({ clientId, projectId, taskId, currency = 'USD', onChange }: RateHistoryProps) {
+	const [rate, setRate] = useState('');
+	const [effectiveFrom, setEffectiveFrom] = useState('');
+	const [error, setError] = useState('');
+
+	const [result, refetch] = useQuery({
+		query: RATE_TIMELINE_QUERY,
+		variables: { clientId, projectId, taskId },
+	});
+
+	const [setHourlyRateResult, setHourlyRate] = useMutation(SET_HOURLY_RATE_MUTATION);
+
+	const timeline = result.data?.rateTimeline || [];
+
+	const formatCurrency = (cents: number) => {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+		}).format(cents / 100);
+	};
+
+	const formatDate = (date: string) => {
+		return new Date(date).toLocaleDateString('en-US', {
+			month: 'short',
+			day: 'numeric',
+			year: 'numeric',
+		});
+	};
+
+	const handleSubmit = async () => {
+		if (!effectiveFrom) return;
+		setError('');
+
+		const response = await setHourlyRate({
+			clientId,
+			projectId,
+			taskId,
+			hourlyRateCents: rate ? Math.round(parseFloat(rate) * 100) : null,
+			effectiveFrom: new Date(`${effectiveFrom}T00:00`).toISOString(),
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+		} else {
+			setRate('');
+			setEffectiveFrom('');
+			refetch({ requestPolicy: 'network-only' });
+			onChange?.();
+		}
+	};
+
+	return (
+		<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
+			<h2 className="text-lg font-semibold mb-2 dark:text-card-foreground">Rate History</h2>
+			<p className="text-sm text-muted-foreground mb-4">
+				Time entries are priced with the rate in effect when they started. Changing the rate above takes effect
+				today; use the form below to back-date or schedule a change.
+			</p>
+
+			{timeline.length === 0 ? (
+				<p className="text-sm text-muted-foreground mb-4">No rate changes recorded yet.</p>
+			) : (
+				<table className="w-full text-sm mb-4">
+					<thead>
+						<tr className="text-left text-muted-foreground border-b dark:border-border">
+							<th className="py-2 font-medium">From</th>
+							<th className="py-2 font-medium">Until</th>
+							<th className="py-2 font-medium text-right">Hourly Rate</th>
+							<th className="py-2 font-medium text-right">Changed By</th>
+						</tr>
+					</thead>
+					<tbody>
+						{timeline.map((entry: any) => (
+							<tr key={entry.id} className="border-b dark:border-border last:border-0">
+								<td className="py-2">{formatDate(entry.effectiveFrom)}</td>
+								<td className="py-2">{entry.effectiveTo ? formatDate(entry.effectiveTo) : '—'}</td>
+								<td className="py-2 text-right">
+									{entry.hourlyRateCents !== null && entry.hourlyRateCents !== undefined
+										? formatCurrency(entry.hourlyRateCents)
+										: 'No rate'}
+								</td>
+								<td className="py-2 text-right text-muted-foreground">
+									{entry.createdByUser?.displayName || entry.createdByUser?.name || '—'}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+
+			{error && (
+				<div className="p-3 mb-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+					{error}
+				</div>
+			)}
+
+			<div className="grid grid-cols-3 gap-3 items-end">
+				<div>
+					<Label htmlFor="rateEffectiveFrom">Effective From</Label>
+					<Input
+						id="rateEffectiveFrom"
+						type="date"
+						value={effectiveFrom}
+						onChange={(e) => setEffectiveFrom(e.target.value)}
+					/>
+				</div>
+				<div>
+					<Label htmlFor="rateAmount">Hourly Rate</Label>
+					<Input
+						id="rateAmount"
+						type="number"
+						step="0.01"
+						min="0"
+						value={rate}
+						onChange={(e) => setRate(e.target.value)}
+						placeholder="No rate"
+					/>
+				</div>
+				<Button type="button" onClick={handleSubmit} disabled={!effectiveFrom || setHourlyRateResult.fetching}>
+					Add Rate Change
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+const RECALCULATE_TIME_ENTRY_RATES_MUTATION = gql(`
+  mutation RecalculateTimeEntryRates(
+    $clientId: ID
+    $projectId: ID
+    $taskId: ID
+    $from: DateTime
+    $to: DateTime
+    $force: Boolean
+    $dryRun: Boolean
+  ) {
+    recalculateTimeEntryRates(
+      clientId: $clientId
+      projectId: $projectId
+      taskId: $taskId
+      from: $from
+      to: $to
+      force: $force
+      dryRun: $dryRun
+    ) {
+      dryRun
+      appliedCount
+      skippedCount
+      amountDeltaCents
+      changes {
+        timeEntryId
+        previousHourlyRateCents
+        hourlyRateCents
+        previousAmountCents
+        amountCents
+        skippedReason
+        timeEntry {
+          id
+          startedAt
+          note
+          user {
+            id
+            name
+            displayName
+          }
+        }
+      }
+    }
+  }
+`);
+
+interface RecalculateRatesProps {
+	clientId?: string;
+	projectId?: string;
+	taskId?: string;
+	currency?: string;
+}
+
+/**
+ * Reprices logged time after a rate correction. Changes are previewed first and only applied on confirmation.
+ */
+export function RecalculateRates({ clientId, projectId, taskId, currency = 'USD' }: RecalculateRatesProps) {
+	const [from, setFrom] = useState('');
+	const [to, setTo] = useState('');
+	const [force, setForce] = useState(false);
+	const [preview, setPreview] = useState<any>(null);
+	const [error, setError] = useState('');
+
+	const [recalculateResult, recalculate] = useMutation(RECALCULATE_TIME_ENTRY_RATES_MUTATION);
+
+	const formatCurrency = (cents: number | null) => {
+		if (cents === null || cents === undefined) return '—';
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+		}).format(cents / 100);
+	};
+
+	const formatDate = (date: string) => {
+		return new Date(date).toLocaleDateString('en-US', {
+			month: 'short',
+			day: 'numeric',
+			year: 'numeric',
+		});
+	};
+
+	const runRecalculation = async (dryRun: boolean) => {
+		setError('');
+
+		const response = await recalculate({
+			clientId,
+			projectId,
+			taskId,
+			from: from ? new Date(`${from}T00:00`).toISOString() : null,
+			to: to ? new Date(`${to}T23:59:59.999`).toISOString() : null,
+			force,
+			dryRun,
+		});
+
+		if (response.error) {
+			setError(response.error.message);
+			return;
+		}
+
+		const recalculation = response.data?.recalculateTimeEntryRates;
+		if (dryRun) {
+			setPreview(recalculation);
+		} else {
+			setPreview(null);
+			alert(`Repriced ${recalculation?.appliedCount ?? 0} time entries`);
+		}
+	};
+
+	return (
+		<div className="border dark:border-border rounded-lg p-6 bg-card dark:bg-card">
+			<h2 className="text-lg font-semibold mb-2 dark:text-card-foreground">Reprice Logged Time</h2>
+			<p className="text-sm text-muted-foreground mb-4">
+				Re-runs rate resolution for stopped time entries, for example after back-dating a rate correction. Entries
+				in a closed period or an approved week are never changed.
+			</p>
+
+			<div className="grid grid-cols-3 gap-3 items-end mb-4">
+				<div>
+					<Label htmlFor="recalculateFrom">From</Label>
+					<Input
+						id="recalculateFrom"
+						type="date"
+						value={from}
+						onChange={(e) => {
+							setFrom(e.target.value);
+							setPreview(null);
+						}}
+					/>
+				</div>
+				<div>
+					<Label htmlFor="recalculateTo">To</Label>
+					<Input
+						id="recalculateTo"
+						type="date"
+						value={to}
+						onChange={(e) => {
+							setTo(e.target.value);
+							setPreview(null);
+						}}
+					/>
+				</div>
+				<div className="flex items-center gap-2 pb-2">
+					<Switch
+						id="recalculateForce"
+						checked={force}
+						onCheckedChange={(checked) => {
+							setForce(checked);
+							setPreview(null);
+						}}
+					/>
+					<Label htmlFor="recalculateForce">Include invoiced</Label>
+				</div>
+			</div>
+
+			{error && (
+				<div className="p-3 mb-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+					{error}
+				</div>
+			)}
+
+			{preview && (
+				<div className="mb-4">
+					{preview.changes.length === 0 ? (
+						<p className="text-sm text-muted-foreground">All time entries are already priced correctly.</p>
+					) : (
+						<>
+							<p className="text-sm mb-2">
+								{preview.appliedCount} entries will be repriced ({formatCurrency(preview.amountDeltaCents)}{' '}
+								difference)
+								{preview.skippedCount > 0 && `, ${preview.skippedCount} skipped`}
+							</p>
+							<table className="w-full text-sm">
+								<thead>
+									<tr className="text-left text-muted-foreground border-b dark:border-border">
+										<th className="py-2 font-medium">Date</th>
+										<th className="py-2 font-medium">Member</th>
+										<th className="py-2 font-medium text-right">Rate</th>
+										<th className="py-2 font-medium text-right">Amount</th>
+										<th className="py-2 font-medium text-right">Status</th>
+									</tr>
+								</thead>
+								<tbody>
+									{preview.changes.map((change: any) => (
+										<tr key={change.timeEntryId} className="border-b dark:border-border last:border-0">
+											<td className="py-2">{formatDate(change.timeEntry.startedAt)}</td>
+											<td className="py-2">
+												{change.timeEntry.user?.displayName || change.timeEntry.user?.name || '—'}
+											</td>
+											<td className="py-2 text-right">
+												{formatCurrency(change.previousHourlyRateCents)} → {formatCurrency(change.hourlyRateCents)}
+											</td>
+											<td className="py-2 text-right">
+												{formatCurrency(change.previousAmountCents)} → {formatCurrency(change.amountCents)}
+											</td>
+											<td className="py-2 text-right text-muted-foreground">
+												{change.skippedReason === 'invoiced'
+													? 'Invoiced'
+													: change.skippedReason === 'locked'
+														? 'Locked'
+														: 'Will update'}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</>
+					)}
+				</div>
+			)}
+
+			<div className="flex gap-3">
+				<Button
+					type="button"
+					variant="outline"
+					onClick={() => runRecalculation(true)}
+					disabled={recalculateResult.fetching}
+				>
+					Preview Changes
+				</Button>
+				<Button
+					type="button"
+					onClick={() => runRecalculation(false)}
+					disabled={!preview || preview.appliedCount === 0 || recalculateResult.fetching}
+				>
+					Apply
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+const LIST_TASKS_FOR_BULK_QUERY = gql(`
+  query ListTasksForBulk($projectId: ID!) {
+    project(id: $projectId) {
+      id
+      tasks(status: active, limit: 100) {
+        nodes {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+const BULK_UPDATE_TIME_ENTRIES_MUTATION = gql(`
+  mutation BulkUpdateTimeEntries(
+    $timeEntryIds: [ID!]!
+    $projectId: ID
+    $taskId: ID
+    $billable: Boolean
+    $appendNote: String
+    $delete: Boolean
+  ) {
+    bulkUpdateTimeEntries(
+      timeEntryIds: $timeEntryIds
+      projectId: $projectId
+      taskId: $taskId
+      billable: $billable
+      appendNote: $appendNote
+      delete: $delete
+    ) {
+      timeEntryId
+      success
+      error
+    }
+  }
+`);
+
+interface TimeEntryBulkActionsProps {
+	// The selected time entries, as listed on the page
+	entries: any[];
+	projects: any[];
+	// Called with the entries that could not be changed, to keep them selected
+	onComplete: (failedIds: string[]) => void;
+	onClearSelection: () => void;
+}
+
+/**
+ * Toolbar for changing or deleting the selected time entries at once.
+ * Entries that could not be changed are reported and stay selected.
+ */
+export function TimeEntryBulkActions({ entries, projects, onComplete, onClearSelection }: TimeEntryBulkActionsProps) {
+	const [projectId, setProjectId] = useState('');
+	const [taskId, setTaskId] = useState('');
+	const [billable, setBillable] = useState('');
+	const [appendNote, setAppendNote] = useState('');
+	const [report, setReport] = useState<{
+		action: string;
+		succeeded: number;
+		failures: { label: string; error: string }[];
+	} | null>(null);
+	const [error, setError] = useState('');
+
+	const [tasksResult] = useQuery({
+		query: LIST_TASKS_FOR_BULK_QUERY,
+		variables: { projectId },
+		pause: !projectId,
+	});
+
+	const [bulkResult, bulkUpdateTimeEntries] = useMutation(BULK_UPDATE_TIME_ENTRIES_MUTATION);
+
+	const tasks = tasksResult.data?.project?.tasks.nodes || [];
+	const hasChanges = !!projectId || billable !== '' || !!appendNote.trim();
+
+	const describe = (timeEntryId: string) => {
+		const entry = entries.find((e) => e.id === timeEntryId);
+		if (!entry) return timeEntryId;
+		return `${entry.project.name}, ${new Date(entry.startedAt).toLocaleDateString('en-US', {
+			month: 'short',
+			day: 'numeric',
+		})}`;
+	};
+
+	const run = async (variables: Record<string, unknown>) => {
+		setError('');
+		setReport(null);
+
+		const result = await bulkUpdateTimeEntries({
+			timeEntryIds: entries.map((entry) => entry.id),
+			...variables,
+		});
+
+		if (result.error) {
+			setError(result.error.message);
+			return;
+		}
+
+		const results = result.data?.bulkUpdateTimeEntries || [];
+		setReport({
+			action: variables.delete ? 'deleted' : 'updated',
+			succeeded: results.filter((r: any) => r.success).length,
+			failures: results
+				.filter((r: any) => !r.success)
+				.map((r: any) => ({ label: describe(r.timeEntryId), error: r.error })),
+		});
+		setProjectId('');
+		setTaskId('');
+		setBillable('');
+		setAppendNote('');
+		onComplete(results.filter((r: any) => !r.success).map((r: any) => r.timeEntryId));
+	};
+
+	const handleApply = () =>
+		run({
+			projectId: projectId || undefined,
+			taskId: taskId || undefined,
+			billable: billable === '' ? undefined : billable === 'true',
+			appendNote: appendNote.trim() || undefined,
+		});
+
+	const handleDelete = () => {
+		if (!confirm(`Delete ${entries.length} time entries? This cannot be undone.`)) return;
+		run({ delete: true });
+	};
+
+	if (entries.length === 0 && !report) {
+		return null;
+	}
+
+	return (
+		<div className="p-4 border-b dark:border-border bg-muted/30 space-y-3">
+			{entries.length > 0 && (
+				<div className="flex flex-wrap items-center gap-2">
+					<span className="text-sm font-medium mr-2">{entries.length} selected</span>
+					<select
+						value={projectId}
+						onChange={(e) => {
+							setProjectId(e.target.value);
+							setTaskId('');
+						}}
+						className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+					>
+						<option value="">Keep project</option>
+						{projects.map((project: any) => (
+							<option key={project.id} value={project.id}>
+								{project.name}
+								{project.client ? ` - ${project.client.name}` : ''}
+							</option>
+						))}
+					</select>
+					<select
+						value={taskId}
+						onChange={(e) => setTaskId(e.target.value)}
+						disabled={!projectId}
+						className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm disabled:opacity-50"
+					>
+						<option value="">No task</option>
+						{tasks.map((task: any) => (
+							<option key={task.id} value={task.id}>
+								{task.name}
+							</option>
+						))}
+					</select>
+					<select
+						value={billable}
+						onChange={(e) => setBillable(e.target.value)}
+						className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+					>
+						<option value="">Keep billable</option>
+						<option value="true">Billable</option>
+						<option value="false">Non-billable</option>
+					</select>
+					<Input
+						value={appendNote}
+						onChange={(e) => setAppendNote(e.target.value)}
+						placeholder="Append to notes"
+						className="w-48"
+					/>
+					<Button size="sm" onClick={handleApply} disabled={!hasChanges || bulkResult.fetching}>
+						Apply
+					</Button>
+					<Button size="sm" variant="destructive" onClick={handleDelete} disabled={bulkResult.fetching}>
+						Delete
+					</Button>
+					<Button size="sm" variant="ghost" onClick={onClearSelection}>
+						<X className="w-4 h-4" />
+					</Button>
+				</div>
+			)}
+
+			{error && (
+				<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+					{error}
+				</div>
+			)}
+
+			{report && (
+				<div className="text-sm">
+					<div className="flex items-center justify-between">
+						<p className="text-muted-foreground">
+							{report.succeeded} {report.action}
+							{report.failures.length > 0 && `, ${report.failures.length} failed`}
+						</p>
+						<Button size="sm" variant="ghost" onClick={() => setReport(null)}>
+							Dismiss
+						</Button>
+					</div>
+					{report.failures.length > 0 && (
+						<ul className="mt-1 text-red-800 dark:text-red-300">
+							{report.failures.map((failure, index) => (
+								<li key={index}>
+									{failure.label}: {failure.error}
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
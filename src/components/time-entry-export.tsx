@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+// Mirrors EXPORT_COLUMNS in src/graphql/exports.ts
+const COLUMNS = [
+	{ key: 'date', label: 'Date', default: true },
+	{ key: 'started_at', label: 'Start', default: true },
+	{ key: 'stopped_at', label: 'End', default: true },
+	{ key: 'hours', label: 'Hours', default: true },
+	{ key: 'billable_hours', label: 'Billable Hours', default: false },
+	{ key: 'client', label: 'Client', default: true },
+	{ key: 'project', label: 'Project', default: true },
+	{ key: 'project_code', label: 'Project Code', default: false },
+	{ key: 'task', label: 'Task', default: true },
+	{ key: 'user', label: 'User', default: true },
+	{ key: 'email', label: 'Email', default: false },
+	{ key: 'note', label: 'Note', default: true },
+	{ key: 'tags', label: 'Tags', default: false },
+	{ key: 'billable', label: 'Billable', default: true },
+	{ key: 'hourly_rate', label: 'Hourly Rate', default: false },
+	{ key: 'amount', label: 'Amount', default: true },
+	{ key: 'cost', label: 'Cost', default: false, managersOnly: true },
+];
+
+interface TimeEntryExportProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	teamId: string;
+	userId?: string;
+	projects: any[];
+	// Team owners and admins may export everyone's entries and internal costs
+	canManageTeam: boolean;
+}
+
+/**
+ * Downloads the time entries matching the chosen filters as a CSV or Excel file
+ */
+export function TimeEntryExport({ open, onOpenChange, teamId, userId, projects, canManageTeam }: TimeEntryExportProps) {
+	const [format, setFormat] = useState('csv');
+	const [from, setFrom] = useState('');
+	const [to, setTo] = useState('');
+	const [projectId, setProjectId] = useState('');
+	const [billable, setBillable] = useState('');
+	const [uninvoicedOnly, setUninvoicedOnly] = useState(false);
+	const [allMembers, setAllMembers] = useState(false);
+	const [columns, setColumns] = useState(COLUMNS.filter((column) => column.default).map((column) => column.key));
+	const [error, setError] = useState('');
+	const [exporting, setExporting] = useState(false);
+
+	const toggleColumn = (key: string, checked: boolean) => {
+		setColumns(checked ? [...columns, key] : columns.filter((column) => column !== key));
+	};
+
+	const handleExport = async () => {
+		setError('');
+		setExporting(true);
+
+		const params = new URLSearchParams({
+			teamId,
+			format,
+			// Keep the file's column order stable regardless of the order they were ticked in
+			columns: COLUMNS.filter((column) => columns.includes(column.key))
+				.map((column) => column.key)
+				.join(','),
+		});
+		if (userId && !allMembers) params.set('userId', userId);
+		if (projectId) params.set('projectId', projectId);
+		if (billable) params.set('billable', billable);
+		if (uninvoicedOnly) params.set('uninvoicedOnly', 'true');
+		if (from) params.set('fromDate', from);
+		if (to) params.set('toDate', to);
+
+		try {
+			const response = await fetch(`/api/exports/time-entries?${params}`, {
+				credentials: 'include',
+				headers: { 'x-team-id': teamId },
+			});
+
+			if (!response.ok) {
+				const body = await response.json().catch(() => null);
+				throw new Error(body?.error || 'Failed to export time entries');
+			}
+
+			const url = URL.createObjectURL(await response.blob());
+			const link = document.createElement('a');
+			link.href = url;
+			link.download = `time-entries.${format}`;
+			link.click();
+			URL.revokeObjectURL(url);
+			onOpenChange(false);
+		} catch (err: any) {
+			setError(err.message);
+		} finally {
+			setExporting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Export Time Entries</DialogTitle>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="grid grid-cols-2 gap-4">
+						<div>
+							<Label htmlFor="exportFrom">From</Label>
+							<Input id="exportFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+						</div>
+						<div>
+							<Label htmlFor="exportTo">To</Label>
+							<Input id="exportTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+						</div>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4">
+						<div>
+							<Label htmlFor="exportProject">Project</Label>
+							<select
+								id="exportProject"
+								value={projectId}
+								onChange={(e) => setProjectId(e.target.value)}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+							>
+								<option value="">All projects</option>
+								{projects.map((project: any) => (
+									<option key={project.id} value={project.id}>
+										{project.name}
+										{project.client ? ` - ${project.client.name}` : ''}
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<Label htmlFor="exportBillable">Billable</Label>
+							<select
+								id="exportBillable"
+								value={billable}
+								onChange={(e) => setBillable(e.target.value)}
+								className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+							>
+								<option value="">All entries</option>
+								<option value="true">Billable only</option>
+								<option value="false">Non-billable only</option>
+							</select>
+						</div>
+					</div>
+
+					<div className="flex items-center gap-2">
+						<Checkbox
+							id="exportUninvoiced"
+							checked={uninvoicedOnly}
+							onCheckedChange={(checked) => setUninvoicedOnly(checked === true)}
+						/>
+						<Label htmlFor="exportUninvoiced">Only entries not yet invoiced</Label>
+					</div>
+
+					{canManageTeam && (
+						<div className="flex items-center gap-2">
+							<Checkbox
+								id="exportAllMembers"
+								checked={allMembers}
+								onCheckedChange={(checked) => setAllMembers(checked === true)}
+							/>
+							<Label htmlFor="exportAllMembers">Include all team members</Label>
+						</div>
+					)}
+
+					<div>
+						<Label>Columns</Label>
+						<div className="grid grid-cols-3 gap-2 mt-2">
+							{COLUMNS.filter((column) => !column.managersOnly || canManageTeam).map((column) => (
+								<div key={column.key} className="flex items-center gap-2">
+									<Checkbox
+										id={`exportColumn-${column.key}`}
+										checked={columns.includes(column.key)}
+										onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+									/>
+									<Label htmlFor={`exportColumn-${column.key}`} className="font-normal">
+										{column.label}
+									</Label>
+								</div>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<Label htmlFor="exportFormat">Format</Label>
+						<select
+							id="exportFormat"
+							value={format}
+							onChange={(e) => setFormat(e.target.value)}
+							className="w-full px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground"
+						>
+							<option value="csv">CSV</option>
+							<option value="xlsx">Excel (XLSX)</option>
+						</select>
+					</div>
+
+					{error && (
+						<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+							{error}
+						</div>
+					)}
+
+					<div className="flex gap-3 justify-end">
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+							Cancel
+						</Button>
+						<Button type="button" onClick={handleExport} disabled={exporting || columns.length === 0}>
+							{exporting ? 'Exporting...' : 'Export'}
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
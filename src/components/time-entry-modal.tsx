@@ -4,11 +4,15 @@ import { useState, useEffect } from 'react';
 import { useMutation, useQuery } from 'urql';
 import { gql } from '@/lib/gql';
 import { useAuth } from '@/lib/auth-context';
+import { useOfflineQueue } from '@/lib/offline-queue';
+import { formatDuration, parseTimeInput } from '@/lib/time-utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
 
 const LIST_PROJECTS_QUERY = gql(`
   query ListProjectsForTimeEntry($args: ListArgs!) {
@@ -41,22 +45,44 @@ const LIST_TASKS_QUERY = gql(`
   }
 `);
 
-const CREATE_TIME_ENTRY_MUTATION = gql(`
-  mutation CreateTimeEntry(
-    $projectId: ID!
+const TEAM_OVERLAP_POLICY_QUERY = gql(`
+  query TeamOverlapPolicy($teamId: ID!) {
+    team(id: $teamId) {
+      id
+      overlapPolicy
+    }
+  }
+`);
+
+const LIST_TIME_ENTRY_TAGS_QUERY = gql(`
+  query ListTimeEntryTags($teamId: ID!) {
+    timeEntryTags(teamId: $teamId) {
+      id
+      name
+    }
+  }
+`);
+
+const UPDATE_TIME_ENTRY_MUTATION = gql(`
+  mutation UpdateTimeEntry(
+    $timeEntryId: ID!
+    $projectId: ID
     $taskId: ID
     $note: String
-    $startedAt: DateTime!
-    $stoppedAt: DateTime!
+    $startedAt: DateTime
+    $stoppedAt: DateTime
     $billable: Boolean
+    $tags: [String!]
   ) {
-    createTimeEntry(
+    updateTimeEntry(
+      timeEntryId: $timeEntryId
       projectId: $projectId
       taskId: $taskId
       note: $note
       startedAt: $startedAt
       stoppedAt: $stoppedAt
       billable: $billable
+      tags: $tags
     ) {
       id
       note
@@ -64,35 +90,70 @@ const CREATE_TIME_ENTRY_MUTATION = gql(`
       stoppedAt
       durationSeconds
       billable
+      tags
+      conflicts {
+        id
+      }
     }
   }
 `);
 
-const UPDATE_TIME_ENTRY_MUTATION = gql(`
-  mutation UpdateTimeEntry(
-    $timeEntryId: ID!
-    $projectId: ID
+const CREATE_TIME_ENTRY_ON_DATE_MUTATION = gql(`
+  mutation CreateTimeEntryOnDate(
+    $projectId: ID!
     $taskId: ID
     $note: String
-    $startedAt: DateTime
-    $stoppedAt: DateTime
+    $tags: [String!]
+    $date: String!
+    $durationSeconds: Int!
     $billable: Boolean
   ) {
-    updateTimeEntry(
-      timeEntryId: $timeEntryId
+    createTimeEntryOnDate(
       projectId: $projectId
       taskId: $taskId
       note: $note
-      startedAt: $startedAt
-      stoppedAt: $stoppedAt
+      tags: $tags
+      date: $date
+      durationSeconds: $durationSeconds
       billable: $billable
     ) {
       id
-      note
-      startedAt
-      stoppedAt
-      durationSeconds
-      billable
+      conflicts {
+        id
+      }
+    }
+  }
+`);
+
+const LIST_MERGE_CANDIDATES_QUERY = gql(`
+  query ListMergeCandidates($teamId: ID!, $userId: ID, $projectId: ID, $from: DateTime, $to: DateTime) {
+    timeEntries(teamId: $teamId, userId: $userId, projectId: $projectId, from: $from, to: $to, limit: 100, order: "asc") {
+      nodes {
+        id
+        note
+        startedAt
+        stoppedAt
+        durationSeconds
+        task {
+          id
+        }
+      }
+    }
+  }
+`);
+
+const SPLIT_TIME_ENTRY_MUTATION = gql(`
+  mutation SplitTimeEntry($timeEntryId: ID!, $at: DateTime) {
+    splitTimeEntry(timeEntryId: $timeEntryId, at: $at) {
+      id
+    }
+  }
+`);
+
+const MERGE_TIME_ENTRIES_MUTATION = gql(`
+  mutation MergeTimeEntries($timeEntryIds: [ID!]!) {
+    mergeTimeEntries(timeEntryIds: $timeEntryIds) {
+      id
     }
   }
 `);
@@ -109,12 +170,14 @@ interface TimeEntryModalProps {
   onSuccess?: () => void;
   timeEntry?: {
     id: string;
+    userId?: string | null;
     projectId: string;
     taskId?: string | null;
     note?: string | null;
     startedAt: string;
     stoppedAt?: string | null;
     billable: boolean;
+    tags?: string[];
   } | null;
 }
 
@@ -134,7 +197,14 @@ export function TimeEntryModal({
   const [date, setDate] = useState('');
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
+  // Typed duration ("1h30") or time range ("9-11:30")
+  const [timeInput, setTimeInput] = useState('');
   const [billable, setBillable] = useState(true);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [splitTime, setSplitTime] = useState('');
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
 
   // Fetch projects
   const [projectsResult] = useQuery({
@@ -159,12 +229,54 @@ export function TimeEntryModal({
     pause: !projectId || !open,
   });
 
-  const [, createTimeEntryMutation] = useMutation(CREATE_TIME_ENTRY_MUTATION);
+  // Overlaps are only pointed out when the team asks for a warning
+  const [teamResult] = useQuery({
+    query: TEAM_OVERLAP_POLICY_QUERY,
+    variables: {
+      teamId: currentTeam?.id || '',
+    },
+    pause: !currentTeam?.id || !open,
+  });
+
+  // The team's tag list, offered as suggestions
+  const [tagsResult] = useQuery({
+    query: LIST_TIME_ENTRY_TAGS_QUERY,
+    variables: {
+      teamId: currentTeam?.id || '',
+    },
+    pause: !currentTeam?.id || !open,
+  });
+
+  // Entries of the same user, project and day that can be merged with the edited entry
+  const entryDay = timeEntry ? new Date(timeEntry.startedAt) : null;
+  entryDay?.setHours(0, 0, 0, 0);
+  const [mergeCandidatesResult] = useQuery({
+    query: LIST_MERGE_CANDIDATES_QUERY,
+    variables: {
+      teamId: currentTeam?.id || '',
+      userId: timeEntry?.userId,
+      projectId: timeEntry?.projectId,
+      from: entryDay?.toISOString(),
+      to: entryDay ? new Date(entryDay.getTime() + 24 * 60 * 60 * 1000 - 1).toISOString() : undefined,
+    },
+    pause: !currentTeam?.id || !timeEntry?.userId || !timeEntry?.stoppedAt || !open,
+    requestPolicy: 'network-only',
+  });
+
+  const { createTimeEntry } = useOfflineQueue(currentTeam?.id);
+  const [, createTimeEntryOnDateMutation] = useMutation(CREATE_TIME_ENTRY_ON_DATE_MUTATION);
   const [, updateTimeEntryMutation] = useMutation(UPDATE_TIME_ENTRY_MUTATION);
   const [, deleteTimeEntryMutation] = useMutation(DELETE_TIME_ENTRY_MUTATION);
+  const [splitResult, splitTimeEntryMutation] = useMutation(SPLIT_TIME_ENTRY_MUTATION);
+  const [mergeResult, mergeTimeEntriesMutation] = useMutation(MERGE_TIME_ENTRIES_MUTATION);
 
   const projects = projectsResult.data?.projects.nodes || [];
   const tasks = tasksResult.data?.project?.tasks.nodes || [];
+  const teamTags = tagsResult.data?.timeEntryTags || [];
+  const mergeCandidates = (mergeCandidatesResult.data?.timeEntries.nodes || []).filter(
+    (entry: any) =>
+      entry.id !== timeEntry?.id && entry.stoppedAt && (entry.task?.id ?? null) === (timeEntry?.taskId ?? null)
+  );
 
   // Initialize form with existing time entry data
   useEffect(() => {
@@ -173,6 +285,7 @@ export function TimeEntryModal({
       setTaskId(timeEntry.taskId || '');
       setNote(timeEntry.note || '');
       setBillable(timeEntry.billable);
+      setTags(timeEntry.tags || []);
 
       const startDate = new Date(timeEntry.startedAt);
       setDate(startDate.toISOString().split('T')[0]);
@@ -216,19 +329,104 @@ export function TimeEntryModal({
       setTaskId('');
       setNote('');
       setBillable(true);
+      setTags([]);
     }
+    setTimeInput('');
+    setTagInput('');
+    setSplitTime('');
+    setMergeIds([]);
+    setError('');
   }, [timeEntry, open]);
 
+  const warnAboutConflicts = (conflictCount: number) => {
+    if (teamResult.data?.team?.overlapPolicy === 'warn' && conflictCount > 0) {
+      alert(`This time entry overlaps ${conflictCount} other ${conflictCount === 1 ? 'entry' : 'entries'} of yours.`);
+    }
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      // Use the team's spelling of the tag
+      const teamTag = teamTags.find((t: any) => t.name.toLowerCase() === tag.toLowerCase());
+      setTags([...tags, teamTag ? teamTag.name : tag]);
+    }
+    setTagInput('');
+  };
+
+  const parsedTimeInput = timeInput.trim() ? parseTimeInput(timeInput) : null;
+  // New entries given only a duration are placed after the last entry of their day
+  const isDurationEntry = !isEditMode && parsedTimeInput?.kind === 'duration' && parsedTimeInput.seconds > 0;
+
+  // Ranges fill in the start and end; in an existing entry, a duration moves its end
+  const handleTimeInputChange = (value: string) => {
+    setTimeInput(value);
+
+    const parsed = parseTimeInput(value);
+    if (parsed?.kind === 'range' && parsed.endMinutes < 24 * 60) {
+      setStartTime(formatTimeInputValue(parsed.startMinutes));
+      setEndTime(formatTimeInputValue(parsed.endMinutes));
+    } else if (parsed?.kind === 'duration' && isEditMode && startTime) {
+      const [hours, minutes] = startTime.split(':').map(Number);
+      const endMinutes = hours * 60 + minutes + Math.round(parsed.seconds / 60);
+      if (endMinutes < 24 * 60) {
+        setEndTime(formatTimeInputValue(endMinutes));
+      }
+    }
+  };
+
+  const describeTimeInput = () => {
+    if (!timeInput.trim()) return null;
+    if (!parsedTimeInput || (parsedTimeInput.kind === 'duration' && parsedTimeInput.seconds <= 0)) {
+      return 'Type a duration like 1h30, 1.75 or 90m, or a time range like 9-11:30';
+    }
+    if (parsedTimeInput.kind === 'range') {
+      return parsedTimeInput.endMinutes < 24 * 60
+        ? `${formatDuration((parsedTimeInput.endMinutes - parsedTimeInput.startMinutes) * 60)}, start and end set below`
+        : 'Time ranges past midnight need an entry for each day';
+    }
+    return isEditMode
+      ? `${formatDuration(parsedTimeInput.seconds)} from the start time`
+      : `${formatDuration(parsedTimeInput.seconds)}, logged after your last entry that day`;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!projectId || !date || !startTime || !endTime) {
+    if (!projectId || !date) {
+      return;
+    }
+
+    if (isDurationEntry) {
+      setError('');
+      const result = await createTimeEntryOnDateMutation({
+        projectId,
+        taskId: taskId || null,
+        note: note || null,
+        tags,
+        date,
+        durationSeconds: parsedTimeInput.seconds,
+        billable,
+      });
+
+      if (result.error) {
+        setError(result.error.message);
+      } else {
+        warnAboutConflicts(result.data?.createTimeEntryOnDate?.conflicts.length ?? 0);
+        onOpenChange(false);
+        onSuccess?.();
+      }
+      return;
+    }
+
+    if (!startTime || !endTime) {
       return;
     }
 
     // Combine date and times into ISO strings
     const startedAt = new Date(`${date}T${startTime}`).toISOString();
     const stoppedAt = new Date(`${date}T${endTime}`).toISOString();
+    setError('');
 
     if (isEditMode && timeEntry) {
       const result = await updateTimeEntryMutation({
@@ -239,29 +437,83 @@ export function TimeEntryModal({
         startedAt,
         stoppedAt,
         billable,
+        tags,
       });
 
-      if (!result.error) {
+      if (result.error) {
+        setError(result.error.message);
+      } else {
+        warnAboutConflicts(result.data?.updateTimeEntry?.conflicts.length ?? 0);
         onOpenChange(false);
         onSuccess?.();
       }
     } else {
-      const result = await createTimeEntryMutation({
+      // Offline, the entry is kept on this device and created once the connection returns
+      const result = await createTimeEntry({
         projectId,
         taskId: taskId || null,
         note: note || null,
         startedAt,
         stoppedAt,
         billable,
+        tags,
       });
 
-      if (!result.error) {
+      if (result.error) {
+        setError(result.error);
+      } else {
+        if (result.queued) {
+          alert('You are offline. The time entry is saved on this device and will be synced when the connection returns.');
+        } else {
+          warnAboutConflicts(result.data?.createTimeEntry?.conflicts.length ?? 0);
+        }
         onOpenChange(false);
         onSuccess?.();
       }
     }
   };
 
+  const handleSplit = async () => {
+    if (!timeEntry || !splitTime) return;
+
+    // The split time is on the entry's own day
+    const at = new Date(timeEntry.startedAt);
+    const [hours, minutes] = splitTime.split(':').map(Number);
+    at.setHours(hours, minutes, 0, 0);
+
+    setError('');
+    const result = await splitTimeEntryMutation({
+      timeEntryId: timeEntry.id,
+      at: at.toISOString(),
+    });
+
+    if (result.error) {
+      setError(result.error.message);
+    } else {
+      onOpenChange(false);
+      onSuccess?.();
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!timeEntry || mergeIds.length === 0) return;
+
+    setError('');
+    const result = await mergeTimeEntriesMutation({
+      timeEntryIds: [timeEntry.id, ...mergeIds],
+    });
+
+    if (result.error) {
+      setError(result.error.message);
+    } else {
+      onOpenChange(false);
+      onSuccess?.();
+    }
+  };
+
+  const formatClock = (value: string) =>
+    new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
   const handleDelete = async () => {
     if (!isEditMode || !timeEntry) return;
 
@@ -338,6 +590,48 @@ export function TimeEntryModal({
             </div>
 
             <div className="col-span-2">
+              <Label htmlFor="tags">Tags</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="tags"
+                  list="time-entry-tag-options"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddTag();
+                    }
+                  }}
+                  placeholder={teamTags.length > 0 ? 'Add a tag' : 'No tags defined for this team'}
+                  disabled={teamTags.length === 0}
+                />
+                <datalist id="time-entry-tag-options">
+                  {teamTags
+                    .filter((tag: any) => !tags.includes(tag.name))
+                    .map((tag: any) => (
+                      <option key={tag.id} value={tag.name} />
+                    ))}
+                </datalist>
+                <Button type="button" variant="outline" onClick={handleAddTag} disabled={!tagInput.trim()}>
+                  Add
+                </Button>
+              </div>
+              {tags.length > 0 && (
+                <div className="flex gap-2 mt-2 flex-wrap">
+                  {tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs flex items-center gap-1">
+                      {tag}
+                      <button type="button" onClick={() => setTags(tags.filter((t) => t !== tag))} className="ml-1">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
               <Label htmlFor="date">Date *</Label>
               <Input
                 id="date"
@@ -348,6 +642,19 @@ export function TimeEntryModal({
               />
             </div>
 
+            <div>
+              <Label htmlFor="timeInput">Duration or Time Range</Label>
+              <Input
+                id="timeInput"
+                value={timeInput}
+                onChange={(e) => handleTimeInputChange(e.target.value)}
+                placeholder="1h30, 1.75, 90m or 9-11:30"
+              />
+              {describeTimeInput() && (
+                <p className="text-xs text-muted-foreground mt-1">{describeTimeInput()}</p>
+              )}
+            </div>
+
             <div>
               <Label htmlFor="startTime">Start Time *</Label>
               <Input
@@ -355,7 +662,8 @@ export function TimeEntryModal({
                 type="time"
                 value={startTime}
                 onChange={(e) => setStartTime(e.target.value)}
-                required
+                disabled={isDurationEntry}
+                required={!isDurationEntry}
               />
             </div>
 
@@ -366,7 +674,8 @@ export function TimeEntryModal({
                 type="time"
                 value={endTime}
                 onChange={(e) => setEndTime(e.target.value)}
-                required
+                disabled={isDurationEntry}
+                required={!isDurationEntry}
               />
             </div>
 
@@ -382,9 +691,80 @@ export function TimeEntryModal({
             </div>
           </div>
 
+          {isEditMode && timeEntry?.stoppedAt && (
+            <div className="space-y-4 border-t dark:border-border pt-4">
+              <div>
+                <Label htmlFor="splitTime">Split at</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Cuts the saved entry in two; the part after the split becomes a new entry.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    id="splitTime"
+                    type="time"
+                    value={splitTime}
+                    onChange={(e) => setSplitTime(e.target.value)}
+                    className="w-40"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSplit}
+                    disabled={!splitTime || splitResult.fetching}
+                  >
+                    Split
+                  </Button>
+                </div>
+              </div>
+
+              {mergeCandidates.length > 0 && (
+                <div>
+                  <Label>Merge with</Label>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Entries on the same project and task that day. Time between the entries is not counted.
+                  </p>
+                  <div className="space-y-2">
+                    {mergeCandidates.map((entry: any) => (
+                      <div key={entry.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`merge-${entry.id}`}
+                          checked={mergeIds.includes(entry.id)}
+                          onCheckedChange={(checked) =>
+                            setMergeIds(
+                              checked === true ? [...mergeIds, entry.id] : mergeIds.filter((id) => id !== entry.id)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`merge-${entry.id}`} className="cursor-pointer font-normal">
+                          {formatClock(entry.startedAt)} - {formatClock(entry.stoppedAt)}
+                          {entry.note && <span className="text-muted-foreground"> · {entry.note}</span>}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="mt-2"
+                    onClick={handleMerge}
+                    disabled={mergeIds.length === 0 || mergeResult.fetching}
+                  >
+                    Merge {mergeIds.length > 0 ? mergeIds.length + 1 : ''} Entries
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
           <div className="flex items-center justify-between gap-3 pt-4">
             <div className="flex gap-3">
-              <Button type="submit" disabled={!projectId || !date || !startTime || !endTime}>
+              <Button type="submit" disabled={!projectId || !date || (!isDurationEntry && (!startTime || !endTime))}>
                 {isEditMode ? 'Update' : 'Create'} Time Entry
               </Button>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
@@ -402,3 +782,10 @@ export function TimeEntryModal({
     </Dialog>
   );
 }
+
+/**
+ * Format minutes after midnight for a time input (e.g., 570 → "09:30")
+ */
+function formatTimeInputValue(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -1,12 +1,15 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { Play, Square, Clock } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Play, Pause, Square, Clock, AlertTriangle, CloudOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { formatElapsedTime } from "@/lib/time-utils";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatDuration, formatElapsedTime } from "@/lib/time-utils";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/lib/auth-context";
-import { useQuery, useMutation } from "urql";
+import { useOfflineQueue } from "@/lib/offline-queue";
+import { useQuery, useMutation, useSubscription } from "urql";
 import { gql } from "@/lib/gql";
 
 // GraphQL queries and mutations
@@ -26,22 +29,76 @@ const ACTIVE_TIMER_QUERY = gql(`
         stoppedAt
         projectId
         durationSeconds
+        pausedAt
+        pausedSeconds
       }
     }
   }
 `);
 
-const STOP_TIMER_MUTATION = gql(`
-  mutation StopTimer($timeEntryId: ID!) {
-    stopTimer(timeEntryId: $timeEntryId) {
+const PAUSE_TIMER_MUTATION = gql(`
+  mutation PauseTimer($timeEntryId: ID!) {
+    pauseTimer(timeEntryId: $timeEntryId) {
+      id
+      pausedAt
+      pausedSeconds
+    }
+  }
+`);
+
+const RESUME_TIMER_MUTATION = gql(`
+  mutation ResumeTimer($timeEntryId: ID!) {
+    resumeTimer(timeEntryId: $timeEntryId) {
+      id
+      pausedAt
+      pausedSeconds
+    }
+  }
+`);
+
+const AUTO_STOPPED_TIME_ENTRIES_QUERY = gql(`
+  query AutoStoppedTimeEntries($teamId: ID!) {
+    autoStoppedTimeEntries(teamId: $teamId) {
+      id
+      note
+      startedAt
+      stoppedAt
+      durationSeconds
+      project {
+        id
+        name
+      }
+    }
+  }
+`);
+
+const FIX_AUTO_STOPPED_TIME_ENTRY_MUTATION = gql(`
+  mutation FixAutoStoppedTimeEntry($timeEntryId: ID!, $stoppedAt: DateTime) {
+    updateTimeEntry(timeEntryId: $timeEntryId, stoppedAt: $stoppedAt) {
       id
       stoppedAt
       durationSeconds
-      amountCents
+      autoStoppedAt
+    }
+  }
+`);
+
+const TIME_ENTRY_EVENTS_SUBSCRIPTION = gql(`
+  subscription TimerEvents($teamId: ID!) {
+    timeEntryEvents(teamId: $teamId) {
+      type
+      timeEntryId
     }
   }
 `);
 
+// Queued operations, as named when the server rejects them
+const FAILURE_LABELS = {
+	startTimer: "Timer start",
+	stopTimer: "Timer stop",
+	createTimeEntry: "Time entry",
+};
+
 interface TimerProps {
 	onStart?: () => void;
 	onStop?: () => void;
@@ -51,7 +108,8 @@ interface TimerProps {
 
 /**
  * Timer component with localStorage sync across tabs
- * Displays the active timer and allows start/stop operations
+ * Displays the active timer and allows start/pause/resume/stop operations.
+ * Offline, timers are started and stopped through the offline queue and synced once the connection returns.
  */
 export function Timer({ onStart, onStop, variant = "full", className }: TimerProps) {
 	const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -69,29 +127,72 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 		requestPolicy: "cache-first",
 	});
 
-	const [stopResult, stopTimer] = useMutation(STOP_TIMER_MUTATION);
+	const [stopping, setStopping] = useState(false);
+	const [pauseResult, pauseTimer] = useMutation(PAUSE_TIMER_MUTATION);
+	const [resumeResult, resumeTimer] = useMutation(RESUME_TIMER_MUTATION);
+
+	// Timers started, stopped or paused elsewhere (another tab, device or the runaway timer sweep)
+	const [{ data: eventData, error: eventsError }] = useSubscription({
+		query: TIME_ENTRY_EVENTS_SUBSCRIPTION,
+		variables: { teamId: currentTeam?.id || "" },
+		pause: !currentTeam?.id || !user?.id,
+	});
+	const lastEvent = eventData?.timeEntryEvents;
+
+	const offlineQueue = useOfflineQueue(currentTeam?.id);
+	const { isOnline, queuedTimer, stoppedTimerIds, stopTimer } = offlineQueue;
+	const pendingCount = offlineQueue.operations.length;
+	const previousPendingCount = useRef(pendingCount);
 
-	// Get the most recent entry and check if it's still running (no stoppedAt)
+	// Get the most recent entry and check if it's still running (no stoppedAt), or stopped while offline.
+	// A timer started offline is shown until its start is synced.
 	const mostRecentEntry = data?.activeTimer?.nodes?.[0];
-	const activeTimer = mostRecentEntry && !mostRecentEntry.stoppedAt ? mostRecentEntry : null;
+	const serverTimer =
+		mostRecentEntry && !mostRecentEntry.stoppedAt && !stoppedTimerIds.includes(mostRecentEntry.id) ? mostRecentEntry : null;
+	const activeTimer =
+		serverTimer ||
+		(queuedTimer && {
+			id: queuedTimer.key,
+			note: queuedTimer.note,
+			startedAt: queuedTimer.startedAt,
+			projectId: queuedTimer.projectId,
+			pausedAt: null,
+			pausedSeconds: 0,
+		});
+	const isQueued = !!activeTimer && !serverTimer;
+	const isPaused = !!activeTimer?.pausedAt;
+
+	useEffect(() => {
+		if (lastEvent) {
+			refetchTimer({ requestPolicy: "network-only" });
+		}
+	}, [lastEvent, refetchTimer]);
+
+	// Pick up the synced timer once the queue has been replayed
+	useEffect(() => {
+		if (pendingCount < previousPendingCount.current) {
+			refetchTimer({ requestPolicy: "network-only" });
+		}
+		previousPendingCount.current = pendingCount;
+	}, [pendingCount, refetchTimer]);
 
-	// Poll for timer updates every 10 seconds, but only when NOT actively running a timer
-	// This prevents flickering while keeping the UI in sync across tabs
+	// Without the event stream, poll for timer updates every 10 seconds, but only when NOT actively
+	// running a timer. This prevents flickering while keeping the UI in sync across tabs
 	useEffect(() => {
-		if (!currentTeam?.id || !user?.id || activeTimer) return;
+		if (!currentTeam?.id || !user?.id || activeTimer || !eventsError || !isOnline) return;
 
 		const pollInterval = setInterval(() => {
 			refetchTimer({ requestPolicy: "cache-and-network" });
 		}, 10000);
 
 		return () => clearInterval(pollInterval);
-	}, [currentTeam?.id, user?.id, activeTimer, refetchTimer]);
+	}, [currentTeam?.id, user?.id, activeTimer, eventsError, isOnline, refetchTimer]);
 
-	// Calculate elapsed seconds from startedAt
-	const calculateElapsed = useCallback((startedAt: string) => {
+	// Calculate elapsed seconds from startedAt, excluding time spent paused
+	const calculateElapsed = useCallback((startedAt: string, pausedSeconds: number, pausedAt?: string | null) => {
 		const start = new Date(startedAt).getTime();
-		const now = Date.now();
-		return Math.floor((now - start) / 1000);
+		const end = pausedAt ? new Date(pausedAt).getTime() : Date.now();
+		return Math.max(0, Math.floor((end - start) / 1000) - pausedSeconds);
 	}, []);
 
 	// Sync elapsed time with active timer - runs independently of refetch
@@ -102,12 +203,14 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 		}
 
 		// Initialize with calculated elapsed time
-		const initialElapsed = calculateElapsed(activeTimer.startedAt);
+		const initialElapsed = calculateElapsed(activeTimer.startedAt, activeTimer.pausedSeconds, activeTimer.pausedAt);
 		setElapsedSeconds(initialElapsed);
 
-		// Update every second locally (no network requests)
+		// Update every second locally (no network requests), unless paused
 		const interval = setInterval(() => {
-			setElapsedSeconds((prev) => prev + 1);
+			if (!activeTimer.pausedAt) {
+				setElapsedSeconds((prev) => prev + 1);
+			}
 		}, 1000);
 
 		// Listen for localStorage changes (cross-tab sync)
@@ -124,7 +227,7 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 			clearInterval(interval);
 			window.removeEventListener("storage", handleStorageChange);
 		};
-	}, [activeTimer?.id, activeTimer?.startedAt, calculateElapsed, refetchTimer]);
+	}, [activeTimer?.id, activeTimer?.startedAt, activeTimer?.pausedAt, activeTimer?.pausedSeconds, calculateElapsed, refetchTimer]);
 
 	// Sync with localStorage on timer changes
 	useEffect(() => {
@@ -135,6 +238,7 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 					id: activeTimer.id,
 					startedAt: new Date(activeTimer.startedAt).toISOString(),
 					projectId: activeTimer.projectId,
+					pausedAt: activeTimer.pausedAt,
 				}),
 			);
 		} else {
@@ -149,18 +253,32 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 	const handleStop = useCallback(async () => {
 		if (!activeTimer) return;
 
-		const result = await stopTimer({
-			timeEntryId: activeTimer.id,
-		});
+		setStopping(true);
+		const result = await stopTimer(isQueued ? { startKey: activeTimer.id } : { timeEntryId: activeTimer.id });
+		setStopping(false);
 
-		if (!result.error) {
+		if (result.error) {
+			alert("Failed to stop timer: " + result.error);
+		} else {
 			// Clear localStorage immediately to prevent cross-tab issues
 			localStorage.removeItem("ardine_active_timer");
 			// Refetch with cache-and-network to smoothly update
 			refetchTimer({ requestPolicy: "cache-and-network" });
 			onStop?.();
 		}
-	}, [activeTimer, stopTimer, refetchTimer, onStop]);
+	}, [activeTimer, isQueued, stopTimer, refetchTimer, onStop]);
+
+	const handlePauseResume = useCallback(async () => {
+		if (!activeTimer) return;
+
+		const result = isPaused
+			? await resumeTimer({ timeEntryId: activeTimer.id })
+			: await pauseTimer({ timeEntryId: activeTimer.id });
+
+		if (!result.error) {
+			refetchTimer({ requestPolicy: "network-only" });
+		}
+	}, [activeTimer, isPaused, pauseTimer, resumeTimer, refetchTimer]);
 
 	// Only show loading on initial load, not during refetch
 	if (isLoading && !data) {
@@ -175,19 +293,47 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 	if (variant === "compact") {
 		return (
 			<div className={cn("flex items-center gap-2", className)}>
+				<AutoStoppedTimerBanner teamId={currentTeam?.id} lastEvent={lastEvent} compact />
+				<OfflineQueueStatus queue={offlineQueue} compact />
 				{activeTimer ? (
 					<>
-						<div className="flex items-center gap-2 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md px-3 py-1.5">
-							<div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-							<span className="font-mono text-sm font-medium text-green-700 dark:text-green-300">
+						<div
+							className={cn(
+								"flex items-center gap-2 border rounded-md px-3 py-1.5",
+								isPaused
+									? "bg-yellow-50 dark:bg-yellow-950 border-yellow-200 dark:border-yellow-800"
+									: "bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800",
+							)}
+						>
+							<div
+								className={cn(
+									"w-2 h-2 rounded-full",
+									isPaused ? "bg-yellow-500" : "bg-green-500 animate-pulse",
+								)}
+							/>
+							<span
+								className={cn(
+									"font-mono text-sm font-medium",
+									isPaused ? "text-yellow-700 dark:text-yellow-300" : "text-green-700 dark:text-green-300",
+								)}
+							>
 								{formatElapsedTime(elapsedSeconds)}
 							</span>
 						</div>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={handlePauseResume}
+							disabled={pauseResult.fetching || resumeResult.fetching || !isOnline || isQueued}
+						>
+							{isPaused ? <Play className="w-3 h-3 mr-1" /> : <Pause className="w-3 h-3 mr-1" />}
+							{isPaused ? "Resume" : "Pause"}
+						</Button>
 						<Button
 							size="sm"
 							variant="outline"
 							onClick={handleStop}
-							disabled={stopResult.fetching}
+							disabled={stopping}
 						>
 							<Square className="w-3 h-3 mr-1" />
 							Stop
@@ -205,25 +351,48 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 
 	return (
 		<div className={cn("flex flex-col gap-3", className)}>
+			<AutoStoppedTimerBanner teamId={currentTeam?.id} lastEvent={lastEvent} />
+			<OfflineQueueStatus queue={offlineQueue} />
 			{activeTimer ? (
 				<div className="bg-card border rounded-lg p-4">
 					<div className="flex items-center justify-between mb-3">
 						<div className="flex items-center gap-2">
-							<div className="w-3 h-3 bg-green-500 rounded-full animate-pulse" />
-							<span className="font-medium">Timer Running</span>
+							<div
+								className={cn(
+									"w-3 h-3 rounded-full",
+									isPaused ? "bg-yellow-500" : "bg-green-500 animate-pulse",
+								)}
+							/>
+							<span className="font-medium">{isPaused ? "Timer Paused" : "Timer Running"}</span>
+						</div>
+						<div className="flex items-center gap-2">
+							<Button
+								size="sm"
+								variant="outline"
+								onClick={handlePauseResume}
+								disabled={pauseResult.fetching || resumeResult.fetching || !isOnline || isQueued}
+							>
+								{isPaused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+								{isPaused ? "Resume" : "Pause"}
+							</Button>
+							<Button
+								size="sm"
+								variant="destructive"
+								onClick={handleStop}
+								disabled={stopping}
+							>
+								<Square className="w-4 h-4 mr-1" />
+								Stop Timer
+							</Button>
 						</div>
-						<Button
-							size="sm"
-							variant="destructive"
-							onClick={handleStop}
-							disabled={stopResult.fetching}
-						>
-							<Square className="w-4 h-4 mr-1" />
-							Stop Timer
-						</Button>
 					</div>
 
-					<div className="text-4xl font-mono font-bold text-center my-4">
+					<div
+						className={cn(
+							"text-4xl font-mono font-bold text-center my-4",
+							isPaused && "text-muted-foreground",
+						)}
+					>
 						{formatElapsedTime(elapsedSeconds)}
 					</div>
 
@@ -251,3 +420,210 @@ export function Timer({ onStart, onStop, variant = "full", className }: TimerPro
 		</div>
 	);
 }
+
+/**
+ * Banner for timers the runaway timer sweep stopped at the team's maximum duration.
+ * The user either enters when they actually stopped working or keeps the entry as it is.
+ */
+function AutoStoppedTimerBanner({
+	teamId,
+	lastEvent,
+	compact = false,
+}: {
+	teamId?: string;
+	lastEvent?: { type: string; timeEntryId: string } | null;
+	compact?: boolean;
+}) {
+	const [open, setOpen] = useState(false);
+	const [endTimes, setEndTimes] = useState<Record<string, string>>({});
+	const [error, setError] = useState("");
+
+	const [{ data }, refetch] = useQuery({
+		query: AUTO_STOPPED_TIME_ENTRIES_QUERY,
+		variables: { teamId: teamId || "" },
+		pause: !teamId,
+		requestPolicy: "cache-and-network",
+	});
+
+	const [fixResult, fixTimeEntry] = useMutation(FIX_AUTO_STOPPED_TIME_ENTRY_MUTATION);
+
+	// The sweep may stop a timer while the page is open
+	useEffect(() => {
+		if (lastEvent?.type === "timer_stopped") {
+			refetch({ requestPolicy: "network-only" });
+		}
+	}, [lastEvent, refetch]);
+
+	const entries = data?.autoStoppedTimeEntries || [];
+	if (entries.length === 0) {
+		return null;
+	}
+
+	// Saving without a new end time keeps the entry as it is and clears the flag
+	const handleSave = async (entry: any, keep: boolean) => {
+		const endTime = endTimes[entry.id];
+		setError("");
+
+		const result = await fixTimeEntry({
+			timeEntryId: entry.id,
+			stoppedAt: !keep && endTime ? new Date(endTime).toISOString() : undefined,
+		});
+
+		if (result.error) {
+			setError(result.error.message);
+			return;
+		}
+
+		refetch({ requestPolicy: "network-only" });
+		if (entries.length === 1) {
+			setOpen(false);
+		}
+	};
+
+	const message =
+		entries.length === 1
+			? "A forgotten timer was stopped automatically"
+			: `${entries.length} forgotten timers were stopped automatically`;
+
+	return (
+		<>
+			<div
+				className={cn(
+					"flex items-center gap-2 border rounded-md bg-yellow-50 dark:bg-yellow-950 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300",
+					compact ? "px-3 py-1.5 text-sm" : "p-4",
+				)}
+			>
+				<AlertTriangle className="w-4 h-4 shrink-0" />
+				<span className={cn(compact ? "" : "flex-1 text-sm")}>{compact ? "Timer auto-stopped" : message}</span>
+				<Button size="sm" variant="outline" onClick={() => setOpen(true)}>
+					Review
+				</Button>
+			</div>
+
+			<Dialog open={open} onOpenChange={setOpen}>
+				<DialogContent className="max-w-xl">
+					<DialogHeader>
+						<DialogTitle>Auto-stopped Timers</DialogTitle>
+					</DialogHeader>
+					<p className="text-sm text-muted-foreground">
+						{message} at your team&apos;s maximum timer duration. Enter when you actually stopped working, or keep
+						the entry as it is.
+					</p>
+
+					{error && (
+						<div className="p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+							{error}
+						</div>
+					)}
+
+					<div className="space-y-4">
+						{entries.map((entry: any) => (
+							<div key={entry.id} className="border dark:border-border rounded-lg p-4 space-y-3">
+								<div>
+									<p className="font-medium">{entry.project.name}</p>
+									<p className="text-sm text-muted-foreground">
+										Started {new Date(entry.startedAt).toLocaleString("en-US")}, stopped after{" "}
+										{formatDuration(entry.durationSeconds)}
+									</p>
+									{entry.note && <p className="text-sm text-muted-foreground">{entry.note}</p>}
+								</div>
+								<div className="flex items-center gap-2">
+									<Input
+										type="datetime-local"
+										value={endTimes[entry.id] ?? toDateTimeLocal(entry.stoppedAt)}
+										onChange={(e) => setEndTimes({ ...endTimes, [entry.id]: e.target.value })}
+										className="flex-1"
+									/>
+									<Button
+										size="sm"
+										onClick={() => handleSave(entry, false)}
+										disabled={!endTimes[entry.id] || fixResult.fetching}
+									>
+										Save
+									</Button>
+									<Button
+										size="sm"
+										variant="outline"
+										onClick={() => handleSave(entry, true)}
+										disabled={fixResult.fetching}
+									>
+										Keep
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
+
+/**
+ * Offline indicator with the number of timer changes waiting to be synced, and the queued
+ * changes the server rejected once they were replayed
+ */
+function OfflineQueueStatus({
+	queue,
+	compact = false,
+}: {
+	queue: ReturnType<typeof useOfflineQueue>;
+	compact?: boolean;
+}) {
+	const { isOnline, operations, failures, dismissFailures } = queue;
+
+	return (
+		<>
+			{(!isOnline || operations.length > 0) && (
+				<div
+					className={cn("flex items-center gap-2 text-muted-foreground", compact ? "text-xs" : "text-sm")}
+					title="Changes are saved on this device and synced when the connection returns"
+				>
+					<CloudOff className="w-4 h-4 shrink-0" />
+					<span>
+						{isOnline ? "Syncing" : "Offline"}
+						{operations.length > 0 &&
+							` · ${operations.length} ${operations.length === 1 ? "change" : "changes"} waiting`}
+					</span>
+				</div>
+			)}
+
+			{failures.length > 0 && (
+				<div
+					className={cn(
+						"flex items-start gap-2 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm",
+						compact ? "px-3 py-1.5" : "p-3",
+					)}
+				>
+					<AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+					<div className="flex-1">
+						{compact ? (
+							`${failures.length} offline ${failures.length === 1 ? "change" : "changes"} could not be saved`
+						) : (
+							<ul>
+								{failures.map((failure, index) => (
+									<li key={index}>
+										{FAILURE_LABELS[failure.kind]} ({new Date(failure.queuedAt).toLocaleString("en-US")}):{" "}
+										{failure.message}
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+					<Button size="sm" variant="ghost" onClick={dismissFailures}>
+						Dismiss
+					</Button>
+				</div>
+			)}
+		</>
+	);
+}
+
+/**
+ * Format a timestamp for a datetime-local input, in local time
+ */
+function toDateTimeLocal(value: string): string {
+	const date = new Date(value);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
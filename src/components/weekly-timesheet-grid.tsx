@@ -0,0 +1,348 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation } from 'urql';
+import { gql } from '@/lib/gql';
+import { Button } from '@/components/ui/button';
+import { formatDuration } from '@/lib/time-utils';
+import { addDays, startOfLocalDay, toLocalDate } from '@/lib/time-zones';
+import { Plus } from 'lucide-react';
+
+const LIST_TASKS_FOR_GRID_QUERY = gql(`
+  query ListTasksForGrid($projectId: ID!) {
+    project(id: $projectId) {
+      id
+      tasks(status: active, limit: 100) {
+        nodes {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+const UPSERT_WEEKLY_TIMESHEET_MUTATION = gql(`
+  mutation UpsertWeeklyTimesheet($teamId: ID!, $weekStart: DateTime!, $rows: [WeeklyTimesheetRowInput!]!) {
+    upsertWeeklyTimesheet(teamId: $teamId, weekStart: $weekStart, rows: $rows) {
+      id
+    }
+  }
+`);
+
+interface WeeklyTimesheetGridProps {
+	teamId: string;
+	// Midnight of the week's first day, in timeZone
+	weekStart: Date;
+	// Time zone the days begin in
+	timeZone: string;
+	// The week's time entries of the displayed user
+	entries: any[];
+	projects: any[];
+	// Only your own week can be edited, and only until it is approved
+	editable: boolean;
+	onSaved: () => void;
+}
+
+interface GridRow {
+	key: string;
+	projectId: string;
+	projectName: string;
+	taskId: string | null;
+	taskName: string | null;
+	seconds: number[];
+	running: boolean[];
+}
+
+/**
+ * Spreadsheet-style week: one row per project and task, one column per day.
+ * Typed hours are saved with upsertWeeklyTimesheet, which adjusts the underlying time entries.
+ */
+export function WeeklyTimesheetGrid({
+	teamId,
+	weekStart,
+	timeZone,
+	entries,
+	projects,
+	editable,
+	onSaved,
+}: WeeklyTimesheetGridProps) {
+	// Edited cell values by "rowKey:day", as typed
+	const [edits, setEdits] = useState<Record<string, string>>({});
+	const [addedRows, setAddedRows] = useState<GridRow[]>([]);
+	const [newProjectId, setNewProjectId] = useState('');
+	const [newTaskId, setNewTaskId] = useState('');
+	const [error, setError] = useState('');
+
+	const [tasksResult] = useQuery({
+		query: LIST_TASKS_FOR_GRID_QUERY,
+		variables: { projectId: newProjectId },
+		pause: !newProjectId,
+	});
+
+	const [saveResult, upsertWeeklyTimesheet] = useMutation(UPSERT_WEEKLY_TIMESHEET_MUTATION);
+
+	const tasks = tasksResult.data?.project?.tasks.nodes || [];
+
+	// The week's days as local dates (YYYY-MM-DD)
+	const weekStartDate = toLocalDate(weekStart, timeZone);
+	const days = useMemo(
+		() => Array.from({ length: 7 }, (_, index) => addDays(weekStartDate, index)),
+		[weekStartDate]
+	);
+
+	const entryRows = useMemo(() => {
+		const rowsByKey = new Map<string, GridRow>();
+
+		for (const entry of entries) {
+			const day = days.indexOf(toLocalDate(new Date(entry.startedAt), timeZone));
+			if (day < 0) continue;
+
+			const key = `${entry.project.id}:${entry.task?.id ?? ''}`;
+			if (!rowsByKey.has(key)) {
+				rowsByKey.set(key, {
+					key,
+					projectId: entry.project.id,
+					projectName: entry.project.name,
+					taskId: entry.task?.id ?? null,
+					taskName: entry.task?.name ?? null,
+					seconds: Array(7).fill(0),
+					running: Array(7).fill(false),
+				});
+			}
+
+			const row = rowsByKey.get(key)!;
+			row.seconds[day] += entry.durationSeconds || 0;
+			row.running[day] = row.running[day] || !entry.stoppedAt;
+		}
+
+		return [...rowsByKey.values()].sort((a, b) => a.projectName.localeCompare(b.projectName));
+	}, [entries, days, timeZone]);
+
+	const rows = [...entryRows, ...addedRows.filter((added) => !entryRows.some((row) => row.key === added.key))];
+
+	const cellValue = (row: GridRow, day: number) => {
+		const edited = edits[`${row.key}:${day}`];
+		if (edited !== undefined) return edited;
+		return row.seconds[day] ? formatHours(row.seconds[day]) : '';
+	};
+
+	const cellSeconds = (row: GridRow, day: number) => {
+		const edited = edits[`${row.key}:${day}`];
+		if (edited === undefined) return row.seconds[day];
+		const hours = parseHours(edited);
+		return Number.isNaN(hours) ? 0 : Math.round(hours * 3600);
+	};
+
+	const handleAddRow = () => {
+		const project = projects.find((p: any) => p.id === newProjectId);
+		if (!project) return;
+
+		const task = tasks.find((t: any) => t.id === newTaskId);
+		setAddedRows([
+			...addedRows,
+			{
+				key: `${project.id}:${task?.id ?? ''}`,
+				projectId: project.id,
+				projectName: project.name,
+				taskId: task?.id ?? null,
+				taskName: task?.name ?? null,
+				seconds: Array(7).fill(0),
+				running: Array(7).fill(false),
+			},
+		]);
+		setNewProjectId('');
+		setNewTaskId('');
+	};
+
+	const handleSave = async () => {
+		setError('');
+
+		const changedRows = [];
+		for (const row of rows) {
+			const hours = days.map((_, day) => {
+				const edited = edits[`${row.key}:${day}`];
+				return edited === undefined ? null : parseHours(edited);
+			});
+			if (hours.some((value) => Number.isNaN(value))) {
+				setError(`Invalid hours for ${row.projectName}; use e.g. 1.5 or 1:30`);
+				return;
+			}
+			if (hours.some((value) => value !== null)) {
+				changedRows.push({ projectId: row.projectId, taskId: row.taskId, hours });
+			}
+		}
+
+		if (changedRows.length === 0) return;
+
+		const result = await upsertWeeklyTimesheet({
+			teamId,
+			weekStart: weekStart.toISOString(),
+			rows: changedRows,
+		});
+
+		if (result.error) {
+			setError(result.error.message);
+			return;
+		}
+
+		setEdits({});
+		setAddedRows([]);
+		onSaved();
+	};
+
+	const hasEdits = Object.keys(edits).length > 0;
+
+	return (
+		<div>
+			<div className="overflow-x-auto">
+				<table className="w-full text-sm">
+					<thead>
+						<tr className="border-b dark:border-border bg-muted/30">
+							<th className="text-left p-3 font-medium">Project / Task</th>
+							{days.map((date) => (
+								<th key={date} className="p-3 font-medium text-center w-24">
+									<div className="text-xs text-muted-foreground uppercase">
+										{startOfLocalDay(date, timeZone).toLocaleDateString('en-US', { weekday: 'short', timeZone })}
+									</div>
+									<div>{Number(date.slice(8))}</div>
+								</th>
+							))}
+							<th className="p-3 font-medium text-right w-24">Total</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-border dark:divide-border">
+						{rows.length === 0 && (
+							<tr>
+								<td colSpan={9} className="p-8 text-center text-muted-foreground">
+									No time logged this week
+								</td>
+							</tr>
+						)}
+						{rows.map((row) => (
+							<tr key={row.key}>
+								<td className="p-3">
+									<div className="font-medium">{row.projectName}</div>
+									{row.taskName && <div className="text-xs text-muted-foreground">{row.taskName}</div>}
+								</td>
+								{days.map((date, day) => (
+									<td key={date} className="p-1">
+										<input
+											value={cellValue(row, day)}
+											onChange={(e) => setEdits({ ...edits, [`${row.key}:${day}`]: e.target.value })}
+											disabled={!editable || row.running[day]}
+											title={row.running[day] ? 'A timer is running on this day' : undefined}
+											inputMode="decimal"
+											className="w-full px-2 py-1.5 text-center border dark:border-border rounded focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground disabled:opacity-50"
+										/>
+									</td>
+								))}
+								<td className="p-3 text-right font-medium">
+									{formatDuration(days.reduce((sum, _, day) => sum + cellSeconds(row, day), 0))}
+								</td>
+							</tr>
+						))}
+					</tbody>
+					<tfoot>
+						<tr className="border-t dark:border-border bg-muted/30 font-medium">
+							<td className="p-3">Total</td>
+							{days.map((date, day) => (
+								<td key={date} className="p-3 text-center">
+									{formatDuration(rows.reduce((sum, row) => sum + cellSeconds(row, day), 0))}
+								</td>
+							))}
+							<td className="p-3 text-right">
+								{formatDuration(
+									rows.reduce((sum, row) => sum + days.reduce((rowSum, _, day) => rowSum + cellSeconds(row, day), 0), 0)
+								)}
+							</td>
+						</tr>
+					</tfoot>
+				</table>
+			</div>
+
+			{error && (
+				<div className="m-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg text-sm">
+					{error}
+				</div>
+			)}
+
+			{editable && (
+				<div className="p-4 border-t dark:border-border flex items-center justify-between gap-4">
+					<div className="flex items-center gap-2">
+						<select
+							value={newProjectId}
+							onChange={(e) => {
+								setNewProjectId(e.target.value);
+								setNewTaskId('');
+							}}
+							className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm"
+						>
+							<option value="">Select a project...</option>
+							{projects.map((project: any) => (
+								<option key={project.id} value={project.id}>
+									{project.name}
+									{project.client ? ` - ${project.client.name}` : ''}
+								</option>
+							))}
+						</select>
+						<select
+							value={newTaskId}
+							onChange={(e) => setNewTaskId(e.target.value)}
+							disabled={!newProjectId}
+							className="px-3 py-2 border dark:border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary dark:focus:ring-ring bg-background dark:bg-background text-foreground dark:text-foreground text-sm disabled:opacity-50"
+						>
+							<option value="">No task</option>
+							{tasks.map((task: any) => (
+								<option key={task.id} value={task.id}>
+									{task.name}
+								</option>
+							))}
+						</select>
+						<Button variant="outline" size="sm" onClick={handleAddRow} disabled={!newProjectId}>
+							<Plus className="w-4 h-4 mr-2" />
+							Add Row
+						</Button>
+					</div>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => {
+								setEdits({});
+								setAddedRows([]);
+							}}
+							disabled={!hasEdits || saveResult.fetching}
+						>
+							Discard
+						</Button>
+						<Button size="sm" onClick={handleSave} disabled={!hasEdits || saveResult.fetching}>
+							{saveResult.fetching ? 'Saving...' : 'Save Week'}
+						</Button>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Format seconds as decimal hours for a grid cell (e.g., 5400 → "1.5")
+ */
+function formatHours(seconds: number): string {
+	return String(Math.round((seconds / 3600) * 100) / 100);
+}
+
+/**
+ * Parse a grid cell: decimal hours ("1.5", "1,5") or hours and minutes ("1:30").
+ * Empty cells are 0; anything else is NaN.
+ */
+function parseHours(value: string): number {
+	const text = value.trim();
+	if (!text) return 0;
+
+	const clock = text.match(/^(\d+):([0-5]\d)$/);
+	if (clock) return Number(clock[1]) + Number(clock[2]) / 60;
+
+	return /^\d*[.,]?\d+$/.test(text) ? Number(text.replace(',', '.')) : NaN;
+}
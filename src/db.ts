@@ -1,4 +1,4 @@
-import pg, {QueryConfig, QueryResultRow} from 'pg';
+import pg, {QueryConfig, QueryResult, QueryResultRow} from 'pg';
 const { Pool } = pg;
 
 const pool = new Pool({
@@ -9,4 +9,24 @@ const pool = new Pool({
     port: parseInt(process.env.POSTGRES_PORT || '5432', 10),
 });
 
-export const query = <T extends QueryResultRow = any>(text: string | QueryConfig<any>, params?: any) => pool.query<T>(text, params);
\ No newline at end of file
+export const query = <T extends QueryResultRow = any>(text: string | QueryConfig<any>, params?: any) => pool.query<T>(text, params);
+
+/**
+ * Runs fn on a single pooled connection inside BEGIN/COMMIT, rolling back if it throws
+ */
+export const transaction = async <T>(
+    fn: (query: <R extends QueryResultRow = any>(text: string, params?: any[]) => Promise<QueryResult<R>>) => Promise<T>
+): Promise<T> => {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await fn((text, params) => client.query(text, params));
+        await client.query('COMMIT');
+        return result;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+};
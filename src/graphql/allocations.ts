@@ -0,0 +1,190 @@
+import { addDays, getLocalWeekRange } from '@/lib/time-zones';
+import { GraphQLContext } from './context';
+import { getLoggedTime, getMemberDays, groupByKey, MemberDay } from './capacity';
+import { toDateString } from './leave';
+import { Allocation, ResourceSchedule, ResourceScheduleCell, ResourceScheduleMemberWeek, ResourceScheduleWeek } from './types';
+
+// Longest a single allocation may run, in days
+export const MAX_ALLOCATION_DAYS = 366;
+
+// Most weeks a resource schedule covers
+export const MAX_SCHEDULE_WEEKS = 26;
+
+const HOUR_SECONDS = 60 * 60;
+
+/**
+ * Whether a member works on a day, so allocations plan hours on it: days they have capacity on,
+ * or Monday to Friday for members without any capacity recorded
+ */
+export function isWorkingDay(day: MemberDay): boolean {
+  if (day.has_capacity) {
+    return day.capacity_hours > 0;
+  }
+
+  const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay();
+  return weekday >= 1 && weekday <= 5;
+}
+
+/**
+ * Gets the allocations of a team that overlap two local dates (both inclusive)
+ */
+export async function getAllocations(
+  context: GraphQLContext,
+  teamId: string,
+  fromDate: string,
+  toDate: string,
+  options: { userId?: string | null; projectId?: string | null } = {}
+): Promise<Allocation[]> {
+  const result = await context.db.query<Allocation>(
+    `
+    SELECT * FROM allocations
+    WHERE team_id = $1 AND start_date <= $3 AND end_date >= $2
+      AND ($4::uuid IS NULL OR user_id = $4::uuid)
+      AND ($5::uuid IS NULL OR project_id = $5::uuid)
+    ORDER BY start_date, created_at
+    `,
+    [teamId, fromDate, toDate, options.userId ?? null, options.projectId ?? null]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Builds a week-by-week resource schedule: the time planned for each member on each project against
+ * the time they logged, and each member's planned time against the hours they are expected to work.
+ * Allocations plan their hours on every working day (see isWorkingDay) and leave does not remove them,
+ * so planned leave and holidays show up as conflicts. Members without any capacity recorded are expected
+ * to work 0 hours, so their planned time is not checked for conflicts.
+ * @param fromDate - A local date in the first week; the schedule starts on that week's first day
+ * @param weekStart - First day of the week, 0 (Sunday) to 6 (Saturday)
+ */
+export async function buildResourceSchedule(
+  context: GraphQLContext,
+  teamId: string,
+  fromDate: string,
+  weekCount: number,
+  timeZone: string,
+  weekStart: number
+): Promise<ResourceSchedule> {
+  const firstDate = getLocalWeekRange(fromDate, weekStart).fromDate;
+  const lastDate = addDays(firstDate, weekCount * 7 - 1);
+
+  const [memberships, allocations, loggedTime] = await Promise.all([
+    context.loaders.membershipsByTeamId.load(teamId),
+    getAllocations(context, teamId, firstDate, lastDate),
+    getLoggedTime(context, teamId, firstDate, lastDate, timeZone),
+  ]);
+
+  // Members who left the team keep their allocations until these are removed
+  const userIds = [...new Set([
+    ...memberships.map((membership) => membership.user_id),
+    ...allocations.map((allocation) => allocation.user_id),
+  ])];
+
+  const memberDays = await getMemberDays(context, teamId, userIds, firstDate, lastDate);
+  const dayByKey = new Map(memberDays.map((day) => [`${day.user_id}|${day.date}`, day]));
+
+  const weeks: ResourceScheduleWeek[] = [];
+  for (let week = 0; week < weekCount; week++) {
+    weeks.push({ week_start: addDays(firstDate, week * 7), week_end: addDays(firstDate, week * 7 + 6) });
+  }
+  const weekOf = (date: string) => weeks[Math.floor(daysBetween(firstDate, date) / 7)].week_start;
+
+  const cells = new Map<string, ResourceScheduleCell>();
+  const cellFor = (userId: string, projectId: string, date: string) => {
+    const weekStartDate = weekOf(date);
+    const key = `${userId}|${projectId}|${weekStartDate}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { user_id: userId, project_id: projectId, week_start: weekStartDate, planned_seconds: 0, actual_seconds: 0 };
+      cells.set(key, cell);
+    }
+    return cell;
+  };
+
+  // Planned hours per member and day
+  const plannedHours = new Map<string, number>();
+
+  for (const allocation of allocations) {
+    const startDate = toDateString(allocation.start_date);
+    const endDate = toDateString(allocation.end_date);
+    const hours = Number(allocation.hours_per_day);
+
+    for (
+      let date = startDate > firstDate ? startDate : firstDate;
+      date <= (endDate < lastDate ? endDate : lastDate);
+      date = addDays(date, 1)
+    ) {
+      const day = dayByKey.get(`${allocation.user_id}|${date}`);
+      if (!day || !isWorkingDay(day)) {
+        continue;
+      }
+
+      const key = `${allocation.user_id}|${date}`;
+      plannedHours.set(key, (plannedHours.get(key) ?? 0) + hours);
+      cellFor(allocation.user_id, allocation.project_id, date).planned_seconds += Math.round(hours * HOUR_SECONDS);
+    }
+  }
+
+  for (const logged of loggedTime) {
+    cellFor(logged.user_id, logged.project_id, logged.date).actual_seconds += logged.logged_seconds;
+  }
+
+  const loggedByDay = groupByKey(loggedTime, (logged) => `${logged.user_id}|${logged.date}`);
+  const memberWeeks: ResourceScheduleMemberWeek[] = [];
+
+  for (const userId of userIds) {
+    for (const week of weeks) {
+      const memberWeek: ResourceScheduleMemberWeek = {
+        user_id: userId,
+        week_start: week.week_start,
+        week_end: week.week_end,
+        capacity_seconds: 0,
+        leave_seconds: 0,
+        expected_seconds: 0,
+        planned_seconds: 0,
+        actual_seconds: 0,
+        conflict_dates: [],
+      };
+
+      for (let date = week.week_start; date <= week.week_end; date = addDays(date, 1)) {
+        const day = dayByKey.get(`${userId}|${date}`)!;
+        const expectedHours = day.capacity_hours - day.leave_hours;
+        const planned = plannedHours.get(`${userId}|${date}`) ?? 0;
+
+        memberWeek.capacity_seconds += Math.round(day.capacity_hours * HOUR_SECONDS);
+        memberWeek.leave_seconds += Math.round(day.leave_hours * HOUR_SECONDS);
+        memberWeek.expected_seconds += Math.round(expectedHours * HOUR_SECONDS);
+        memberWeek.planned_seconds += Math.round(planned * HOUR_SECONDS);
+        for (const logged of loggedByDay.get(`${userId}|${date}`) ?? []) {
+          memberWeek.actual_seconds += logged.logged_seconds;
+        }
+
+        // Hours have two decimals; compare in hundredths so float sums don't count as conflicts
+        if (day.has_capacity && Math.round(planned * 100) > Math.round(expectedHours * 100)) {
+          memberWeek.conflict_dates.push(date);
+        }
+      }
+
+      memberWeeks.push(memberWeek);
+    }
+  }
+
+  return {
+    team_id: teamId,
+    from_date: firstDate,
+    to_date: lastDate,
+    weeks,
+    member_weeks: memberWeeks,
+    cells: [...cells.values()],
+    allocations,
+  };
+}
+
+/**
+ * Helper to count the days from one local date to another
+ */
+function daysBetween(fromDate: string, toDate: string): number {
+  const milliseconds = Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`);
+  return Math.round(milliseconds / (24 * HOUR_SECONDS * 1000));
+}
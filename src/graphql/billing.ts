@@ -0,0 +1,242 @@
+import { GraphQLContext } from './context';
+import { ValidationError } from './errors';
+import { getRateHistory, rateEffectiveAt } from './rates';
+import { calculateCost } from './costs';
+import { Project, RateSource, RoundingMode } from './types';
+
+export const ROUNDING_MODES: RoundingMode[] = ['none', 'up', 'down', 'nearest'];
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  incrementMinutes: number | null;
+  minimumMinutes: number | null;
+}
+
+/**
+ * Rounding columns shared by teams, clients and projects
+ */
+interface RoundingSettings {
+  rounding_mode: RoundingMode | null;
+  rounding_increment_minutes: number | null;
+  rounding_minimum_minutes: number | null;
+}
+
+export interface BillingResult {
+  billableDurationSeconds: number;
+  hourlyRateCents: number | null;
+  rateSource: RateSource | null;
+  amountCents: number | null;
+  costCents: number | null;
+}
+
+export interface ResolvedRate {
+  hourlyRateCents: number | null;
+  rateSource: RateSource | null;
+}
+
+/**
+ * Validates a rounding mode coming from a mutation argument
+ */
+export function parseRoundingMode(mode: string | null | undefined): RoundingMode | null {
+  if (mode === null || mode === undefined) {
+    return null;
+  }
+
+  if (!ROUNDING_MODES.includes(mode as RoundingMode)) {
+    throw new ValidationError(
+      `Invalid rounding mode: ${mode}. Allowed modes: ${ROUNDING_MODES.join(', ')}`,
+      'roundingMode'
+    );
+  }
+
+  return mode as RoundingMode;
+}
+
+/**
+ * Rounds a raw duration to its billable duration.
+ * The increment is applied first, then the minimum billable duration.
+ */
+export function roundDuration(durationSeconds: number, rule: RoundingRule): number {
+  let rounded = durationSeconds;
+
+  if (rule.mode !== 'none' && rule.incrementMinutes) {
+    const increment = rule.incrementMinutes * 60;
+    const units = durationSeconds / increment;
+
+    if (rule.mode === 'up') {
+      rounded = Math.ceil(units) * increment;
+    } else if (rule.mode === 'down') {
+      rounded = Math.floor(units) * increment;
+    } else {
+      rounded = Math.round(units) * increment;
+    }
+  }
+
+  if (rule.minimumMinutes) {
+    rounded = Math.max(rounded, rule.minimumMinutes * 60);
+  }
+
+  return rounded;
+}
+
+/**
+ * Resolves the rounding rule for a project (project > client > team).
+ * A level overrides the ones below it when its rounding mode is set.
+ */
+export async function resolveRoundingRule(
+  context: GraphQLContext,
+  project: Project
+): Promise<RoundingRule> {
+  if (project.rounding_mode) {
+    return toRoundingRule(project);
+  }
+
+  if (project.client_id) {
+    const client = await context.loaders.clientById.load(project.client_id);
+    if (client?.rounding_mode) {
+      return toRoundingRule(client);
+    }
+  }
+
+  const team = await context.loaders.teamById.load(project.team_id);
+  if (team?.rounding_mode) {
+    return toRoundingRule(team);
+  }
+
+  return { mode: 'none', incrementMinutes: null, minimumMinutes: null };
+}
+
+/**
+ * Resolves the hourly rate in effect when a time entry started and the level it came from
+ * (task > project member > project > user > client)
+ */
+export async function resolveHourlyRate(
+  context: GraphQLContext,
+  project: Project,
+  taskId: string | null | undefined,
+  userId: string | null,
+  startedAt: Date
+): Promise<ResolvedRate> {
+  if (taskId) {
+    const task = await context.loaders.taskById.load(taskId);
+    if (task) {
+      const history = await getRateHistory(context, 'task', task.id);
+      const taskRate = rateEffectiveAt(history, task.hourly_rate_cents, startedAt);
+      if (taskRate) {
+        return { hourlyRateCents: taskRate, rateSource: 'task' };
+      }
+    }
+  }
+
+  if (userId) {
+    const members = await context.loaders.membersByProjectId.load(project.id);
+    const member = members.find((m) => m.user_id === userId);
+    if (member) {
+      const history = await getRateHistory(context, 'project_member', member.id);
+      const memberRate = rateEffectiveAt(history, member.hourly_rate_cents, startedAt);
+      if (memberRate) {
+        return { hourlyRateCents: memberRate, rateSource: 'project_member' };
+      }
+    }
+  }
+
+  const projectHistory = await getRateHistory(context, 'project', project.id);
+  const projectRate = rateEffectiveAt(projectHistory, project.default_hourly_rate_cents, startedAt);
+  if (projectRate) {
+    return { hourlyRateCents: projectRate, rateSource: 'project' };
+  }
+
+  if (userId) {
+    const memberships = await context.loaders.membershipsByTeamId.load(project.team_id);
+    const membership = memberships.find((m) => m.user_id === userId);
+    if (membership) {
+      const history = await getRateHistory(context, 'user', membership.id);
+      const userRate = rateEffectiveAt(history, membership.hourly_rate_cents, startedAt);
+      if (userRate) {
+        return { hourlyRateCents: userRate, rateSource: 'user' };
+      }
+    }
+  }
+
+  if (project.client_id) {
+    const client = await context.loaders.clientById.load(project.client_id);
+    if (client) {
+      const history = await getRateHistory(context, 'client', client.id);
+      const clientRate = rateEffectiveAt(history, client.default_hourly_rate_cents, startedAt);
+      if (clientRate) {
+        return { hourlyRateCents: clientRate, rateSource: 'client' };
+      }
+    }
+  }
+
+  return { hourlyRateCents: null, rateSource: null };
+}
+
+/**
+ * Calculates the billable duration, rate, amount and internal cost of a stopped time entry
+ */
+export async function calculateBilling(
+  context: GraphQLContext,
+  project: Project,
+  taskId: string | null | undefined,
+  userId: string | null,
+  startedAt: Date,
+  durationSeconds: number,
+  billable: boolean
+): Promise<BillingResult> {
+  const rule = await resolveRoundingRule(context, project);
+  const billableDurationSeconds = roundDuration(durationSeconds, rule);
+  const { hourlyRateCents, rateSource } = await resolveHourlyRate(context, project, taskId, userId, startedAt);
+
+  const amountCents = calculateAmount(billableDurationSeconds, hourlyRateCents, billable);
+  const costCents = await calculateCost(context, project.team_id, userId, startedAt, durationSeconds);
+
+  return { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents };
+}
+
+/**
+ * Calculates the amount billed for a duration: (billable duration in hours) * hourly rate
+ */
+export function calculateAmount(
+  billableDurationSeconds: number,
+  hourlyRateCents: number | null,
+  billable: boolean
+): number | null {
+  if (!hourlyRateCents || !billable) {
+    return null;
+  }
+
+  return Math.round((billableDurationSeconds / 3600) * hourlyRateCents);
+}
+
+/**
+ * Helper to read the rounding rule stored on a team, client or project
+ */
+function toRoundingRule(settings: RoundingSettings): RoundingRule {
+  return {
+    mode: settings.rounding_mode ?? 'none',
+    incrementMinutes: settings.rounding_increment_minutes,
+    minimumMinutes: settings.rounding_minimum_minutes,
+  };
+}
+
+/**
+ * Recalculates an invoice's subtotal, tax and total from its items
+ */
+export async function recalculateInvoiceTotals(
+  query: (text: string, params?: any[]) => Promise<any>,
+  invoiceId: string
+): Promise<void> {
+  await query(
+    `
+    UPDATE invoices
+    SET
+      subtotal_cents = (SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1),
+      tax_amount_cents = ROUND((SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) * tax_rate_percent / 100),
+      total_cents = (SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) + ROUND((SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) * tax_rate_percent / 100),
+      updated_at = NOW()
+    WHERE id = $1
+    `,
+    [invoiceId]
+  );
+}
@@ -0,0 +1,150 @@
+import { parseIcsEvents, ParsedIcsEvent } from '@/lib/ical';
+import { GraphQLContext, canLogTime } from './context';
+import { ValidationError } from './errors';
+import { CalendarImportRule, CalendarRuleMatchType, Project, TimeEntrySuggestion } from './types';
+
+export const CALENDAR_RULE_MATCH_TYPES: CalendarRuleMatchType[] = ['title_keyword', 'attendee_domain'];
+
+// Calendar exports can span years; suggestions are capped to keep the review dialog usable
+export const MAX_SUGGESTIONS = 500;
+
+/**
+ * Validates a calendar import rule match type coming from a mutation argument
+ */
+export function parseCalendarRuleMatchType(matchType: string): CalendarRuleMatchType {
+  if (!CALENDAR_RULE_MATCH_TYPES.includes(matchType as CalendarRuleMatchType)) {
+    throw new ValidationError(
+      `Invalid match type: ${matchType}. Allowed match types: ${CALENDAR_RULE_MATCH_TYPES.join(', ')}`,
+      'matchType'
+    );
+  }
+
+  return matchType as CalendarRuleMatchType;
+}
+
+/**
+ * Turns the timed events of an .ics file into suggested time entries for the current user.
+ * Projects are picked by the user's rules (oldest first); failing that, an attendee whose e-mail
+ * domain matches a client's e-mail suggests that client, and its project when it has only one
+ * the user can log time on. All-day and cancelled events are skipped.
+ */
+export async function suggestTimeEntries(
+  context: GraphQLContext,
+  teamId: string,
+  ics: string,
+  options: { from?: Date | null; to?: Date | null; timezoneOffsetMinutes: number }
+): Promise<TimeEntrySuggestion[]> {
+  const userId = context.auth.userId!;
+
+  const events = parseIcsEvents(ics, options.timezoneOffsetMinutes)
+    .filter((event) => !event.allDay && event.status !== 'CANCELLED' && event.end > event.start)
+    .filter((event) => (!options.from || event.start >= options.from) && (!options.to || event.start <= options.to))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (events.length === 0) {
+    return [];
+  }
+
+  const [rules, clients, projects, user] = await Promise.all([
+    context.db.query<CalendarImportRule>(
+      'SELECT * FROM calendar_import_rules WHERE team_id = $1 AND user_id = $2 ORDER BY created_at',
+      [teamId, userId]
+    ),
+    context.db.query<{ id: string; domain: string }>(
+      `
+      SELECT id, lower(split_part(email, '@', 2)) AS domain
+      FROM clients
+      WHERE team_id = $1 AND email LIKE '%@%' AND archived_at IS NULL
+      `,
+      [teamId]
+    ),
+    context.db.query<Project>(
+      `SELECT * FROM projects WHERE team_id = $1 AND status = 'active' AND archived_at IS NULL`,
+      [teamId]
+    ),
+    context.loaders.userById.load(userId),
+  ]);
+
+  // Projects the user may log time on, per client
+  const projectsByClient = new Map<string, Project[]>();
+  for (const project of projects.rows) {
+    if (project.client_id && (await canLogTime(context, project.id))) {
+      projectsByClient.set(project.client_id, [...(projectsByClient.get(project.client_id) || []), project]);
+    }
+  }
+
+  // Colleagues share the user's own domain, so it never identifies a client
+  const ownDomain = user?.email.split('@')[1]?.toLowerCase();
+  const clientByDomain = new Map(clients.rows.filter((client) => client.domain !== ownDomain).map((c) => [c.domain, c.id]));
+  const projectById = new Map(projects.rows.map((project) => [project.id, project]));
+
+  const existing = await context.db.query<{ started_at: Date; stopped_at: Date | null }>(
+    `
+    SELECT started_at, stopped_at
+    FROM time_entries
+    WHERE team_id = $1 AND user_id = $2
+      AND started_at < $4 AND COALESCE(stopped_at, 'infinity') > $3
+    `,
+    [teamId, userId, events[0].start, new Date(Math.max(...events.map((event) => event.end.getTime())))]
+  );
+
+  return events.map((event) => {
+    const suggestion: TimeEntrySuggestion = {
+      uid: event.uid,
+      summary: event.summary,
+      description: event.description,
+      started_at: event.start,
+      stopped_at: event.end,
+      attendees: event.attendees,
+      project_id: null,
+      task_id: null,
+      client_id: null,
+      match_reason: null,
+      overlaps_existing: existing.rows.some(
+        (entry) =>
+          new Date(entry.started_at) < event.end && (!entry.stopped_at || new Date(entry.stopped_at) > event.start)
+      ),
+    };
+
+    const rule = rules.rows.find((r) => matchesRule(r, event));
+    if (rule) {
+      suggestion.project_id = rule.project_id;
+      suggestion.task_id = rule.task_id;
+      suggestion.client_id = projectById.get(rule.project_id)?.client_id ?? null;
+      suggestion.match_reason =
+        rule.match_type === 'title_keyword' ? `Title contains "${rule.pattern}"` : `Attendee from ${rule.pattern}`;
+      return suggestion;
+    }
+
+    const domain = attendeeDomains(event).find((d) => clientByDomain.has(d));
+    if (domain) {
+      const clientProjects = projectsByClient.get(clientByDomain.get(domain)!) || [];
+      suggestion.client_id = clientByDomain.get(domain)!;
+      suggestion.project_id = clientProjects.length === 1 ? clientProjects[0].id : null;
+      suggestion.match_reason = `Attendee from client domain ${domain}`;
+    }
+
+    return suggestion;
+  });
+}
+
+/**
+ * Helper to check whether an event matches an import rule
+ */
+function matchesRule(rule: CalendarImportRule, event: ParsedIcsEvent): boolean {
+  const pattern = rule.pattern.toLowerCase();
+
+  if (rule.match_type === 'title_keyword') {
+    return event.summary.toLowerCase().includes(pattern);
+  }
+
+  return attendeeDomains(event).includes(pattern.replace(/^@/, ''));
+}
+
+/**
+ * Helper to list the e-mail domains of an event's attendees
+ */
+function attendeeDomains(event: ParsedIcsEvent): string[] {
+  return event.attendees.map((email) => email.split('@')[1]).filter(Boolean);
+}
@@ -0,0 +1,290 @@
+import { addDays, getLocalMonthRange, getLocalWeekRange, startOfLocalDay } from '@/lib/time-zones';
+import { GraphQLContext } from './context';
+import { ValidationError } from './errors';
+import { getLeaveDays, toDateString } from './leave';
+import { LeaveDay, MemberCapacity, UtilizationGroupBy, UtilizationReport, UtilizationRow } from './types';
+
+// Longest range a utilization report covers, in days
+export const MAX_UTILIZATION_RANGE_DAYS = 366;
+
+const HOUR_SECONDS = 60 * 60;
+
+/**
+ * Validates the hours of a weekly capacity: seven values from 0 to 24, Sunday first
+ */
+export function parseWeekdayHours(hours: number[]): number[] {
+  if (hours.length !== 7) {
+    throw new ValidationError('Capacity needs hours for each of the 7 weekdays, Sunday first', 'weekdayHours');
+  }
+  if (hours.some((value) => !Number.isFinite(value) || value < 0 || value > 24)) {
+    throw new ValidationError('Hours per weekday must be between 0 and 24', 'weekdayHours');
+  }
+
+  return hours.map((value) => Math.round(value * 100) / 100);
+}
+
+/**
+ * Gets the capacity history of a team's members, oldest first per member
+ * @param userIds - Only these members; all members when omitted
+ */
+export async function getCapacityHistory(
+  context: GraphQLContext,
+  teamId: string,
+  userIds?: string[]
+): Promise<MemberCapacity[]> {
+  const result = await context.db.query<MemberCapacity>(
+    `
+    SELECT mc.*, tm.user_id
+    FROM member_capacities mc
+    JOIN team_memberships tm ON tm.id = mc.team_membership_id
+    WHERE mc.team_id = $1 AND ($2::uuid[] IS NULL OR tm.user_id = ANY($2))
+    ORDER BY tm.user_id, mc.effective_from
+    `,
+    [teamId, userIds ?? null]
+  );
+
+  // pg reads NUMERIC arrays as strings
+  return result.rows.map((row) => ({ ...row, weekday_hours: row.weekday_hours.map(Number) }));
+}
+
+/**
+ * Finds the capacity in effect on a local date in one member's history (oldest first).
+ * Before the earliest capacity there is none.
+ */
+export function capacityOn(history: MemberCapacity[], date: string): MemberCapacity | null {
+  let current: MemberCapacity | null = null;
+
+  for (const capacity of history) {
+    if (toDateString(capacity.effective_from) <= date) {
+      current = capacity;
+    }
+  }
+
+  return current;
+}
+
+export interface MemberDay {
+  user_id: string;
+  date: string;
+  // Whether the member has any capacity recorded; members without one are expected to work 0 hours
+  has_capacity: boolean;
+  capacity_hours: number;
+  leave_hours: number;
+}
+
+export interface LoggedTime {
+  user_id: string;
+  project_id: string;
+  date: string;
+  logged_seconds: number;
+  billable_seconds: number;
+}
+
+/**
+ * Gets the capacity of members per day between two local dates (both inclusive), with the hours of it they are on
+ * leave. Team holidays count as the whole day's capacity, as does leave without hours; partial leave counts its hours,
+ * up to the capacity. Only approved leave counts.
+ */
+export async function getMemberDays(
+  context: GraphQLContext,
+  teamId: string,
+  userIds: string[],
+  fromDate: string,
+  toDate: string
+): Promise<MemberDay[]> {
+  const [history, leaveDays] = await Promise.all([
+    getCapacityHistory(context, teamId, userIds),
+    getLeaveDays(context, teamId, fromDate, toDate, { userIds }),
+  ]);
+
+  const historyByUser = groupByKey(history, (capacity) => capacity.user_id);
+  const leaveByUser = groupByKey(
+    leaveDays.filter((day) => day.kind === 'leave'),
+    (day) => day.user_id!
+  );
+  const holidays = new Set(leaveDays.filter((day) => day.kind === 'holiday').map((day) => day.date));
+
+  const days: MemberDay[] = [];
+
+  for (const userId of userIds) {
+    const userHistory = historyByUser.get(userId) ?? [];
+    const userLeave = leaveByUser.get(userId) ?? [];
+
+    for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+      const capacity = capacityOn(userHistory, date);
+      const capacityHours = capacity ? capacity.weekday_hours[new Date(`${date}T00:00:00Z`).getUTCDay()] : 0;
+
+      days.push({
+        user_id: userId,
+        date,
+        has_capacity: capacity !== null,
+        capacity_hours: capacityHours,
+        leave_hours: holidays.has(date) ? capacityHours : leaveHoursOn(userLeave, date, capacityHours),
+      });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Gets the time logged in a team per member, project and local date (both inclusive) in the given time zone.
+ * Running timers are left out.
+ */
+export async function getLoggedTime(
+  context: GraphQLContext,
+  teamId: string,
+  fromDate: string,
+  toDate: string,
+  timeZone: string
+): Promise<LoggedTime[]> {
+  const result = await context.db.query<LoggedTime>(
+    `
+    SELECT
+      user_id,
+      project_id,
+      (started_at AT TIME ZONE $2)::date::text AS date,
+      COALESCE(SUM(duration_seconds), 0)::integer AS logged_seconds,
+      COALESCE(SUM(COALESCE(billable_duration_seconds, duration_seconds)) FILTER (WHERE billable), 0)::integer AS billable_seconds
+    FROM time_entries
+    WHERE team_id = $1 AND stopped_at IS NOT NULL AND started_at >= $3 AND started_at < $4
+    GROUP BY user_id, project_id, 3
+    `,
+    [teamId, timeZone, startOfLocalDay(fromDate, timeZone), startOfLocalDay(addDays(toDate, 1), timeZone)]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Builds a utilization report: the time members logged against the hours they were expected to work,
+ * their capacity less leave and holidays (see getMemberDays).
+ * Days are local dates in the given time zone; members with neither capacity nor logged time are left out.
+ * @param weekStart - First day of the week for weekly groups, 0 (Sunday) to 6 (Saturday)
+ */
+export async function buildUtilizationReport(
+  context: GraphQLContext,
+  teamId: string,
+  fromDate: string,
+  toDate: string,
+  groupBy: UtilizationGroupBy,
+  timeZone: string,
+  weekStart: number
+): Promise<UtilizationReport> {
+  const memberships = await context.loaders.membershipsByTeamId.load(teamId);
+  const userIds = memberships.map((membership) => membership.user_id);
+
+  const [memberDays, loggedTime] = await Promise.all([
+    getMemberDays(context, teamId, userIds, fromDate, toDate),
+    getLoggedTime(context, teamId, fromDate, toDate, timeZone),
+  ]);
+
+  const loggedByDay = groupByKey(loggedTime, (logged) => `${logged.user_id}|${logged.date}`);
+  const daysByUser = groupByKey(memberDays, (day) => day.user_id);
+
+  const rows: UtilizationRow[] = [];
+
+  for (const userId of userIds) {
+    const days = daysByUser.get(userId) ?? [];
+    if (!days.some((day) => day.has_capacity) && !loggedTime.some((logged) => logged.user_id === userId)) {
+      continue;
+    }
+
+    const periods = new Map<string, UtilizationRow>();
+
+    for (const day of days) {
+      const [periodStart, periodEnd] = getPeriod(day.date, fromDate, toDate, groupBy, weekStart);
+      let row = periods.get(periodStart);
+      if (!row) {
+        row = emptyRow(userId, periodStart, periodEnd);
+        periods.set(periodStart, row);
+      }
+
+      row.capacity_seconds += Math.round(day.capacity_hours * HOUR_SECONDS);
+      row.leave_seconds += Math.round(day.leave_hours * HOUR_SECONDS);
+      row.expected_seconds += Math.round((day.capacity_hours - day.leave_hours) * HOUR_SECONDS);
+      for (const logged of loggedByDay.get(`${userId}|${day.date}`) ?? []) {
+        row.logged_seconds += logged.logged_seconds;
+        row.billable_seconds += logged.billable_seconds;
+      }
+    }
+
+    rows.push(...periods.values());
+  }
+
+  const total = rows.reduce((sum, row) => {
+    sum.capacity_seconds += row.capacity_seconds;
+    sum.leave_seconds += row.leave_seconds;
+    sum.expected_seconds += row.expected_seconds;
+    sum.logged_seconds += row.logged_seconds;
+    sum.billable_seconds += row.billable_seconds;
+    return sum;
+  }, emptyRow(null, fromDate, toDate));
+
+  return { team_id: teamId, from_date: fromDate, to_date: toDate, group_by: groupBy, rows, total };
+}
+
+/**
+ * Helper to find the period of a date, clipped to the report range
+ */
+function getPeriod(
+  date: string,
+  fromDate: string,
+  toDate: string,
+  groupBy: UtilizationGroupBy,
+  weekStart: number
+): [string, string] {
+  if (groupBy === 'member') {
+    return [fromDate, toDate];
+  }
+
+  const range = groupBy === 'week' ? getLocalWeekRange(date, weekStart) : getLocalMonthRange(date);
+  return [
+    range.fromDate < fromDate ? fromDate : range.fromDate,
+    range.toDate > toDate ? toDate : range.toDate,
+  ];
+}
+
+/**
+ * Helper to get the hours of leave a member takes on a date, up to the day's capacity
+ */
+function leaveHoursOn(leave: LeaveDay[], date: string, capacityHours: number): number {
+  const hours = leave
+    .filter((day) => day.date === date)
+    .map((day) => (day.hours === null ? capacityHours : Math.min(day.hours, capacityHours)));
+
+  return hours.length > 0 ? Math.max(...hours) : 0;
+}
+
+/**
+ * Helper to create a utilization row without any hours
+ */
+function emptyRow(userId: string | null, periodStart: string, periodEnd: string): UtilizationRow {
+  return {
+    user_id: userId,
+    period_start: periodStart,
+    period_end: periodEnd,
+    capacity_seconds: 0,
+    leave_seconds: 0,
+    expected_seconds: 0,
+    logged_seconds: 0,
+    billable_seconds: 0,
+  };
+}
+
+/**
+ * Groups items by a key, keeping their order
+ */
+export function groupByKey<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+
+  return groups;
+}
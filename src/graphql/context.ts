@@ -1,5 +1,5 @@
 import { QueryResult, QueryResultRow } from 'pg';
-import { query as dbQuery } from '@/db';
+import { query as dbQuery, transaction } from '@/db';
 import { createLoaders, Loaders } from './loaders';
 import { UnauthorizedError } from './errors';
 import jwt from 'jsonwebtoken';
@@ -124,6 +124,41 @@ export async function createContext(request: Request): Promise<GraphQLContext> {
   };
 }
 
+/**
+ * Creates a context for background jobs, which act on behalf of no user
+ */
+export function createSystemContext(): GraphQLContext {
+  return {
+    db: {
+      query: dbQuery,
+    },
+    auth: {
+      userId: null,
+      teamId: null,
+      instanceRole: null,
+      teamRole: null,
+    },
+    loaders: createLoaders(dbQuery),
+  };
+}
+
+/**
+ * Runs fn with a context whose queries share one database transaction.
+ * The loaders are recreated so they see rows written earlier in the transaction.
+ */
+export async function withTransaction<T>(
+  context: GraphQLContext,
+  fn: (txContext: GraphQLContext) => Promise<T>
+): Promise<T> {
+  return transaction((query) =>
+    fn({
+      ...context,
+      db: { query },
+      loaders: createLoaders(query),
+    })
+  );
+}
+
 /**
  * Ensures user is authenticated (requires both userId and teamId)
  */
@@ -333,3 +368,15 @@ export async function canViewProject(
   const effectiveRole = await getEffectiveRole(context, projectId);
   return effectiveRole !== null; // Any role (MANAGER, CONTRIBUTOR, VIEWER) can view
 }
+
+/**
+ * Time zone the current user's days begin in, for date ranges given as local dates
+ */
+export async function getViewerTimeZone(context: GraphQLContext): Promise<string> {
+  if (!context.auth.userId) {
+    return 'UTC';
+  }
+
+  const user = await context.loaders.userById.load(context.auth.userId);
+  return user?.time_zone ?? 'UTC';
+}
@@ -0,0 +1,84 @@
+import { GraphQLContext } from './context';
+import { lockedTimeEntrySql } from './locks';
+import { CostRate } from './types';
+
+/**
+ * Loads the cost rates of a user in a team, oldest first
+ */
+export async function getCostRates(context: GraphQLContext, teamId: string, userId: string): Promise<CostRate[]> {
+  const rates = await context.loaders.costRatesByUserId.load(userId);
+  return rates
+    .filter((rate) => rate.team_id === teamId)
+    .sort((a, b) => new Date(a.effective_from).getTime() - new Date(b.effective_from).getTime());
+}
+
+/**
+ * Picks the cost rate in effect at a moment (rates oldest first).
+ * Before the first cost rate the earliest one applies, so time logged before it was set is costed too.
+ */
+export function costRateEffectiveAt(rates: CostRate[], at: Date): number | null {
+  if (rates.length === 0) {
+    return null;
+  }
+
+  let effective = rates[0];
+  for (const rate of rates) {
+    if (new Date(rate.effective_from) <= at) {
+      effective = rate;
+    }
+  }
+
+  return effective.hourly_cost_cents;
+}
+
+/**
+ * Calculates the internal cost of a time entry from its actual (unrounded) duration
+ */
+export async function calculateCost(
+  context: GraphQLContext,
+  teamId: string,
+  userId: string | null,
+  startedAt: Date,
+  durationSeconds: number
+): Promise<number | null> {
+  if (!userId) {
+    return null;
+  }
+
+  const rates = await getCostRates(context, teamId, userId);
+  const hourlyCostCents = costRateEffectiveAt(rates, startedAt);
+  if (hourlyCostCents === null) {
+    return null;
+  }
+
+  return Math.round((durationSeconds / 3600) * hourlyCostCents);
+}
+
+/**
+ * Recalculates the cost of the stopped time entries of a user after their cost rates changed.
+ * Mirrors costRateEffectiveAt: the latest rate at or before the start, else the earliest rate.
+ * Locked entries (closed period, approved timesheet or invoiced) keep their cost.
+ */
+export async function refreshCostCents(context: GraphQLContext, teamId: string, userId: string): Promise<void> {
+  await context.db.query(
+    `
+    UPDATE time_entries te
+    SET cost_cents = (
+      SELECT ROUND(te.duration_seconds * cr.hourly_cost_cents / 3600.0)::integer
+      FROM cost_rates cr
+      WHERE cr.team_id = te.team_id AND cr.user_id = te.user_id
+      ORDER BY
+        cr.effective_from <= te.started_at DESC,
+        CASE WHEN cr.effective_from <= te.started_at THEN cr.effective_from END DESC,
+        cr.effective_from
+      LIMIT 1
+    )
+    WHERE te.team_id = $1 AND te.user_id = $2 AND te.duration_seconds IS NOT NULL
+      AND NOT ${lockedTimeEntrySql('te')}
+    `,
+    [teamId, userId]
+  );
+
+  context.loaders.costRatesByUserId.clear(userId);
+  context.loaders.timeEntryById.clearAll();
+}
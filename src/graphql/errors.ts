@@ -116,3 +116,19 @@ export async function withErrorMapping<T>(operation: () => Promise<T>): Promise<
     throw mapPgError(error);
   }
 }
+
+const HTTP_STATUS_BY_CODE: Record<string, number> = {
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  DEPENDENCY_VIOLATION: 409,
+  VALIDATION_ERROR: 400,
+};
+
+/**
+ * Maps a GraphQL error to an HTTP status for API routes that reuse resolver logic
+ */
+export function httpStatusFor(error: GraphQLError): number {
+  return HTTP_STATUS_BY_CODE[String(error.extensions.code)] ?? 500;
+}
@@ -0,0 +1,247 @@
+import { GraphQLContext, canManageTeam } from './context';
+import { UnauthorizedError, ValidationError } from './errors';
+import { parseDateRange } from './utils';
+import { toLocalDate } from '@/lib/time-zones';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+export interface TimeEntryFilters {
+  projectId?: string | null;
+  taskId?: string | null;
+  userId?: string | null;
+  clientId?: string | null;
+  from?: Date | null;
+  to?: Date | null;
+  billable?: boolean | null;
+  uninvoicedOnly?: boolean | null;
+  tags?: string[] | null;
+}
+
+export interface ExportRow {
+  id: string;
+  started_at: Date;
+  stopped_at: Date | null;
+  duration_seconds: number | null;
+  billable_duration_seconds: number | null;
+  billable: boolean;
+  note: string | null;
+  tags: string[];
+  hourly_rate_cents: number | null;
+  amount_cents: number | null;
+  cost_cents: number | null;
+  client_name: string | null;
+  project_name: string;
+  project_code: string | null;
+  task_name: string | null;
+  user_name: string | null;
+  user_email: string | null;
+}
+
+export type ExportValue = string | number | boolean | Date | null;
+
+interface ExportColumn {
+  header: string;
+  // Dates are those of the time zone the export is made for
+  value: (row: ExportRow, timeZone: string) => ExportValue;
+  managersOnly?: boolean;
+}
+
+/**
+ * Columns that can be exported, in the order they appear in the file
+ */
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  date: { header: 'Date', value: (row, timeZone) => toLocalDate(new Date(row.started_at), timeZone) },
+  started_at: { header: 'Start', value: (row) => row.started_at },
+  stopped_at: { header: 'End', value: (row) => row.stopped_at },
+  hours: { header: 'Hours', value: (row) => toHours(row.duration_seconds) },
+  billable_hours: { header: 'Billable Hours', value: (row) => toHours(row.billable_duration_seconds) },
+  client: { header: 'Client', value: (row) => row.client_name },
+  project: { header: 'Project', value: (row) => row.project_name },
+  project_code: { header: 'Project Code', value: (row) => row.project_code },
+  task: { header: 'Task', value: (row) => row.task_name },
+  user: { header: 'User', value: (row) => row.user_name },
+  email: { header: 'Email', value: (row) => row.user_email },
+  note: { header: 'Note', value: (row) => row.note },
+  tags: { header: 'Tags', value: (row) => row.tags.join(', ') },
+  billable: { header: 'Billable', value: (row) => row.billable },
+  hourly_rate: { header: 'Hourly Rate', value: (row) => toAmount(row.hourly_rate_cents) },
+  amount: { header: 'Amount', value: (row) => toAmount(row.amount_cents) },
+  cost: { header: 'Cost', value: (row) => toAmount(row.cost_cents), managersOnly: true },
+};
+
+export const DEFAULT_EXPORT_COLUMNS = ['date', 'started_at', 'stopped_at', 'hours', 'client', 'project', 'task', 'user', 'note', 'billable', 'amount'];
+
+// Rows fetched per query while exporting
+const EXPORT_BATCH_SIZE = 1000;
+
+// XLSX files are built in memory, so they hold at most this many time entries; CSV has no limit
+export const MAX_XLSX_EXPORT_ROWS = 50000;
+
+/**
+ * Validates an export format coming from a request parameter
+ */
+export function parseExportFormat(format: string | null | undefined): ExportFormat {
+  const normalized = (format || 'csv').toLowerCase();
+  if (!EXPORT_FORMATS.includes(normalized as ExportFormat)) {
+    throw new ValidationError(
+      `Invalid export format: ${format}. Allowed formats: ${EXPORT_FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  return normalized as ExportFormat;
+}
+
+/**
+ * Validates a comma-separated list of export columns, falling back to the default columns.
+ * Internal costs can only be exported by team owners and admins, like TimeEntry.costCents.
+ */
+export function parseExportColumns(context: GraphQLContext, columns: string | null | undefined): string[] {
+  const keys = columns
+    ? columns.split(',').map((key) => key.trim()).filter(Boolean)
+    : DEFAULT_EXPORT_COLUMNS;
+
+  for (const key of keys) {
+    if (!EXPORT_COLUMNS[key]) {
+      throw new ValidationError(
+        `Invalid export column: ${key}. Allowed columns: ${Object.keys(EXPORT_COLUMNS).join(', ')}`,
+        'columns'
+      );
+    }
+    if (EXPORT_COLUMNS[key].managersOnly && !canManageTeam(context)) {
+      throw new UnauthorizedError('Only team owners and admins can export internal costs');
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Builds the WHERE filters shared by the timeEntries query and time entry exports.
+ * OWNER, ADMIN, VIEWER, and BILLING can see all time entries in the team;
+ * everyone else only sees time entries from projects where they are explicitly assigned.
+ * The date range is left to the caller, since buildQuery handles it separately.
+ */
+export function buildTimeEntryFilters(
+  context: GraphQLContext,
+  teamId: string,
+  filters: TimeEntryFilters,
+  alias = 'time_entries'
+): { sql: string; params: any[] }[] {
+  const result: { sql: string; params: any[] }[] = [{ sql: `${alias}.team_id = $1`, params: [teamId] }];
+
+  const role = context.auth.teamRole;
+  if (role !== 'OWNER' && role !== 'ADMIN' && role !== 'VIEWER' && role !== 'BILLING') {
+    result.push({
+      sql: `EXISTS (SELECT 1 FROM project_members WHERE project_id = ${alias}.project_id AND user_id = $2)`,
+      params: [context.auth.userId],
+    });
+  }
+
+  // Calculate the next parameter index based on how many params we've added so far
+  let paramIndex = result.reduce((sum, f) => sum + f.params.length, 0) + 1;
+
+  if (filters.projectId) {
+    result.push({ sql: `${alias}.project_id = $${paramIndex++}`, params: [filters.projectId] });
+  }
+
+  if (filters.taskId) {
+    result.push({ sql: `${alias}.task_id = $${paramIndex++}`, params: [filters.taskId] });
+  }
+
+  if (filters.userId) {
+    result.push({ sql: `${alias}.user_id = $${paramIndex++}`, params: [filters.userId] });
+  }
+
+  if (filters.clientId) {
+    result.push({ sql: `${alias}.client_id = $${paramIndex++}`, params: [filters.clientId] });
+  }
+
+  if (filters.billable !== undefined && filters.billable !== null) {
+    result.push({ sql: `${alias}.billable = $${paramIndex++}`, params: [filters.billable] });
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    result.push({ sql: `${alias}.tags && $${paramIndex++}::text[]`, params: [filters.tags] });
+  }
+
+  if (filters.uninvoicedOnly) {
+    result.push({
+      sql: `${alias}.id NOT IN (SELECT time_entry_id FROM invoice_time_entries)`,
+      params: [],
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Loads every time entry matching the filters, oldest first, in batches.
+ * Batches are paged by (started_at, id) so a large export never holds more than one batch of rows.
+ */
+export async function* fetchExportRows(
+  context: GraphQLContext,
+  teamId: string,
+  filters: TimeEntryFilters
+): AsyncGenerator<ExportRow[]> {
+  const where = buildTimeEntryFilters(context, teamId, filters, 'te');
+  const params = where.flatMap((filter) => filter.params);
+  const dateRange = parseDateRange(filters.from, filters.to, 'te.started_at', params.length + 1);
+  const clauses = [...where.map((filter) => filter.sql), ...(dateRange.sql ? [dateRange.sql] : [])];
+  params.push(...dateRange.params);
+
+  const afterParam = dateRange.paramOffset;
+  let after: { started_at: Date; id: string } | null = null;
+
+  while (true) {
+    const result: { rows: ExportRow[] } = await context.db.query<ExportRow>(
+      `
+      SELECT
+        te.id, te.started_at, te.stopped_at, te.duration_seconds, te.billable_duration_seconds,
+        te.billable, te.note, te.tags, te.hourly_rate_cents, te.amount_cents, te.cost_cents,
+        c.name AS client_name,
+        p.name AS project_name,
+        p.code AS project_code,
+        pt.name AS task_name,
+        COALESCE(u.display_name, u.name) AS user_name,
+        u.email AS user_email
+      FROM time_entries te
+      JOIN projects p ON p.id = te.project_id
+      LEFT JOIN clients c ON c.id = te.client_id
+      LEFT JOIN project_tasks pt ON pt.id = te.task_id
+      LEFT JOIN users u ON u.id = te.user_id
+      WHERE ${clauses.join(' AND ')}
+        AND ($${afterParam}::timestamptz IS NULL OR (te.started_at, te.id) > ($${afterParam}::timestamptz, $${afterParam + 1}::uuid))
+      ORDER BY te.started_at, te.id
+      LIMIT ${EXPORT_BATCH_SIZE}
+      `,
+      [...params, after?.started_at ?? null, after?.id ?? null]
+    );
+
+    if (result.rows.length > 0) {
+      yield result.rows;
+    }
+    if (result.rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    const last = result.rows[result.rows.length - 1];
+    after = { started_at: last.started_at, id: last.id };
+  }
+}
+
+/**
+ * Helper to convert seconds into decimal hours with two decimals
+ */
+function toHours(seconds: number | null): number | null {
+  return seconds === null ? null : Math.round((seconds / 3600) * 100) / 100;
+}
+
+/**
+ * Helper to convert cents into a decimal amount
+ */
+function toAmount(cents: number | null): number | null {
+  return cents === null ? null : cents / 100;
+}
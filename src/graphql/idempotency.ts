@@ -0,0 +1,65 @@
+import { GraphQLContext, withTransaction } from './context';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { TimeEntry, TimeEntryOperation } from './types';
+
+const MAX_KEY_LENGTH = 100;
+
+/**
+ * Runs a timer or time entry operation of the current user at most once per client-generated key,
+ * so replaying an operation queued offline or retrying a request never applies it twice.
+ * The key is claimed in the operation's transaction: a concurrent replay waits for the first one,
+ * then returns its time entry. Without a key the operation simply runs.
+ */
+export async function withIdempotencyKey(
+  context: GraphQLContext,
+  key: string | null | undefined,
+  operation: TimeEntryOperation,
+  fn: (txContext: GraphQLContext) => Promise<TimeEntry>
+): Promise<{ timeEntry: TimeEntry; replayed: boolean }> {
+  if (!key) {
+    return { timeEntry: await fn(context), replayed: false };
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError(`Idempotency key must be at most ${MAX_KEY_LENGTH} characters`, 'idempotencyKey');
+  }
+
+  return withTransaction(context, async (tx) => {
+    const claimed = await tx.db.query(
+      `
+      INSERT INTO time_entry_idempotency_keys (user_id, key, team_id, operation)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (user_id, key) DO NOTHING
+      `,
+      [context.auth.userId, key, context.auth.teamId, operation]
+    );
+
+    if (claimed.rowCount === 0) {
+      const existing = await tx.db.query<{ team_id: string; operation: TimeEntryOperation; time_entry_id: string | null }>(
+        'SELECT team_id, operation, time_entry_id FROM time_entry_idempotency_keys WHERE user_id = $1 AND key = $2',
+        [context.auth.userId, key]
+      );
+
+      const previous = existing.rows[0];
+      if (previous.team_id !== context.auth.teamId || previous.operation !== operation) {
+        throw new ConflictError('Idempotency key already used', 'The key was used for a different operation');
+      }
+
+      const timeEntry = previous.time_entry_id ? await tx.loaders.timeEntryById.load(previous.time_entry_id) : null;
+      if (!timeEntry) {
+        throw new NotFoundError('Time entry not found');
+      }
+
+      return { timeEntry, replayed: true };
+    }
+
+    const timeEntry = await fn(tx);
+
+    await tx.db.query(
+      'UPDATE time_entry_idempotency_keys SET time_entry_id = $3 WHERE user_id = $1 AND key = $2',
+      [context.auth.userId, key, timeEntry.id]
+    );
+
+    return { timeEntry, replayed: false };
+  });
+}
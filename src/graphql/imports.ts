@@ -0,0 +1,533 @@
+import { parseCsv } from '@/lib/csv';
+import { fromLocalTime, isValidTimeZone } from '@/lib/time-zones';
+import { GraphQLContext, getViewerTimeZone, requireTeamAccess, requireTeamManagement, withTransaction } from './context';
+import { ConflictError, ValidationError } from './errors';
+import { calculateBilling } from './billing';
+import { requireTimeEntryUnlocked } from './locks';
+import { requireOverlapAllowed } from './overlaps';
+import { Client, ImportFormat, Project, ProjectTask, TimeEntryImport, TimeEntryImportRow } from './types';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['toggl', 'harvest', 'clockify'];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * CSV headers (lowercase) holding each time entry field, per tracker export format.
+ * The first header present in the file wins; a field without a header is left empty.
+ */
+export interface ImportColumnMapping {
+  client: string[];
+  project: string[];
+  task: string[];
+  note: string[];
+  email: string[];
+  billable: string[];
+  startDate: string[];
+  startTime: string[];
+  endDate: string[];
+  endTime: string[];
+  duration: string[];
+}
+
+export const IMPORT_MAPPINGS: Record<ImportFormat, ImportColumnMapping> = {
+  toggl: {
+    client: ['client'],
+    project: ['project'],
+    task: ['task'],
+    note: ['description'],
+    email: ['email'],
+    billable: ['billable'],
+    startDate: ['start date'],
+    startTime: ['start time'],
+    endDate: ['end date'],
+    endTime: ['end time'],
+    duration: ['duration'],
+  },
+  // Harvest exports hours per day without clock times or e-mail addresses
+  harvest: {
+    client: ['client'],
+    project: ['project'],
+    task: ['task'],
+    note: ['notes'],
+    email: ['email'],
+    billable: ['billable?', 'billable'],
+    startDate: ['date', 'spent date'],
+    startTime: ['started time', 'start time'],
+    endDate: [],
+    endTime: ['ended time', 'end time'],
+    duration: ['hours'],
+  },
+  clockify: {
+    client: ['client'],
+    project: ['project'],
+    task: ['task'],
+    note: ['description'],
+    email: ['email'],
+    billable: ['billable'],
+    startDate: ['start date'],
+    startTime: ['start time'],
+    endDate: ['end date'],
+    endTime: ['end time'],
+    duration: ['duration (decimal)', 'duration (h)'],
+  },
+};
+
+// Entries imported without clock times are laid out back to back from this hour
+const DEFAULT_START_HOUR = 9;
+
+/**
+ * Validates an import format coming from a mutation argument
+ */
+export function parseImportFormat(format: string): ImportFormat {
+  const normalized = format.toLowerCase();
+  if (!IMPORT_FORMATS.includes(normalized as ImportFormat)) {
+    throw new ValidationError(
+      `Invalid import format: ${format}. Allowed formats: ${IMPORT_FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  return normalized as ImportFormat;
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // IANA time zone of the file's local times; defaults to the importing user's time zone
+  timeZone?: string | null;
+}
+
+/**
+ * Imports time entries from a tracker CSV export into a team.
+ * Clients, projects and tasks are matched by name (case-insensitive) and created when missing;
+ * users are matched by e-mail among team members, rows without one are logged for the importing user.
+ * The import is all-or-nothing: every row is validated inside one transaction, which is only
+ * committed when no row has errors and this is not a dry run.
+ */
+export async function importTimeEntries(
+  context: GraphQLContext,
+  teamId: string,
+  format: ImportFormat,
+  csv: string,
+  options: ImportOptions
+): Promise<TimeEntryImport> {
+  await requireTeamAccess(context, teamId);
+  requireTeamManagement(context);
+
+  const timeZone = options.timeZone || (await getViewerTimeZone(context));
+  if (!isValidTimeZone(timeZone)) {
+    throw new ValidationError(`Unknown time zone: ${timeZone}`, 'timeZone');
+  }
+
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    throw new ValidationError('The file is empty', 'csv');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`, 'csv');
+  }
+
+  const columns = resolveColumns(header, IMPORT_MAPPINGS[format]);
+  if (columns.project === null || columns.startDate === null) {
+    throw new ValidationError(`The file does not look like a ${format} export: missing project or date column`, 'csv');
+  }
+  if (columns.duration === null && columns.endTime === null) {
+    throw new ValidationError(`The file does not look like a ${format} export: missing duration column`, 'csv');
+  }
+
+  try {
+    return await withTransaction(context, async (tx) => {
+      const report = await importRows(tx, teamId, columns, records, format, options, timeZone);
+
+      if (options.dryRun || report.rows.some((row) => row.errors.length > 0)) {
+        throw new ImportRollback(report);
+      }
+
+      return { ...report, committed: true };
+    });
+  } catch (error) {
+    if (error instanceof ImportRollback) {
+      return error.report;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Thrown to roll back an import transaction while still returning its report
+ */
+class ImportRollback extends Error {
+  constructor(public report: TimeEntryImport) {
+    super('Import rolled back');
+  }
+}
+
+type ImportColumns = Record<keyof ImportColumnMapping, number | null>;
+
+interface ImportLookups {
+  clients: Map<string, Client>;
+  projects: Project[];
+  tasks: ProjectTask[];
+  usersByEmail: Map<string, string>;
+}
+
+/**
+ * Helper to validate and insert every row of an import
+ */
+async function importRows(
+  context: GraphQLContext,
+  teamId: string,
+  columns: ImportColumns,
+  records: string[][],
+  format: ImportFormat,
+  options: ImportOptions,
+  timeZone: string
+): Promise<TimeEntryImport> {
+  const lookups = await loadLookups(context, teamId);
+  const nextStartByUserDay = new Map<string, number>();
+  const rows: TimeEntryImportRow[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const value = (field: keyof ImportColumnMapping) => {
+      const column = columns[field];
+      const cell = column === null ? '' : (record[column] ?? '').trim();
+      return cell === '' ? null : cell;
+    };
+
+    const row: TimeEntryImportRow = {
+      row_number: index + 2, // 1-based, after the header line
+      client_name: value('client'),
+      project_name: value('project'),
+      task_name: value('task'),
+      user_email: value('email')?.toLowerCase() ?? null,
+      note: value('note'),
+      started_at: null,
+      stopped_at: null,
+      duration_seconds: null,
+      billable: parseBillable(value('billable')),
+      creates_client: false,
+      creates_project: false,
+      creates_task: false,
+      errors: [],
+    };
+    rows.push(row);
+
+    // Users
+    let userId: string | null = context.auth.userId;
+    if (row.user_email) {
+      userId = lookups.usersByEmail.get(row.user_email) ?? null;
+      if (!userId) {
+        row.errors.push(`No team member with e-mail ${row.user_email}`);
+      }
+    }
+
+    // Times
+    const date = parseImportDate(value('startDate'));
+    const duration = parseImportDuration(value('duration'));
+    if (date === null) {
+      row.errors.push(`Invalid date: ${value('startDate') ?? '(empty)'}`);
+    } else {
+      const startTime = parseImportTime(value('startTime'));
+      const endTime = parseImportTime(value('endTime'));
+      const endDate = parseImportDate(value('endDate')) ?? date;
+
+      if (value('startTime') && startTime === null) {
+        row.errors.push(`Invalid start time: ${value('startTime')}`);
+      } else if (value('endTime') && endTime === null) {
+        row.errors.push(`Invalid end time: ${value('endTime')}`);
+      } else if (startTime !== null) {
+        // Each time is converted on its own date, so rows on either side of a daylight saving change keep their local times
+        const startedAt = fromLocalTime(date + startTime, timeZone).getTime();
+        const stoppedAt =
+          endTime !== null
+            ? fromLocalTime(endDate + endTime, timeZone).getTime()
+            : duration !== null
+              ? startedAt + duration * 1000
+              : null;
+        row.started_at = new Date(startedAt);
+        row.stopped_at = stoppedAt !== null ? new Date(stoppedAt) : null;
+      } else if (duration !== null) {
+        const dayKey = `${userId}|${date}`;
+        const startedAt =
+          nextStartByUserDay.get(dayKey) ?? fromLocalTime(date + DEFAULT_START_HOUR * 3600 * 1000, timeZone).getTime();
+        nextStartByUserDay.set(dayKey, startedAt + duration * 1000);
+        row.started_at = new Date(startedAt);
+        row.stopped_at = new Date(startedAt + duration * 1000);
+      }
+
+      if (!row.stopped_at && row.errors.length === 0) {
+        row.errors.push(`Invalid duration: ${value('duration') ?? '(empty)'}`);
+      }
+    }
+
+    if (row.started_at && row.stopped_at) {
+      row.duration_seconds = Math.floor((row.stopped_at.getTime() - row.started_at.getTime()) / 1000);
+      if (row.duration_seconds <= 0) {
+        row.errors.push('End time must be after start time');
+      }
+    }
+
+    // Clients, projects and tasks
+    const project = row.project_name ? await matchProject(context, teamId, lookups, row) : null;
+    if (!row.project_name) {
+      row.errors.push('Project is required');
+    }
+    const task = project && row.task_name ? await matchTask(context, teamId, lookups, project, row) : null;
+
+    if (row.errors.length > 0 || !project || !row.started_at || !row.stopped_at || row.duration_seconds === null) {
+      continue;
+    }
+
+    try {
+      await requireTimeEntryUnlocked(context, teamId, userId, row.started_at);
+      await requireOverlapAllowed(context, teamId, userId, row.started_at, row.stopped_at);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        const detail = error.extensions.detail;
+        row.errors.push(detail ? `${error.message}: ${detail}` : error.message);
+        continue;
+      }
+      throw error;
+    }
+
+    const { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+      context,
+      project,
+      task?.id,
+      userId,
+      row.started_at,
+      row.duration_seconds,
+      row.billable
+    );
+
+    await context.db.query(
+      `
+      INSERT INTO time_entries (
+        team_id, project_id, task_id, user_id, client_id,
+        note, started_at, stopped_at, duration_seconds, billable_duration_seconds,
+        billable, hourly_rate_cents, rate_source, amount_cents, cost_cents
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      `,
+      [
+        teamId,
+        project.id,
+        task?.id ?? null,
+        userId,
+        project.client_id,
+        row.note,
+        row.started_at,
+        row.stopped_at,
+        row.duration_seconds,
+        billableDurationSeconds,
+        row.billable,
+        hourlyRateCents,
+        rateSource,
+        amountCents,
+        costCents,
+      ]
+    );
+  }
+
+  return { format, dry_run: options.dryRun, committed: false, rows };
+}
+
+/**
+ * Helper to map each field of a column mapping to its position in the header row
+ */
+function resolveColumns(header: string[], mapping: ImportColumnMapping): ImportColumns {
+  const names = header.map((name) => name.trim().toLowerCase());
+  const columns = {} as ImportColumns;
+
+  for (const field of Object.keys(mapping) as (keyof ImportColumnMapping)[]) {
+    const index = mapping[field].map((name) => names.indexOf(name)).find((i) => i >= 0);
+    columns[field] = index ?? null;
+  }
+
+  return columns;
+}
+
+/**
+ * Helper to load the team's clients, projects, tasks and members for name and e-mail matching
+ */
+async function loadLookups(context: GraphQLContext, teamId: string): Promise<ImportLookups> {
+  const [clients, projects, tasks, members] = await Promise.all([
+    context.db.query<Client>('SELECT * FROM clients WHERE team_id = $1', [teamId]),
+    context.db.query<Project>('SELECT * FROM projects WHERE team_id = $1', [teamId]),
+    context.db.query<ProjectTask>('SELECT * FROM project_tasks WHERE team_id = $1', [teamId]),
+    context.db.query<{ user_id: string; email: string }>(
+      `
+      SELECT tm.user_id, u.email
+      FROM team_memberships tm
+      JOIN users u ON u.id = tm.user_id
+      WHERE tm.team_id = $1
+      `,
+      [teamId]
+    ),
+  ]);
+
+  return {
+    clients: new Map(clients.rows.map((client) => [client.name.toLowerCase(), client])),
+    projects: projects.rows,
+    tasks: tasks.rows,
+    usersByEmail: new Map(members.rows.map((member) => [member.email.toLowerCase(), member.user_id])),
+  };
+}
+
+/**
+ * Helper to find a row's project by name, creating it (and its client) when missing.
+ * Without a client name the project must already exist and be unambiguous.
+ */
+async function matchProject(
+  context: GraphQLContext,
+  teamId: string,
+  lookups: ImportLookups,
+  row: TimeEntryImportRow
+): Promise<Project | null> {
+  const projectName = row.project_name!;
+  const named = lookups.projects.filter((project) => project.name.toLowerCase() === projectName.toLowerCase());
+
+  if (!row.client_name) {
+    if (named.length === 1) {
+      return named[0];
+    }
+    row.errors.push(
+      named.length === 0
+        ? `Project ${projectName} does not exist and has no client to create it under`
+        : `Project ${projectName} exists for several clients; add a client column`
+    );
+    return null;
+  }
+
+  let client = lookups.clients.get(row.client_name.toLowerCase());
+  if (!client) {
+    const result = await context.db.query<Client>('INSERT INTO clients (team_id, name) VALUES ($1, $2) RETURNING *', [
+      teamId,
+      row.client_name,
+    ]);
+    client = result.rows[0];
+    lookups.clients.set(client.name.toLowerCase(), client);
+    row.creates_client = true;
+  }
+  const clientId = client.id;
+
+  const existing = named.find((project) => project.client_id === clientId);
+  if (existing) {
+    return existing;
+  }
+
+  const result = await context.db.query<Project>(
+    'INSERT INTO projects (team_id, client_id, name) VALUES ($1, $2, $3) RETURNING *',
+    [teamId, clientId, projectName]
+  );
+  lookups.projects.push(result.rows[0]);
+  row.creates_project = true;
+
+  return result.rows[0];
+}
+
+/**
+ * Helper to find a task of a project by name, creating it when missing
+ */
+async function matchTask(
+  context: GraphQLContext,
+  teamId: string,
+  lookups: ImportLookups,
+  project: Project,
+  row: TimeEntryImportRow
+): Promise<ProjectTask> {
+  const taskName = row.task_name!;
+  const existing = lookups.tasks.find(
+    (task) => task.project_id === project.id && task.name.toLowerCase() === taskName.toLowerCase()
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const result = await context.db.query<ProjectTask>(
+    'INSERT INTO project_tasks (team_id, project_id, name) VALUES ($1, $2, $3) RETURNING *',
+    [teamId, project.id, taskName]
+  );
+  lookups.tasks.push(result.rows[0]);
+  row.creates_task = true;
+
+  return result.rows[0];
+}
+
+/**
+ * Helper to read a billable flag (Yes/No, true/false, 1/0); billable when empty
+ */
+function parseBillable(value: string | null): boolean {
+  return !value || !['no', 'n', 'false', '0'].includes(value.toLowerCase());
+}
+
+/**
+ * Helper to parse a YYYY-MM-DD or MM/DD/YYYY date into a UTC midnight timestamp
+ */
+function parseImportDate(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3]), Number(us[1]), Number(us[2])]
+      : [NaN, NaN, NaN];
+
+  const timestamp = Date.UTC(year, month - 1, day);
+  if (Number.isNaN(timestamp) || new Date(timestamp).getUTCDate() !== day) {
+    return null;
+  }
+
+  return timestamp;
+}
+
+/**
+ * Helper to parse a 24-hour (13:30, 13:30:00) or 12-hour (1:30 PM) time into milliseconds after midnight
+ */
+function parseImportTime(value: string | null): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] ?? 0);
+  const meridiem = match[4]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Helper to parse a duration given as h:mm(:ss) or decimal hours into seconds
+ */
+function parseImportDuration(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const clock = value.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] ?? 0);
+  }
+
+  const hours = Number(value.replace(',', '.'));
+  if (!Number.isFinite(hours) || hours <= 0) {
+    return null;
+  }
+
+  return Math.round(hours * 3600);
+}
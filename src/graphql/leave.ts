@@ -0,0 +1,175 @@
+import { parseIcsEvents } from '@/lib/ical';
+import { addDays, isLocalDate } from '@/lib/time-zones';
+import { GraphQLContext } from './context';
+import { ValidationError } from './errors';
+import { LeaveDay, LeaveRequestStatus } from './types';
+
+export const LEAVE_REQUEST_STATUSES: LeaveRequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+// Longest range leave days are listed for, in days
+export const MAX_LEAVE_DAYS_RANGE = 366;
+
+// Most holidays a single calendar import may add
+export const MAX_IMPORTED_HOLIDAYS = 1000;
+
+export interface HolidayCalendarEntry {
+  date: string;
+  name: string;
+  uid: string;
+}
+
+/**
+ * Validates a leave request status filter
+ */
+export function parseLeaveRequestStatus(status: string): LeaveRequestStatus {
+  if (!LEAVE_REQUEST_STATUSES.includes(status as LeaveRequestStatus)) {
+    throw new ValidationError(
+      `Invalid status: ${status}. Allowed values: ${LEAVE_REQUEST_STATUSES.join(', ')}`,
+      'status'
+    );
+  }
+
+  return status as LeaveRequestStatus;
+}
+
+/**
+ * Validates a "YYYY-MM-DD" date argument
+ */
+export function parseLocalDate(value: string, field: string): string {
+  if (!isLocalDate(value)) {
+    throw new ValidationError(`Invalid date: ${value}. Use YYYY-MM-DD`, field);
+  }
+
+  return value;
+}
+
+/**
+ * Formats a DATE column as "YYYY-MM-DD".
+ * pg reads DATE values as midnight in the server's time zone, so the local parts are the date.
+ */
+export function toDateString(value: Date | string): string {
+  if (typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Gets the days off of a team between two dates (both inclusive): approved leave, one entry per
+ * user and day, and team holidays, which apply to every member.
+ * Weekends are included; whether a day off reduces expected hours depends on the member's working days.
+ * A member can have leave on a holiday, so count each day at most once.
+ * @param options.userIds - Only list leave of these users; holidays are always listed
+ * @param options.includePending - Also list leave awaiting approval
+ */
+export async function getLeaveDays(
+  context: GraphQLContext,
+  teamId: string,
+  fromDate: string,
+  toDate: string,
+  options: { userIds?: string[]; includePending?: boolean } = {}
+): Promise<LeaveDay[]> {
+  const statuses: LeaveRequestStatus[] = options.includePending ? ['approved', 'pending'] : ['approved'];
+
+  const [leaveResult, holidayResult] = await Promise.all([
+    context.db.query<{
+      id: string;
+      user_id: string;
+      start_date: string;
+      end_date: string;
+      hours_per_day: string | null;
+      status: LeaveRequestStatus;
+      name: string;
+      paid: boolean;
+    }>(
+      `
+      SELECT
+        lr.id, lr.user_id, lr.start_date::text AS start_date, lr.end_date::text AS end_date,
+        lr.hours_per_day, lr.status, lt.name, lt.paid
+      FROM leave_requests lr
+      JOIN leave_types lt ON lt.id = lr.leave_type_id
+      WHERE lr.team_id = $1 AND lr.status = ANY($2) AND lr.start_date <= $4 AND lr.end_date >= $3
+        AND ($5::uuid[] IS NULL OR lr.user_id = ANY($5))
+      ORDER BY lr.start_date, lr.created_at
+      `,
+      [teamId, statuses, fromDate, toDate, options.userIds ?? null]
+    ),
+    context.db.query<{ id: string; date: string; name: string }>(
+      `
+      SELECT id, date::text AS date, name
+      FROM team_holidays
+      WHERE team_id = $1 AND date BETWEEN $2 AND $3
+      ORDER BY date
+      `,
+      [teamId, fromDate, toDate]
+    ),
+  ]);
+
+  const days: LeaveDay[] = holidayResult.rows.map((holiday) => ({
+    date: holiday.date,
+    kind: 'holiday',
+    user_id: null,
+    name: holiday.name,
+    paid: true,
+    hours: null,
+    pending: false,
+    leave_request_id: null,
+    team_holiday_id: holiday.id,
+  }));
+
+  for (const request of leaveResult.rows) {
+    const firstDate = request.start_date > fromDate ? request.start_date : fromDate;
+    const lastDate = request.end_date < toDate ? request.end_date : toDate;
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      days.push({
+        date,
+        kind: 'leave',
+        user_id: request.user_id,
+        name: request.name,
+        paid: request.paid,
+        hours: request.hours_per_day !== null ? parseFloat(request.hours_per_day) : null,
+        pending: request.status === 'pending',
+        leave_request_id: request.id,
+        team_holiday_id: null,
+      });
+    }
+  }
+
+  // Holidays come before leave on the same day
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Reads the holidays of an iCalendar document, one per date.
+ * Only all-day events count; events spanning several days give a holiday on each of them.
+ * Recurring events are read once, at their first occurrence, so feeds should list every year.
+ */
+export function parseHolidayCalendar(ics: string): HolidayCalendarEntry[] {
+  const holidays = new Map<string, HolidayCalendarEntry>();
+
+  // All-day dates are read as UTC midnight
+  for (const event of parseIcsEvents(ics, 0)) {
+    if (!event.allDay || event.status === 'CANCELLED') {
+      continue;
+    }
+
+    const startDate = event.start.toISOString().slice(0, 10);
+    // DTEND of an all-day event is the day after its last day
+    const endDate = event.end > event.start ? addDays(event.end.toISOString().slice(0, 10), -1) : startDate;
+    const name = event.summary.trim().slice(0, 200) || 'Holiday';
+
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      if (!holidays.has(date)) {
+        holidays.set(date, { date, name, uid: event.uid });
+      }
+      if (holidays.size > MAX_IMPORTED_HOLIDAYS) {
+        throw new ValidationError(`A calendar can add at most ${MAX_IMPORTED_HOLIDAYS} holidays at once`, 'ics');
+      }
+    }
+  }
+
+  return [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -2,13 +2,22 @@ import DataLoader from 'dataloader';
 import { QueryResult } from 'pg';
 import {
   Team,
+  TeamMembership,
   User,
   Client,
   Project,
   ProjectTask,
   ProjectMember,
   TaskAssignee,
+  RateHistoryEntry,
+  CostRate,
   TimeEntry,
+  TimeEntryPause,
+  Timesheet,
+  LeaveType,
+  LeaveRequest,
+  Allocation,
+  PeriodClose,
   Invoice,
   InvoiceItem,
 } from '../types';
@@ -74,21 +83,35 @@ export interface Loaders {
   projectById: DataLoader<string, Project | null>;
   taskById: DataLoader<string, ProjectTask | null>;
   timeEntryById: DataLoader<string, TimeEntry | null>;
+  timesheetById: DataLoader<string, Timesheet | null>;
+  leaveTypeById: DataLoader<string, LeaveType | null>;
+  leaveRequestById: DataLoader<string, LeaveRequest | null>;
+  allocationById: DataLoader<string, Allocation | null>;
+  periodCloseById: DataLoader<string, PeriodClose | null>;
   invoiceById: DataLoader<string, Invoice | null>;
   invoiceItemById: DataLoader<string, InvoiceItem | null>;
   projectMemberById: DataLoader<string, ProjectMember | null>;
   taskAssigneeById: DataLoader<string, TaskAssignee | null>;
+  teamMembershipById: DataLoader<string, TeamMembership | null>;
 
   // By foreign key loaders
   projectsByClientId: DataLoader<string, Project[]>;
   tasksByProjectId: DataLoader<string, ProjectTask[]>;
   invoicesByClientId: DataLoader<string, Invoice[]>;
   membersByProjectId: DataLoader<string, ProjectMember[]>;
+  membershipsByTeamId: DataLoader<string, TeamMembership[]>;
   assigneesByTaskId: DataLoader<string, TaskAssignee[]>;
   invoiceItemsByInvoiceId: DataLoader<string, InvoiceItem[]>;
   timeEntriesByProjectId: DataLoader<string, TimeEntry[]>;
   timeEntriesByTaskId: DataLoader<string, TimeEntry[]>;
   timeEntriesByClientId: DataLoader<string, TimeEntry[]>;
+  pausesByTimeEntryId: DataLoader<string, TimeEntryPause[]>;
+  rateHistoryByClientId: DataLoader<string, RateHistoryEntry[]>;
+  rateHistoryByProjectId: DataLoader<string, RateHistoryEntry[]>;
+  rateHistoryByTaskId: DataLoader<string, RateHistoryEntry[]>;
+  rateHistoryByProjectMemberId: DataLoader<string, RateHistoryEntry[]>;
+  rateHistoryByTeamMembershipId: DataLoader<string, RateHistoryEntry[]>;
+  costRatesByUserId: DataLoader<string, CostRate[]>;
 }
 
 /**
@@ -103,20 +126,34 @@ export function createLoaders(query: QueryFunction): Loaders {
     projectById: createByIdLoader<Project>(query, 'projects'),
     taskById: createByIdLoader<ProjectTask>(query, 'project_tasks'),
     timeEntryById: createByIdLoader<TimeEntry>(query, 'time_entries'),
+    timesheetById: createByIdLoader<Timesheet>(query, 'timesheets'),
+    leaveTypeById: createByIdLoader<LeaveType>(query, 'leave_types'),
+    leaveRequestById: createByIdLoader<LeaveRequest>(query, 'leave_requests'),
+    allocationById: createByIdLoader<Allocation>(query, 'allocations'),
+    periodCloseById: createByIdLoader<PeriodClose>(query, 'period_closes'),
     invoiceById: createByIdLoader<Invoice>(query, 'invoices'),
     invoiceItemById: createByIdLoader<InvoiceItem>(query, 'invoice_items'),
     projectMemberById: createByIdLoader<ProjectMember>(query, 'project_members'),
     taskAssigneeById: createByIdLoader<TaskAssignee>(query, 'task_assignees'),
+    teamMembershipById: createByIdLoader<TeamMembership>(query, 'team_memberships'),
 
     // By foreign key loaders
     projectsByClientId: createByForeignKeyLoader<Project>(query, 'projects', 'client_id'),
     tasksByProjectId: createByForeignKeyLoader<ProjectTask>(query, 'project_tasks', 'project_id'),
     invoicesByClientId: createByForeignKeyLoader<Invoice>(query, 'invoices', 'client_id'),
     membersByProjectId: createByForeignKeyLoader<ProjectMember>(query, 'project_members', 'project_id'),
+    membershipsByTeamId: createByForeignKeyLoader<TeamMembership>(query, 'team_memberships', 'team_id'),
     assigneesByTaskId: createByForeignKeyLoader<TaskAssignee>(query, 'task_assignees', 'task_id'),
     invoiceItemsByInvoiceId: createByForeignKeyLoader<InvoiceItem>(query, 'invoice_items', 'invoice_id'),
     timeEntriesByProjectId: createByForeignKeyLoader<TimeEntry>(query, 'time_entries', 'project_id'),
     timeEntriesByTaskId: createByForeignKeyLoader<TimeEntry>(query, 'time_entries', 'task_id'),
     timeEntriesByClientId: createByForeignKeyLoader<TimeEntry>(query, 'time_entries', 'client_id'),
+    pausesByTimeEntryId: createByForeignKeyLoader<TimeEntryPause>(query, 'time_entry_pauses', 'time_entry_id'),
+    rateHistoryByClientId: createByForeignKeyLoader<RateHistoryEntry>(query, 'rate_history', 'client_id'),
+    rateHistoryByProjectId: createByForeignKeyLoader<RateHistoryEntry>(query, 'rate_history', 'project_id'),
+    rateHistoryByTaskId: createByForeignKeyLoader<RateHistoryEntry>(query, 'rate_history', 'task_id'),
+    rateHistoryByProjectMemberId: createByForeignKeyLoader<RateHistoryEntry>(query, 'rate_history', 'project_member_id'),
+    rateHistoryByTeamMembershipId: createByForeignKeyLoader<RateHistoryEntry>(query, 'rate_history', 'team_membership_id'),
+    costRatesByUserId: createByForeignKeyLoader<CostRate>(query, 'cost_rates', 'user_id'),
   };
 }
@@ -0,0 +1,160 @@
+import { GraphQLContext } from './context';
+import { ConflictError } from './errors';
+import { Invoice } from './types';
+
+/**
+ * Gets the moment a team's books are closed through, or null if no period is closed.
+ * Only the latest close that has not been reopened is in effect.
+ */
+export async function getClosedThrough(
+  context: GraphQLContext,
+  teamId: string
+): Promise<Date | null> {
+  const result = await context.db.query<{ closed_through: Date | null }>(
+    `SELECT MAX(closed_through) AS closed_through FROM period_closes WHERE team_id = $1 AND reopened_at IS NULL`,
+    [teamId]
+  );
+
+  return result.rows[0]?.closed_through ?? null;
+}
+
+/**
+ * Ensures the given date falls after the team's closed accounting period
+ */
+export async function requirePeriodOpen(
+  context: GraphQLContext,
+  teamId: string,
+  date: Date
+): Promise<void> {
+  const closedThrough = await getClosedThrough(context, teamId);
+
+  if (closedThrough && new Date(date) < new Date(closedThrough)) {
+    throw new ConflictError(
+      'Accounting period is closed',
+      `Records dated before ${new Date(closedThrough).toISOString()} can no longer be changed`
+    );
+  }
+}
+
+/**
+ * Ensures a user's time at the given moment is not part of an approved timesheet.
+ * Approved weeks are locked: their time entries can no longer be created, edited or deleted.
+ */
+export async function requireTimesheetUnlocked(
+  context: GraphQLContext,
+  teamId: string,
+  userId: string | null,
+  startedAt: Date
+): Promise<void> {
+  if (!userId) {
+    return;
+  }
+
+  const result = await context.db.query(
+    `
+    SELECT id FROM timesheets
+    WHERE team_id = $1 AND user_id = $2 AND status = 'approved'
+      AND week_start <= $3 AND week_end > $3
+    LIMIT 1
+    `,
+    [teamId, userId, startedAt]
+  );
+
+  if (result.rows.length > 0) {
+    throw new ConflictError(
+      'Time entry is locked',
+      'This week has been approved and can no longer be changed'
+    );
+  }
+}
+
+/**
+ * Ensures a time entry starting at the given moment may be created, edited or deleted.
+ * Checks both the team's closed accounting period and approved timesheets.
+ */
+export async function requireTimeEntryUnlocked(
+  context: GraphQLContext,
+  teamId: string,
+  userId: string | null,
+  startedAt: Date
+): Promise<void> {
+  await requirePeriodOpen(context, teamId, startedAt);
+  await requireTimesheetUnlocked(context, teamId, userId, startedAt);
+}
+
+/**
+ * SQL condition matching locked time entries: in the team's closed accounting period,
+ * in an approved timesheet or on an invoice. For statements that change many entries at once.
+ * @param alias - Alias of the time_entries table in the statement
+ */
+export function lockedTimeEntrySql(alias: string): string {
+  return `(
+    ${alias}.started_at < (
+      SELECT MAX(closed_through) FROM period_closes WHERE team_id = ${alias}.team_id AND reopened_at IS NULL
+    )
+    OR EXISTS (
+      SELECT 1 FROM timesheets ts
+      WHERE ts.team_id = ${alias}.team_id AND ts.user_id = ${alias}.user_id AND ts.status = 'approved'
+        AND ts.week_start <= ${alias}.started_at AND ts.week_end > ${alias}.started_at
+    )
+    OR EXISTS (SELECT 1 FROM invoice_time_entries ite WHERE ite.time_entry_id = ${alias}.id)
+  )`;
+}
+
+/**
+ * Ensures an invoice (and its items) may be changed
+ */
+export async function requireInvoiceUnlocked(
+  context: GraphQLContext,
+  invoice: Pick<Invoice, 'team_id' | 'issued_date'>
+): Promise<void> {
+  await requirePeriodOpen(context, invoice.team_id, invoice.issued_date);
+}
+
+/**
+ * Ensures none of the given time entries is on an invoice.
+ * Invoiced time is billed as recorded, so it can no longer be split, merged or rewritten.
+ */
+export async function requireTimeEntriesNotInvoiced(
+  context: GraphQLContext,
+  timeEntryIds: string[]
+): Promise<void> {
+  const result = await context.db.query(
+    'SELECT time_entry_id FROM invoice_time_entries WHERE time_entry_id = ANY($1::uuid[]) LIMIT 1',
+    [timeEntryIds]
+  );
+
+  if (result.rows.length > 0) {
+    throw new ConflictError(
+      'Time entry is invoiced',
+      'Time entries on an invoice can no longer be changed'
+    );
+  }
+}
+
+/**
+ * Ensures no locked time entry of the team carries the given tag.
+ * Entries in a closed period, an approved timesheet or on an invoice keep their tags as recorded,
+ * so a tag they carry can no longer be renamed or deleted.
+ */
+export async function requireTaggedTimeEntriesUnlocked(
+  context: GraphQLContext,
+  teamId: string,
+  tagName: string
+): Promise<void> {
+  const result = await context.db.query(
+    `
+    SELECT te.id FROM time_entries te
+    WHERE te.team_id = $1 AND $2 = ANY(te.tags) AND ${lockedTimeEntrySql('te')}
+    LIMIT 1
+    `,
+    [teamId, tagName]
+  );
+
+  if (result.rows.length > 0) {
+    throw new ConflictError(
+      'Tag is in use on locked time entries',
+      'Time entries in a closed period, an approved timesheet or on an invoice carry this tag'
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { GraphQLContext } from './context';
+import { ConflictError, ValidationError } from './errors';
+import { OverlapPolicy, TimeEntry } from './types';
+
+export const OVERLAP_POLICIES: OverlapPolicy[] = ['allow', 'warn', 'reject'];
+
+/**
+ * Validates an overlap policy coming from a mutation argument
+ */
+export function parseOverlapPolicy(policy: string): OverlapPolicy {
+  if (!OVERLAP_POLICIES.includes(policy as OverlapPolicy)) {
+    throw new ValidationError(
+      `Invalid overlap policy: ${policy}. Allowed policies: ${OVERLAP_POLICIES.join(', ')}`,
+      'overlapPolicy'
+    );
+  }
+
+  return policy as OverlapPolicy;
+}
+
+/**
+ * Finds a user's time entries that overlap the given range.
+ * Running timers (and a range without an end) are treated as open-ended.
+ */
+export async function findOverlappingEntries(
+  context: GraphQLContext,
+  teamId: string,
+  userId: string,
+  startedAt: Date,
+  stoppedAt: Date | null,
+  excludeTimeEntryId?: string
+): Promise<TimeEntry[]> {
+  const result = await context.db.query<TimeEntry>(
+    `
+    SELECT * FROM time_entries
+    WHERE team_id = $1 AND user_id = $2
+      AND started_at < COALESCE($4::timestamptz, 'infinity')
+      AND COALESCE(stopped_at, 'infinity') > $3
+      AND ($5::uuid IS NULL OR id <> $5::uuid)
+    ORDER BY started_at
+    `,
+    [teamId, userId, startedAt, stoppedAt, excludeTimeEntryId ?? null]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Applies the team's overlap policy to a time entry about to be saved.
+ * Throws when the team rejects overlaps; otherwise the entry may be saved.
+ */
+export async function requireOverlapAllowed(
+  context: GraphQLContext,
+  teamId: string,
+  userId: string | null,
+  startedAt: Date,
+  stoppedAt: Date | null,
+  excludeTimeEntryId?: string
+): Promise<void> {
+  if (!userId) {
+    return;
+  }
+
+  const team = await context.loaders.teamById.load(teamId);
+  if (!team || team.overlap_policy !== 'reject') {
+    return;
+  }
+
+  const overlaps = await findOverlappingEntries(context, teamId, userId, startedAt, stoppedAt, excludeTimeEntryId);
+  if (overlaps.length === 0) {
+    return;
+  }
+
+  const running = overlaps.find((entry) => !entry.stopped_at);
+  throw new ConflictError(
+    running ? 'Another timer is already running' : 'Time entry overlaps another entry',
+    overlaps
+      .map((entry) => {
+        const start = new Date(entry.started_at).toISOString();
+        const stop = entry.stopped_at ? new Date(entry.stopped_at).toISOString() : 'now';
+        return `${start} - ${stop}`;
+      })
+      .join(', ')
+  );
+}
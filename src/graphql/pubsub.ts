@@ -0,0 +1,24 @@
+import { createPubSub } from 'graphql-yoga';
+import { TimeEntry, TimeEntryEvent, TimeEntryEventType } from './types';
+
+/**
+ * In-process event bus behind GraphQL subscriptions.
+ * Events only reach subscribers connected to the same server process; run a single instance
+ * (or swap in a Redis-backed event target) when scaling out.
+ */
+export const pubSub = createPubSub<{
+  timeEntryEvents: [teamId: string, event: TimeEntryEvent];
+}>();
+
+/**
+ * Notifies the team's subscribers that a time entry changed.
+ * Events tell clients what to refetch; they are sent before a surrounding transaction commits.
+ */
+export function publishTimeEntryEvent(type: TimeEntryEventType, timeEntry: TimeEntry): void {
+  pubSub.publish('timeEntryEvents', timeEntry.team_id, {
+    type,
+    time_entry_id: timeEntry.id,
+    user_id: timeEntry.user_id,
+    time_entry: type === 'deleted' ? null : timeEntry,
+  });
+}
@@ -0,0 +1,200 @@
+import { GraphQLContext } from './context';
+import { RateHistoryEntry } from './types';
+
+export type RateLevel = 'client' | 'project' | 'task' | 'project_member' | 'user';
+
+/**
+ * Where each level keeps its history and its current rate.
+ * The user level is the default rate of a team member, kept on the team membership.
+ */
+const RATE_LEVELS: Record<RateLevel, { subjectColumn: string; table: string; rateColumn: string }> = {
+  client: { subjectColumn: 'client_id', table: 'clients', rateColumn: 'default_hourly_rate_cents' },
+  project: { subjectColumn: 'project_id', table: 'projects', rateColumn: 'default_hourly_rate_cents' },
+  task: { subjectColumn: 'task_id', table: 'project_tasks', rateColumn: 'hourly_rate_cents' },
+  project_member: { subjectColumn: 'project_member_id', table: 'project_members', rateColumn: 'hourly_rate_cents' },
+  user: { subjectColumn: 'team_membership_id', table: 'team_memberships', rateColumn: 'hourly_rate_cents' },
+};
+
+/**
+ * The client, project, task, project member or team membership a rate belongs to
+ */
+export interface RateSubject {
+  id: string;
+  team_id: string;
+  created_at: Date;
+}
+
+/**
+ * Loads the rate history of a level, oldest first
+ */
+export async function getRateHistory(
+  context: GraphQLContext,
+  level: RateLevel,
+  subjectId: string
+): Promise<RateHistoryEntry[]> {
+  const history = await historyLoader(context, level).load(subjectId);
+  return [...history].sort((a, b) => new Date(a.effective_from).getTime() - new Date(b.effective_from).getTime());
+}
+
+/**
+ * Picks the rate in effect at a moment from a level's history (oldest first).
+ * Without any history the current rate applies; before the first change the earliest rate applies.
+ */
+export function rateEffectiveAt(
+  history: RateHistoryEntry[],
+  currentRateCents: number | null,
+  at: Date
+): number | null {
+  if (history.length === 0) {
+    return currentRateCents;
+  }
+
+  let effective = history[0];
+  for (const entry of history) {
+    if (new Date(entry.effective_from) <= at) {
+      effective = entry;
+    }
+  }
+
+  return effective.hourly_rate_cents;
+}
+
+/**
+ * Records a rate taking effect at the given moment, replacing a change recorded at the same moment.
+ * A rate changed here takes effect now; time logged earlier keeps the previous rate,
+ * because the first change of a level also records the rate it had so far.
+ */
+export async function recordRateChange(
+  context: GraphQLContext,
+  level: RateLevel,
+  subject: RateSubject,
+  previousRateCents: number | null,
+  hourlyRateCents: number | null,
+  effectiveFrom: Date
+): Promise<RateHistoryEntry> {
+  const { subjectColumn } = RATE_LEVELS[level];
+  const history = await getRateHistory(context, level, subject.id);
+
+  const createdAt = new Date(subject.created_at);
+  if (history.length === 0 && createdAt < effectiveFrom) {
+    await upsertRate(context.db.query, subjectColumn, subject, previousRateCents, createdAt, context.auth.userId);
+  }
+
+  const entry = await upsertRate(
+    context.db.query,
+    subjectColumn,
+    subject,
+    hourlyRateCents,
+    effectiveFrom,
+    context.auth.userId
+  );
+
+  clearRateHistory(context, level, subject.id);
+  return entry;
+}
+
+/**
+ * Lists the rate history of a level with the moment each rate stopped applying
+ */
+export async function getRateTimeline(
+  context: GraphQLContext,
+  level: RateLevel,
+  subjectId: string
+): Promise<RateHistoryEntry[]> {
+  const { subjectColumn } = RATE_LEVELS[level];
+  const result = await context.db.query<RateHistoryEntry>(
+    `
+    SELECT *, LEAD(effective_from) OVER (ORDER BY effective_from) AS effective_to
+    FROM rate_history
+    WHERE ${subjectColumn} = $1
+    ORDER BY effective_from
+    `,
+    [subjectId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Stores the rate in effect now on the level's own row
+ */
+export async function syncCurrentRate(
+  context: GraphQLContext,
+  level: RateLevel,
+  subjectId: string
+): Promise<void> {
+  const { table, rateColumn } = RATE_LEVELS[level];
+  const history = await getRateHistory(context, level, subjectId);
+  if (history.length === 0) {
+    return;
+  }
+
+  await context.db.query(`UPDATE ${table} SET ${rateColumn} = $2 WHERE id = $1`, [
+    subjectId,
+    rateEffectiveAt(history, null, new Date()),
+  ]);
+
+  if (level === 'client') {
+    context.loaders.clientById.clear(subjectId);
+  } else if (level === 'project') {
+    context.loaders.projectById.clear(subjectId);
+  } else if (level === 'task') {
+    context.loaders.taskById.clear(subjectId);
+  } else if (level === 'project_member') {
+    context.loaders.projectMemberById.clear(subjectId);
+    context.loaders.membersByProjectId.clearAll();
+  } else {
+    context.loaders.teamMembershipById.clear(subjectId);
+    context.loaders.membershipsByTeamId.clearAll();
+  }
+}
+
+/**
+ * Helper to pick the loader holding the rate history of a level
+ */
+function historyLoader(context: GraphQLContext, level: RateLevel) {
+  switch (level) {
+    case 'client':
+      return context.loaders.rateHistoryByClientId;
+    case 'project':
+      return context.loaders.rateHistoryByProjectId;
+    case 'task':
+      return context.loaders.rateHistoryByTaskId;
+    case 'project_member':
+      return context.loaders.rateHistoryByProjectMemberId;
+    case 'user':
+      return context.loaders.rateHistoryByTeamMembershipId;
+  }
+}
+
+/**
+ * Helper to clear the cached history of a level after it changed
+ */
+function clearRateHistory(context: GraphQLContext, level: RateLevel, subjectId: string): void {
+  historyLoader(context, level).clear(subjectId);
+}
+
+/**
+ * Helper to insert a rate history entry, or update the one recorded at the same moment
+ */
+async function upsertRate(
+  query: (text: string, params?: any[]) => Promise<any>,
+  subjectColumn: string,
+  subject: RateSubject,
+  hourlyRateCents: number | null,
+  effectiveFrom: Date,
+  userId: string | null
+): Promise<RateHistoryEntry> {
+  const result = await query(
+    `
+    INSERT INTO rate_history (team_id, ${subjectColumn}, hourly_rate_cents, effective_from, created_by)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (${subjectColumn}, effective_from) WHERE ${subjectColumn} IS NOT NULL
+    DO UPDATE SET hourly_rate_cents = EXCLUDED.hourly_rate_cents, created_by = EXCLUDED.created_by
+    RETURNING *
+    `,
+    [subject.team_id, subject.id, hourlyRateCents, effectiveFrom, userId]
+  );
+
+  return result.rows[0];
+}
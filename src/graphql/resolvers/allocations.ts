@@ -0,0 +1,274 @@
+import { builder } from '../schema/builder';
+import { AllocationRef, ResourceScheduleRef } from '../schema/types';
+import { NotFoundError, ValidationError, UnauthorizedError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, canManageTeam, getViewerTimeZone, GraphQLContext } from '../context';
+import { buildResourceSchedule, getAllocations, MAX_ALLOCATION_DAYS, MAX_SCHEDULE_WEEKS } from '../allocations';
+import { parseLocalDate, toDateString } from '../leave';
+import { addDays } from '@/lib/time-zones';
+import { Allocation } from '../types';
+
+interface AllocationFields {
+  userId: string;
+  projectId: string;
+  taskId: string | null;
+  startDate: string;
+  endDate: string;
+  hoursPerDay: number;
+}
+
+/**
+ * Allocation and Scheduling Queries
+ */
+builder.queryFields((t) => ({
+  allocations: t.field({
+    type: [AllocationRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      // Defaults to the current user; OWNER and ADMIN can list anyone's allocations, or all with allUsers
+      userId: t.arg.id({ required: false }),
+      allUsers: t.arg.boolean({ defaultValue: false }),
+      projectId: t.arg.id({ required: false }),
+      // Local dates (YYYY-MM-DD, inclusive); allocations overlapping them are listed
+      fromDate: t.arg.string({ required: true }),
+      toDate: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const userId = args.allUsers ? null : (args.userId ?? ctx.auth.userId!);
+      if (userId !== ctx.auth.userId && !canManageTeam(ctx)) {
+        throw new UnauthorizedError('Only team owners and admins can view the allocations of other members');
+      }
+
+      const fromDate = parseLocalDate(args.fromDate, 'fromDate');
+      const toDate = parseLocalDate(args.toDate, 'toDate');
+      if (toDate < fromDate) {
+        throw new ValidationError('toDate must not be before fromDate', 'toDate');
+      }
+
+      return getAllocations(ctx, args.teamId, fromDate, toDate, { userId, projectId: args.projectId });
+    },
+  }),
+
+  resourceSchedule: t.field({
+    type: ResourceScheduleRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      // A local date (YYYY-MM-DD) in the first week, in the viewer's time zone
+      fromDate: t.arg.string({ required: true }),
+      weeks: t.arg.int({ defaultValue: 6 }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx); // The schedule compares members' planned and logged time
+
+      const fromDate = parseLocalDate(args.fromDate, 'fromDate');
+      const weeks = args.weeks ?? 6;
+      if (weeks < 1 || weeks > MAX_SCHEDULE_WEEKS) {
+        throw new ValidationError(`A schedule covers 1 to ${MAX_SCHEDULE_WEEKS} weeks`, 'weeks');
+      }
+
+      const viewer = await ctx.loaders.userById.load(ctx.auth.userId!);
+
+      return buildResourceSchedule(
+        ctx,
+        args.teamId,
+        fromDate,
+        weeks,
+        await getViewerTimeZone(ctx),
+        viewer?.week_start ?? 1
+      );
+    },
+  }),
+}));
+
+/**
+ * Allocation Mutations
+ */
+builder.mutationFields((t) => ({
+  // Plans hours per day for a member on a project, on each of their working days in the range
+  createAllocation: t.field({
+    type: AllocationRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: true }),
+      projectId: t.arg.id({ required: true }),
+      taskId: t.arg.id({ required: false }),
+      // First and last day ("YYYY-MM-DD", inclusive)
+      startDate: t.arg.string({ required: true }),
+      endDate: t.arg.string({ required: true }),
+      hoursPerDay: t.arg.float({ required: true }),
+      note: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const fields = await validateAllocation(ctx, args.teamId, {
+        userId: args.userId,
+        projectId: args.projectId,
+        taskId: args.taskId ?? null,
+        startDate: args.startDate,
+        endDate: args.endDate,
+        hoursPerDay: args.hoursPerDay,
+      });
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<Allocation>(
+          `
+          INSERT INTO allocations (team_id, user_id, project_id, task_id, start_date, end_date, hours_per_day, note, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          RETURNING *
+          `,
+          [
+            args.teamId,
+            fields.userId,
+            fields.projectId,
+            fields.taskId,
+            fields.startDate,
+            fields.endDate,
+            fields.hoursPerDay,
+            args.note?.trim() || null,
+            ctx.auth.userId,
+          ]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  updateAllocation: t.field({
+    type: AllocationRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }),
+      projectId: t.arg.id({ required: false }),
+      // Pass null to clear the task
+      taskId: t.arg.id({ required: false }),
+      startDate: t.arg.string({ required: false }),
+      endDate: t.arg.string({ required: false }),
+      hoursPerDay: t.arg.float({ required: false }),
+      note: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const allocation = await getAllocation(ctx, args.id);
+      await requireTeamAccess(ctx, allocation.team_id);
+      requireTeamManagement(ctx);
+
+      const projectId = args.projectId ?? allocation.project_id;
+      // A task of the old project doesn't carry over to another one
+      const keptTaskId = projectId === allocation.project_id ? allocation.task_id : null;
+      const fields = await validateAllocation(ctx, allocation.team_id, {
+        userId: args.userId ?? allocation.user_id,
+        projectId,
+        taskId: args.taskId !== undefined ? args.taskId : keptTaskId,
+        startDate: args.startDate ?? toDateString(allocation.start_date),
+        endDate: args.endDate ?? toDateString(allocation.end_date),
+        hoursPerDay: args.hoursPerDay ?? Number(allocation.hours_per_day),
+      });
+      const note = args.note !== undefined ? args.note?.trim() || null : allocation.note;
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<Allocation>(
+          `
+          UPDATE allocations
+          SET user_id = $2, project_id = $3, task_id = $4, start_date = $5, end_date = $6,
+            hours_per_day = $7, note = $8, updated_at = NOW()
+          WHERE id = $1
+          RETURNING *
+          `,
+          [
+            allocation.id,
+            fields.userId,
+            fields.projectId,
+            fields.taskId,
+            fields.startDate,
+            fields.endDate,
+            fields.hoursPerDay,
+            note,
+          ]
+        );
+
+        ctx.loaders.allocationById.clear(allocation.id);
+        return result.rows[0];
+      });
+    },
+  }),
+
+  deleteAllocation: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const allocation = await getAllocation(ctx, args.id);
+      await requireTeamAccess(ctx, allocation.team_id);
+      requireTeamManagement(ctx);
+
+      await ctx.db.query('DELETE FROM allocations WHERE id = $1', [allocation.id]);
+      ctx.loaders.allocationById.clear(allocation.id);
+
+      return true;
+    },
+  }),
+}));
+
+/**
+ * Helper to load an allocation or fail
+ */
+async function getAllocation(ctx: GraphQLContext, id: string): Promise<Allocation> {
+  const allocation = await ctx.loaders.allocationById.load(id);
+  if (!allocation) {
+    throw new NotFoundError('Allocation not found');
+  }
+
+  return allocation;
+}
+
+/**
+ * Helper to check an allocation's member, project, task, dates and hours against its team
+ */
+async function validateAllocation(
+  ctx: GraphQLContext,
+  teamId: string,
+  fields: AllocationFields
+): Promise<AllocationFields> {
+  const startDate = parseLocalDate(fields.startDate, 'startDate');
+  const endDate = parseLocalDate(fields.endDate, 'endDate');
+  if (endDate < startDate) {
+    throw new ValidationError('The last day must not be before the first', 'endDate');
+  }
+  if (addDays(startDate, MAX_ALLOCATION_DAYS) <= endDate) {
+    throw new ValidationError(`An allocation can span at most ${MAX_ALLOCATION_DAYS} days`, 'endDate');
+  }
+  if (fields.hoursPerDay <= 0 || fields.hoursPerDay > 24) {
+    throw new ValidationError('Hours per day must be more than 0 and at most 24', 'hoursPerDay');
+  }
+
+  const memberships = await ctx.loaders.membershipsByTeamId.load(teamId);
+  if (!memberships.some((m) => m.user_id === fields.userId)) {
+    throw new NotFoundError('Team member not found');
+  }
+
+  const project = await ctx.loaders.projectById.load(fields.projectId);
+  if (!project || project.team_id !== teamId) {
+    throw new NotFoundError('Project not found');
+  }
+
+  if (fields.taskId) {
+    const task = await ctx.loaders.taskById.load(fields.taskId);
+    if (!task || task.project_id !== project.id) {
+      throw new NotFoundError('Task not found');
+    }
+  }
+
+  return { ...fields, startDate, endDate };
+}
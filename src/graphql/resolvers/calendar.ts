@@ -0,0 +1,132 @@
+import { builder } from '../schema/builder';
+import { CalendarImportRuleRef, TimeEntrySuggestionRef } from '../schema/types';
+import { NotFoundError, UnauthorizedError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, canLogTime } from '../context';
+import { parseCalendarRuleMatchType, suggestTimeEntries } from '../calendar';
+import { CalendarImportRule } from '../types';
+
+/**
+ * Calendar Import Queries
+ */
+builder.queryFields((t) => ({
+  // The current user's own rules; every user keeps their own
+  calendarImportRules: t.field({
+    type: [CalendarImportRuleRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<CalendarImportRule>(
+        'SELECT * FROM calendar_import_rules WHERE team_id = $1 AND user_id = $2 ORDER BY created_at',
+        [args.teamId, ctx.auth.userId]
+      );
+
+      return result.rows;
+    },
+  }),
+}));
+
+/**
+ * Calendar Import Mutations
+ */
+builder.mutationFields((t) => ({
+  // Parses an .ics file into suggested time entries; accept them with createTimeEntries
+  suggestTimeEntriesFromCalendar: t.field({
+    type: [TimeEntrySuggestionRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      ics: t.arg.string({ required: true }),
+      from: t.arg({ type: 'DateTime', required: false }),
+      to: t.arg({ type: 'DateTime', required: false }),
+      timezoneOffsetMinutes: t.arg.int({ defaultValue: 0 }), // Date#getTimezoneOffset() for times without a time zone
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      if (!args.ics.includes('BEGIN:VCALENDAR')) {
+        throw new ValidationError('The file is not an iCalendar (.ics) file', 'ics');
+      }
+
+      return suggestTimeEntries(ctx, args.teamId, args.ics, {
+        from: args.from,
+        to: args.to,
+        timezoneOffsetMinutes: args.timezoneOffsetMinutes ?? 0,
+      });
+    },
+  }),
+
+  createCalendarImportRule: t.field({
+    type: CalendarImportRuleRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      matchType: t.arg.string({ required: true }), // 'title_keyword' or 'attendee_domain'
+      pattern: t.arg.string({ required: true }),
+      projectId: t.arg.id({ required: true }),
+      taskId: t.arg.id({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const matchType = parseCalendarRuleMatchType(args.matchType);
+      const pattern = matchType === 'attendee_domain'
+        ? args.pattern.trim().toLowerCase().replace(/^.*@/, '')
+        : args.pattern.trim();
+      if (!pattern) {
+        throw new ValidationError('Pattern is required', 'pattern');
+      }
+
+      const project = await ctx.loaders.projectById.load(args.projectId);
+      if (!project || project.team_id !== args.teamId) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await canLogTime(ctx, project.id))) {
+        throw new UnauthorizedError('You do not have permission to log time on this project');
+      }
+      if (args.taskId) {
+        const task = await ctx.loaders.taskById.load(args.taskId);
+        if (!task || task.project_id !== project.id) {
+          throw new ValidationError('Task does not belong to the specified project');
+        }
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<CalendarImportRule>(
+          `
+          INSERT INTO calendar_import_rules (team_id, user_id, match_type, pattern, project_id, task_id)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING *
+          `,
+          [args.teamId, ctx.auth.userId, matchType, pattern, project.id, args.taskId ?? null]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  deleteCalendarImportRule: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const result = await ctx.db.query(
+        'DELETE FROM calendar_import_rules WHERE id = $1 AND user_id = $2',
+        [args.id, ctx.auth.userId]
+      );
+
+      if (result.rowCount === 0) {
+        throw new NotFoundError('Calendar import rule not found');
+      }
+
+      return true;
+    },
+  }),
+}));
@@ -0,0 +1,155 @@
+import { builder, UtilizationGroupByEnum } from '../schema/builder';
+import { MemberCapacityRef, UtilizationReportRef } from '../schema/types';
+import { NotFoundError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, getViewerTimeZone } from '../context';
+import { buildUtilizationReport, parseWeekdayHours, MAX_UTILIZATION_RANGE_DAYS } from '../capacity';
+import { parseLocalDate } from '../leave';
+import { addDays } from '@/lib/time-zones';
+import { MemberCapacity } from '../types';
+
+/**
+ * Capacity and Utilization Queries
+ */
+builder.queryFields((t) => ({
+  memberCapacities: t.field({
+    type: [MemberCapacityRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const result = await ctx.db.query<MemberCapacity>(
+        `
+        SELECT
+          mc.*,
+          tm.user_id,
+          LEAD(mc.effective_from) OVER (PARTITION BY mc.team_membership_id ORDER BY mc.effective_from) AS effective_to
+        FROM member_capacities mc
+        JOIN team_memberships tm ON tm.id = mc.team_membership_id
+        WHERE mc.team_id = $1 AND ($2::uuid IS NULL OR tm.user_id = $2::uuid)
+        ORDER BY tm.user_id, mc.effective_from
+        `,
+        [args.teamId, args.userId ?? null]
+      );
+
+      // pg reads NUMERIC arrays as strings
+      return result.rows.map((row) => ({ ...row, weekday_hours: row.weekday_hours.map(Number) }));
+    },
+  }),
+
+  utilizationReport: t.field({
+    type: UtilizationReportRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      // Local dates (YYYY-MM-DD, inclusive) in the viewer's time zone
+      fromDate: t.arg.string({ required: true }),
+      toDate: t.arg.string({ required: true }),
+      groupBy: t.arg({ type: UtilizationGroupByEnum, defaultValue: 'member' }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx); // Utilization compares members against each other
+
+      const fromDate = parseLocalDate(args.fromDate, 'fromDate');
+      const toDate = parseLocalDate(args.toDate, 'toDate');
+      if (toDate < fromDate) {
+        throw new ValidationError('toDate must not be before fromDate', 'toDate');
+      }
+      if (addDays(fromDate, MAX_UTILIZATION_RANGE_DAYS) <= toDate) {
+        throw new ValidationError(
+          `Utilization can be reported for at most ${MAX_UTILIZATION_RANGE_DAYS} days at once`,
+          'toDate'
+        );
+      }
+
+      const viewer = await ctx.loaders.userById.load(ctx.auth.userId!);
+
+      return buildUtilizationReport(
+        ctx,
+        args.teamId,
+        fromDate,
+        toDate,
+        args.groupBy ?? 'member',
+        await getViewerTimeZone(ctx),
+        viewer?.week_start ?? 1
+      );
+    },
+  }),
+}));
+
+/**
+ * Capacity Mutations
+ */
+builder.mutationFields((t) => ({
+  setMemberCapacity: t.field({
+    type: MemberCapacityRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: true }),
+      // Hours per weekday, Sunday first
+      weekdayHours: t.arg.floatList({ required: true }),
+      // First local date (YYYY-MM-DD) the capacity applies to
+      effectiveFrom: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const weekdayHours = parseWeekdayHours(args.weekdayHours);
+      const effectiveFrom = parseLocalDate(args.effectiveFrom, 'effectiveFrom');
+
+      const memberships = await ctx.loaders.membershipsByTeamId.load(args.teamId);
+      const membership = memberships.find((m) => m.user_id === args.userId);
+      if (!membership) {
+        throw new NotFoundError('Team member not found');
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<MemberCapacity>(
+          `
+          INSERT INTO member_capacities (team_id, team_membership_id, weekday_hours, effective_from, created_by)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (team_membership_id, effective_from)
+          DO UPDATE SET weekday_hours = EXCLUDED.weekday_hours, created_by = EXCLUDED.created_by
+          RETURNING *
+          `,
+          [args.teamId, membership.id, weekdayHours, effectiveFrom, ctx.auth.userId]
+        );
+
+        const capacity = result.rows[0];
+        return { ...capacity, user_id: membership.user_id, weekday_hours: capacity.weekday_hours.map(Number) };
+      });
+    },
+  }),
+
+  deleteMemberCapacity: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const existing = await ctx.db.query<MemberCapacity>('SELECT * FROM member_capacities WHERE id = $1', [
+        args.id,
+      ]);
+      const capacity = existing.rows[0];
+      if (!capacity) {
+        throw new NotFoundError('Capacity not found');
+      }
+
+      await requireTeamAccess(ctx, capacity.team_id);
+      requireTeamManagement(ctx);
+
+      await ctx.db.query('DELETE FROM member_capacities WHERE id = $1', [args.id]);
+
+      return true;
+    },
+  }),
+}));
@@ -4,6 +4,8 @@ import { ClientInput, ClientPatch, ListArgsInput } from '../schema/inputs';
 import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
 import { NotFoundError, withErrorMapping } from '../errors';
 import { requireAuth, requireTeamAccess, requireTeamManagement } from '../context';
+import { parseRoundingMode } from '../billing';
+import { recordRateChange } from '../rates';
 import { Client } from '../types';
 
 /**
@@ -160,9 +162,10 @@ builder.mutationFields((t) => ({
           `
           INSERT INTO clients (
             team_id, name, email, phone, notes, contact_name,
-            billing_address, tax_id, default_hourly_rate_cents, currency
+            billing_address, tax_id, default_hourly_rate_cents, currency,
+            rounding_mode, rounding_increment_minutes, rounding_minimum_minutes
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
           RETURNING *
           `,
           [
@@ -176,6 +179,9 @@ builder.mutationFields((t) => ({
             args.input.taxId,
             args.input.defaultHourlyRateCents,
             args.input.currency,
+            parseRoundingMode(args.input.roundingMode),
+            args.input.roundingIncrementMinutes,
+            args.input.roundingMinimumMinutes,
           ]
         );
 
@@ -247,6 +253,18 @@ builder.mutationFields((t) => ({
           updates.push(`currency = $${paramIndex++}`);
           values.push(args.input.currency);
         }
+        if (args.input.roundingMode !== undefined) {
+          updates.push(`rounding_mode = $${paramIndex++}`);
+          values.push(parseRoundingMode(args.input.roundingMode));
+        }
+        if (args.input.roundingIncrementMinutes !== undefined) {
+          updates.push(`rounding_increment_minutes = $${paramIndex++}`);
+          values.push(args.input.roundingIncrementMinutes);
+        }
+        if (args.input.roundingMinimumMinutes !== undefined) {
+          updates.push(`rounding_minimum_minutes = $${paramIndex++}`);
+          values.push(args.input.roundingMinimumMinutes);
+        }
 
         if (updates.length === 0) {
           // No updates, return existing client
@@ -269,6 +287,11 @@ builder.mutationFields((t) => ({
           throw new NotFoundError('Client not found');
         }
 
+        const rate = args.input.defaultHourlyRateCents;
+        if (rate !== undefined && rate !== existingClient.default_hourly_rate_cents) {
+          await recordRateChange(ctx, 'client', existingClient, existingClient.default_hourly_rate_cents, rate, new Date());
+        }
+
         // Clear loader cache
         ctx.loaders.clientById.clear(args.id);
 
@@ -0,0 +1,196 @@
+import { builder } from '../schema/builder';
+import { CostRateRef, ProjectProfitabilityRef } from '../schema/types';
+import { NotFoundError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, getViewerTimeZone } from '../context';
+import { refreshCostCents } from '../costs';
+import { parseDateRange, resolveLocalDateRange } from '../utils';
+import { CostRate, ProfitabilityLine, ProjectProfitability } from '../types';
+
+/**
+ * Cost Rate and Profitability Queries
+ */
+builder.queryFields((t) => ({
+  costRates: t.field({
+    type: [CostRateRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx); // Cost rates are only visible to OWNER and ADMIN
+
+      const result = await ctx.db.query<CostRate>(
+        `
+        SELECT *, LEAD(effective_from) OVER (PARTITION BY user_id ORDER BY effective_from) AS effective_to
+        FROM cost_rates
+        WHERE team_id = $1 AND ($2::uuid IS NULL OR user_id = $2::uuid)
+        ORDER BY user_id, effective_from
+        `,
+        [args.teamId, args.userId ?? null]
+      );
+
+      return result.rows;
+    },
+  }),
+
+  projectProfitability: t.field({
+    type: ProjectProfitabilityRef,
+    args: {
+      projectId: t.arg.id({ required: true }),
+      from: t.arg({ type: 'DateTime', required: false }),
+      to: t.arg({ type: 'DateTime', required: false }),
+      // Local dates (YYYY-MM-DD, inclusive) in the viewer's time zone; they take precedence over from/to
+      fromDate: t.arg.string({ required: false }),
+      toDate: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const project = await ctx.loaders.projectById.load(args.projectId);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+
+      await requireTeamAccess(ctx, project.team_id);
+      requireTeamManagement(ctx); // Profitability exposes internal costs
+
+      const { from, to } = resolveLocalDateRange(args, await getViewerTimeZone(ctx));
+      const dateRange = parseDateRange(from, to, 'started_at', 2);
+
+      // Revenue only counts billable time; running timers have neither revenue nor cost yet
+      const result = await ctx.db.query<ProfitabilityLine>(
+        `
+        SELECT
+          task_id,
+          user_id,
+          COALESCE(SUM(duration_seconds), 0)::integer AS duration_seconds,
+          COALESCE(SUM(amount_cents) FILTER (WHERE billable), 0)::integer AS revenue_cents,
+          COALESCE(SUM(cost_cents), 0)::integer AS cost_cents
+        FROM time_entries
+        WHERE project_id = $1 AND stopped_at IS NOT NULL
+          ${dateRange.sql ? `AND ${dateRange.sql}` : ''}
+        GROUP BY task_id, user_id
+        `,
+        [project.id, ...dateRange.params]
+      );
+
+      const profitability: ProjectProfitability = {
+        project_id: project.id,
+        from,
+        to,
+        total: sumLines(result.rows, { task_id: null, user_id: null }),
+        tasks: groupLines(result.rows, 'task_id'),
+        members: groupLines(result.rows, 'user_id'),
+      };
+
+      return profitability;
+    },
+  }),
+}));
+
+/**
+ * Cost Rate Mutations
+ */
+builder.mutationFields((t) => ({
+  setCostRate: t.field({
+    type: CostRateRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: true }),
+      hourlyCostCents: t.arg.int({ required: true }),
+      effectiveFrom: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      if (args.hourlyCostCents < 0) {
+        throw new ValidationError('Cost rate cannot be negative', 'hourlyCostCents');
+      }
+
+      const memberships = await ctx.loaders.membershipsByTeamId.load(args.teamId);
+      if (!memberships.some((m) => m.user_id === args.userId)) {
+        throw new NotFoundError('Team member not found');
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<CostRate>(
+          `
+          INSERT INTO cost_rates (team_id, user_id, hourly_cost_cents, effective_from, created_by)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (team_id, user_id, effective_from)
+          DO UPDATE SET hourly_cost_cents = EXCLUDED.hourly_cost_cents, created_by = EXCLUDED.created_by
+          RETURNING *
+          `,
+          [args.teamId, args.userId, args.hourlyCostCents, new Date(args.effectiveFrom), ctx.auth.userId]
+        );
+
+        await refreshCostCents(ctx, args.teamId, args.userId);
+        return result.rows[0];
+      });
+    },
+  }),
+
+  deleteCostRate: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const existing = await ctx.db.query<CostRate>('SELECT * FROM cost_rates WHERE id = $1', [args.id]);
+      const costRate = existing.rows[0];
+      if (!costRate) {
+        throw new NotFoundError('Cost rate not found');
+      }
+
+      await requireTeamAccess(ctx, costRate.team_id);
+      requireTeamManagement(ctx);
+
+      await ctx.db.query('DELETE FROM cost_rates WHERE id = $1', [args.id]);
+      await refreshCostCents(ctx, costRate.team_id, costRate.user_id);
+
+      return true;
+    },
+  }),
+}));
+
+/**
+ * Helper to add up profitability lines into one
+ */
+function sumLines(
+  lines: ProfitabilityLine[],
+  key: { task_id: string | null; user_id: string | null }
+): ProfitabilityLine {
+  return lines.reduce(
+    (sum, line) => ({
+      ...sum,
+      duration_seconds: sum.duration_seconds + line.duration_seconds,
+      revenue_cents: sum.revenue_cents + line.revenue_cents,
+      cost_cents: sum.cost_cents + line.cost_cents,
+    }),
+    { ...key, duration_seconds: 0, revenue_cents: 0, cost_cents: 0 }
+  );
+}
+
+/**
+ * Helper to group profitability lines per task or per member, highest revenue first
+ */
+function groupLines(lines: ProfitabilityLine[], field: 'task_id' | 'user_id'): ProfitabilityLine[] {
+  const groups = new Map<string | null, ProfitabilityLine[]>();
+  for (const line of lines) {
+    const group = groups.get(line[field]) || [];
+    group.push(line);
+    groups.set(line[field], group);
+  }
+
+  return [...groups.entries()]
+    .map(([id, group]) =>
+      sumLines(group, { task_id: field === 'task_id' ? id : null, user_id: field === 'user_id' ? id : null })
+    )
+    .sort((a, b) => b.revenue_cents - a.revenue_cents);
+}
@@ -0,0 +1,28 @@
+import { builder } from '../schema/builder';
+import { TimeEntryImportRef } from '../schema/types';
+import { requireAuth } from '../context';
+import { importTimeEntries, parseImportFormat } from '../imports';
+
+/**
+ * Import Mutations
+ */
+builder.mutationFields((t) => ({
+  importTimeEntries: t.field({
+    type: TimeEntryImportRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      format: t.arg.string({ required: true }), // 'toggl', 'harvest' or 'clockify'
+      csv: t.arg.string({ required: true }),
+      dryRun: t.arg.boolean({ defaultValue: true }),
+      timeZone: t.arg.string({ required: false }), // IANA time zone of the file's local times; defaults to the user's
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      return importTimeEntries(ctx, args.teamId, parseImportFormat(args.format), args.csv, {
+        dryRun: args.dryRun ?? true,
+        timeZone: args.timeZone,
+      });
+    },
+  }),
+}));
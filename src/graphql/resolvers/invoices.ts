@@ -4,6 +4,8 @@ import { InvoiceInput, InvoicePatch, InvoiceItemInput, InvoiceItemPatch } from '
 import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
 import { NotFoundError, ConflictError, withErrorMapping } from '../errors';
 import { requireAuth, requireTeamAccess, requireInvoiceAccess } from '../context';
+import { requirePeriodOpen, requireInvoiceUnlocked } from '../locks';
+import { recalculateInvoiceTotals } from '../billing';
 import { Invoice, InvoiceItem } from '../types';
 
 /**
@@ -117,6 +119,7 @@ builder.mutationFields((t) => ({
       requireAuth(ctx);
       await requireTeamAccess(ctx, args.input.teamId);
       requireInvoiceAccess(ctx); // Only OWNER, ADMIN, and BILLING can create invoices
+      await requirePeriodOpen(ctx, args.input.teamId, new Date(args.input.issuedDate));
 
       return withErrorMapping(async () => {
         // Initialize with 0 for calculated fields (items will be added separately)
@@ -163,6 +166,12 @@ builder.mutationFields((t) => ({
       await requireTeamAccess(ctx, existing.team_id);
       requireInvoiceAccess(ctx); // Only OWNER, ADMIN, and BILLING can update invoices
 
+      // Neither the current issue date nor a new one may fall in a closed period
+      await requireInvoiceUnlocked(ctx, existing);
+      if (args.input.issuedDate) {
+        await requirePeriodOpen(ctx, existing.team_id, new Date(args.input.issuedDate));
+      }
+
       return withErrorMapping(async () => {
         const updates: string[] = [];
         const values: any[] = [];
@@ -230,6 +239,7 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, invoice.team_id);
       requireInvoiceAccess(ctx); // Only OWNER, ADMIN, and BILLING can delete invoices
+      await requireInvoiceUnlocked(ctx, invoice);
 
       return withErrorMapping(async () => {
         const result = await ctx.db.query(
@@ -257,6 +267,7 @@ builder.mutationFields((t) => ({
       }
 
       await requireTeamAccess(ctx, invoice.team_id);
+      await requireInvoiceUnlocked(ctx, invoice);
 
       const result = await ctx.db.query<Invoice>(
         `
@@ -287,6 +298,7 @@ builder.mutationFields((t) => ({
       }
 
       await requireTeamAccess(ctx, invoice.team_id);
+      await requireInvoiceUnlocked(ctx, invoice);
 
       // Only allow marking as sent if currently draft
       if (invoice.status !== 'draft') {
@@ -322,6 +334,7 @@ builder.mutationFields((t) => ({
       }
 
       await requireTeamAccess(ctx, invoice.team_id);
+      await requireInvoiceUnlocked(ctx, invoice);
 
       const result = await ctx.db.query<Invoice>(
         `
@@ -353,6 +366,7 @@ builder.mutationFields((t) => ({
       }
 
       await requireTeamAccess(ctx, invoice.team_id);
+      await requireInvoiceUnlocked(ctx, invoice);
 
       return withErrorMapping(async () => {
         // Check if any time entries are already on another invoice (using junction table)
@@ -376,8 +390,21 @@ builder.mutationFields((t) => ({
           }
         }
 
-        // Calculate amount
-        const amountCents = Math.round(args.input.quantity * args.input.rateCents);
+        // Calculate amount, from the entries' stored amounts when they were priced at this rate
+        let amountCents = Math.round(args.input.quantity * args.input.rateCents);
+        if (args.input.timeEntryIds && args.input.timeEntryIds.length > 0) {
+          const entryAmounts = await ctx.db.query(
+            `
+            SELECT
+              SUM(amount_cents) as total_amount_cents,
+              BOOL_AND(hourly_rate_cents = $2 AND amount_cents IS NOT NULL) as at_item_rate
+            FROM time_entries
+            WHERE id = ANY($1)
+            `,
+            [args.input.timeEntryIds, args.input.rateCents]
+          );
+          amountCents = lineAmountCents(entryAmounts.rows[0], amountCents);
+        }
 
         // Insert invoice item (without linking to specific time entry in invoice_items table)
         const result = await ctx.db.query<InvoiceItem>(
@@ -439,6 +466,11 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, existing.team_id);
 
+      const invoice = await ctx.loaders.invoiceById.load(existing.invoice_id);
+      if (invoice) {
+        await requireInvoiceUnlocked(ctx, invoice);
+      }
+
       return withErrorMapping(async () => {
         const updates: string[] = [];
         const values: any[] = [];
@@ -506,6 +538,11 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, item.team_id);
 
+      const invoice = await ctx.loaders.invoiceById.load(item.invoice_id);
+      if (invoice) {
+        await requireInvoiceUnlocked(ctx, invoice);
+      }
+
       return withErrorMapping(async () => {
         const result = await ctx.db.query(
           'DELETE FROM invoice_items WHERE id = $1',
@@ -538,6 +575,7 @@ builder.mutationFields((t) => ({
       }
 
       await requireTeamAccess(ctx, invoice.team_id);
+      await requireInvoiceUnlocked(ctx, invoice);
 
       return withErrorMapping(async () => {
         // Get the invoice_item_id before deleting
@@ -567,17 +605,23 @@ builder.mutationFields((t) => ({
             // Calculate new total hours from remaining time entries
             const remainingEntries = await ctx.db.query(
               `
-              SELECT SUM(te.duration_seconds) as total_seconds
+              SELECT
+                SUM(COALESCE(te.billable_duration_seconds, te.duration_seconds)) as total_seconds,
+                SUM(te.amount_cents) as total_amount_cents,
+                BOOL_AND(te.hourly_rate_cents = $2 AND te.amount_cents IS NOT NULL) as at_item_rate
               FROM invoice_time_entries ite
               JOIN time_entries te ON te.id = ite.time_entry_id
               WHERE ite.invoice_item_id = $1
               `,
-              [invoiceItemId]
+              [invoiceItemId, invoiceItem.rate_cents]
             );
 
             const totalSeconds = remainingEntries.rows[0]?.total_seconds || 0;
             const totalHours = totalSeconds / 3600;
-            const newAmountCents = Math.round(totalHours * invoiceItem.rate_cents);
+            const newAmountCents = lineAmountCents(
+              remainingEntries.rows[0],
+              Math.round(totalHours * invoiceItem.rate_cents)
+            );
 
             // Update the invoice item
             await ctx.db.query(
@@ -618,6 +662,11 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, invoiceItem.team_id);
 
+      const invoice = await ctx.loaders.invoiceById.load(invoiceItem.invoice_id);
+      if (invoice) {
+        await requireInvoiceUnlocked(ctx, invoice);
+      }
+
       return withErrorMapping(async () => {
         // Check if any time entries are already on another invoice
         const existingEntries = await ctx.db.query(
@@ -655,17 +704,23 @@ builder.mutationFields((t) => ({
         // Recalculate invoice item quantity and amount based on all time entries
         const allEntries = await ctx.db.query(
           `
-          SELECT SUM(te.duration_seconds) as total_seconds
+          SELECT
+            SUM(COALESCE(te.billable_duration_seconds, te.duration_seconds)) as total_seconds,
+            SUM(te.amount_cents) as total_amount_cents,
+            BOOL_AND(te.hourly_rate_cents = $2 AND te.amount_cents IS NOT NULL) as at_item_rate
           FROM invoice_time_entries ite
           JOIN time_entries te ON te.id = ite.time_entry_id
           WHERE ite.invoice_item_id = $1
           `,
-          [args.invoiceItemId]
+          [args.invoiceItemId, invoiceItem.rate_cents]
         );
 
         const totalSeconds = allEntries.rows[0]?.total_seconds || 0;
         const totalHours = totalSeconds / 3600;
-        const newAmountCents = Math.round(totalHours * invoiceItem.rate_cents);
+        const newAmountCents = lineAmountCents(
+          allEntries.rows[0],
+          Math.round(totalHours * invoiceItem.rate_cents)
+        );
 
         // Update the invoice item
         await ctx.db.query(
@@ -690,22 +745,15 @@ builder.mutationFields((t) => ({
 }));
 
 /**
- * Helper to recalculate invoice totals
+ * Helper to pick a time-based line's amount: the sum of its entries' stored amounts
+ * when every entry was priced at the line's rate, otherwise quantity × rate
  */
-async function recalculateInvoiceTotals(
-  query: (text: string, params?: any[]) => Promise<any>,
-  invoiceId: string
-): Promise<void> {
-  await query(
-    `
-    UPDATE invoices
-    SET
-      subtotal_cents = (SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1),
-      tax_amount_cents = ROUND((SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) * tax_rate_percent / 100),
-      total_cents = (SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) + ROUND((SELECT COALESCE(SUM(amount_cents), 0) FROM invoice_items WHERE invoice_id = $1) * tax_rate_percent / 100),
-      updated_at = NOW()
-    WHERE id = $1
-    `,
-    [invoiceId]
-  );
+function lineAmountCents(
+  row: { total_amount_cents: string | null; at_item_rate: boolean | null } | undefined,
+  fallbackCents: number
+): number {
+  if (row?.at_item_rate && row.total_amount_cents !== null) {
+    return Number(row.total_amount_cents);
+  }
+  return fallbackCents;
 }
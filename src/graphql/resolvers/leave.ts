@@ -0,0 +1,618 @@
+import { builder } from '../schema/builder';
+import { LeaveTypeRef, LeaveRequestRef, LeaveRequestConnection, TeamHolidayRef, LeaveDayRef } from '../schema/types';
+import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
+import { NotFoundError, ConflictError, ValidationError, UnauthorizedError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, canManageTeam, withTransaction, GraphQLContext } from '../context';
+import {
+  getLeaveDays,
+  parseHolidayCalendar,
+  parseLeaveRequestStatus,
+  parseLocalDate,
+  MAX_LEAVE_DAYS_RANGE,
+} from '../leave';
+import { addDays } from '@/lib/time-zones';
+import { LeaveRequest, LeaveRequestStatus, LeaveType, TeamHoliday } from '../types';
+
+/**
+ * Leave Queries
+ */
+builder.queryFields((t) => ({
+  leaveTypes: t.field({
+    type: [LeaveTypeRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      includeArchived: t.arg.boolean({ defaultValue: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<LeaveType>(
+        `
+        SELECT * FROM leave_types
+        WHERE team_id = $1 AND ($2 OR archived_at IS NULL)
+        ORDER BY lower(name)
+        `,
+        [args.teamId, args.includeArchived ?? false]
+      );
+
+      return result.rows;
+    },
+  }),
+
+  leaveRequests: t.field({
+    type: LeaveRequestConnection,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }),
+      status: t.arg.string({ required: false }),
+      // Requests with leave on any day between these dates ("YYYY-MM-DD", inclusive)
+      fromDate: t.arg.string({ required: false }),
+      toDate: t.arg.string({ required: false }),
+      offset: t.arg.int({ defaultValue: 0 }),
+      limit: t.arg.int({ defaultValue: 25 }),
+      orderBy: t.arg.string({ required: false }),
+      order: t.arg.string({ defaultValue: 'desc' }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const { offset, limit } = parseOffsetLimit(args.offset, args.limit, 100);
+
+      const filters = [
+        { sql: 'team_id = $1', params: [args.teamId] },
+      ];
+
+      // OWNER and ADMIN can see all leave requests in the team, everyone else their own
+      if (!canManageTeam(ctx)) {
+        filters.push({ sql: 'user_id = $2', params: [ctx.auth.userId!] });
+      }
+
+      let paramIndex = filters.reduce((sum, f) => sum + f.params.length, 0) + 1;
+
+      if (args.userId) {
+        filters.push({ sql: `user_id = $${paramIndex++}`, params: [args.userId] });
+      }
+
+      if (args.status) {
+        filters.push({ sql: `status = $${paramIndex++}`, params: [parseLeaveRequestStatus(args.status)] });
+      }
+
+      if (args.fromDate) {
+        filters.push({ sql: `end_date >= $${paramIndex++}`, params: [parseLocalDate(args.fromDate, 'fromDate')] });
+      }
+
+      if (args.toDate) {
+        filters.push({ sql: `start_date <= $${paramIndex++}`, params: [parseLocalDate(args.toDate, 'toDate')] });
+      }
+
+      const { query, countQuery, params } = buildQuery({
+        baseSelect: 'SELECT *',
+        baseFrom: 'FROM leave_requests',
+        filters,
+        orderBy: args.orderBy,
+        order: (args.order as 'asc' | 'desc') || 'desc',
+        allowedOrderBy: ['start_date', 'created_at', 'reviewed_at', 'status'],
+        defaultOrderBy: 'start_date',
+        offset,
+        limit,
+      });
+
+      const [dataResult, countResult] = await Promise.all([
+        ctx.db.query(query, params),
+        ctx.db.query(countQuery, params.slice(0, -2)),
+      ]);
+
+      const total = parseInt(countResult.rows[0]?.total || '0', 10);
+      const pageInfo = calculatePageInfo(offset, limit, total);
+
+      return {
+        nodes: dataResult.rows,
+        total,
+        pageInfo,
+      };
+    },
+  }),
+
+  teamHolidays: t.field({
+    type: [TeamHolidayRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      fromDate: t.arg.string({ required: false }),
+      toDate: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<TeamHoliday>(
+        `
+        SELECT * FROM team_holidays
+        WHERE team_id = $1 AND ($2::date IS NULL OR date >= $2) AND ($3::date IS NULL OR date <= $3)
+        ORDER BY date
+        `,
+        [
+          args.teamId,
+          args.fromDate ? parseLocalDate(args.fromDate, 'fromDate') : null,
+          args.toDate ? parseLocalDate(args.toDate, 'toDate') : null,
+        ]
+      );
+
+      return result.rows;
+    },
+  }),
+
+  // Approved leave and team holidays, one entry per day, for calendars and expected hours
+  leaveDays: t.field({
+    type: [LeaveDayRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      // Defaults to the current user; OWNER and ADMIN can list anyone's leave
+      userId: t.arg.id({ required: false }),
+      fromDate: t.arg.string({ required: true }),
+      toDate: t.arg.string({ required: true }),
+      includePending: t.arg.boolean({ defaultValue: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const userId = args.userId ?? ctx.auth.userId!;
+      if (userId !== ctx.auth.userId && !canManageTeam(ctx)) {
+        throw new UnauthorizedError('Only team owners and admins can view the leave of other members');
+      }
+
+      const fromDate = parseLocalDate(args.fromDate, 'fromDate');
+      const toDate = parseLocalDate(args.toDate, 'toDate');
+      if (toDate < fromDate) {
+        throw new ValidationError('toDate must not be before fromDate', 'toDate');
+      }
+      if (addDays(fromDate, MAX_LEAVE_DAYS_RANGE) <= toDate) {
+        throw new ValidationError(`Leave days can be listed for at most ${MAX_LEAVE_DAYS_RANGE} days at once`, 'toDate');
+      }
+
+      return getLeaveDays(ctx, args.teamId, fromDate, toDate, {
+        userIds: [userId],
+        includePending: args.includePending ?? false,
+      });
+    },
+  }),
+}));
+
+/**
+ * Leave Mutations
+ */
+builder.mutationFields((t) => ({
+  createLeaveType: t.field({
+    type: LeaveTypeRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      name: t.arg.string({ required: true }),
+      paid: t.arg.boolean({ defaultValue: true }),
+      color: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const name = parseLeaveTypeName(args.name);
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<LeaveType>(
+          'INSERT INTO leave_types (team_id, name, paid, color) VALUES ($1, $2, $3, $4) RETURNING *',
+          [args.teamId, name, args.paid ?? true, args.color ?? null]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  updateLeaveType: t.field({
+    type: LeaveTypeRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      name: t.arg.string({ required: false }),
+      paid: t.arg.boolean({ required: false }),
+      color: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const leaveType = await getLeaveType(ctx, args.id);
+      await requireTeamAccess(ctx, leaveType.team_id);
+      requireTeamManagement(ctx);
+
+      const name = args.name !== undefined && args.name !== null ? parseLeaveTypeName(args.name) : leaveType.name;
+      const paid = args.paid ?? leaveType.paid;
+      const color = args.color !== undefined ? args.color : leaveType.color;
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<LeaveType>(
+          'UPDATE leave_types SET name = $2, paid = $3, color = $4, updated_at = NOW() WHERE id = $1 RETURNING *',
+          [leaveType.id, name, paid, color]
+        );
+
+        ctx.loaders.leaveTypeById.clear(leaveType.id);
+        return result.rows[0];
+      });
+    },
+  }),
+
+  // Archived types can no longer be requested; existing requests keep them
+  archiveLeaveType: t.field({
+    type: LeaveTypeRef,
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      return setLeaveTypeArchived(ctx, args.id, true);
+    },
+  }),
+
+  unarchiveLeaveType: t.field({
+    type: LeaveTypeRef,
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      return setLeaveTypeArchived(ctx, args.id, false);
+    },
+  }),
+
+  // Requests leave for the current user, to be approved by a team OWNER or ADMIN
+  requestLeave: t.field({
+    type: LeaveRequestRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      leaveTypeId: t.arg.id({ required: true }),
+      // First and last day of leave ("YYYY-MM-DD", inclusive)
+      startDate: t.arg.string({ required: true }),
+      endDate: t.arg.string({ required: true }),
+      // Hours off on each day for partial days; whole days when omitted
+      hoursPerDay: t.arg.float({ required: false }),
+      note: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const startDate = parseLocalDate(args.startDate, 'startDate');
+      const endDate = parseLocalDate(args.endDate, 'endDate');
+      if (endDate < startDate) {
+        throw new ValidationError('The last day of leave must not be before the first', 'endDate');
+      }
+      if (addDays(startDate, MAX_LEAVE_DAYS_RANGE) <= endDate) {
+        throw new ValidationError(`Leave can span at most ${MAX_LEAVE_DAYS_RANGE} days`, 'endDate');
+      }
+
+      const hoursPerDay = args.hoursPerDay ?? null;
+      if (hoursPerDay !== null && (hoursPerDay <= 0 || hoursPerDay > 24)) {
+        throw new ValidationError('Hours per day must be more than 0 and at most 24', 'hoursPerDay');
+      }
+
+      const leaveType = await ctx.loaders.leaveTypeById.load(args.leaveTypeId);
+      if (!leaveType || leaveType.team_id !== args.teamId) {
+        throw new NotFoundError('Leave type not found');
+      }
+      if (leaveType.archived_at) {
+        throw new ValidationError('This leave type has been archived', 'leaveTypeId');
+      }
+
+      const overlapping = await ctx.db.query(
+        `
+        SELECT id FROM leave_requests
+        WHERE team_id = $1 AND user_id = $2 AND status IN ('pending', 'approved')
+          AND start_date <= $4 AND end_date >= $3
+        LIMIT 1
+        `,
+        [args.teamId, ctx.auth.userId, startDate, endDate]
+      );
+
+      if (overlapping.rows.length > 0) {
+        throw new ConflictError('You already have leave requested on some of these days');
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<LeaveRequest>(
+          `
+          INSERT INTO leave_requests (team_id, user_id, leave_type_id, start_date, end_date, hours_per_day, note)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *
+          `,
+          [args.teamId, ctx.auth.userId, leaveType.id, startDate, endDate, hoursPerDay, args.note?.trim() || null]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  approveLeaveRequest: t.field({
+    type: LeaveRequestRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      comment: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      return reviewLeaveRequest(ctx, args.id, 'approved', args.comment ?? null);
+    },
+  }),
+
+  rejectLeaveRequest: t.field({
+    type: LeaveRequestRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      comment: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      if (!args.comment.trim()) {
+        throw new ValidationError('A comment is required when rejecting a leave request', 'comment');
+      }
+
+      return reviewLeaveRequest(ctx, args.id, 'rejected', args.comment);
+    },
+  }),
+
+  // The requester can withdraw a pending request; OWNER and ADMIN can also cancel approved leave
+  cancelLeaveRequest: t.field({
+    type: LeaveRequestRef,
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const request = await getLeaveRequest(ctx, args.id);
+      await requireTeamAccess(ctx, request.team_id);
+
+      const isManager = canManageTeam(ctx);
+      if (request.user_id !== ctx.auth.userId && !isManager) {
+        throw new UnauthorizedError('You can only cancel your own leave requests');
+      }
+
+      const cancellable: LeaveRequestStatus[] = isManager ? ['pending', 'approved'] : ['pending'];
+      if (!cancellable.includes(request.status)) {
+        throw new ConflictError(
+          request.status === 'approved'
+            ? 'Approved leave can only be cancelled by a team owner or admin'
+            : `Leave request has already been ${request.status}`
+        );
+      }
+
+      const result = await ctx.db.query<LeaveRequest>(
+        `
+        UPDATE leave_requests
+        SET
+          status = 'cancelled',
+          reviewed_by = CASE WHEN user_id = $2 THEN reviewed_by ELSE $2 END,
+          reviewed_at = CASE WHEN user_id = $2 THEN reviewed_at ELSE NOW() END,
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+        `,
+        [request.id, ctx.auth.userId]
+      );
+
+      ctx.loaders.leaveRequestById.clear(request.id);
+      return result.rows[0];
+    },
+  }),
+
+  createTeamHoliday: t.field({
+    type: TeamHolidayRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      date: t.arg.string({ required: true }),
+      name: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const date = parseLocalDate(args.date, 'date');
+      const name = parseHolidayName(args.name);
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<TeamHoliday>(
+          'INSERT INTO team_holidays (team_id, date, name) VALUES ($1, $2, $3) RETURNING *',
+          [args.teamId, date, name]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  deleteTeamHoliday: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const result = await ctx.db.query<TeamHoliday>('SELECT * FROM team_holidays WHERE id = $1', [args.id]);
+      const holiday = result.rows[0];
+      if (!holiday) {
+        throw new NotFoundError('Holiday not found');
+      }
+
+      await requireTeamAccess(ctx, holiday.team_id);
+      requireTeamManagement(ctx);
+
+      await ctx.db.query('DELETE FROM team_holidays WHERE id = $1', [holiday.id]);
+      return true;
+    },
+  }),
+
+  // Adds the all-day events of an .ics file as team holidays; a holiday already on a date is renamed
+  importTeamHolidays: t.field({
+    type: [TeamHolidayRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      ics: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      if (!args.ics.includes('BEGIN:VCALENDAR')) {
+        throw new ValidationError('The file is not an iCalendar (.ics) file', 'ics');
+      }
+
+      const entries = parseHolidayCalendar(args.ics);
+      if (entries.length === 0) {
+        throw new ValidationError('The calendar has no all-day events', 'ics');
+      }
+
+      return withTransaction(ctx, async (tx) => {
+        const holidays: TeamHoliday[] = [];
+
+        for (const entry of entries) {
+          const result = await tx.db.query<TeamHoliday>(
+            `
+            INSERT INTO team_holidays (team_id, date, name, source_uid)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (team_id, date) DO UPDATE
+            SET name = EXCLUDED.name, source_uid = EXCLUDED.source_uid
+            RETURNING *
+            `,
+            [args.teamId, entry.date, entry.name, entry.uid]
+          );
+          holidays.push(result.rows[0]);
+        }
+
+        return holidays;
+      });
+    },
+  }),
+}));
+
+/**
+ * Helper to load a leave type or throw
+ */
+async function getLeaveType(ctx: GraphQLContext, id: string): Promise<LeaveType> {
+  const leaveType = await ctx.loaders.leaveTypeById.load(id);
+  if (!leaveType) {
+    throw new NotFoundError('Leave type not found');
+  }
+
+  return leaveType;
+}
+
+/**
+ * Helper to load a leave request or throw
+ */
+async function getLeaveRequest(ctx: GraphQLContext, id: string): Promise<LeaveRequest> {
+  const request = await ctx.loaders.leaveRequestById.load(id);
+  if (!request) {
+    throw new NotFoundError('Leave request not found');
+  }
+
+  return request;
+}
+
+/**
+ * Helper to archive or unarchive a leave type
+ */
+async function setLeaveTypeArchived(ctx: GraphQLContext, id: string, archived: boolean): Promise<LeaveType> {
+  requireAuth(ctx);
+
+  const leaveType = await getLeaveType(ctx, id);
+  await requireTeamAccess(ctx, leaveType.team_id);
+  requireTeamManagement(ctx);
+
+  const result = await ctx.db.query<LeaveType>(
+    `
+    UPDATE leave_types
+    SET archived_at = ${archived ? 'COALESCE(archived_at, NOW())' : 'NULL'}, updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [leaveType.id]
+  );
+
+  ctx.loaders.leaveTypeById.clear(leaveType.id);
+  return result.rows[0];
+}
+
+/**
+ * Helper to record a review decision on a pending leave request.
+ * Only team OWNER and ADMIN can approve or reject leave.
+ */
+async function reviewLeaveRequest(
+  ctx: GraphQLContext,
+  id: string,
+  status: 'approved' | 'rejected',
+  comment: string | null
+): Promise<LeaveRequest> {
+  requireAuth(ctx);
+
+  const request = await getLeaveRequest(ctx, id);
+  await requireTeamAccess(ctx, request.team_id);
+
+  if (!canManageTeam(ctx)) {
+    throw new UnauthorizedError('Only team owners and admins can review leave requests');
+  }
+
+  if (request.status !== 'pending') {
+    throw new ConflictError(`Leave request has already been ${request.status}`);
+  }
+
+  const result = await ctx.db.query<LeaveRequest>(
+    `
+    UPDATE leave_requests
+    SET
+      status = $2,
+      reviewed_by = $3,
+      reviewed_at = NOW(),
+      review_comment = $4,
+      updated_at = NOW()
+    WHERE id = $1 AND status = 'pending'
+    RETURNING *
+    `,
+    [id, status, ctx.auth.userId, comment]
+  );
+
+  if (!result.rows[0]) {
+    throw new ConflictError('Leave request has already been reviewed');
+  }
+
+  ctx.loaders.leaveRequestById.clear(id);
+  return result.rows[0];
+}
+
+/**
+ * Helper to validate a leave type name
+ */
+function parseLeaveTypeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ValidationError('Leave type name is required', 'name');
+  }
+  if (trimmed.length > 100) {
+    throw new ValidationError('Leave type name must be at most 100 characters', 'name');
+  }
+
+  return trimmed;
+}
+
+/**
+ * Helper to validate a holiday name
+ */
+function parseHolidayName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ValidationError('Holiday name is required', 'name');
+  }
+  if (trimmed.length > 200) {
+    throw new ValidationError('Holiday name must be at most 200 characters', 'name');
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,133 @@
+import { builder } from '../schema/builder';
+import { PeriodCloseRef } from '../schema/types';
+import { NotFoundError, ConflictError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamRole } from '../context';
+import { getClosedThrough } from '../locks';
+import { PeriodClose } from '../types';
+
+/**
+ * Accounting Period Queries
+ */
+builder.queryFields((t) => ({
+  periodCloses: t.field({
+    type: [PeriodCloseRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<PeriodClose>(
+        'SELECT * FROM period_closes WHERE team_id = $1 ORDER BY closed_at DESC',
+        [args.teamId]
+      );
+
+      return result.rows;
+    },
+  }),
+}));
+
+/**
+ * Accounting Period Mutations
+ */
+builder.mutationFields((t) => ({
+  closePeriod: t.field({
+    type: PeriodCloseRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      closedThrough: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamRole(ctx, ['OWNER']); // Only OWNER can close accounting periods
+
+      const closedThrough = new Date(args.closedThrough);
+
+      if (closedThrough > new Date()) {
+        throw new ValidationError('Cannot close a period that has not ended yet', 'closedThrough');
+      }
+
+      const current = await getClosedThrough(ctx, args.teamId);
+      if (current && closedThrough <= new Date(current)) {
+        throw new ConflictError(
+          'Period is already closed',
+          `The books are already closed through ${new Date(current).toISOString()}`
+        );
+      }
+
+      // A running timer would otherwise end up inside the closed period when stopped
+      const running = await ctx.db.query(
+        `
+        SELECT id FROM time_entries
+        WHERE team_id = $1 AND stopped_at IS NULL AND started_at < $2
+        LIMIT 1
+        `,
+        [args.teamId, closedThrough]
+      );
+
+      if (running.rows.length > 0) {
+        throw new ConflictError(
+          'Cannot close period with running timers',
+          'Stop all timers started before the close date first'
+        );
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<PeriodClose>(
+          `
+          INSERT INTO period_closes (team_id, closed_through, closed_by)
+          VALUES ($1, $2, $3)
+          RETURNING *
+          `,
+          [args.teamId, closedThrough, ctx.auth.userId]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  reopenPeriod: t.field({
+    type: PeriodCloseRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      reason: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const periodClose = await ctx.loaders.periodCloseById.load(args.id);
+      if (!periodClose) {
+        throw new NotFoundError('Period close not found');
+      }
+
+      await requireTeamAccess(ctx, periodClose.team_id);
+      requireTeamRole(ctx, ['OWNER']); // Only OWNER can reopen accounting periods
+
+      if (periodClose.reopened_at) {
+        throw new ConflictError('Period has already been reopened');
+      }
+
+      if (!args.reason.trim()) {
+        throw new ValidationError('A reason is required to reopen a period', 'reason');
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<PeriodClose>(
+          `
+          UPDATE period_closes
+          SET reopened_by = $2, reopened_at = NOW(), reopen_reason = $3
+          WHERE id = $1
+          RETURNING *
+          `,
+          [args.id, ctx.auth.userId, args.reason.trim()]
+        );
+
+        ctx.loaders.periodCloseById.clear(args.id);
+        return result.rows[0];
+      });
+    },
+  }),
+}));
@@ -4,6 +4,8 @@ import { ProjectInput, ProjectPatch, ListArgsInput } from '../schema/inputs';
 import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
 import { NotFoundError, withErrorMapping } from '../errors';
 import { requireAuth, requireTeamAccess, requireProjectRole, canViewProject, requireTeamManagement } from '../context';
+import { parseRoundingMode } from '../billing';
+import { recordRateChange } from '../rates';
 import { Project, ProjectMember, TaskAssignee } from '../types';
 
 /**
@@ -126,9 +128,9 @@ builder.mutationFields((t) => ({
           INSERT INTO projects (
             team_id, client_id, name, description, code, status, color, tags,
             default_hourly_rate_cents, budget_type, budget_hours, budget_amount_cents,
-            start_date, due_date
+            start_date, due_date, rounding_mode, rounding_increment_minutes, rounding_minimum_minutes
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
           RETURNING *
           `,
           [
@@ -146,6 +148,9 @@ builder.mutationFields((t) => ({
             args.input.budgetAmountCents,
             args.input.startDate,
             args.input.dueDate,
+            parseRoundingMode(args.input.roundingMode),
+            args.input.roundingIncrementMinutes,
+            args.input.roundingMinimumMinutes,
           ]
         );
 
@@ -230,6 +235,18 @@ builder.mutationFields((t) => ({
           updates.push(`due_date = $${paramIndex++}`);
           values.push(args.input.dueDate);
         }
+        if (args.input.roundingMode !== undefined) {
+          updates.push(`rounding_mode = $${paramIndex++}`);
+          values.push(parseRoundingMode(args.input.roundingMode));
+        }
+        if (args.input.roundingIncrementMinutes !== undefined) {
+          updates.push(`rounding_increment_minutes = $${paramIndex++}`);
+          values.push(args.input.roundingIncrementMinutes);
+        }
+        if (args.input.roundingMinimumMinutes !== undefined) {
+          updates.push(`rounding_minimum_minutes = $${paramIndex++}`);
+          values.push(args.input.roundingMinimumMinutes);
+        }
 
         if (updates.length === 0) {
           return existing;
@@ -247,6 +264,11 @@ builder.mutationFields((t) => ({
           [args.id, ...values]
         );
 
+        const rate = args.input.defaultHourlyRateCents;
+        if (rate !== undefined && rate !== existing.default_hourly_rate_cents) {
+          await recordRateChange(ctx, 'project', existing, existing.default_hourly_rate_cents, rate, new Date());
+        }
+
         ctx.loaders.projectById.clear(args.id);
         return result.rows[0];
       });
@@ -0,0 +1,356 @@
+import { builder } from '../schema/builder';
+import { RateHistoryEntryRef, RateRecalculationRef } from '../schema/types';
+import { ConflictError, NotFoundError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, requireProjectRole, withTransaction, GraphQLContext } from '../context';
+import { RateLevel, RateSubject, getRateTimeline, recordRateChange, syncCurrentRate } from '../rates';
+import { calculateAmount, recalculateInvoiceTotals, resolveHourlyRate } from '../billing';
+import { requireTimeEntryUnlocked } from '../locks';
+import { parseDateRange } from '../utils';
+import { RateRecalculation, TimeEntry, TimeEntryRateChange } from '../types';
+
+/**
+ * Rate History Queries
+ */
+builder.queryFields((t) => ({
+  rateTimeline: t.field({
+    type: [RateHistoryEntryRef],
+    args: {
+      clientId: t.arg.id({ required: false }),
+      projectId: t.arg.id({ required: false }),
+      taskId: t.arg.id({ required: false }),
+      projectMemberId: t.arg.id({ required: false }),
+      teamMembershipId: t.arg.id({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const { level, subject } = await loadRateSubject(ctx, args);
+      await requireTeamAccess(ctx, subject.team_id);
+
+      return getRateTimeline(ctx, level, subject.id);
+    },
+  }),
+}));
+
+/**
+ * Rate History Mutations
+ */
+builder.mutationFields((t) => ({
+  setHourlyRate: t.field({
+    type: RateHistoryEntryRef,
+    args: {
+      clientId: t.arg.id({ required: false }),
+      projectId: t.arg.id({ required: false }),
+      taskId: t.arg.id({ required: false }),
+      projectMemberId: t.arg.id({ required: false }),
+      teamMembershipId: t.arg.id({ required: false }),
+      hourlyRateCents: t.arg.int({ required: false }),
+      effectiveFrom: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const { level, subject, currentRateCents, projectId } = await loadRateSubject(ctx, args);
+      await requireTeamAccess(ctx, subject.team_id);
+
+      // Client and team member rates are managed by OWNER and ADMIN,
+      // project, task and project member rates by project MANAGERs
+      if (projectId) {
+        await requireProjectRole(ctx, projectId, ['MANAGER']);
+      } else {
+        requireTeamManagement(ctx);
+      }
+
+      const hourlyRateCents = args.hourlyRateCents ?? null;
+      if (hourlyRateCents !== null && hourlyRateCents < 0) {
+        throw new ValidationError('Hourly rate cannot be negative', 'hourlyRateCents');
+      }
+
+      return withErrorMapping(async () => {
+        const entry = await recordRateChange(
+          ctx,
+          level,
+          subject,
+          currentRateCents,
+          hourlyRateCents,
+          new Date(args.effectiveFrom)
+        );
+
+        await syncCurrentRate(ctx, level, subject.id);
+        return entry;
+      });
+    },
+  }),
+
+  recalculateTimeEntryRates: t.field({
+    type: RateRecalculationRef,
+    args: {
+      projectId: t.arg.id({ required: false }),
+      clientId: t.arg.id({ required: false }),
+      taskId: t.arg.id({ required: false }),
+      from: t.arg({ type: 'DateTime', required: false }),
+      to: t.arg({ type: 'DateTime', required: false }),
+      force: t.arg.boolean({ required: false }), // Also reprice entries on draft invoices, updating those invoices
+      dryRun: t.arg.boolean({ required: false }), // Defaults to true: preview the changes without applying them
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const given = [args.projectId, args.clientId, args.taskId].filter(Boolean);
+      if (given.length !== 1) {
+        throw new ValidationError('Specify exactly one of projectId, clientId or taskId');
+      }
+
+      const { level, subject, projectId } = await loadRateSubject(ctx, {
+        projectId: args.projectId,
+        clientId: args.clientId,
+        taskId: args.taskId,
+      });
+      await requireTeamAccess(ctx, subject.team_id);
+
+      // Same permissions as changing the rate at that level
+      if (projectId) {
+        await requireProjectRole(ctx, projectId, ['MANAGER']);
+      } else {
+        requireTeamManagement(ctx);
+      }
+
+      const dryRun = args.dryRun ?? true;
+      const column = level === 'client' ? 'client_id' : level === 'project' ? 'project_id' : 'task_id';
+      const dateRange = parseDateRange(
+        args.from ? new Date(args.from) : null,
+        args.to ? new Date(args.to) : null,
+        'te.started_at',
+        2
+      );
+
+      const result = await ctx.db.query<TimeEntry & { invoiced: boolean; invoice_status: string | null }>(
+        `
+        SELECT te.*, i.status AS invoice_status, i.id IS NOT NULL AS invoiced
+        FROM time_entries te
+        LEFT JOIN invoice_time_entries ite ON ite.time_entry_id = te.id
+        LEFT JOIN invoices i ON i.id = ite.invoice_id
+        WHERE te.${column} = $1 AND te.stopped_at IS NOT NULL
+          ${dateRange.sql ? `AND ${dateRange.sql}` : ''}
+        ORDER BY te.started_at
+        `,
+        [subject.id, ...dateRange.params]
+      );
+
+      // Applied as a whole, so a failure leaves none of the range recalculated
+      const changes = await withTransaction(ctx, async (tx) => {
+        const changes: TimeEntryRateChange[] = [];
+
+        for (const timeEntry of result.rows) {
+          const change = await priceTimeEntry(tx, timeEntry);
+          if (!change) {
+            continue;
+          }
+
+          if (await isTimeEntryLocked(tx, timeEntry)) {
+            change.skipped_reason = 'locked';
+          } else if (timeEntry.invoiced && (!args.force || timeEntry.invoice_status !== 'draft')) {
+            // Only draft invoices can follow a new rate; sent and paid ones stay as billed
+            change.skipped_reason = 'invoiced';
+          }
+
+          if (!dryRun && !change.skipped_reason) {
+            await tx.db.query(
+              `
+              UPDATE time_entries
+              SET hourly_rate_cents = $2, rate_source = $3, amount_cents = $4, updated_at = NOW()
+              WHERE id = $1
+              `,
+              [timeEntry.id, change.hourly_rate_cents, change.rate_source, change.amount_cents]
+            );
+          }
+
+          changes.push(change);
+        }
+
+        if (!dryRun) {
+          const repricedIds = changes
+            .filter((change) => change.invoiced && !change.skipped_reason)
+            .map((change) => change.time_entry_id);
+          await refreshInvoiceItems(tx, repricedIds);
+        }
+
+        return changes;
+      });
+
+      if (!dryRun) {
+        changes.forEach((change) => ctx.loaders.timeEntryById.clear(change.time_entry_id));
+      }
+
+      const recalculation: RateRecalculation = { dry_run: dryRun, changes };
+      return recalculation;
+    },
+  }),
+}));
+
+/**
+ * Helper to load the client, project, task, project member or team membership a rate argument set refers to
+ */
+async function loadRateSubject(
+  ctx: GraphQLContext,
+  args: {
+    clientId?: string | null;
+    projectId?: string | null;
+    taskId?: string | null;
+    projectMemberId?: string | null;
+    teamMembershipId?: string | null;
+  }
+): Promise<{ level: RateLevel; subject: RateSubject; currentRateCents: number | null; projectId: string | null }> {
+  const given = [args.clientId, args.projectId, args.taskId, args.projectMemberId, args.teamMembershipId].filter(
+    Boolean
+  );
+  if (given.length !== 1) {
+    throw new ValidationError(
+      'Specify exactly one of clientId, projectId, taskId, projectMemberId or teamMembershipId'
+    );
+  }
+
+  if (args.clientId) {
+    const client = await ctx.loaders.clientById.load(args.clientId);
+    if (!client) {
+      throw new NotFoundError('Client not found');
+    }
+    return { level: 'client', subject: client, currentRateCents: client.default_hourly_rate_cents, projectId: null };
+  }
+
+  if (args.projectId) {
+    const project = await ctx.loaders.projectById.load(args.projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+    return { level: 'project', subject: project, currentRateCents: project.default_hourly_rate_cents, projectId: project.id };
+  }
+
+  if (args.projectMemberId) {
+    const member = await ctx.loaders.projectMemberById.load(args.projectMemberId);
+    if (!member) {
+      throw new NotFoundError('Project member not found');
+    }
+    return {
+      level: 'project_member',
+      subject: member,
+      currentRateCents: member.hourly_rate_cents,
+      projectId: member.project_id,
+    };
+  }
+
+  if (args.teamMembershipId) {
+    const membership = await ctx.loaders.teamMembershipById.load(args.teamMembershipId);
+    if (!membership) {
+      throw new NotFoundError('Team member not found');
+    }
+    return { level: 'user', subject: membership, currentRateCents: membership.hourly_rate_cents, projectId: null };
+  }
+
+  const task = await ctx.loaders.taskById.load(args.taskId!);
+  if (!task) {
+    throw new NotFoundError('Task not found');
+  }
+  return { level: 'task', subject: task, currentRateCents: task.hourly_rate_cents, projectId: task.project_id };
+}
+
+/**
+ * Helper to re-run rate resolution for a stopped time entry.
+ * Returns null when its rate, rate source and amount are already up to date.
+ */
+async function priceTimeEntry(
+  ctx: GraphQLContext,
+  timeEntry: TimeEntry & { invoiced: boolean }
+): Promise<TimeEntryRateChange | null> {
+  const project = await ctx.loaders.projectById.load(timeEntry.project_id);
+  if (!project) {
+    return null;
+  }
+
+  const { hourlyRateCents, rateSource } = await resolveHourlyRate(
+    ctx,
+    project,
+    timeEntry.task_id,
+    timeEntry.user_id,
+    new Date(timeEntry.started_at)
+  );
+  const amountCents = calculateAmount(
+    timeEntry.billable_duration_seconds ?? timeEntry.duration_seconds ?? 0,
+    hourlyRateCents,
+    timeEntry.billable
+  );
+
+  if (
+    hourlyRateCents === timeEntry.hourly_rate_cents &&
+    rateSource === timeEntry.rate_source &&
+    amountCents === timeEntry.amount_cents
+  ) {
+    return null;
+  }
+
+  return {
+    time_entry_id: timeEntry.id,
+    previous_hourly_rate_cents: timeEntry.hourly_rate_cents,
+    hourly_rate_cents: hourlyRateCents,
+    previous_rate_source: timeEntry.rate_source,
+    rate_source: rateSource,
+    previous_amount_cents: timeEntry.amount_cents,
+    amount_cents: amountCents,
+    invoiced: timeEntry.invoiced,
+    skipped_reason: null,
+  };
+}
+
+/**
+ * Helper to bring the draft invoice lines holding repriced time entries in line with them:
+ * each line's amount becomes the sum of its entries' amounts, and its rate their rate when they share one
+ */
+async function refreshInvoiceItems(ctx: GraphQLContext, timeEntryIds: string[]): Promise<void> {
+  if (timeEntryIds.length === 0) {
+    return;
+  }
+
+  const result = await ctx.db.query<{ invoice_id: string }>(
+    `
+    UPDATE invoice_items ii
+    SET
+      amount_cents = entries.amount_cents,
+      rate_cents = CASE WHEN entries.min_rate = entries.max_rate THEN entries.min_rate ELSE ii.rate_cents END
+    FROM (
+      SELECT
+        ite.invoice_item_id,
+        COALESCE(SUM(te.amount_cents), 0) AS amount_cents,
+        MIN(te.hourly_rate_cents) AS min_rate,
+        MAX(te.hourly_rate_cents) AS max_rate
+      FROM invoice_time_entries ite
+      JOIN time_entries te ON te.id = ite.time_entry_id
+      WHERE ite.invoice_item_id IN (
+        SELECT invoice_item_id FROM invoice_time_entries WHERE time_entry_id = ANY($1::uuid[])
+      )
+      GROUP BY ite.invoice_item_id
+    ) entries
+    WHERE ii.id = entries.invoice_item_id
+    RETURNING ii.invoice_id
+    `,
+    [timeEntryIds]
+  );
+
+  for (const invoiceId of new Set(result.rows.map((row) => row.invoice_id))) {
+    await recalculateInvoiceTotals(ctx.db.query, invoiceId);
+  }
+}
+
+/**
+ * Helper to check whether a time entry falls in a closed period or an approved week
+ */
+async function isTimeEntryLocked(ctx: GraphQLContext, timeEntry: TimeEntry): Promise<boolean> {
+  try {
+    await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
+    return false;
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return true;
+    }
+    throw error;
+  }
+}
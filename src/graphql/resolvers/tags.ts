@@ -0,0 +1,211 @@
+import { builder } from '../schema/builder';
+import { TimeEntryTagRef, TagTotalRef } from '../schema/types';
+import { NotFoundError, ValidationError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, requireTeamManagement, withTransaction, GraphQLContext, getViewerTimeZone } from '../context';
+import { buildTimeEntryFilters } from '../exports';
+import { requireTaggedTimeEntriesUnlocked } from '../locks';
+import { parseDateRange, resolveLocalDateRange } from '../utils';
+import { TagTotal, TimeEntryTag } from '../types';
+
+/**
+ * Time Entry Tag Queries
+ */
+builder.queryFields((t) => ({
+  // The team's tag list, used for autocomplete
+  timeEntryTags: t.field({
+    type: [TimeEntryTagRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<TimeEntryTag>(
+        'SELECT * FROM time_entry_tags WHERE team_id = $1 ORDER BY lower(name)',
+        [args.teamId]
+      );
+
+      return result.rows;
+    },
+  }),
+
+  // Tracked time grouped by tag. Entries with several tags count towards each of them,
+  // so the totals can add up to more than the time tracked.
+  tagTotals: t.field({
+    type: [TagTotalRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      projectId: t.arg.id({ required: false }),
+      userId: t.arg.id({ required: false }),
+      clientId: t.arg.id({ required: false }),
+      from: t.arg({ type: 'DateTime', required: false }),
+      to: t.arg({ type: 'DateTime', required: false }),
+      // Local dates (YYYY-MM-DD, inclusive) in the viewer's time zone; they take precedence over from/to
+      fromDate: t.arg.string({ required: false }),
+      toDate: t.arg.string({ required: false }),
+      billable: t.arg.boolean({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      // Same visibility rules as the timeEntries query
+      const filters = buildTimeEntryFilters(ctx, args.teamId, args, 'te');
+      const params = filters.flatMap((filter) => filter.params);
+      const { from, to } = resolveLocalDateRange(args, await getViewerTimeZone(ctx));
+      const dateRange = parseDateRange(from, to, 'te.started_at', params.length + 1);
+      const clauses = [...filters.map((filter) => filter.sql), ...(dateRange.sql ? [dateRange.sql] : [])];
+
+      // Running timers have no duration yet
+      const result = await ctx.db.query<TagTotal>(
+        `
+        SELECT
+          tag,
+          COUNT(*)::integer AS entry_count,
+          COALESCE(SUM(te.duration_seconds), 0)::integer AS duration_seconds,
+          COALESCE(SUM(te.billable_duration_seconds) FILTER (WHERE te.billable), 0)::integer AS billable_duration_seconds,
+          COALESCE(SUM(te.amount_cents) FILTER (WHERE te.billable), 0)::integer AS amount_cents
+        FROM time_entries te
+        CROSS JOIN LATERAL unnest(
+          CASE WHEN cardinality(te.tags) = 0 THEN ARRAY[NULL]::text[] ELSE te.tags END
+        ) AS tag
+        WHERE ${clauses.join(' AND ')} AND te.stopped_at IS NOT NULL
+        GROUP BY tag
+        ORDER BY duration_seconds DESC, tag
+        `,
+        [...params, ...dateRange.params]
+      );
+
+      return result.rows;
+    },
+  }),
+}));
+
+/**
+ * Time Entry Tag Mutations
+ */
+builder.mutationFields((t) => ({
+  createTimeEntryTag: t.field({
+    type: TimeEntryTagRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      name: t.arg.string({ required: true }),
+      color: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+      requireTeamManagement(ctx);
+
+      const name = parseTagName(args.name);
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<TimeEntryTag>(
+          'INSERT INTO time_entry_tags (team_id, name, color) VALUES ($1, $2, $3) RETURNING *',
+          [args.teamId, name, args.color ?? null]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  // Renaming a tag renames it on every time entry of the team, unless a locked entry carries it
+  updateTimeEntryTag: t.field({
+    type: TimeEntryTagRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      name: t.arg.string({ required: false }),
+      color: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const tag = await getTag(ctx, args.id);
+      await requireTeamAccess(ctx, tag.team_id);
+      requireTeamManagement(ctx);
+
+      const name = args.name !== undefined && args.name !== null ? parseTagName(args.name) : tag.name;
+      const color = args.color !== undefined ? args.color : tag.color;
+
+      if (name !== tag.name) {
+        await requireTaggedTimeEntriesUnlocked(ctx, tag.team_id, tag.name);
+      }
+
+      return withErrorMapping(() =>
+        withTransaction(ctx, async (tx) => {
+          const result = await tx.db.query<TimeEntryTag>(
+            'UPDATE time_entry_tags SET name = $2, color = $3 WHERE id = $1 RETURNING *',
+            [tag.id, name, color]
+          );
+
+          if (name !== tag.name) {
+            await tx.db.query(
+              'UPDATE time_entries SET tags = array_replace(tags, $2, $3) WHERE team_id = $1 AND $2 = ANY(tags)',
+              [tag.team_id, tag.name, name]
+            );
+          }
+
+          return result.rows[0];
+        })
+      );
+    },
+  }),
+
+  // Deleting a tag removes it from every time entry of the team, unless a locked entry carries it
+  deleteTimeEntryTag: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const tag = await getTag(ctx, args.id);
+      await requireTeamAccess(ctx, tag.team_id);
+      requireTeamManagement(ctx);
+      await requireTaggedTimeEntriesUnlocked(ctx, tag.team_id, tag.name);
+
+      await withTransaction(ctx, async (tx) => {
+        await tx.db.query('DELETE FROM time_entry_tags WHERE id = $1', [tag.id]);
+        await tx.db.query(
+          'UPDATE time_entries SET tags = array_remove(tags, $2) WHERE team_id = $1 AND $2 = ANY(tags)',
+          [tag.team_id, tag.name]
+        );
+      });
+
+      return true;
+    },
+  }),
+}));
+
+/**
+ * Helper to load a tag or throw
+ */
+async function getTag(ctx: GraphQLContext, id: string): Promise<TimeEntryTag> {
+  const result = await ctx.db.query<TimeEntryTag>('SELECT * FROM time_entry_tags WHERE id = $1', [id]);
+  if (!result.rows[0]) {
+    throw new NotFoundError('Tag not found');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Helper to validate a tag name
+ */
+function parseTagName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ValidationError('Tag name is required', 'name');
+  }
+  if (trimmed.length > 50) {
+    throw new ValidationError('Tag name must be at most 50 characters', 'name');
+  }
+  if (trimmed.includes(',')) {
+    throw new ValidationError('Tag name cannot contain commas', 'name');
+  }
+
+  return trimmed;
+}
@@ -4,6 +4,7 @@ import { TaskInput, TaskPatch } from '../schema/inputs';
 import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
 import { NotFoundError, withErrorMapping } from '../errors';
 import { requireAuth, requireTeamAccess, requireProjectRole, canViewProject } from '../context';
+import { recordRateChange } from '../rates';
 import { ProjectTask, TaskAssignee } from '../types';
 
 /**
@@ -232,6 +233,11 @@ builder.mutationFields((t) => ({
           [args.id, ...values]
         );
 
+        const rate = args.input.hourlyRateCents;
+        if (rate !== undefined && rate !== existing.hourly_rate_cents) {
+          await recordRateChange(ctx, 'task', existing, existing.hourly_rate_cents, rate, new Date());
+        }
+
         ctx.loaders.taskById.clear(args.id);
         return result.rows[0];
       });
@@ -2,6 +2,8 @@ import { builder } from '../schema/builder';
 import { TeamRef, TeamMemberRef } from '../schema/types';
 import { withErrorMapping, ValidationError, UnauthorizedError } from '../errors';
 import { requireAuth, requireUserId, requireTeamAccess } from '../context';
+import { parseRoundingMode } from '../billing';
+import { parseOverlapPolicy } from '../overlaps';
 import { Team, TeamMembership } from '../types';
 import crypto from 'crypto';
 
@@ -148,6 +150,12 @@ builder.mutationFields((t) => ({
       teamId: t.arg.id({ required: true }),
       name: t.arg.string({ required: false }),
       billingAddress: t.arg({ type: 'JSON', required: false }),
+      roundingMode: t.arg.string({ required: false }),
+      roundingIncrementMinutes: t.arg.int({ required: false }),
+      roundingMinimumMinutes: t.arg.int({ required: false }),
+      overlapPolicy: t.arg.string({ required: false }),
+      // Hours after which running timers are stopped; null turns auto-stop off
+      maxTimerHours: t.arg.int({ required: false }),
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
@@ -172,6 +180,34 @@ builder.mutationFields((t) => ({
         params.push(args.billingAddress);
       }
 
+      if (args.roundingMode !== undefined) {
+        updates.push(`rounding_mode = $${paramIndex++}`);
+        params.push(parseRoundingMode(args.roundingMode));
+      }
+
+      if (args.roundingIncrementMinutes !== undefined) {
+        updates.push(`rounding_increment_minutes = $${paramIndex++}`);
+        params.push(args.roundingIncrementMinutes);
+      }
+
+      if (args.roundingMinimumMinutes !== undefined) {
+        updates.push(`rounding_minimum_minutes = $${paramIndex++}`);
+        params.push(args.roundingMinimumMinutes);
+      }
+
+      if (args.overlapPolicy !== undefined && args.overlapPolicy !== null) {
+        updates.push(`overlap_policy = $${paramIndex++}`);
+        params.push(parseOverlapPolicy(args.overlapPolicy));
+      }
+
+      if (args.maxTimerHours !== undefined) {
+        if (args.maxTimerHours !== null && (args.maxTimerHours < 1 || args.maxTimerHours > 168)) {
+          throw new ValidationError('Maximum timer duration must be between 1 and 168 hours', 'maxTimerHours');
+        }
+        updates.push(`max_timer_hours = $${paramIndex++}`);
+        params.push(args.maxTimerHours);
+      }
+
       if (updates.length === 0) {
         // No updates, just return current team
         const result = await ctx.db.query<Team>(
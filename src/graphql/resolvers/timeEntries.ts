@@ -1,9 +1,33 @@
 import { builder } from '../schema/builder';
-import { TimeEntryRef, TimeEntryConnection } from '../schema/types';
-import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
-import { NotFoundError, withErrorMapping, ValidationError, UnauthorizedError } from '../errors';
-import { requireAuth, requireTeamAccess, canLogTime, requireProjectRole, getProjectMemberRole } from '../context';
-import { TimeEntry } from '../types';
+import { TimeEntryRef, TimeEntryConnection, TimeEntryConflictRef, TimeEntryBulkResultRef, TimeEntryEventRef } from '../schema/types';
+import { TimeEntryBatchInput, WeeklyTimesheetRowInput } from '../schema/inputs';
+import { parseOffsetLimit, buildQuery, calculatePageInfo, resolveLocalDateRange } from '../utils';
+import { NotFoundError, ConflictError, withErrorMapping, ValidationError, UnauthorizedError } from '../errors';
+import { requireAuth, requireTeamAccess, canLogTime, requireProjectRole, getProjectMemberRole, canManageTeam, GraphQLContext, withTransaction, getViewerTimeZone } from '../context';
+import { requireTimeEntryUnlocked, requireTimeEntriesNotInvoiced } from '../locks';
+import { calculateBilling } from '../billing';
+import { requireOverlapAllowed } from '../overlaps';
+import { buildTimeEntryFilters } from '../exports';
+import { resolveTimeEntryTags } from '../tags';
+import { getPausedSeconds } from '../timers';
+import { pubSub, publishTimeEntryEvent } from '../pubsub';
+import { withIdempotencyKey } from '../idempotency';
+import { TimeEntry, TimeEntryConflict, TimeEntryBulkResult, Project, RateSource } from '../types';
+import { addDays, isLocalDate, startOfLocalDay, toLocalDate } from '@/lib/time-zones';
+import { GraphQLError } from 'graphql';
+import { filter, pipe } from 'graphql-yoga';
+
+// Most time entries createTimeEntries, bulkUpdateTimeEntries and mergeTimeEntries accept in one call
+const MAX_BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where time logged without a start (weekly grid, createTimeEntryOnDate) goes on a day without
+// other entries, in hours after midnight
+const DAY_START_HOURS = 9;
+
+// How far ahead of the server a client's clock may be when it sends its own timer timestamps
+const MAX_CLIENT_CLOCK_SKEW_MS = 5 * 60 * 1000;
 
 /**
  * TimeEntry Queries
@@ -19,8 +43,12 @@ builder.queryFields((t) => ({
       clientId: t.arg.id({ required: false }),
       from: t.arg({ type: 'DateTime', required: false }),
       to: t.arg({ type: 'DateTime', required: false }),
+      // Local dates (YYYY-MM-DD, inclusive) in the viewer's time zone; they take precedence over from/to
+      fromDate: t.arg.string({ required: false }),
+      toDate: t.arg.string({ required: false }),
       billable: t.arg.boolean({ required: false }),
       uninvoicedOnly: t.arg.boolean({ required: false }),
+      tags: t.arg.stringList({ required: false }), // Entries with any of these tags
       offset: t.arg.int({ defaultValue: 0 }),
       limit: t.arg.int({ defaultValue: 25 }),
       orderBy: t.arg.string({ required: false }),
@@ -32,61 +60,14 @@ builder.queryFields((t) => ({
 
       const { offset, limit } = parseOffsetLimit(args.offset, args.limit, 100);
 
-      // Base filter: time entries must belong to the team
-      const filters = [
-        { sql: 'team_id = $1', params: [args.teamId] },
-      ];
-
-      // OWNER, ADMIN, VIEWER, and BILLING can see all time entries in the team
-      // MEMBER can only see time entries from projects where they are explicitly assigned
-      if (ctx.auth.teamRole === 'MEMBER') {
-        filters.push({
-          sql: 'EXISTS (SELECT 1 FROM project_members WHERE project_id = time_entries.project_id AND user_id = $2)',
-          params: [ctx.auth.userId!] // Non-null assertion: requireAuth ensures userId is not null
-        });
-      } else if (ctx.auth.teamRole !== 'OWNER' && ctx.auth.teamRole !== 'ADMIN' && ctx.auth.teamRole !== 'VIEWER' && ctx.auth.teamRole !== 'BILLING') {
-        // Users without a team role can only see time entries from projects where they are a member
-        filters.push({
-          sql: 'EXISTS (SELECT 1 FROM project_members WHERE project_id = time_entries.project_id AND user_id = $2)',
-          params: [ctx.auth.userId!]
-        });
-      }
-
-      // Calculate the next parameter index based on how many params we've added so far
-      let paramIndex = filters.reduce((sum, f) => sum + f.params.length, 0) + 1;
-
-      if (args.projectId) {
-        filters.push({ sql: `project_id = $${paramIndex++}`, params: [args.projectId] });
-      }
-
-      if (args.taskId) {
-        filters.push({ sql: `task_id = $${paramIndex++}`, params: [args.taskId] });
-      }
-
-      if (args.userId) {
-        filters.push({ sql: `user_id = $${paramIndex++}`, params: [args.userId] });
-      }
-
-      if (args.clientId) {
-        filters.push({ sql: `client_id = $${paramIndex++}`, params: [args.clientId] });
-      }
-
-      if (args.billable !== undefined && args.billable !== null) {
-        filters.push({ sql: `billable = $${paramIndex++}`, params: [args.billable as any] });
-      }
-
-      if (args.uninvoicedOnly) {
-        filters.push({
-          sql: `id NOT IN (SELECT time_entry_id FROM invoice_time_entries)`,
-          params: []
-        });
-      }
+      const filters = buildTimeEntryFilters(ctx, args.teamId, args);
+      const { from, to } = resolveLocalDateRange(args, await getViewerTimeZone(ctx));
 
       const { query, countQuery, params } = buildQuery({
         baseSelect: 'SELECT *',
         baseFrom: 'FROM time_entries',
         filters,
-        dateRange: args.from || args.to ? { from: args.from, to: args.to, field: 'started_at' } : undefined,
+        dateRange: from || to ? { from, to, field: 'started_at' } : undefined,
         orderBy: args.orderBy,
         order: (args.order as 'asc' | 'desc') || 'desc',
         allowedOrderBy: ['started_at', 'stopped_at', 'duration_seconds', 'created_at'],
@@ -110,6 +91,72 @@ builder.queryFields((t) => ({
       };
     },
   }),
+
+  timeEntryConflicts: t.field({
+    type: [TimeEntryConflictRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: true }),
+      from: t.arg({ type: 'DateTime', required: true }),
+      to: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      // Users can review their own conflicts, OWNER and ADMIN can review anyone's
+      if (args.userId !== ctx.auth.userId && !canManageTeam(ctx)) {
+        throw new UnauthorizedError('You can only view your own time entry conflicts');
+      }
+
+      // Each overlapping pair is listed once, with the earlier entry first
+      const result = await ctx.db.query<TimeEntryConflict>(
+        `
+        SELECT
+          a.id AS time_entry_id,
+          b.id AS conflicting_time_entry_id,
+          GREATEST(a.started_at, b.started_at) AS overlap_start,
+          LEAST(COALESCE(a.stopped_at, NOW()), COALESCE(b.stopped_at, NOW())) AS overlap_end
+        FROM time_entries a
+        JOIN time_entries b
+          ON b.team_id = a.team_id
+          AND b.user_id = a.user_id
+          AND (b.started_at, b.id) > (a.started_at, a.id)
+          AND b.started_at < COALESCE(a.stopped_at, 'infinity')
+        WHERE a.team_id = $1 AND a.user_id = $2
+          AND GREATEST(a.started_at, b.started_at) < $4
+          AND LEAST(COALESCE(a.stopped_at, 'infinity'), COALESCE(b.stopped_at, 'infinity')) > $3
+        ORDER BY overlap_start
+        `,
+        [args.teamId, args.userId, args.from, args.to]
+      );
+
+      return result.rows;
+    },
+  }),
+
+  // The current user's timers that were stopped automatically and still need a look
+  autoStoppedTimeEntries: t.field({
+    type: [TimeEntryRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<TimeEntry>(
+        `
+        SELECT * FROM time_entries
+        WHERE team_id = $1 AND user_id = $2 AND auto_stopped_at IS NOT NULL
+        ORDER BY started_at DESC
+        `,
+        [args.teamId, ctx.auth.userId]
+      );
+
+      return result.rows;
+    },
+  }),
 }));
 
 /**
@@ -122,11 +169,16 @@ builder.mutationFields((t) => ({
       projectId: t.arg.id({ required: true }),
       taskId: t.arg.id({ required: false }),
       note: t.arg.string({ required: false }),
+      tags: t.arg.stringList({ required: false }),
       billable: t.arg.boolean({ defaultValue: true }),
+      startedAt: t.arg({ type: 'DateTime', required: false }), // When the client started the timer, e.g. offline; defaults to now
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the timer started first
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
 
+      const startedAt = clientTimestamp(args.startedAt, 'startedAt');
+
       const project = await ctx.loaders.projectById.load(args.projectId);
       if (!project) {
         throw new NotFoundError('Project not found');
@@ -148,36 +200,164 @@ builder.mutationFields((t) => ({
         }
       }
 
-      return withErrorMapping(async () => {
-        const result = await ctx.db.query<TimeEntry>(
+      const { timeEntry, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'start_timer', async (tx) => {
+        const tags = await resolveTimeEntryTags(tx, project.team_id, args.tags ?? []);
+
+        await requireTimeEntryUnlocked(tx, project.team_id, ctx.auth.userId, startedAt);
+
+        // A new timer runs open-ended, so this also catches a timer that is still running
+        await requireOverlapAllowed(tx, project.team_id, ctx.auth.userId, startedAt, null);
+
+        return withErrorMapping(async () => {
+          const result = await tx.db.query<TimeEntry>(
+            `
+            INSERT INTO time_entries (
+              team_id, project_id, task_id, user_id, client_id,
+              note, tags, started_at, billable
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING *
+            `,
+            [
+              project.team_id,
+              args.projectId,
+              args.taskId,
+              ctx.auth.userId,
+              project.client_id,
+              args.note,
+              tags,
+              startedAt,
+              args.billable,
+            ]
+          );
+
+          return result.rows[0];
+        });
+      });
+
+      if (!replayed) {
+        publishTimeEntryEvent('timer_started', timeEntry);
+      }
+      return timeEntry;
+    },
+  }),
+
+  stopTimer: t.field({
+    type: TimeEntryRef,
+    args: {
+      timeEntryId: t.arg.id({ required: true }),
+      stoppedAt: t.arg({ type: 'DateTime', required: false }), // When the client stopped the timer, e.g. offline; defaults to now
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the stopped entry
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const stoppedAt = clientTimestamp(args.stoppedAt, 'stoppedAt');
+
+      const timeEntry = await ctx.loaders.timeEntryById.load(args.timeEntryId);
+      if (!timeEntry) {
+        throw new NotFoundError('Time entry not found');
+      }
+
+      await requireTeamAccess(ctx, timeEntry.team_id);
+
+      // Only MANAGER and CONTRIBUTOR can stop timers, and must be their own timer
+      const canLog = await canLogTime(ctx, timeEntry.project_id);
+      if (!canLog) {
+        throw new UnauthorizedError('You do not have permission to log time on this project');
+      }
+
+      if (timeEntry.user_id !== ctx.auth.userId) {
+        throw new UnauthorizedError('You can only stop your own timers');
+      }
+
+      const { timeEntry: stopped, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'stop_timer', async (tx) => {
+        if (timeEntry.stopped_at) {
+          throw new ValidationError('Timer already stopped');
+        }
+
+        const startedAt = new Date(timeEntry.started_at);
+        if (stoppedAt <= startedAt) {
+          throw new ValidationError('End time must be after start time', 'stoppedAt');
+        }
+
+        await requireTimeEntryUnlocked(tx, timeEntry.team_id, timeEntry.user_id, startedAt);
+
+        // Get the project to determine hourly rate
+        const project = await tx.loaders.projectById.load(timeEntry.project_id);
+        if (!project) {
+          throw new NotFoundError('Project not found');
+        }
+
+        // Stopping a paused timer ends the pause at the same moment; a stop sent later by an
+        // offline client drops the pauses taken after it
+        await tx.db.query('DELETE FROM time_entry_pauses WHERE time_entry_id = $1 AND paused_at >= $2', [
+          args.timeEntryId,
+          stoppedAt,
+        ]);
+        await tx.db.query(
+          'UPDATE time_entry_pauses SET resumed_at = $2 WHERE time_entry_id = $1 AND (resumed_at IS NULL OR resumed_at > $2)',
+          [args.timeEntryId, stoppedAt]
+        );
+
+        // Calculate duration excluding pauses, then the rounded billable duration and amount
+        const pausedSeconds = await getPausedSeconds(tx.db.query, args.timeEntryId, startedAt, stoppedAt);
+        const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000) - pausedSeconds;
+
+        const { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+          tx,
+          project,
+          timeEntry.task_id,
+          timeEntry.user_id,
+          startedAt,
+          durationSeconds,
+          timeEntry.billable
+        );
+
+        const result = await tx.db.query<TimeEntry>(
           `
-          INSERT INTO time_entries (
-            team_id, project_id, task_id, user_id, client_id,
-            note, started_at, billable
-          )
-          VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)
+          UPDATE time_entries
+          SET
+            stopped_at = $2,
+            duration_seconds = $3,
+            billable_duration_seconds = $4,
+            hourly_rate_cents = $5,
+            rate_source = $6,
+            amount_cents = $7,
+            cost_cents = $8,
+            updated_at = NOW()
+          WHERE id = $1
           RETURNING *
           `,
           [
-            project.team_id,
-            args.projectId,
-            args.taskId,
-            ctx.auth.userId,
-            project.client_id,
-            args.note,
-            args.billable,
+            args.timeEntryId,
+            stoppedAt,
+            durationSeconds,
+            billableDurationSeconds,
+            hourlyRateCents,
+            rateSource,
+            amountCents,
+            costCents,
           ]
         );
 
         return result.rows[0];
       });
+
+      ctx.loaders.timeEntryById.clear(args.timeEntryId);
+      ctx.loaders.pausesByTimeEntryId.clear(args.timeEntryId);
+      if (!replayed) {
+        publishTimeEntryEvent('timer_stopped', stopped);
+      }
+      return stopped;
     },
   }),
 
-  stopTimer: t.field({
+  pauseTimer: t.field({
     type: TimeEntryRef,
     args: {
       timeEntryId: t.arg.id({ required: true }),
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the paused entry
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
@@ -189,76 +369,103 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, timeEntry.team_id);
 
-      // Only MANAGER and CONTRIBUTOR can stop timers, and must be their own timer
+      // Same checks as stopTimer
       const canLog = await canLogTime(ctx, timeEntry.project_id);
       if (!canLog) {
         throw new UnauthorizedError('You do not have permission to log time on this project');
       }
 
       if (timeEntry.user_id !== ctx.auth.userId) {
-        throw new UnauthorizedError('You can only stop your own timers');
+        throw new UnauthorizedError('You can only pause your own timers');
       }
 
-      if (timeEntry.stopped_at) {
-        throw new ValidationError('Timer already stopped');
+      const { timeEntry: paused, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'pause_timer', async (tx) => {
+        if (timeEntry.stopped_at) {
+          throw new ValidationError('Timer already stopped');
+        }
+
+        await requireTimeEntryUnlocked(tx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
+
+        const pauses = await tx.loaders.pausesByTimeEntryId.load(args.timeEntryId);
+        if (pauses.some((pause) => !pause.resumed_at)) {
+          throw new ConflictError('Timer is already paused');
+        }
+
+        await withErrorMapping(() =>
+          tx.db.query(
+            `
+            INSERT INTO time_entry_pauses (team_id, time_entry_id, paused_at)
+            VALUES ($1, $2, NOW())
+            `,
+            [timeEntry.team_id, args.timeEntryId]
+          )
+        );
+
+        // The response reports the pause, so reload the entry after writing it
+        return (await tx.loaders.timeEntryById.load(args.timeEntryId))!;
+      });
+
+      ctx.loaders.timeEntryById.clear(args.timeEntryId);
+      ctx.loaders.pausesByTimeEntryId.clear(args.timeEntryId);
+      if (!replayed) {
+        publishTimeEntryEvent('updated', paused);
       }
+      return paused;
+    },
+  }),
 
-      // Get the project to determine hourly rate
-      const project = await ctx.loaders.projectById.load(timeEntry.project_id);
-      if (!project) {
-        throw new NotFoundError('Project not found');
+  resumeTimer: t.field({
+    type: TimeEntryRef,
+    args: {
+      timeEntryId: t.arg.id({ required: true }),
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the resumed entry
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const timeEntry = await ctx.loaders.timeEntryById.load(args.timeEntryId);
+      if (!timeEntry) {
+        throw new NotFoundError('Time entry not found');
       }
 
-      // Determine hourly rate (task > project > client)
-      let hourlyRateCents: number | null = null;
+      await requireTeamAccess(ctx, timeEntry.team_id);
 
-      if (timeEntry.task_id) {
-        const task = await ctx.loaders.taskById.load(timeEntry.task_id);
-        if (task?.hourly_rate_cents) {
-          hourlyRateCents = task.hourly_rate_cents;
-        }
+      // Same checks as stopTimer
+      const canLog = await canLogTime(ctx, timeEntry.project_id);
+      if (!canLog) {
+        throw new UnauthorizedError('You do not have permission to log time on this project');
       }
 
-      if (!hourlyRateCents && project.default_hourly_rate_cents) {
-        hourlyRateCents = project.default_hourly_rate_cents;
+      if (timeEntry.user_id !== ctx.auth.userId) {
+        throw new UnauthorizedError('You can only resume your own timers');
       }
 
-      if (!hourlyRateCents && project.client_id) {
-        const client = await ctx.loaders.clientById.load(project.client_id);
-        if (client?.default_hourly_rate_cents) {
-          hourlyRateCents = client.default_hourly_rate_cents;
+      const { timeEntry: resumed, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'resume_timer', async (tx) => {
+        if (timeEntry.stopped_at) {
+          throw new ValidationError('Timer already stopped');
         }
-      }
 
-      // Calculate duration and amount
-      const stoppedAt = new Date();
-      const startedAt = new Date(timeEntry.started_at);
-      const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000);
+        await requireTimeEntryUnlocked(tx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
 
-      // Calculate amount: (duration in hours) * hourly rate
-      let amountCents: number | null = null;
-      if (hourlyRateCents && timeEntry.billable) {
-        const durationHours = durationSeconds / 3600;
-        amountCents = Math.round(durationHours * hourlyRateCents);
-      }
+        const result = await tx.db.query(
+          'UPDATE time_entry_pauses SET resumed_at = NOW() WHERE time_entry_id = $1 AND resumed_at IS NULL',
+          [args.timeEntryId]
+        );
 
-      const result = await ctx.db.query<TimeEntry>(
-        `
-        UPDATE time_entries
-        SET
-          stopped_at = $2,
-          duration_seconds = $3,
-          hourly_rate_cents = $4,
-          amount_cents = $5,
-          updated_at = NOW()
-        WHERE id = $1
-        RETURNING *
-        `,
-        [args.timeEntryId, stoppedAt, durationSeconds, hourlyRateCents, amountCents]
-      );
+        if (result.rowCount === 0) {
+          throw new ConflictError('Timer is not paused');
+        }
+
+        // The response reports the pause, so reload the entry after writing it
+        return (await tx.loaders.timeEntryById.load(args.timeEntryId))!;
+      });
 
       ctx.loaders.timeEntryById.clear(args.timeEntryId);
-      return result.rows[0];
+      ctx.loaders.pausesByTimeEntryId.clear(args.timeEntryId);
+      if (!replayed) {
+        publishTimeEntryEvent('updated', resumed);
+      }
+      return resumed;
     },
   }),
 
@@ -268,13 +475,50 @@ builder.mutationFields((t) => ({
       projectId: t.arg.id({ required: true }),
       taskId: t.arg.id({ required: false }),
       note: t.arg.string({ required: false }),
+      tags: t.arg.stringList({ required: false }),
       startedAt: t.arg({ type: 'DateTime', required: true }),
       stoppedAt: t.arg({ type: 'DateTime', required: true }),
       billable: t.arg.boolean({ defaultValue: true }),
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the entry created first
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
 
+      const { timeEntry, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'create_time_entry', (tx) =>
+        insertTimeEntry(tx, args)
+      );
+
+      if (!replayed) {
+        publishTimeEntryEvent('created', timeEntry);
+      }
+      return timeEntry;
+    },
+  }),
+
+  // Logs a duration on a day without giving times: the entry starts when the user's last entry of
+  // that day ends, or at 9:00 on a day without entries. The day is a date in the user's time zone.
+  createTimeEntryOnDate: t.field({
+    type: TimeEntryRef,
+    args: {
+      projectId: t.arg.id({ required: true }),
+      taskId: t.arg.id({ required: false }),
+      note: t.arg.string({ required: false }),
+      tags: t.arg.stringList({ required: false }),
+      date: t.arg.string({ required: true }), // YYYY-MM-DD
+      durationSeconds: t.arg.int({ required: true }),
+      billable: t.arg.boolean({ defaultValue: true }),
+      idempotencyKey: t.arg.string({ required: false }), // Replaying the same key returns the entry created first
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      if (!isLocalDate(args.date)) {
+        throw new ValidationError(`Invalid date: ${args.date}. Use YYYY-MM-DD`, 'date');
+      }
+      if (args.durationSeconds <= 0 || args.durationSeconds > DAY_MS / 1000) {
+        throw new ValidationError('Duration must be more than 0 and at most 24 hours', 'durationSeconds');
+      }
+
       const project = await ctx.loaders.projectById.load(args.projectId);
       if (!project) {
         throw new NotFoundError('Project not found');
@@ -282,87 +526,183 @@ builder.mutationFields((t) => ({
 
       await requireTeamAccess(ctx, project.team_id);
 
-      // Only MANAGER and CONTRIBUTOR can log time
-      const canLog = await canLogTime(ctx, args.projectId);
-      if (!canLog) {
-        throw new UnauthorizedError('You do not have permission to log time on this project');
-      }
+      const timeZone = await getViewerTimeZone(ctx);
+      const dayStart = startOfLocalDay(args.date, timeZone);
+      const dayEnd = startOfLocalDay(addDays(args.date, 1), timeZone);
 
-      // Verify task belongs to project if provided
-      if (args.taskId) {
-        const task = await ctx.loaders.taskById.load(args.taskId);
-        if (!task || task.project_id !== args.projectId) {
-          throw new ValidationError('Task does not belong to the specified project');
+      const { timeEntry, replayed } = await withIdempotencyKey(ctx, args.idempotencyKey, 'create_time_entry', async (tx) => {
+        const dayEntries = await tx.db.query<TimeEntry>(
+          'SELECT * FROM time_entries WHERE team_id = $1 AND user_id = $2 AND started_at >= $3 AND started_at < $4',
+          [project.team_id, tx.auth.userId, dayStart, dayEnd]
+        );
+
+        const startedAt = getAppendedTimeStart(dayStart, dayEntries.rows);
+        const stoppedAt = new Date(startedAt.getTime() + args.durationSeconds * 1000);
+        if (stoppedAt > dayEnd) {
+          throw new ValidationError('Not enough time left on this day after your last time entry', 'durationSeconds');
         }
-      }
 
-      // Validate that stoppedAt is after startedAt
-      const startedAt = new Date(args.startedAt);
-      const stoppedAt = new Date(args.stoppedAt);
-      if (stoppedAt <= startedAt) {
-        throw new ValidationError('End time must be after start time');
+        return insertTimeEntry(tx, {
+          projectId: args.projectId,
+          taskId: args.taskId,
+          note: args.note,
+          tags: args.tags,
+          startedAt,
+          stoppedAt,
+          billable: args.billable,
+        });
+      });
+
+      if (!replayed) {
+        publishTimeEntryEvent('created', timeEntry);
       }
+      return timeEntry;
+    },
+  }),
 
-      // Calculate duration
-      const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000);
+  // Creates several stopped time entries at once, e.g. accepted calendar suggestions.
+  // All entries are validated like createTimeEntry and saved together, or not at all.
+  createTimeEntries: t.field({
+    type: [TimeEntryRef],
+    args: {
+      entries: t.arg({ type: [TimeEntryBatchInput], required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
 
-      // Determine hourly rate (task > project > client)
-      let hourlyRateCents: number | null = null;
+      if (args.entries.length > MAX_BATCH_SIZE) {
+        throw new ValidationError(`At most ${MAX_BATCH_SIZE} time entries can be created at once`, 'entries');
+      }
 
-      if (args.taskId) {
-        const task = await ctx.loaders.taskById.load(args.taskId);
-        if (task?.hourly_rate_cents) {
-          hourlyRateCents = task.hourly_rate_cents;
+      const created = await withTransaction(ctx, async (tx) => {
+        const timeEntries: TimeEntry[] = [];
+        for (const [index, entry] of args.entries.entries()) {
+          try {
+            timeEntries.push(await insertTimeEntry(tx, entry));
+          } catch (error) {
+            if (error instanceof GraphQLError) {
+              throw new GraphQLError(`Entry ${index + 1}: ${error.message}`, { extensions: error.extensions });
+            }
+            throw error;
+          }
         }
-      }
+        return timeEntries;
+      });
 
-      if (!hourlyRateCents && project.default_hourly_rate_cents) {
-        hourlyRateCents = project.default_hourly_rate_cents;
+      for (const timeEntry of created) {
+        publishTimeEntryEvent('created', timeEntry);
       }
+      return created;
+    },
+  }),
 
-      if (!hourlyRateCents && project.client_id) {
-        const client = await ctx.loaders.clientById.load(project.client_id);
-        if (client?.default_hourly_rate_cents) {
-          hourlyRateCents = client.default_hourly_rate_cents;
+  // Saves the weekly timesheet grid: each cell (project, task, day) is set to the given hours
+  // by creating, shortening, extending or deleting the current user's time entries in it.
+  // Returns the user's time entries of the week.
+  upsertWeeklyTimesheet: t.field({
+    type: [TimeEntryRef],
+    args: {
+      teamId: t.arg.id({ required: true }),
+      weekStart: t.arg({ type: 'DateTime', required: true }), // Local midnight of the week's first day
+      rows: t.arg({ type: [WeeklyTimesheetRowInput], required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      // Day boundaries follow the user's time zone, so days around a daylight saving change aren't 24 hours
+      const timeZone = await getViewerTimeZone(ctx);
+      const weekStartDate = toLocalDate(new Date(args.weekStart), timeZone);
+      const dayStarts = Array.from({ length: 8 }, (_, day) => startOfLocalDay(addDays(weekStartDate, day), timeZone));
+      const keys = new Set<string>();
+
+      for (const [index, row] of args.rows.entries()) {
+        if (row.hours.length !== 7) {
+          throw new ValidationError(`Row ${index + 1}: Expected hours for 7 days`, 'rows');
+        }
+        if (row.hours.some((hours) => hours !== null && hours !== undefined && !(hours >= 0 && hours <= 24))) {
+          throw new ValidationError(`Row ${index + 1}: Hours must be between 0 and 24`, 'rows');
         }
-      }
 
-      // Calculate amount: (duration in hours) * hourly rate
-      let amountCents: number | null = null;
-      if (hourlyRateCents && args.billable) {
-        const durationHours = durationSeconds / 3600;
-        amountCents = Math.round(durationHours * hourlyRateCents);
+        const key = `${row.projectId}:${row.taskId ?? ''}`;
+        if (keys.has(key)) {
+          throw new ValidationError(`Row ${index + 1}: Project and task appear more than once`, 'rows');
+        }
+        keys.add(key);
       }
 
-      return withErrorMapping(async () => {
-        const result = await ctx.db.query<TimeEntry>(
-          `
-          INSERT INTO time_entries (
-            team_id, project_id, task_id, user_id, client_id,
-            note, started_at, stopped_at, duration_seconds,
-            billable, hourly_rate_cents, amount_cents
-          )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-          RETURNING *
-          `,
-          [
-            project.team_id,
-            args.projectId,
-            args.taskId,
-            ctx.auth.userId,
-            project.client_id,
-            args.note,
-            startedAt,
-            stoppedAt,
-            durationSeconds,
-            args.billable,
-            hourlyRateCents,
-            amountCents,
-          ]
-        );
+      const weekEntriesQuery = `
+        SELECT * FROM time_entries
+        WHERE team_id = $1 AND user_id = $2 AND started_at >= $3 AND started_at < $4
+        ORDER BY started_at
+      `;
+      const weekEntriesParams = [args.teamId, ctx.auth.userId, dayStarts[0], dayStarts[7]];
+
+      const [before, after] = await withTransaction(ctx, async (tx) => {
+        // Entries of the week before saving tell which ones the grid created, changed or deleted
+        const existing = await tx.db.query<TimeEntry>(weekEntriesQuery, weekEntriesParams);
+
+        for (const [index, row] of args.rows.entries()) {
+          try {
+            const project = await tx.loaders.projectById.load(row.projectId);
+            if (!project || project.team_id !== args.teamId) {
+              throw new NotFoundError('Project not found');
+            }
+
+            // Same checks as createTimeEntry
+            if (!(await canLogTime(tx, project.id))) {
+              throw new UnauthorizedError('You do not have permission to log time on this project');
+            }
+            if (row.taskId) {
+              const task = await tx.loaders.taskById.load(row.taskId);
+              if (!task || task.project_id !== project.id) {
+                throw new ValidationError('Task does not belong to the specified project');
+              }
+            }
+
+            for (const [day, hours] of row.hours.entries()) {
+              if (hours === null || hours === undefined) {
+                continue;
+              }
+
+              await saveTimesheetCell(
+                tx,
+                project,
+                row.taskId ?? null,
+                row.billable ?? true,
+                dayStarts[day],
+                dayStarts[day + 1],
+                Math.round(hours * 60) * 60
+              );
+            }
+          } catch (error) {
+            if (error instanceof GraphQLError) {
+              throw new GraphQLError(`Row ${index + 1}: ${error.message}`, { extensions: error.extensions });
+            }
+            throw error;
+          }
+        }
 
-        return result.rows[0];
+        const result = await tx.db.query<TimeEntry>(weekEntriesQuery, weekEntriesParams);
+
+        return [existing.rows, result.rows];
       });
+
+      const beforeById = new Map(before.map((timeEntry) => [timeEntry.id, timeEntry]));
+      for (const timeEntry of after) {
+        const previous = beforeById.get(timeEntry.id);
+        beforeById.delete(timeEntry.id);
+        if (!previous) {
+          publishTimeEntryEvent('created', timeEntry);
+        } else if (new Date(previous.updated_at).getTime() !== new Date(timeEntry.updated_at).getTime()) {
+          publishTimeEntryEvent('updated', timeEntry);
+        }
+      }
+      for (const timeEntry of beforeById.values()) {
+        publishTimeEntryEvent('deleted', timeEntry);
+      }
+
+      return after;
     },
   }),
 
@@ -373,6 +713,7 @@ builder.mutationFields((t) => ({
       projectId: t.arg.id({ required: false }),
       taskId: t.arg.id({ required: false }),
       note: t.arg.string({ required: false }),
+      tags: t.arg.stringList({ required: false }), // Replaces the entry's tags
       startedAt: t.arg({ type: 'DateTime', required: false }),
       stoppedAt: t.arg({ type: 'DateTime', required: false }),
       billable: t.arg.boolean({ required: false }),
@@ -380,180 +721,932 @@ builder.mutationFields((t) => ({
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
 
-      const timeEntry = await ctx.loaders.timeEntryById.load(args.timeEntryId);
-      if (!timeEntry) {
-        throw new NotFoundError('Time entry not found');
+      const timeEntry = await saveTimeEntryChanges(ctx, args.timeEntryId, args);
+      publishTimeEntryEvent('updated', timeEntry);
+      return timeEntry;
+    },
+  }),
+
+  // Applies one change to many time entries, or deletes them. Each entry gets the checks of
+  // updateTimeEntry or deleteTimeEntry and is saved on its own, so a locked entry doesn't block the rest.
+  bulkUpdateTimeEntries: t.field({
+    type: [TimeEntryBulkResultRef],
+    args: {
+      timeEntryIds: t.arg.idList({ required: true }),
+      projectId: t.arg.id({ required: false }), // Moving an entry clears its task unless taskId is given
+      taskId: t.arg.id({ required: false }),
+      billable: t.arg.boolean({ required: false }),
+      appendNote: t.arg.string({ required: false }),
+      delete: t.arg.boolean({ defaultValue: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      if (args.timeEntryIds.length > MAX_BATCH_SIZE) {
+        throw new ValidationError(`At most ${MAX_BATCH_SIZE} time entries can be changed at once`, 'timeEntryIds');
       }
 
-      await requireTeamAccess(ctx, timeEntry.team_id);
+      const appendNote = args.appendNote?.trim() || null;
+      const hasChanges = !!args.projectId || !!args.taskId || (args.billable ?? null) !== null || !!appendNote;
+      if (args.delete && hasChanges) {
+        throw new ValidationError('Deleting time entries cannot be combined with other changes');
+      }
+      if (!args.delete && !hasChanges) {
+        throw new ValidationError('No changes given');
+      }
 
-      // Team OWNER and ADMIN can edit any time entry
-      // Otherwise, check project-level permissions: MANAGER can edit any, CONTRIBUTOR can edit their own
-      const isTeamAdmin = ctx.auth.teamRole === 'OWNER' || ctx.auth.teamRole === 'ADMIN';
+      const results: TimeEntryBulkResult[] = [];
+      for (const timeEntryId of new Set(args.timeEntryIds)) {
+        try {
+          if (args.delete) {
+            publishTimeEntryEvent('deleted', await removeTimeEntry(ctx, timeEntryId));
+            results.push({ time_entry_id: timeEntryId, success: true, error: null, time_entry: null });
+            continue;
+          }
 
-      if (!isTeamAdmin) {
-        const role = await getProjectMemberRole(ctx, timeEntry.project_id);
-        if (!role) {
-          throw new UnauthorizedError('You do not have access to this project');
-        }
+          const timeEntry = await ctx.loaders.timeEntryById.load(timeEntryId);
+          if (!timeEntry) {
+            throw new NotFoundError('Time entry not found');
+          }
 
-        if (role === 'VIEWER') {
-          throw new UnauthorizedError('Viewers cannot edit time entries');
+          const moved = !!args.projectId && args.projectId !== timeEntry.project_id;
+          const updated = await saveTimeEntryChanges(ctx, timeEntryId, {
+            projectId: args.projectId,
+            taskId: args.taskId ?? (moved ? null : undefined),
+            billable: args.billable,
+            note: appendNote ? [timeEntry.note, appendNote].filter(Boolean).join(' ') : undefined,
+          });
+          publishTimeEntryEvent('updated', updated);
+          results.push({ time_entry_id: timeEntryId, success: true, error: null, time_entry: updated });
+        } catch (error) {
+          if (!(error instanceof GraphQLError)) {
+            throw error;
+          }
+          results.push({ time_entry_id: timeEntryId, success: false, error: error.message, time_entry: null });
         }
+      }
 
-        if (role === 'CONTRIBUTOR' && timeEntry.user_id !== ctx.auth.userId) {
-          throw new UnauthorizedError('Contributors can only edit their own time entries');
-        }
+      return results;
+    },
+  }),
+
+  resolveTimeEntryConflict: t.field({
+    type: [TimeEntryRef],
+    args: {
+      timeEntryId: t.arg.id({ required: true }),
+      conflictingTimeEntryId: t.arg.id({ required: true }),
+      strategy: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      if (args.strategy !== 'trim' && args.strategy !== 'split') {
+        throw new ValidationError(`Invalid strategy: ${args.strategy}. Allowed strategies: trim, split`, 'strategy');
       }
 
-      // Determine which values to use (new or existing)
-      const projectId = args.projectId ?? timeEntry.project_id;
-      const taskId = args.taskId !== undefined ? args.taskId : timeEntry.task_id;
-      const note = args.note !== undefined ? args.note : timeEntry.note;
-      const startedAt = args.startedAt ? new Date(args.startedAt) : new Date(timeEntry.started_at);
-      const stoppedAt = args.stoppedAt ? new Date(args.stoppedAt) : timeEntry.stopped_at ? new Date(timeEntry.stopped_at) : null;
-      const billable = args.billable ?? timeEntry.billable;
+      // The entry given by timeEntryId is kept as is; the conflicting entry is cut around it
+      const kept = await ctx.loaders.timeEntryById.load(args.timeEntryId);
+      const conflicting = await ctx.loaders.timeEntryById.load(args.conflictingTimeEntryId);
+      if (!kept || !conflicting) {
+        throw new NotFoundError('Time entry not found');
+      }
 
-      // Verify project exists if changing
-      let project;
-      if (args.projectId && args.projectId !== timeEntry.project_id) {
-        project = await ctx.loaders.projectById.load(args.projectId);
-        if (!project) {
-          throw new NotFoundError('Project not found');
-        }
-        await requireTeamAccess(ctx, project.team_id);
-      } else {
-        project = await ctx.loaders.projectById.load(timeEntry.project_id);
-        if (!project) {
-          throw new NotFoundError('Project not found');
-        }
+      await requireTeamAccess(ctx, conflicting.team_id);
+
+      if (kept.team_id !== conflicting.team_id || kept.user_id !== conflicting.user_id) {
+        throw new ValidationError('Only time entries of the same user can conflict');
       }
 
-      // Verify task belongs to project if provided
-      if (taskId) {
-        const task = await ctx.loaders.taskById.load(taskId);
-        if (!task || task.project_id !== projectId) {
-          throw new ValidationError('Task does not belong to the specified project');
-        }
+      await requireCanEditTimeEntry(ctx, conflicting);
+
+      if (!conflicting.stopped_at) {
+        throw new ValidationError('Stop the timer before resolving its conflicts');
       }
 
-      // Validate and calculate duration if both times are present
-      let durationSeconds: number | null = null;
-      let hourlyRateCents: number | null = null;
-      let amountCents: number | null = null;
+      const startedAt = new Date(conflicting.started_at);
+      const stoppedAt = new Date(conflicting.stopped_at);
+      const keptStart = new Date(kept.started_at);
+      const keptStop = kept.stopped_at ? new Date(kept.stopped_at) : null;
 
-      if (stoppedAt) {
-        if (stoppedAt <= startedAt) {
-          throw new ValidationError('End time must be after start time');
-        }
+      if (keptStart >= stoppedAt || (keptStop && keptStop <= startedAt)) {
+        throw new ValidationError('The time entries do not overlap');
+      }
 
-        durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000);
+      const coversStart = keptStart <= startedAt;
+      const coversEnd = !keptStop || keptStop >= stoppedAt;
 
-        // Determine hourly rate (task > project > client)
-        if (taskId) {
-          const task = await ctx.loaders.taskById.load(taskId);
-          if (task?.hourly_rate_cents) {
-            hourlyRateCents = task.hourly_rate_cents;
-          }
-        }
+      if (coversStart && coversEnd) {
+        throw new ValidationError('The conflicting entry lies entirely within the other entry; delete it instead');
+      }
 
-        if (!hourlyRateCents && project.default_hourly_rate_cents) {
-          hourlyRateCents = project.default_hourly_rate_cents;
-        }
+      // Trimming cuts off the overlapping side; splitting keeps the time on both sides of the kept entry
+      const surrounds = !coversStart && !coversEnd;
+      if (args.strategy === 'trim' && surrounds) {
+        throw new ValidationError('The conflicting entry surrounds the other entry; split it instead', 'strategy');
+      }
+      if (args.strategy === 'split' && !surrounds) {
+        throw new ValidationError('Only an entry that surrounds the other entry can be split; trim it instead', 'strategy');
+      }
 
-        if (!hourlyRateCents && project.client_id) {
-          const client = await ctx.loaders.clientById.load(project.client_id);
-          if (client?.default_hourly_rate_cents) {
-            hourlyRateCents = client.default_hourly_rate_cents;
-          }
-        }
+      await requireTimeEntryUnlocked(ctx, conflicting.team_id, conflicting.user_id, startedAt);
+      if (keptStop && keptStop < stoppedAt) {
+        await requireTimeEntryUnlocked(ctx, conflicting.team_id, conflicting.user_id, keptStop);
+      }
+      await requireTimeEntriesNotInvoiced(ctx, [conflicting.id]);
 
-        // Calculate amount: (duration in hours) * hourly rate
-        if (hourlyRateCents && billable) {
-          const durationHours = durationSeconds / 3600;
-          amountCents = Math.round(durationHours * hourlyRateCents);
-        }
+      const project = await ctx.loaders.projectById.load(conflicting.project_id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
       }
 
-      const result = await ctx.db.query<TimeEntry>(
-        `
-        UPDATE time_entries
-        SET
-          project_id = $2,
-          task_id = $3,
-          note = $4,
-          started_at = $5,
-          stopped_at = $6,
-          duration_seconds = $7,
-          billable = $8,
-          hourly_rate_cents = $9,
-          amount_cents = $10,
-          client_id = $11,
-          updated_at = NOW()
-        WHERE id = $1
-        RETURNING *
-        `,
-        [
-          args.timeEntryId,
-          projectId,
-          taskId,
-          note,
-          startedAt,
-          stoppedAt,
-          durationSeconds,
-          billable,
-          hourlyRateCents,
-          amountCents,
-          project.client_id,
-        ]
-      );
+      // The conflicting entry keeps the part before the kept entry, or the part after it when trimmed at the start
+      const firstStart = coversStart ? keptStop! : startedAt;
+      const firstStop = coversStart ? stoppedAt : keptStart;
+
+      const entries = await withTransaction(ctx, async (tx) => {
+        const parts = [await saveTimeEntryRange(tx, conflicting, project, firstStart, firstStop)];
+
+        if (surrounds) {
+          const inserted = await tx.db.query<TimeEntry>(
+            `
+            INSERT INTO time_entries (
+              team_id, project_id, task_id, user_id, client_id,
+              note, tags, started_at, stopped_at, billable
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            RETURNING *
+            `,
+            [
+              conflicting.team_id,
+              conflicting.project_id,
+              conflicting.task_id,
+              conflicting.user_id,
+              conflicting.client_id,
+              conflicting.note,
+              conflicting.tags,
+              keptStop,
+              stoppedAt,
+              conflicting.billable,
+            ]
+          );
+
+          // Pauses taken after the kept entry move to the new entry
+          await tx.db.query(
+            'UPDATE time_entry_pauses SET time_entry_id = $3 WHERE time_entry_id = $1 AND paused_at >= $2',
+            [conflicting.id, keptStop, inserted.rows[0].id]
+          );
+
+          parts.push(await saveTimeEntryRange(tx, inserted.rows[0], project, keptStop!, stoppedAt));
+        }
 
-      ctx.loaders.timeEntryById.clear(args.timeEntryId);
-      return result.rows[0];
+        return parts;
+      });
+
+      ctx.loaders.timeEntryById.clear(conflicting.id);
+      ctx.loaders.pausesByTimeEntryId.clear(conflicting.id);
+      publishTimeEntryEvent('updated', entries[0]);
+      if (entries[1]) {
+        publishTimeEntryEvent('created', entries[1]);
+      }
+      return entries;
     },
   }),
 
-  deleteTimeEntry: t.field({
-    type: 'Boolean',
+  // Cuts a stopped entry into consecutive parts, at one moment or into parts of the given lengths.
+  // The entry keeps the first part; the other parts are new entries pointing back to it through splitFromId.
+  splitTimeEntry: t.field({
+    type: [TimeEntryRef],
     args: {
       timeEntryId: t.arg.id({ required: true }),
+      at: t.arg({ type: 'DateTime', required: false }),
+      // Lengths of the leading parts in seconds, pauses included; the last part gets the rest
+      durations: t.arg.intList({ required: false }),
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
 
+      if (!args.at === !args.durations) {
+        throw new ValidationError('Provide either at or durations');
+      }
+
       const timeEntry = await ctx.loaders.timeEntryById.load(args.timeEntryId);
       if (!timeEntry) {
         throw new NotFoundError('Time entry not found');
       }
 
       await requireTeamAccess(ctx, timeEntry.team_id);
+      await requireCanEditTimeEntry(ctx, timeEntry);
 
-      // Team OWNER and ADMIN can delete any time entry
-      // Otherwise, check project-level permissions: MANAGER can delete any, CONTRIBUTOR can delete their own
-      const isTeamAdmin = ctx.auth.teamRole === 'OWNER' || ctx.auth.teamRole === 'ADMIN';
+      if (!timeEntry.stopped_at) {
+        throw new ValidationError('Stop the timer before splitting its entry');
+      }
 
-      if (!isTeamAdmin) {
-        const role = await getProjectMemberRole(ctx, timeEntry.project_id);
-        if (!role) {
-          throw new UnauthorizedError('You do not have access to this project');
+      const startedAt = new Date(timeEntry.started_at);
+      const stoppedAt = new Date(timeEntry.stopped_at);
+
+      let cuts: Date[];
+      if (args.at) {
+        cuts = [new Date(args.at)];
+      } else {
+        if (args.durations!.some((seconds) => seconds <= 0)) {
+          throw new ValidationError('Durations must be positive', 'durations');
         }
 
-        if (role === 'VIEWER') {
-          throw new UnauthorizedError('Viewers cannot delete time entries');
+        let cutMs = startedAt.getTime();
+        cuts = args.durations!.map((seconds) => new Date((cutMs += seconds * 1000)));
+
+        // Listing the last part's length as well is fine
+        if (cuts.length > 0 && cuts[cuts.length - 1].getTime() === stoppedAt.getTime()) {
+          cuts.pop();
         }
+      }
+
+      if (cuts.length === 0 || cuts.some((cut) => cut <= startedAt || cut >= stoppedAt)) {
+        throw new ValidationError(
+          'The time entry must be split at least once, within its start and end',
+          args.at ? 'at' : 'durations'
+        );
+      }
+
+      await requireTimeEntriesNotInvoiced(ctx, [timeEntry.id]);
+      for (const partStart of [startedAt, ...cuts]) {
+        await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, partStart);
+      }
 
-        if (role === 'CONTRIBUTOR' && timeEntry.user_id !== ctx.auth.userId) {
-          throw new UnauthorizedError('Contributors can only delete their own time entries');
+      const project = await ctx.loaders.projectById.load(timeEntry.project_id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+
+      const bounds = [startedAt, ...cuts, stoppedAt];
+
+      const parts = await withTransaction(ctx, async (tx) => {
+        const created: TimeEntry[] = [];
+
+        // Later parts are created first, each taking the pauses taken after its start
+        for (let i = bounds.length - 2; i >= 1; i--) {
+          const inserted = await tx.db.query<TimeEntry>(
+            `
+            INSERT INTO time_entries (
+              team_id, project_id, task_id, user_id, client_id,
+              note, tags, started_at, stopped_at, billable, split_from_id
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            RETURNING *
+            `,
+            [
+              timeEntry.team_id,
+              timeEntry.project_id,
+              timeEntry.task_id,
+              timeEntry.user_id,
+              timeEntry.client_id,
+              timeEntry.note,
+              timeEntry.tags,
+              bounds[i],
+              bounds[i + 1],
+              timeEntry.billable,
+              timeEntry.id,
+            ]
+          );
+
+          await tx.db.query(
+            'UPDATE time_entry_pauses SET time_entry_id = $3 WHERE time_entry_id = $1 AND paused_at >= $2',
+            [timeEntry.id, bounds[i], inserted.rows[0].id]
+          );
+
+          created.unshift(await saveTimeEntryRange(tx, inserted.rows[0], project, bounds[i], bounds[i + 1]));
         }
+
+        return [await saveTimeEntryRange(tx, timeEntry, project, startedAt, bounds[1]), ...created];
+      });
+
+      ctx.loaders.timeEntryById.clear(timeEntry.id);
+      ctx.loaders.pausesByTimeEntryId.clear(timeEntry.id);
+      parts.forEach((part, index) => publishTimeEntryEvent(index === 0 ? 'updated' : 'created', part));
+      return parts;
+    },
+  }),
+
+  // Combines stopped entries of one user on the same project and task into the earliest of them.
+  // Gaps between the entries become pauses, so the merged entry's duration is the time actually tracked.
+  mergeTimeEntries: t.field({
+    type: TimeEntryRef,
+    args: {
+      timeEntryIds: t.arg.idList({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      const timeEntryIds = [...new Set(args.timeEntryIds.map(String))];
+      if (timeEntryIds.length < 2) {
+        throw new ValidationError('Select at least two time entries to merge', 'timeEntryIds');
+      }
+      if (timeEntryIds.length > MAX_BATCH_SIZE) {
+        throw new ValidationError(`At most ${MAX_BATCH_SIZE} time entries can be merged at once`, 'timeEntryIds');
+      }
+
+      const loaded = await Promise.all(timeEntryIds.map((id) => ctx.loaders.timeEntryById.load(id)));
+      if (loaded.some((timeEntry) => !timeEntry)) {
+        throw new NotFoundError('Time entry not found');
       }
 
-      await ctx.db.query(
-        'DELETE FROM time_entries WHERE id = $1',
-        [args.timeEntryId]
+      const timeEntries = (loaded as TimeEntry[]).sort(
+        (a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime()
       );
+      const [first, ...others] = timeEntries;
 
-      ctx.loaders.timeEntryById.clear(args.timeEntryId);
+      await requireTeamAccess(ctx, first.team_id);
+
+      if (others.some((timeEntry) => timeEntry.team_id !== first.team_id || timeEntry.user_id !== first.user_id)) {
+        throw new ValidationError('Only time entries of the same user can be merged', 'timeEntryIds');
+      }
+      if (others.some((timeEntry) => timeEntry.project_id !== first.project_id || timeEntry.task_id !== first.task_id)) {
+        throw new ValidationError('Only time entries on the same project and task can be merged', 'timeEntryIds');
+      }
+      if (others.some((timeEntry) => timeEntry.billable !== first.billable)) {
+        throw new ValidationError('Billable and non-billable time entries cannot be merged', 'timeEntryIds');
+      }
+      if (timeEntries.some((timeEntry) => !timeEntry.stopped_at)) {
+        throw new ValidationError('Stop the timer before merging its entry', 'timeEntryIds');
+      }
+
+      for (const timeEntry of timeEntries) {
+        await requireCanEditTimeEntry(ctx, timeEntry);
+        await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
+      }
+      await requireTimeEntriesNotInvoiced(ctx, timeEntryIds);
+
+      const project = await ctx.loaders.projectById.load(first.project_id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+
+      const startedAt = new Date(first.started_at);
+      const stoppedAt = new Date(Math.max(...timeEntries.map((timeEntry) => new Date(timeEntry.stopped_at!).getTime())));
+      const otherIds = others.map((timeEntry) => timeEntry.id);
+
+      const merged = await withTransaction(ctx, async (tx) => {
+        // Overlapping entries count once; time between entries was not tracked
+        let coveredUntil = new Date(first.stopped_at!).getTime();
+        for (const timeEntry of others) {
+          const entryStart = new Date(timeEntry.started_at).getTime();
+          if (entryStart > coveredUntil) {
+            await tx.db.query(
+              'INSERT INTO time_entry_pauses (team_id, time_entry_id, paused_at, resumed_at) VALUES ($1, $2, $3, $4)',
+              [first.team_id, first.id, new Date(coveredUntil), new Date(entryStart)]
+            );
+          }
+          coveredUntil = Math.max(coveredUntil, new Date(timeEntry.stopped_at!).getTime());
+        }
+
+        await tx.db.query('UPDATE time_entry_pauses SET time_entry_id = $1 WHERE time_entry_id = ANY($2::uuid[])', [
+          first.id,
+          otherIds,
+        ]);
+        await tx.db.query('DELETE FROM time_entries WHERE id = ANY($1::uuid[])', [otherIds]);
+
+        // Time between the entries may hold other work of the user
+        await requireOverlapAllowed(tx, first.team_id, first.user_id, startedAt, stoppedAt, first.id);
+
+        const notes = [...new Set(timeEntries.map((timeEntry) => timeEntry.note?.trim()).filter(Boolean))];
+        await tx.db.query('UPDATE time_entries SET note = $2, tags = $3, merged_from_ids = $4 WHERE id = $1', [
+          first.id,
+          notes.length > 0 ? notes.join('; ') : null,
+          [...new Set(timeEntries.flatMap((timeEntry) => timeEntry.tags))],
+          [...first.merged_from_ids, ...others.flatMap((timeEntry) => [timeEntry.id, ...timeEntry.merged_from_ids])],
+        ]);
+
+        return saveTimeEntryRange(tx, first, project, startedAt, stoppedAt);
+      });
+
+      for (const timeEntry of timeEntries) {
+        ctx.loaders.timeEntryById.clear(timeEntry.id);
+        ctx.loaders.pausesByTimeEntryId.clear(timeEntry.id);
+      }
+
+      publishTimeEntryEvent('updated', merged);
+      for (const timeEntry of others) {
+        publishTimeEntryEvent('deleted', timeEntry);
+      }
+      return merged;
+    },
+  }),
+
+  deleteTimeEntry: t.field({
+    type: 'Boolean',
+    args: {
+      timeEntryId: t.arg.id({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+
+      publishTimeEntryEvent('deleted', await removeTimeEntry(ctx, args.timeEntryId));
       return true;
     },
   }),
 }));
+
+/**
+ * TimeEntry Subscriptions
+ */
+builder.subscriptionFields((t) => ({
+  // Timer and time entry changes of one user, sent over server-sent events.
+  // Events tell clients what to refetch; deleted entries come without timeEntry.
+  timeEntryEvents: t.field({
+    type: TimeEntryEventRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }), // Defaults to the current user
+    },
+    subscribe: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      // Users can follow their own time entries, OWNER and ADMIN can follow anyone's
+      const userId = args.userId ?? ctx.auth.userId;
+      if (userId !== ctx.auth.userId && !canManageTeam(ctx)) {
+        throw new UnauthorizedError('You can only follow your own time entries');
+      }
+
+      return pipe(
+        pubSub.subscribe('timeEntryEvents', args.teamId),
+        filter((event) => event.user_id === userId)
+      );
+    },
+    resolve: (event) => event,
+  }),
+}));
+
+/**
+ * Helper to move a stopped time entry to a new range and recalculate its duration and billing
+ */
+async function saveTimeEntryRange(
+  ctx: GraphQLContext,
+  timeEntry: TimeEntry,
+  project: Project,
+  startedAt: Date,
+  stoppedAt: Date
+): Promise<TimeEntry> {
+  const pausedSeconds = await getPausedSeconds(ctx.db.query, timeEntry.id, startedAt, stoppedAt);
+  const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000) - pausedSeconds;
+
+  const { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+    ctx,
+    project,
+    timeEntry.task_id,
+    timeEntry.user_id,
+    startedAt,
+    durationSeconds,
+    timeEntry.billable
+  );
+
+  const result = await ctx.db.query<TimeEntry>(
+    `
+    UPDATE time_entries
+    SET
+      started_at = $2,
+      stopped_at = $3,
+      duration_seconds = $4,
+      billable_duration_seconds = $5,
+      hourly_rate_cents = $6,
+      rate_source = $7,
+      amount_cents = $8,
+      cost_cents = $9,
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [
+      timeEntry.id,
+      startedAt,
+      stoppedAt,
+      durationSeconds,
+      billableDurationSeconds,
+      hourlyRateCents,
+      rateSource,
+      amountCents,
+      costCents,
+    ]
+  );
+
+  ctx.loaders.timeEntryById.clear(timeEntry.id);
+  return result.rows[0];
+}
+
+/**
+ * Helper to validate and insert a stopped time entry for the current user
+ */
+async function insertTimeEntry(
+  ctx: GraphQLContext,
+  input: {
+    projectId: string;
+    taskId?: string | null;
+    note?: string | null;
+    tags?: string[] | null;
+    startedAt: Date;
+    stoppedAt: Date;
+    billable?: boolean | null;
+  }
+): Promise<TimeEntry> {
+  const project = await ctx.loaders.projectById.load(input.projectId);
+  if (!project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  await requireTeamAccess(ctx, project.team_id);
+
+  // Only MANAGER and CONTRIBUTOR can log time
+  const canLog = await canLogTime(ctx, input.projectId);
+  if (!canLog) {
+    throw new UnauthorizedError('You do not have permission to log time on this project');
+  }
+
+  // Verify task belongs to project if provided
+  if (input.taskId) {
+    const task = await ctx.loaders.taskById.load(input.taskId);
+    if (!task || task.project_id !== input.projectId) {
+      throw new ValidationError('Task does not belong to the specified project');
+    }
+  }
+
+  // Validate that stoppedAt is after startedAt
+  const startedAt = new Date(input.startedAt);
+  const stoppedAt = new Date(input.stoppedAt);
+  if (stoppedAt <= startedAt) {
+    throw new ValidationError('End time must be after start time');
+  }
+
+  await requireTimeEntryUnlocked(ctx, project.team_id, ctx.auth.userId, startedAt);
+  await requireOverlapAllowed(ctx, project.team_id, ctx.auth.userId, startedAt, stoppedAt);
+
+  const tags = await resolveTimeEntryTags(ctx, project.team_id, input.tags ?? []);
+
+  // Calculate duration
+  const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000);
+
+  const { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+    ctx,
+    project,
+    input.taskId,
+    ctx.auth.userId,
+    startedAt,
+    durationSeconds,
+    input.billable ?? true
+  );
+
+  return withErrorMapping(async () => {
+    const result = await ctx.db.query<TimeEntry>(
+      `
+      INSERT INTO time_entries (
+        team_id, project_id, task_id, user_id, client_id,
+        note, tags, started_at, stopped_at, duration_seconds, billable_duration_seconds,
+        billable, hourly_rate_cents, rate_source, amount_cents, cost_cents
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *
+      `,
+      [
+        project.team_id,
+        input.projectId,
+        input.taskId,
+        ctx.auth.userId,
+        project.client_id,
+        input.note,
+        tags,
+        startedAt,
+        stoppedAt,
+        durationSeconds,
+        billableDurationSeconds,
+        input.billable ?? true,
+        hourlyRateCents,
+        rateSource,
+        amountCents,
+        costCents,
+      ]
+    );
+
+    return result.rows[0];
+  });
+}
+
+/**
+ * Helper to set the current user's time in one cell of the weekly grid (project, task and day).
+ * Time is removed from the cell's latest entries first. Missing time extends the cell's last entry
+ * when it is the day's last entry, and is otherwise added as a new entry after the day's entries.
+ */
+async function saveTimesheetCell(
+  ctx: GraphQLContext,
+  project: Project,
+  taskId: string | null,
+  billable: boolean,
+  dayStart: Date,
+  dayEnd: Date,
+  seconds: number
+): Promise<void> {
+  const dayEntries = await ctx.db.query<TimeEntry>(
+    `
+    SELECT * FROM time_entries
+    WHERE team_id = $1 AND user_id = $2 AND started_at >= $3 AND started_at < $4
+    ORDER BY started_at, id
+    `,
+    [project.team_id, ctx.auth.userId, dayStart, dayEnd]
+  );
+
+  const cellEntries = dayEntries.rows.filter(
+    (entry) => entry.project_id === project.id && (entry.task_id ?? null) === taskId
+  );
+  if (cellEntries.some((entry) => !entry.stopped_at)) {
+    throw new ValidationError('Stop the running timer before changing the hours of its day');
+  }
+
+  let excessSeconds = cellEntries.reduce((sum, entry) => sum + (entry.duration_seconds ?? 0), 0) - seconds;
+  if (excessSeconds === 0) {
+    return;
+  }
+
+  if (excessSeconds > 0) {
+    for (const entry of [...cellEntries].reverse()) {
+      if (excessSeconds <= 0) {
+        break;
+      }
+
+      const startedAt = new Date(entry.started_at);
+      const durationSeconds = entry.duration_seconds ?? 0;
+      await requireTimeEntryUnlocked(ctx, entry.team_id, entry.user_id, startedAt);
+      await requireTimeEntriesNotInvoiced(ctx, [entry.id]);
+
+      if (durationSeconds <= excessSeconds) {
+        await ctx.db.query('DELETE FROM time_entries WHERE id = $1', [entry.id]);
+        ctx.loaders.timeEntryById.clear(entry.id);
+      } else {
+        const stoppedAt = new Date(new Date(entry.stopped_at!).getTime() - excessSeconds * 1000);
+        await saveTimeEntryRange(ctx, entry, project, startedAt, stoppedAt);
+      }
+
+      excessSeconds -= durationSeconds;
+    }
+    return;
+  }
+
+  const missingMs = -excessSeconds * 1000;
+  const lastOfCell = cellEntries[cellEntries.length - 1];
+  const lastOfDay = dayEntries.rows[dayEntries.rows.length - 1];
+
+  if (lastOfCell && lastOfCell.id === lastOfDay.id) {
+    const startedAt = new Date(lastOfCell.started_at);
+    const stoppedAt = new Date(new Date(lastOfCell.stopped_at!).getTime() + missingMs);
+    await requireTimeEntryUnlocked(ctx, lastOfCell.team_id, lastOfCell.user_id, startedAt);
+    await requireTimeEntriesNotInvoiced(ctx, [lastOfCell.id]);
+    await requireOverlapAllowed(ctx, lastOfCell.team_id, lastOfCell.user_id, startedAt, stoppedAt, lastOfCell.id);
+    await saveTimeEntryRange(ctx, lastOfCell, project, startedAt, stoppedAt);
+    return;
+  }
+
+  const startedAt = getAppendedTimeStart(dayStart, dayEntries.rows);
+
+  await insertTimeEntry(ctx, {
+    projectId: project.id,
+    taskId,
+    startedAt,
+    stoppedAt: new Date(startedAt.getTime() + missingMs),
+    billable,
+  });
+}
+
+/**
+ * Helper to find where time added to a day starts: when the last of the day's entries ends
+ * (running timers count as ending now), or DAY_START_HOURS after midnight on a day without entries
+ */
+function getAppendedTimeStart(dayStart: Date, dayEntries: TimeEntry[]): Date {
+  return new Date(
+    Math.max(
+      dayStart.getTime() + DAY_START_HOURS * 60 * 60 * 1000,
+      ...dayEntries.map((entry) => (entry.stopped_at ? new Date(entry.stopped_at).getTime() : Date.now()))
+    )
+  );
+}
+
+/**
+ * Helper to apply changes to a time entry after checking the current user may edit it
+ */
+async function saveTimeEntryChanges(
+  ctx: GraphQLContext,
+  timeEntryId: string,
+  changes: {
+    projectId?: string | null;
+    taskId?: string | null;
+    note?: string | null;
+    tags?: string[] | null;
+    startedAt?: Date | null;
+    stoppedAt?: Date | null;
+    billable?: boolean | null;
+  }
+): Promise<TimeEntry> {
+  const timeEntry = await ctx.loaders.timeEntryById.load(timeEntryId);
+  if (!timeEntry) {
+    throw new NotFoundError('Time entry not found');
+  }
+
+  await requireTeamAccess(ctx, timeEntry.team_id);
+
+  await requireCanEditTimeEntry(ctx, timeEntry);
+
+  // Determine which values to use (new or existing)
+  const projectId = changes.projectId ?? timeEntry.project_id;
+  const taskId = changes.taskId !== undefined ? changes.taskId : timeEntry.task_id;
+  const note = changes.note !== undefined ? changes.note : timeEntry.note;
+  const tags = changes.tags
+    ? await resolveTimeEntryTags(ctx, timeEntry.team_id, changes.tags, timeEntry.tags)
+    : timeEntry.tags;
+  const startedAt = changes.startedAt ? new Date(changes.startedAt) : new Date(timeEntry.started_at);
+  const stoppedAt = changes.stoppedAt ? new Date(changes.stoppedAt) : timeEntry.stopped_at ? new Date(timeEntry.stopped_at) : null;
+  const billable = changes.billable ?? timeEntry.billable;
+
+  // Neither the current week nor the week the entry is moved into may be approved
+  await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
+  await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, startedAt);
+
+  // Verify project exists if changing
+  let project;
+  if (changes.projectId && changes.projectId !== timeEntry.project_id) {
+    project = await ctx.loaders.projectById.load(changes.projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+    await requireTeamAccess(ctx, project.team_id);
+  } else {
+    project = await ctx.loaders.projectById.load(timeEntry.project_id);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+  }
+
+  // Verify task belongs to project if provided
+  if (taskId) {
+    const task = await ctx.loaders.taskById.load(taskId);
+    if (!task || task.project_id !== projectId) {
+      throw new ValidationError('Task does not belong to the specified project');
+    }
+  }
+
+  // Validate and calculate duration if both times are present
+  let durationSeconds: number | null = null;
+  let billableDurationSeconds: number | null = null;
+  let hourlyRateCents: number | null = null;
+  let rateSource: RateSource | null = null;
+  let amountCents: number | null = null;
+  let costCents: number | null = null;
+
+  if (stoppedAt) {
+    if (stoppedAt <= startedAt) {
+      throw new ValidationError('End time must be after start time');
+    }
+  }
+
+  await requireOverlapAllowed(ctx, timeEntry.team_id, timeEntry.user_id, startedAt, stoppedAt, timeEntryId);
+
+  if (stoppedAt) {
+    // Pauses recorded while the timer ran still don't count, as far as they fall in the new range
+    const pausedSeconds = await getPausedSeconds(ctx.db.query, timeEntryId, startedAt, stoppedAt);
+    durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000) - pausedSeconds;
+
+    ({ billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+      ctx,
+      project,
+      taskId,
+      timeEntry.user_id,
+      startedAt,
+      durationSeconds,
+      billable
+    ));
+  }
+
+  const result = await ctx.db.query<TimeEntry>(
+    `
+    UPDATE time_entries
+    SET
+      project_id = $2,
+      task_id = $3,
+      note = $4,
+      started_at = $5,
+      stopped_at = $6,
+      duration_seconds = $7,
+      billable_duration_seconds = $8,
+      billable = $9,
+      hourly_rate_cents = $10,
+      amount_cents = $11,
+      client_id = $12,
+      rate_source = $13,
+      cost_cents = $14,
+      tags = $15,
+      auto_stopped_at = NULL,
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [
+      timeEntryId,
+      projectId,
+      taskId,
+      note,
+      startedAt,
+      stoppedAt,
+      durationSeconds,
+      billableDurationSeconds,
+      billable,
+      hourlyRateCents,
+      amountCents,
+      project.client_id,
+      rateSource,
+      costCents,
+      tags,
+    ]
+  );
+
+  ctx.loaders.timeEntryById.clear(timeEntryId);
+  return result.rows[0];
+}
+
+/**
+ * Helper to delete a time entry after checking the current user may delete it; returns the deleted entry
+ */
+async function removeTimeEntry(ctx: GraphQLContext, timeEntryId: string): Promise<TimeEntry> {
+  const timeEntry = await ctx.loaders.timeEntryById.load(timeEntryId);
+  if (!timeEntry) {
+    throw new NotFoundError('Time entry not found');
+  }
+
+  await requireTeamAccess(ctx, timeEntry.team_id);
+
+  // Team OWNER and ADMIN can delete any time entry
+  // Otherwise, check project-level permissions: MANAGER can delete any, CONTRIBUTOR can delete their own
+  const isTeamAdmin = ctx.auth.teamRole === 'OWNER' || ctx.auth.teamRole === 'ADMIN';
+
+  if (!isTeamAdmin) {
+    const role = await getProjectMemberRole(ctx, timeEntry.project_id);
+    if (!role) {
+      throw new UnauthorizedError('You do not have access to this project');
+    }
+
+    if (role === 'VIEWER') {
+      throw new UnauthorizedError('Viewers cannot delete time entries');
+    }
+
+    if (role === 'CONTRIBUTOR' && timeEntry.user_id !== ctx.auth.userId) {
+      throw new UnauthorizedError('Contributors can only delete their own time entries');
+    }
+  }
+
+  await requireTimeEntryUnlocked(ctx, timeEntry.team_id, timeEntry.user_id, new Date(timeEntry.started_at));
+
+  await ctx.db.query(
+    'DELETE FROM time_entries WHERE id = $1',
+    [timeEntryId]
+  );
+
+  ctx.loaders.timeEntryById.clear(timeEntryId);
+  return timeEntry;
+}
+
+/**
+ * Helper to check the current user may edit a time entry.
+ * Team OWNER and ADMIN can edit any time entry; otherwise project MANAGERs can edit any
+ * and CONTRIBUTORs their own.
+ */
+async function requireCanEditTimeEntry(ctx: GraphQLContext, timeEntry: TimeEntry): Promise<void> {
+  const isTeamAdmin = ctx.auth.teamRole === 'OWNER' || ctx.auth.teamRole === 'ADMIN';
+  if (isTeamAdmin) {
+    return;
+  }
+
+  const role = await getProjectMemberRole(ctx, timeEntry.project_id);
+  if (!role) {
+    throw new UnauthorizedError('You do not have access to this project');
+  }
+
+  if (role === 'VIEWER') {
+    throw new UnauthorizedError('Viewers cannot edit time entries');
+  }
+
+  if (role === 'CONTRIBUTOR' && timeEntry.user_id !== ctx.auth.userId) {
+    throw new UnauthorizedError('Contributors can only edit their own time entries');
+  }
+}
+
+/**
+ * Helper to read a timer timestamp sent by the client, defaulting to now.
+ * Clocks ahead of the server by a few minutes are tolerated; such times count as now.
+ */
+function clientTimestamp(value: Date | null | undefined, field: string): Date {
+  const now = new Date();
+  if (!value) {
+    return now;
+  }
+
+  const timestamp = new Date(value);
+  if (timestamp.getTime() > now.getTime() + MAX_CLIENT_CLOCK_SKEW_MS) {
+    throw new ValidationError('Time cannot be in the future', field);
+  }
+
+  return timestamp > now ? now : timestamp;
+}
@@ -0,0 +1,337 @@
+import { builder } from '../schema/builder';
+import { TimesheetRef, TimesheetConnection } from '../schema/types';
+import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
+import { NotFoundError, ConflictError, ValidationError, UnauthorizedError, withErrorMapping } from '../errors';
+import { requireAuth, requireTeamAccess, canManageTeam, GraphQLContext, getViewerTimeZone } from '../context';
+import { Timesheet } from '../types';
+import { addDays, getLocalWeekRange, startOfLocalDay, toLocalDate } from '@/lib/time-zones';
+
+
+/**
+ * Timesheet Queries
+ */
+builder.queryFields((t) => ({
+  timesheets: t.field({
+    type: TimesheetConnection,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: false }),
+      status: t.arg.string({ required: false }),
+      from: t.arg({ type: 'DateTime', required: false }),
+      to: t.arg({ type: 'DateTime', required: false }),
+      offset: t.arg.int({ defaultValue: 0 }),
+      limit: t.arg.int({ defaultValue: 25 }),
+      orderBy: t.arg.string({ required: false }),
+      order: t.arg.string({ defaultValue: 'desc' }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const { offset, limit } = parseOffsetLimit(args.offset, args.limit, 100);
+
+      const filters = [
+        { sql: 'team_id = $1', params: [args.teamId] },
+      ];
+
+      // OWNER and ADMIN can see all timesheets in the team
+      // Everyone else sees their own timesheets plus those they can review as project MANAGER
+      if (!canManageTeam(ctx)) {
+        filters.push({
+          sql: `(user_id = $2 OR EXISTS (
+            SELECT 1 FROM time_entries te
+            JOIN project_members pm ON pm.project_id = te.project_id AND pm.user_id = $2 AND pm.role = 'MANAGER'
+            WHERE te.team_id = timesheets.team_id AND te.user_id = timesheets.user_id
+              AND te.started_at >= timesheets.week_start AND te.started_at < timesheets.week_end
+          ))`,
+          params: [ctx.auth.userId!],
+        });
+      }
+
+      let paramIndex = filters.reduce((sum, f) => sum + f.params.length, 0) + 1;
+
+      if (args.userId) {
+        filters.push({ sql: `user_id = $${paramIndex++}`, params: [args.userId] });
+      }
+
+      if (args.status) {
+        filters.push({ sql: `status = $${paramIndex++}`, params: [args.status] });
+      }
+
+      const { query, countQuery, params } = buildQuery({
+        baseSelect: 'SELECT *',
+        baseFrom: 'FROM timesheets',
+        filters,
+        dateRange: args.from || args.to ? { from: args.from, to: args.to, field: 'week_start' } : undefined,
+        orderBy: args.orderBy,
+        order: (args.order as 'asc' | 'desc') || 'desc',
+        allowedOrderBy: ['week_start', 'submitted_at', 'reviewed_at', 'status'],
+        defaultOrderBy: 'week_start',
+        offset,
+        limit,
+      });
+
+      const [dataResult, countResult] = await Promise.all([
+        ctx.db.query(query, params),
+        ctx.db.query(countQuery, params.slice(0, -2)),
+      ]);
+
+      const total = parseInt(countResult.rows[0]?.total || '0', 10);
+      const pageInfo = calculatePageInfo(offset, limit, total);
+
+      return {
+        nodes: dataResult.rows,
+        total,
+        pageInfo,
+      };
+    },
+  }),
+
+  timesheet: t.field({
+    type: TimesheetRef,
+    nullable: true,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      userId: t.arg.id({ required: true }),
+      weekStart: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      const result = await ctx.db.query<Timesheet>(
+        'SELECT * FROM timesheets WHERE team_id = $1 AND user_id = $2 AND week_start = $3',
+        [args.teamId, args.userId, args.weekStart]
+      );
+
+      const timesheet = result.rows[0];
+      if (!timesheet) {
+        return null;
+      }
+
+      if (timesheet.user_id !== ctx.auth.userId && !(await canReviewTimesheet(ctx, timesheet))) {
+        throw new UnauthorizedError('You do not have access to this timesheet');
+      }
+
+      return timesheet;
+    },
+  }),
+}));
+
+/**
+ * Timesheet Mutations
+ */
+builder.mutationFields((t) => ({
+  submitTimesheet: t.field({
+    type: TimesheetRef,
+    args: {
+      teamId: t.arg.id({ required: true }),
+      weekStart: t.arg({ type: 'DateTime', required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      requireAuth(ctx);
+      await requireTeamAccess(ctx, args.teamId);
+
+      // Weeks begin at local midnight on the user's first day of the week and need not last 7 × 24 hours
+      const timeZone = await getViewerTimeZone(ctx);
+      const viewer = await ctx.loaders.userById.load(ctx.auth.userId!);
+      const localWeekStart = toLocalDate(new Date(args.weekStart), timeZone);
+      const weekStart = startOfLocalDay(localWeekStart, timeZone);
+
+      if (
+        weekStart.getTime() !== new Date(args.weekStart).getTime() ||
+        getLocalWeekRange(localWeekStart, viewer?.week_start ?? 1).fromDate !== localWeekStart
+      ) {
+        throw new ValidationError('weekStart must be the start of a week in your time zone', 'weekStart');
+      }
+
+      const weekEnd = startOfLocalDay(addDays(localWeekStart, 7), timeZone);
+
+      // A week with a running timer cannot be submitted
+      const running = await ctx.db.query(
+        `
+        SELECT id FROM time_entries
+        WHERE team_id = $1 AND user_id = $2 AND stopped_at IS NULL
+          AND started_at >= $3 AND started_at < $4
+        LIMIT 1
+        `,
+        [args.teamId, ctx.auth.userId, weekStart, weekEnd]
+      );
+
+      if (running.rows.length > 0) {
+        throw new ValidationError('Stop the running timer before submitting this week');
+      }
+
+      // Prevent overlapping timesheets (e.g. after a change of week start)
+      const overlapping = await ctx.db.query<Timesheet>(
+        `
+        SELECT * FROM timesheets
+        WHERE team_id = $1 AND user_id = $2 AND week_start <> $3
+          AND status <> 'rejected' AND week_start < $4 AND week_end > $3
+        LIMIT 1
+        `,
+        [args.teamId, ctx.auth.userId, weekStart, weekEnd]
+      );
+
+      if (overlapping.rows.length > 0) {
+        throw new ConflictError('This week overlaps a timesheet that has already been submitted');
+      }
+
+      const existing = await ctx.db.query<Timesheet>(
+        'SELECT * FROM timesheets WHERE team_id = $1 AND user_id = $2 AND week_start = $3',
+        [args.teamId, ctx.auth.userId, weekStart]
+      );
+
+      if (existing.rows[0] && existing.rows[0].status !== 'rejected') {
+        throw new ConflictError(`Timesheet has already been ${existing.rows[0].status}`);
+      }
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<Timesheet>(
+          `
+          INSERT INTO timesheets (team_id, user_id, week_start, week_end, status, submitted_at)
+          VALUES ($1, $2, $3, $4, 'submitted', NOW())
+          ON CONFLICT (team_id, user_id, week_start) DO UPDATE
+          SET
+            status = 'submitted',
+            submitted_at = NOW(),
+            reviewed_by = NULL,
+            reviewed_at = NULL,
+            review_comment = NULL,
+            updated_at = NOW()
+          RETURNING *
+          `,
+          [args.teamId, ctx.auth.userId, weekStart, weekEnd]
+        );
+
+        ctx.loaders.timesheetById.clear(result.rows[0].id);
+        return result.rows[0];
+      });
+    },
+  }),
+
+  approveTimesheet: t.field({
+    type: TimesheetRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      comment: t.arg.string({ required: false }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      return reviewTimesheet(ctx, args.id, 'approved', args.comment ?? null);
+    },
+  }),
+
+  rejectTimesheet: t.field({
+    type: TimesheetRef,
+    args: {
+      id: t.arg.id({ required: true }),
+      comment: t.arg.string({ required: true }),
+    },
+    resolve: async (_parent, args, ctx) => {
+      if (!args.comment.trim()) {
+        throw new ValidationError('A comment is required when rejecting a timesheet', 'comment');
+      }
+
+      return reviewTimesheet(ctx, args.id, 'rejected', args.comment);
+    },
+  }),
+}));
+
+/**
+ * Helper to check if the current user can approve or reject a timesheet.
+ * Team OWNER and ADMIN can review any timesheet; a project MANAGER can review
+ * a timesheet when they manage every project it contains time for.
+ */
+async function canReviewTimesheet(ctx: GraphQLContext, timesheet: Timesheet): Promise<boolean> {
+  if (canManageTeam(ctx)) {
+    return true;
+  }
+
+  const result = await ctx.db.query(
+    `
+    SELECT
+      COUNT(DISTINCT te.project_id) AS project_count,
+      COUNT(DISTINCT pm.project_id) AS managed_count
+    FROM time_entries te
+    LEFT JOIN project_members pm
+      ON pm.project_id = te.project_id AND pm.user_id = $5 AND pm.role = 'MANAGER'
+    WHERE te.team_id = $1 AND te.user_id = $2 AND te.started_at >= $3 AND te.started_at < $4
+    `,
+    [timesheet.team_id, timesheet.user_id, timesheet.week_start, timesheet.week_end, ctx.auth.userId]
+  );
+
+  const projectCount = parseInt(result.rows[0]?.project_count || '0', 10);
+  const managedCount = parseInt(result.rows[0]?.managed_count || '0', 10);
+  return projectCount > 0 && projectCount === managedCount;
+}
+
+/**
+ * Helper to check if the current user is the team's sole OWNER, with no other OWNER or ADMIN
+ * to review their timesheets. Only then may they review their own.
+ */
+async function isSoleReviewer(ctx: GraphQLContext, teamId: string): Promise<boolean> {
+  if (ctx.auth.teamRole !== 'OWNER') {
+    return false;
+  }
+
+  const result = await ctx.db.query(
+    `
+    SELECT COUNT(*) AS reviewer_count
+    FROM team_memberships
+    WHERE team_id = $1 AND user_id != $2 AND role IN ('OWNER', 'ADMIN')
+    `,
+    [teamId, ctx.auth.userId]
+  );
+
+  return parseInt(result.rows[0]?.reviewer_count || '0', 10) === 0;
+}
+
+/**
+ * Helper to record a review decision on a submitted timesheet.
+ * Nobody reviews their own timesheet, except a team's sole OWNER.
+ */
+async function reviewTimesheet(
+  ctx: GraphQLContext,
+  id: string,
+  status: 'approved' | 'rejected',
+  comment: string | null
+): Promise<Timesheet> {
+  requireAuth(ctx);
+
+  const timesheet = await ctx.loaders.timesheetById.load(id);
+  if (!timesheet) {
+    throw new NotFoundError('Timesheet not found');
+  }
+
+  await requireTeamAccess(ctx, timesheet.team_id);
+
+  if (timesheet.user_id === ctx.auth.userId && !(await isSoleReviewer(ctx, timesheet.team_id))) {
+    throw new UnauthorizedError('You cannot review your own timesheet');
+  }
+
+  if (!(await canReviewTimesheet(ctx, timesheet))) {
+    throw new UnauthorizedError('Only project managers and team admins can review timesheets');
+  }
+
+  if (timesheet.status !== 'submitted') {
+    throw new ConflictError(`Timesheet has already been ${timesheet.status}`);
+  }
+
+  const result = await ctx.db.query<Timesheet>(
+    `
+    UPDATE timesheets
+    SET
+      status = $2,
+      reviewed_by = $3,
+      reviewed_at = NOW(),
+      review_comment = $4,
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [id, status, ctx.auth.userId, comment]
+  );
+
+  ctx.loaders.timesheetById.clear(id);
+  return result.rows[0];
+}
@@ -1,9 +1,11 @@
 import { builder } from '../schema/builder';
-import { UserRef, TeamMemberRef } from '../schema/types';
+import { UserRef, TeamMemberRef, CalendarFeedRef } from '../schema/types';
 import { withErrorMapping, ValidationError } from '../errors';
 import { requireAuth, requireTeamAccess } from '../context';
-import { User } from '../types';
+import { CalendarFeed, User } from '../types';
+import { isValidTimeZone } from '@/lib/time-zones';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 
 /**
  * User Queries
@@ -44,6 +46,21 @@ builder.queryFields((t) => ({
       return result.rows;
     },
   }),
+
+  myCalendarFeed: t.field({
+    type: CalendarFeedRef,
+    nullable: true,
+    resolve: async (_parent, _args, ctx) => {
+      requireAuth(ctx);
+
+      const result = await ctx.db.query<CalendarFeed>(
+        'SELECT * FROM calendar_feeds WHERE user_id = $1',
+        [ctx.auth.userId]
+      );
+
+      return result.rows[0] ?? null;
+    },
+  }),
 }));
 
 /**
@@ -56,6 +73,10 @@ builder.mutationFields((t) => ({
       name: t.arg.string({ required: false }),
       displayName: t.arg.string({ required: false }),
       email: t.arg.string({ required: false }),
+      // IANA time zone, e.g. "Europe/Berlin"
+      timeZone: t.arg.string({ required: false }),
+      // First day of the week: 0 (Sunday) to 6 (Saturday)
+      weekStart: t.arg.int({ required: false }),
     },
     resolve: async (_parent, args, ctx) => {
       requireAuth(ctx);
@@ -89,6 +110,24 @@ builder.mutationFields((t) => ({
         params.push(args.email);
       }
 
+      if (args.timeZone != null) {
+        if (!isValidTimeZone(args.timeZone)) {
+          throw new ValidationError(`Unknown time zone: ${args.timeZone}`, 'timeZone');
+        }
+
+        updates.push(`time_zone = $${paramIndex++}`);
+        params.push(args.timeZone);
+      }
+
+      if (args.weekStart != null) {
+        if (args.weekStart < 0 || args.weekStart > 6) {
+          throw new ValidationError('Week start must be between 0 (Sunday) and 6 (Saturday)', 'weekStart');
+        }
+
+        updates.push(`week_start = $${paramIndex++}`);
+        params.push(args.weekStart);
+      }
+
       if (updates.length === 0) {
         // No updates, just return current user
         const result = await ctx.db.query<User>(
@@ -164,4 +203,40 @@ builder.mutationFields((t) => ({
       return true;
     },
   }),
+
+  // Creates the user's calendar feed, or replaces its token so the old URL stops working
+  createCalendarFeed: t.field({
+    type: CalendarFeedRef,
+    resolve: async (_parent, _args, ctx) => {
+      requireAuth(ctx);
+
+      const token = crypto.randomBytes(32).toString('hex');
+
+      return withErrorMapping(async () => {
+        const result = await ctx.db.query<CalendarFeed>(
+          `
+          INSERT INTO calendar_feeds (user_id, token)
+          VALUES ($1, $2)
+          ON CONFLICT (user_id)
+          DO UPDATE SET token = EXCLUDED.token, created_at = NOW(), last_accessed_at = NULL
+          RETURNING *
+          `,
+          [ctx.auth.userId, token]
+        );
+
+        return result.rows[0];
+      });
+    },
+  }),
+
+  revokeCalendarFeed: t.field({
+    type: 'Boolean',
+    resolve: async (_parent, _args, ctx) => {
+      requireAuth(ctx);
+
+      await ctx.db.query('DELETE FROM calendar_feeds WHERE user_id = $1', [ctx.auth.userId]);
+
+      return true;
+    },
+  }),
 }));
@@ -43,9 +43,10 @@ export const builder = new SchemaBuilder<{
   plugins: [],
 });
 
-// Define Query and Mutation root types
+// Define Query, Mutation and Subscription root types
 builder.queryType({});
 builder.mutationType({});
+builder.subscriptionType({});
 
 // DateTime scalar
 builder.scalarType('DateTime', {
@@ -76,6 +77,38 @@ export const InvoiceStatusEnum = builder.enumType('InvoiceStatus', {
   values: ['draft', 'sent', 'paid', 'cancelled'] as const,
 });
 
+export const TimesheetStatusEnum = builder.enumType('TimesheetStatus', {
+  values: ['submitted', 'approved', 'rejected'] as const,
+});
+
+export const LeaveRequestStatusEnum = builder.enumType('LeaveRequestStatus', {
+  values: ['pending', 'approved', 'rejected', 'cancelled'] as const,
+});
+
+export const LeaveDayKindEnum = builder.enumType('LeaveDayKind', {
+  values: ['leave', 'holiday'] as const,
+});
+
+export const UtilizationGroupByEnum = builder.enumType('UtilizationGroupBy', {
+  values: ['member', 'week', 'month'] as const,
+});
+
+export const RoundingModeEnum = builder.enumType('RoundingMode', {
+  values: ['none', 'up', 'down', 'nearest'] as const,
+});
+
+export const OverlapPolicyEnum = builder.enumType('OverlapPolicy', {
+  values: ['allow', 'warn', 'reject'] as const,
+});
+
+export const RateSourceEnum = builder.enumType('RateSource', {
+  values: ['task', 'project_member', 'project', 'user', 'client'] as const,
+});
+
+export const TimeEntryEventTypeEnum = builder.enumType('TimeEntryEventType', {
+  values: ['timer_started', 'timer_stopped', 'created', 'updated', 'deleted'] as const,
+});
+
 export const OrderEnum = builder.enumType('Order', {
   values: ['asc', 'desc'] as const,
 });
@@ -11,6 +11,16 @@ import '../resolvers/clients';
 import '../resolvers/projects';
 import '../resolvers/tasks';
 import '../resolvers/timeEntries';
+import '../resolvers/timesheets';
+import '../resolvers/leave';
+import '../resolvers/capacity';
+import '../resolvers/allocations';
+import '../resolvers/periods';
+import '../resolvers/rates';
+import '../resolvers/costs';
+import '../resolvers/imports';
+import '../resolvers/calendar';
+import '../resolvers/tags';
 import '../resolvers/invoices';
 
 // Build and export the schema
@@ -28,6 +28,9 @@ export const ClientInput = builder.inputType('ClientInput', {
     taxId: t.string({ required: false }),
     defaultHourlyRateCents: t.int({ required: false }),
     currency: t.string({ defaultValue: 'USD' }),
+    roundingMode: t.string({ required: false }),
+    roundingIncrementMinutes: t.int({ required: false }),
+    roundingMinimumMinutes: t.int({ required: false }),
   }),
 });
 
@@ -42,6 +45,9 @@ export const ClientPatch = builder.inputType('ClientPatch', {
     taxId: t.string({ required: false }),
     defaultHourlyRateCents: t.int({ required: false }),
     currency: t.string({ required: false }),
+    roundingMode: t.string({ required: false }),
+    roundingIncrementMinutes: t.int({ required: false }),
+    roundingMinimumMinutes: t.int({ required: false }),
   }),
 });
 
@@ -62,6 +68,9 @@ export const ProjectInput = builder.inputType('ProjectInput', {
     budgetAmountCents: t.int({ required: false }),
     startDate: t.field({ type: 'DateTime', required: false }),
     dueDate: t.field({ type: 'DateTime', required: false }),
+    roundingMode: t.string({ required: false }),
+    roundingIncrementMinutes: t.int({ required: false }),
+    roundingMinimumMinutes: t.int({ required: false }),
   }),
 });
 
@@ -80,6 +89,9 @@ export const ProjectPatch = builder.inputType('ProjectPatch', {
     budgetAmountCents: t.int({ required: false }),
     startDate: t.field({ type: 'DateTime', required: false }),
     dueDate: t.field({ type: 'DateTime', required: false }),
+    roundingMode: t.string({ required: false }),
+    roundingIncrementMinutes: t.int({ required: false }),
+    roundingMinimumMinutes: t.int({ required: false }),
   }),
 });
 
@@ -106,6 +118,29 @@ export const TaskPatch = builder.inputType('TaskPatch', {
   }),
 });
 
+// Time entry inputs
+export const TimeEntryBatchInput = builder.inputType('TimeEntryBatchInput', {
+  fields: (t) => ({
+    projectId: t.id({ required: true }),
+    taskId: t.id({ required: false }),
+    note: t.string({ required: false }),
+    startedAt: t.field({ type: 'DateTime', required: true }),
+    stoppedAt: t.field({ type: 'DateTime', required: true }),
+    billable: t.boolean({ defaultValue: true }),
+  }),
+});
+
+// One row of the weekly timesheet grid: hours per day, starting on the week's first day.
+// A null cell is left as it is.
+export const WeeklyTimesheetRowInput = builder.inputType('WeeklyTimesheetRowInput', {
+  fields: (t) => ({
+    projectId: t.id({ required: true }),
+    taskId: t.id({ required: false }),
+    hours: t.floatList({ required: { list: true, items: false } }),
+    billable: t.boolean({ defaultValue: true }), // For newly created time entries
+  }),
+});
+
 // Invoice inputs
 export const InvoiceInput = builder.inputType('InvoiceInput', {
   fields: (t) => ({
@@ -1,7 +1,12 @@
-import { builder, createConnectionType, StatusEnum, InvoiceStatusEnum, InstanceRoleEnum, ProjectRoleEnum, OrderEnum } from './builder';
-import { Client, Project, ProjectTask, TimeEntry, Invoice, InvoiceItem, Team, User, ProjectMember, TaskAssignee, TeamMembership } from '../types';
+import { builder, createConnectionType, StatusEnum, InvoiceStatusEnum, InstanceRoleEnum, ProjectRoleEnum, OrderEnum, TimesheetStatusEnum, LeaveRequestStatusEnum, LeaveDayKindEnum, UtilizationGroupByEnum, RoundingModeEnum, OverlapPolicyEnum, RateSourceEnum, TimeEntryEventTypeEnum } from './builder';
+import { CalendarFeed, CalendarImportRule, TimeEntrySuggestion, Client, Project, ProjectTask, TimeEntry, TimeEntryPause, TimeEntryConflict, TimeEntryRateChange, RateRecalculation, TimeEntryImport, TimeEntryImportRow, TimeEntryBulkResult, TimeEntryEvent, TimeEntryTag, TagTotal, ProfitabilityLine, ProjectProfitability, RateHistoryEntry, CostRate, Timesheet, LeaveType, LeaveRequest, TeamHoliday, LeaveDay, MemberCapacity, UtilizationRow, UtilizationReport, Allocation, ResourceSchedule, ResourceScheduleWeek, ResourceScheduleCell, ResourceScheduleMemberWeek, PeriodClose, Invoice, InvoiceItem, Team, User, ProjectMember, TaskAssignee, TeamMembership } from '../types';
 import { parseOffsetLimit, buildQuery, calculatePageInfo } from '../utils';
 import { NotFoundError } from '../errors';
+import { canManageTeam } from '../context';
+import { getClosedThrough } from '../locks';
+import { findOverlappingEntries } from '../overlaps';
+import { getRateHistory, rateEffectiveAt } from '../rates';
+import { toDateString } from '../leave';
 
 // Team type
 export const TeamRef = builder.objectRef<Team>('Team');
@@ -11,8 +16,21 @@ TeamRef.implement({
     name: t.exposeString('name'),
     slug: t.exposeString('slug'),
     billingAddress: t.expose('billing_address', { type: 'JSON', nullable: true }),
+    roundingMode: t.expose('rounding_mode', { type: RoundingModeEnum, nullable: true }),
+    roundingIncrementMinutes: t.exposeInt('rounding_increment_minutes', { nullable: true }),
+    roundingMinimumMinutes: t.exposeInt('rounding_minimum_minutes', { nullable: true }),
+    overlapPolicy: t.expose('overlap_policy', { type: OverlapPolicyEnum }),
+    // Running timers are stopped after this many hours; null disables auto-stop
+    maxTimerHours: t.exposeInt('max_timer_hours', { nullable: true }),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
     updatedAt: t.expose('updated_at', { type: 'DateTime' }),
+    closedThrough: t.field({
+      type: 'DateTime',
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        return getClosedThrough(ctx, parent.id);
+      },
+    }),
   }),
 });
 
@@ -24,6 +42,14 @@ TeamMemberRef.implement({
     teamId: t.exposeID('team_id'),
     userId: t.exposeID('user_id'),
     role: t.exposeString('role'),
+    // Default rate of the member in this team, in effect now
+    hourlyRateCents: t.int({
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        const history = await getRateHistory(ctx, 'user', parent.id);
+        return rateEffectiveAt(history, parent.hourly_rate_cents, new Date());
+      },
+    }),
     user: t.field({
       type: UserRef,
       resolve: async (parent, _args, ctx) => {
@@ -44,11 +70,29 @@ UserRef.implement({
     name: t.exposeString('name'),
     displayName: t.exposeString('display_name', { nullable: true }),
     instanceRole: t.expose('instance_role', { type: InstanceRoleEnum }),
+    // IANA time zone in which the user's days begin
+    timeZone: t.exposeString('time_zone'),
+    // First day of the user's week: 0 (Sunday) to 6 (Saturday)
+    weekStart: t.exposeInt('week_start'),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
     updatedAt: t.expose('updated_at', { type: 'DateTime' }),
   }),
 });
 
+// CalendarFeed type
+export const CalendarFeedRef = builder.objectRef<CalendarFeed>('CalendarFeed');
+CalendarFeedRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    // Feed URL path relative to the app origin; it contains the secret token
+    path: t.string({
+      resolve: (parent) => `/api/calendar/${parent.token}.ics`,
+    }),
+    lastAccessedAt: t.expose('last_accessed_at', { type: 'DateTime', nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+  }),
+});
+
 // ProjectMember type
 export const ProjectMemberRef = builder.objectRef<ProjectMember>('ProjectMember');
 ProjectMemberRef.implement({
@@ -57,6 +101,14 @@ ProjectMemberRef.implement({
     projectId: t.exposeID('project_id'),
     userId: t.exposeID('user_id'),
     role: t.expose('role', { type: ProjectRoleEnum }),
+    // Rate override of the member on this project, in effect now
+    hourlyRateCents: t.int({
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        const history = await getRateHistory(ctx, 'project_member', parent.id);
+        return rateEffectiveAt(history, parent.hourly_rate_cents, new Date());
+      },
+    }),
     user: t.field({
       type: UserRef,
       resolve: async (parent, _args, ctx) => {
@@ -96,7 +148,14 @@ TaskRef.implement({
     description: t.exposeString('description', { nullable: true }),
     status: t.expose('status', { type: StatusEnum }),
     billable: t.exposeBoolean('billable'),
-    hourlyRateCents: t.exposeInt('hourly_rate_cents', { nullable: true }),
+    // Rate in effect now; scheduled changes apply once their date has passed
+    hourlyRateCents: t.int({
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        const history = await getRateHistory(ctx, 'task', parent.id);
+        return rateEffectiveAt(history, parent.hourly_rate_cents, new Date());
+      },
+    }),
     tags: t.exposeStringList('tags'),
     orderIndex: t.exposeInt('order_index', { nullable: true }),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
@@ -151,6 +210,74 @@ InvoiceItemRef.implement({
   }),
 });
 
+// RateHistoryEntry type: one step of a client, project or task rate timeline
+export const RateHistoryEntryRef = builder.objectRef<RateHistoryEntry>('RateHistoryEntry');
+RateHistoryEntryRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    clientId: t.exposeID('client_id', { nullable: true }),
+    projectId: t.exposeID('project_id', { nullable: true }),
+    taskId: t.exposeID('task_id', { nullable: true }),
+    projectMemberId: t.exposeID('project_member_id', { nullable: true }),
+    teamMembershipId: t.exposeID('team_membership_id', { nullable: true }),
+    hourlyRateCents: t.exposeInt('hourly_rate_cents', { nullable: true }),
+    effectiveFrom: t.expose('effective_from', { type: 'DateTime' }),
+    // When the next rate took over (null for the latest rate)
+    effectiveTo: t.field({
+      type: 'DateTime',
+      nullable: true,
+      resolve: (parent) => parent.effective_to ?? null,
+    }),
+    createdBy: t.exposeID('created_by', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    createdByUser: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.created_by) return null;
+        return ctx.loaders.userById.load(parent.created_by);
+      },
+    }),
+  }),
+});
+
+// CostRate type
+export const CostRateRef = builder.objectRef<CostRate>('CostRate');
+CostRateRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    userId: t.exposeID('user_id'),
+    hourlyCostCents: t.exposeInt('hourly_cost_cents'),
+    effectiveFrom: t.expose('effective_from', { type: 'DateTime' }),
+    // When the user's next cost rate took over (null for the latest rate)
+    effectiveTo: t.field({
+      type: 'DateTime',
+      nullable: true,
+      resolve: (parent) => parent.effective_to ?? null,
+    }),
+    createdBy: t.exposeID('created_by', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+    createdByUser: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.created_by) return null;
+        return ctx.loaders.userById.load(parent.created_by);
+      },
+    }),
+  }),
+});
+
 // Invoice type
 export const InvoiceRef = builder.objectRef<Invoice>('Invoice');
 InvoiceRef.implement({
@@ -221,12 +348,27 @@ TimeEntryRef.implement({
     userId: t.exposeID('user_id', { nullable: true }),
     clientId: t.exposeID('client_id', { nullable: true }),
     note: t.exposeString('note', { nullable: true }),
+    tags: t.exposeStringList('tags'),
     startedAt: t.expose('started_at', { type: 'DateTime' }),
     stoppedAt: t.expose('stopped_at', { type: 'DateTime', nullable: true }),
     durationSeconds: t.exposeInt('duration_seconds', { nullable: true }),
+    billableDurationSeconds: t.exposeInt('billable_duration_seconds', { nullable: true }),
     billable: t.exposeBoolean('billable'),
     hourlyRateCents: t.exposeInt('hourly_rate_cents', { nullable: true }),
+    // Level the hourly rate was resolved from
+    rateSource: t.expose('rate_source', { type: RateSourceEnum, nullable: true }),
     amountCents: t.exposeInt('amount_cents', { nullable: true }),
+    // Internal cost is only visible to team owners and admins
+    costCents: t.int({
+      nullable: true,
+      resolve: (parent, _args, ctx) => (canManageTeam(ctx) ? parent.cost_cents : null),
+    }),
+    // Entry this one was split off from
+    splitFromId: t.exposeID('split_from_id', { nullable: true }),
+    // Entries merged into this one; they no longer exist
+    mergedFromIds: t.exposeIDList('merged_from_ids'),
+    // Set when a forgotten timer was stopped at the team's maximum duration, until the entry is edited
+    autoStoppedAt: t.expose('auto_stopped_at', { type: 'DateTime', nullable: true }),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
     updatedAt: t.expose('updated_at', { type: 'DateTime' }),
     project: t.field({
@@ -253,11 +395,759 @@ TimeEntryRef.implement({
         return ctx.loaders.userById.load(parent.user_id);
       },
     }),
+    pauses: t.field({
+      type: [TimeEntryPauseRef],
+      resolve: async (parent, _args, ctx) => {
+        const pauses = await ctx.loaders.pausesByTimeEntryId.load(parent.id);
+        return [...pauses].sort((a, b) => new Date(a.paused_at).getTime() - new Date(b.paused_at).getTime());
+      },
+    }),
+    // When the running timer was paused (null unless currently paused)
+    pausedAt: t.field({
+      type: 'DateTime',
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (parent.stopped_at) return null;
+        const pauses = await ctx.loaders.pausesByTimeEntryId.load(parent.id);
+        return pauses.find((pause) => !pause.resumed_at)?.paused_at ?? null;
+      },
+    }),
+    // Total time spent in completed pauses
+    pausedSeconds: t.int({
+      resolve: async (parent, _args, ctx) => {
+        const pauses = await ctx.loaders.pausesByTimeEntryId.load(parent.id);
+        return pauses.reduce((sum, pause) => {
+          if (!pause.resumed_at) return sum;
+          return sum + Math.floor((new Date(pause.resumed_at).getTime() - new Date(pause.paused_at).getTime()) / 1000);
+        }, 0);
+      },
+    }),
+    // Time tracked so far excluding pauses; equals durationSeconds once stopped
+    trackedSeconds: t.int({
+      resolve: async (parent, _args, ctx) => {
+        if (parent.stopped_at && parent.duration_seconds !== null) return parent.duration_seconds;
+
+        const pauses = await ctx.loaders.pausesByTimeEntryId.load(parent.id);
+        const end = parent.stopped_at ? new Date(parent.stopped_at).getTime() : Date.now();
+        const pausedMs = pauses.reduce((sum, pause) => {
+          const resumed = pause.resumed_at ? new Date(pause.resumed_at).getTime() : end;
+          return sum + (resumed - new Date(pause.paused_at).getTime());
+        }, 0);
+
+        return Math.max(0, Math.floor((end - new Date(parent.started_at).getTime() - pausedMs) / 1000));
+      },
+    }),
+    // Other entries of the same user overlapping this one (flagged when the team policy is 'warn')
+    conflicts: t.field({
+      type: [TimeEntryRef],
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.user_id) return [];
+        return findOverlappingEntries(
+          ctx,
+          parent.team_id,
+          parent.user_id,
+          new Date(parent.started_at),
+          parent.stopped_at ? new Date(parent.stopped_at) : null,
+          parent.id
+        );
+      },
+    }),
+  }),
+});
+
+// TimeEntryPause type
+export const TimeEntryPauseRef = builder.objectRef<TimeEntryPause>('TimeEntryPause');
+TimeEntryPauseRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    timeEntryId: t.exposeID('time_entry_id'),
+    pausedAt: t.expose('paused_at', { type: 'DateTime' }),
+    resumedAt: t.expose('resumed_at', { type: 'DateTime', nullable: true }),
+  }),
+});
+
+// TimeEntryConflict type: two entries of one user that overlap
+export const TimeEntryConflictRef = builder.objectRef<TimeEntryConflict>('TimeEntryConflict');
+TimeEntryConflictRef.implement({
+  fields: (t) => ({
+    timeEntryId: t.exposeID('time_entry_id'),
+    conflictingTimeEntryId: t.exposeID('conflicting_time_entry_id'),
+    overlapStart: t.expose('overlap_start', { type: 'DateTime' }),
+    overlapEnd: t.expose('overlap_end', { type: 'DateTime' }),
+    overlapSeconds: t.int({
+      resolve: (parent) => {
+        return Math.floor((new Date(parent.overlap_end).getTime() - new Date(parent.overlap_start).getTime()) / 1000);
+      },
+    }),
+    timeEntry: t.field({
+      type: TimeEntryRef,
+      resolve: async (parent, _args, ctx) => {
+        const timeEntry = await ctx.loaders.timeEntryById.load(parent.time_entry_id);
+        if (!timeEntry) throw new NotFoundError('Time entry not found');
+        return timeEntry;
+      },
+    }),
+    conflictingTimeEntry: t.field({
+      type: TimeEntryRef,
+      resolve: async (parent, _args, ctx) => {
+        const timeEntry = await ctx.loaders.timeEntryById.load(parent.conflicting_time_entry_id);
+        if (!timeEntry) throw new NotFoundError('Time entry not found');
+        return timeEntry;
+      },
+    }),
+  }),
+});
+
+// How re-running rate resolution changes (or would change) a time entry
+export const TimeEntryRateChangeRef = builder.objectRef<TimeEntryRateChange>('TimeEntryRateChange');
+TimeEntryRateChangeRef.implement({
+  fields: (t) => ({
+    timeEntryId: t.exposeID('time_entry_id'),
+    previousHourlyRateCents: t.exposeInt('previous_hourly_rate_cents', { nullable: true }),
+    hourlyRateCents: t.exposeInt('hourly_rate_cents', { nullable: true }),
+    previousRateSource: t.expose('previous_rate_source', { type: RateSourceEnum, nullable: true }),
+    rateSource: t.expose('rate_source', { type: RateSourceEnum, nullable: true }),
+    previousAmountCents: t.exposeInt('previous_amount_cents', { nullable: true }),
+    amountCents: t.exposeInt('amount_cents', { nullable: true }),
+    amountDeltaCents: t.int({
+      resolve: (parent) => (parent.amount_cents ?? 0) - (parent.previous_amount_cents ?? 0),
+    }),
+    invoiced: t.exposeBoolean('invoiced'),
+    // Why the entry is left as is: 'invoiced' (pass force to include it) or 'locked' (closed period or approved week)
+    skippedReason: t.exposeString('skipped_reason', { nullable: true }),
+    timeEntry: t.field({
+      type: TimeEntryRef,
+      resolve: async (parent, _args, ctx) => {
+        const timeEntry = await ctx.loaders.timeEntryById.load(parent.time_entry_id);
+        if (!timeEntry) throw new NotFoundError('Time entry not found');
+        return timeEntry;
+      },
+    }),
+  }),
+});
+
+export const RateRecalculationRef = builder.objectRef<RateRecalculation>('RateRecalculation');
+RateRecalculationRef.implement({
+  fields: (t) => ({
+    dryRun: t.exposeBoolean('dry_run'),
+    changes: t.field({
+      type: [TimeEntryRateChangeRef],
+      resolve: (parent) => parent.changes,
+    }),
+    // Entries that are repriced (or would be, on a dry run)
+    appliedCount: t.int({
+      resolve: (parent) => parent.changes.filter((change) => !change.skipped_reason).length,
+    }),
+    skippedCount: t.int({
+      resolve: (parent) => parent.changes.filter((change) => change.skipped_reason).length,
+    }),
+    // Total change in amount of the entries that are (or would be) repriced
+    amountDeltaCents: t.int({
+      resolve: (parent) =>
+        parent.changes
+          .filter((change) => !change.skipped_reason)
+          .reduce((sum, change) => sum + (change.amount_cents ?? 0) - (change.previous_amount_cents ?? 0), 0),
+    }),
+  }),
+});
+
+export const TimeEntryImportRowRef = builder.objectRef<TimeEntryImportRow>('TimeEntryImportRow');
+TimeEntryImportRowRef.implement({
+  fields: (t) => ({
+    // Line number in the uploaded file, counting the header as line 1
+    rowNumber: t.exposeInt('row_number'),
+    clientName: t.exposeString('client_name', { nullable: true }),
+    projectName: t.exposeString('project_name', { nullable: true }),
+    taskName: t.exposeString('task_name', { nullable: true }),
+    userEmail: t.exposeString('user_email', { nullable: true }),
+    note: t.exposeString('note', { nullable: true }),
+    startedAt: t.expose('started_at', { type: 'DateTime', nullable: true }),
+    stoppedAt: t.expose('stopped_at', { type: 'DateTime', nullable: true }),
+    durationSeconds: t.exposeInt('duration_seconds', { nullable: true }),
+    billable: t.exposeBoolean('billable'),
+    createsClient: t.exposeBoolean('creates_client'),
+    createsProject: t.exposeBoolean('creates_project'),
+    createsTask: t.exposeBoolean('creates_task'),
+    errors: t.exposeStringList('errors'),
+  }),
+});
+
+export const TimeEntryImportRef = builder.objectRef<TimeEntryImport>('TimeEntryImport');
+TimeEntryImportRef.implement({
+  fields: (t) => ({
+    format: t.exposeString('format'),
+    dryRun: t.exposeBoolean('dry_run'),
+    // True once the entries are saved; an import with any row error is never committed
+    committed: t.exposeBoolean('committed'),
+    rows: t.field({
+      type: [TimeEntryImportRowRef],
+      resolve: (parent) => parent.rows,
+    }),
+    errorCount: t.int({
+      resolve: (parent) => parent.rows.filter((row) => row.errors.length > 0).length,
+    }),
+  }),
+});
+
+// Outcome of a bulk operation for one time entry
+export const TimeEntryBulkResultRef = builder.objectRef<TimeEntryBulkResult>('TimeEntryBulkResult');
+TimeEntryBulkResultRef.implement({
+  fields: (t) => ({
+    timeEntryId: t.exposeID('time_entry_id'),
+    success: t.exposeBoolean('success'),
+    error: t.exposeString('error', { nullable: true }),
+    timeEntry: t.field({
+      type: TimeEntryRef,
+      nullable: true,
+      resolve: (parent) => parent.time_entry,
+    }),
+  }),
+});
+
+export const TimeEntryEventRef = builder.objectRef<TimeEntryEvent>('TimeEntryEvent');
+TimeEntryEventRef.implement({
+  fields: (t) => ({
+    type: t.expose('type', { type: TimeEntryEventTypeEnum }),
+    timeEntryId: t.exposeID('time_entry_id'),
+    userId: t.exposeID('user_id', { nullable: true }),
+    timeEntry: t.field({
+      type: TimeEntryRef,
+      nullable: true,
+      resolve: (parent) => parent.time_entry,
+    }),
+  }),
+});
+
+export const TimeEntryTagRef = builder.objectRef<TimeEntryTag>('TimeEntryTag');
+TimeEntryTagRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    name: t.exposeString('name'),
+    color: t.exposeString('color', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+  }),
+});
+
+// Time entry totals per tag
+export const TagTotalRef = builder.objectRef<TagTotal>('TagTotal');
+TagTotalRef.implement({
+  fields: (t) => ({
+    // Null for entries without tags
+    tag: t.exposeString('tag', { nullable: true }),
+    entryCount: t.exposeInt('entry_count'),
+    durationSeconds: t.exposeInt('duration_seconds'),
+    billableDurationSeconds: t.exposeInt('billable_duration_seconds'),
+    amountCents: t.exposeInt('amount_cents'),
+  }),
+});
+
+// Revenue and cost of a project, or of one of its tasks or members
+export const ProfitabilityLineRef = builder.objectRef<ProfitabilityLine>('ProfitabilityLine');
+ProfitabilityLineRef.implement({
+  fields: (t) => ({
+    taskId: t.exposeID('task_id', { nullable: true }),
+    userId: t.exposeID('user_id', { nullable: true }),
+    durationSeconds: t.exposeInt('duration_seconds'),
+    revenueCents: t.exposeInt('revenue_cents'),
+    costCents: t.exposeInt('cost_cents'),
+    marginCents: t.int({
+      resolve: (parent) => parent.revenue_cents - parent.cost_cents,
+    }),
+    // Margin as a percentage of revenue (null without revenue)
+    marginPercent: t.float({
+      nullable: true,
+      resolve: (parent) => {
+        if (parent.revenue_cents === 0) return null;
+        return ((parent.revenue_cents - parent.cost_cents) / parent.revenue_cents) * 100;
+      },
+    }),
+    task: t.field({
+      type: TaskRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.task_id) return null;
+        return ctx.loaders.taskById.load(parent.task_id);
+      },
+    }),
+    user: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.user_id) return null;
+        return ctx.loaders.userById.load(parent.user_id);
+      },
+    }),
+  }),
+});
+
+export const CalendarImportRuleRef = builder.objectRef<CalendarImportRule>('CalendarImportRule');
+CalendarImportRuleRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    // 'title_keyword' or 'attendee_domain'
+    matchType: t.exposeString('match_type'),
+    pattern: t.exposeString('pattern'),
+    projectId: t.exposeID('project_id'),
+    taskId: t.exposeID('task_id', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    project: t.field({
+      type: ProjectRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        return ctx.loaders.projectById.load(parent.project_id);
+      },
+    }),
+    task: t.field({
+      type: TaskRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.task_id) return null;
+        return ctx.loaders.taskById.load(parent.task_id);
+      },
+    }),
+  }),
+});
+
+// A calendar event proposed as a time entry; nothing is saved until it is accepted
+export const TimeEntrySuggestionRef = builder.objectRef<TimeEntrySuggestion>('TimeEntrySuggestion');
+TimeEntrySuggestionRef.implement({
+  fields: (t) => ({
+    uid: t.exposeString('uid'),
+    summary: t.exposeString('summary'),
+    description: t.exposeString('description', { nullable: true }),
+    startedAt: t.expose('started_at', { type: 'DateTime' }),
+    stoppedAt: t.expose('stopped_at', { type: 'DateTime' }),
+    attendees: t.exposeStringList('attendees'),
+    projectId: t.exposeID('project_id', { nullable: true }),
+    taskId: t.exposeID('task_id', { nullable: true }),
+    clientId: t.exposeID('client_id', { nullable: true }),
+    matchReason: t.exposeString('match_reason', { nullable: true }),
+    // The user already logged time during (part of) the event
+    overlapsExisting: t.exposeBoolean('overlaps_existing'),
+    client: t.field({
+      type: ClientRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.client_id) return null;
+        return ctx.loaders.clientById.load(parent.client_id);
+      },
+    }),
+  }),
+});
+
+export const ProjectProfitabilityRef = builder.objectRef<ProjectProfitability>('ProjectProfitability');
+ProjectProfitabilityRef.implement({
+  fields: (t) => ({
+    projectId: t.exposeID('project_id'),
+    from: t.expose('from', { type: 'DateTime', nullable: true }),
+    to: t.expose('to', { type: 'DateTime', nullable: true }),
+    total: t.field({
+      type: ProfitabilityLineRef,
+      resolve: (parent) => parent.total,
+    }),
+    tasks: t.field({
+      type: [ProfitabilityLineRef],
+      resolve: (parent) => parent.tasks,
+    }),
+    members: t.field({
+      type: [ProfitabilityLineRef],
+      resolve: (parent) => parent.members,
+    }),
+    project: t.field({
+      type: ProjectRef,
+      resolve: async (parent, _args, ctx) => {
+        const project = await ctx.loaders.projectById.load(parent.project_id);
+        if (!project) throw new NotFoundError('Project not found');
+        return project;
+      },
+    }),
   }),
 });
 
 export const TimeEntryConnection = createConnectionType<TimeEntry>('TimeEntry', TimeEntryRef);
 
+// Timesheet type
+export const TimesheetRef = builder.objectRef<Timesheet>('Timesheet');
+TimesheetRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    userId: t.exposeID('user_id'),
+    weekStart: t.expose('week_start', { type: 'DateTime' }),
+    weekEnd: t.expose('week_end', { type: 'DateTime' }),
+    status: t.expose('status', { type: TimesheetStatusEnum }),
+    submittedAt: t.expose('submitted_at', { type: 'DateTime' }),
+    reviewedBy: t.exposeID('reviewed_by', { nullable: true }),
+    reviewedAt: t.expose('reviewed_at', { type: 'DateTime', nullable: true }),
+    reviewComment: t.exposeString('review_comment', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    updatedAt: t.expose('updated_at', { type: 'DateTime' }),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+    reviewer: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.reviewed_by) return null;
+        return ctx.loaders.userById.load(parent.reviewed_by);
+      },
+    }),
+    timeEntries: t.field({
+      type: [TimeEntryRef],
+      resolve: async (parent, _args, ctx) => {
+        const result = await ctx.db.query(
+          `
+          SELECT *
+          FROM time_entries
+          WHERE team_id = $1 AND user_id = $2 AND started_at >= $3 AND started_at < $4
+          ORDER BY started_at ASC
+          `,
+          [parent.team_id, parent.user_id, parent.week_start, parent.week_end]
+        );
+        return result.rows;
+      },
+    }),
+    totalSeconds: t.int({
+      resolve: async (parent, _args, ctx) => {
+        const result = await ctx.db.query(
+          `
+          SELECT COALESCE(SUM(duration_seconds), 0) AS total_seconds
+          FROM time_entries
+          WHERE team_id = $1 AND user_id = $2 AND started_at >= $3 AND started_at < $4
+          `,
+          [parent.team_id, parent.user_id, parent.week_start, parent.week_end]
+        );
+        return parseInt(result.rows[0]?.total_seconds || '0', 10);
+      },
+    }),
+  }),
+});
+
+export const TimesheetConnection = createConnectionType<Timesheet>('Timesheet', TimesheetRef);
+
+// LeaveType type
+export const LeaveTypeRef = builder.objectRef<LeaveType>('LeaveType');
+LeaveTypeRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    name: t.exposeString('name'),
+    paid: t.exposeBoolean('paid'),
+    color: t.exposeString('color', { nullable: true }),
+    archivedAt: t.expose('archived_at', { type: 'DateTime', nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    updatedAt: t.expose('updated_at', { type: 'DateTime' }),
+  }),
+});
+
+// LeaveRequest type
+export const LeaveRequestRef = builder.objectRef<LeaveRequest>('LeaveRequest');
+LeaveRequestRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    userId: t.exposeID('user_id'),
+    leaveTypeId: t.exposeID('leave_type_id'),
+    // First and last day of leave (inclusive), as "YYYY-MM-DD"
+    startDate: t.string({ resolve: (parent) => toDateString(parent.start_date) }),
+    endDate: t.string({ resolve: (parent) => toDateString(parent.end_date) }),
+    hoursPerDay: t.exposeFloat('hours_per_day', { nullable: true }),
+    note: t.exposeString('note', { nullable: true }),
+    status: t.expose('status', { type: LeaveRequestStatusEnum }),
+    reviewedBy: t.exposeID('reviewed_by', { nullable: true }),
+    reviewedAt: t.expose('reviewed_at', { type: 'DateTime', nullable: true }),
+    reviewComment: t.exposeString('review_comment', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    updatedAt: t.expose('updated_at', { type: 'DateTime' }),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+    leaveType: t.field({
+      type: LeaveTypeRef,
+      resolve: async (parent, _args, ctx) => {
+        const leaveType = await ctx.loaders.leaveTypeById.load(parent.leave_type_id);
+        if (!leaveType) throw new NotFoundError('Leave type not found');
+        return leaveType;
+      },
+    }),
+    reviewer: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.reviewed_by) return null;
+        return ctx.loaders.userById.load(parent.reviewed_by);
+      },
+    }),
+  }),
+});
+
+export const LeaveRequestConnection = createConnectionType<LeaveRequest>('LeaveRequest', LeaveRequestRef);
+
+// TeamHoliday type
+export const TeamHolidayRef = builder.objectRef<TeamHoliday>('TeamHoliday');
+TeamHolidayRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    date: t.string({ resolve: (parent) => toDateString(parent.date) }),
+    name: t.exposeString('name'),
+    sourceUid: t.exposeString('source_uid', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+  }),
+});
+
+// A day of leave or a team holiday
+export const LeaveDayRef = builder.objectRef<LeaveDay>('LeaveDay');
+LeaveDayRef.implement({
+  fields: (t) => ({
+    date: t.exposeString('date'),
+    kind: t.expose('kind', { type: LeaveDayKindEnum }),
+    userId: t.exposeID('user_id', { nullable: true }),
+    name: t.exposeString('name'),
+    paid: t.exposeBoolean('paid'),
+    hours: t.exposeFloat('hours', { nullable: true }),
+    pending: t.exposeBoolean('pending'),
+    leaveRequestId: t.exposeID('leave_request_id', { nullable: true }),
+    teamHolidayId: t.exposeID('team_holiday_id', { nullable: true }),
+  }),
+});
+
+// MemberCapacity type
+export const MemberCapacityRef = builder.objectRef<MemberCapacity>('MemberCapacity');
+MemberCapacityRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    teamMembershipId: t.exposeID('team_membership_id'),
+    userId: t.exposeID('user_id'),
+    // Hours per weekday, Sunday first
+    weekdayHours: t.exposeFloatList('weekday_hours'),
+    weeklyHours: t.float({
+      resolve: (parent) => parent.weekday_hours.reduce((sum, hours) => sum + hours, 0),
+    }),
+    effectiveFrom: t.string({ resolve: (parent) => toDateString(parent.effective_from) }),
+    // Day the member's next capacity took over (null for the latest capacity)
+    effectiveTo: t.string({
+      nullable: true,
+      resolve: (parent) => (parent.effective_to ? toDateString(parent.effective_to) : null),
+    }),
+    createdBy: t.exposeID('created_by', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+  }),
+});
+
+// A member's (or the team's) expected and logged time over a period
+export const UtilizationRowRef = builder.objectRef<UtilizationRow>('UtilizationRow');
+UtilizationRowRef.implement({
+  fields: (t) => ({
+    userId: t.exposeID('user_id', { nullable: true }),
+    periodStart: t.exposeString('period_start'),
+    periodEnd: t.exposeString('period_end'),
+    capacitySeconds: t.exposeInt('capacity_seconds'),
+    leaveSeconds: t.exposeInt('leave_seconds'),
+    expectedSeconds: t.exposeInt('expected_seconds'),
+    loggedSeconds: t.exposeInt('logged_seconds'),
+    billableSeconds: t.exposeInt('billable_seconds'),
+    // Logged time as a share of expected time; null when no time was expected
+    utilization: t.float({
+      nullable: true,
+      resolve: (parent) => (parent.expected_seconds > 0 ? parent.logged_seconds / parent.expected_seconds : null),
+    }),
+    billableUtilization: t.float({
+      nullable: true,
+      resolve: (parent) => (parent.expected_seconds > 0 ? parent.billable_seconds / parent.expected_seconds : null),
+    }),
+    user: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.user_id) return null;
+        return ctx.loaders.userById.load(parent.user_id);
+      },
+    }),
+  }),
+});
+
+// UtilizationReport type
+export const UtilizationReportRef = builder.objectRef<UtilizationReport>('UtilizationReport');
+UtilizationReportRef.implement({
+  fields: (t) => ({
+    teamId: t.exposeID('team_id'),
+    fromDate: t.exposeString('from_date'),
+    toDate: t.exposeString('to_date'),
+    groupBy: t.expose('group_by', { type: UtilizationGroupByEnum }),
+    rows: t.field({ type: [UtilizationRowRef], resolve: (parent) => parent.rows }),
+    // The whole team over the whole range
+    total: t.field({ type: UtilizationRowRef, resolve: (parent) => parent.total }),
+  }),
+});
+
+// Allocation type
+export const AllocationRef = builder.objectRef<Allocation>('Allocation');
+AllocationRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    userId: t.exposeID('user_id'),
+    projectId: t.exposeID('project_id'),
+    taskId: t.exposeID('task_id', { nullable: true }),
+    startDate: t.string({ resolve: (parent) => toDateString(parent.start_date) }),
+    endDate: t.string({ resolve: (parent) => toDateString(parent.end_date) }),
+    hoursPerDay: t.exposeFloat('hours_per_day'),
+    note: t.exposeString('note', { nullable: true }),
+    createdBy: t.exposeID('created_by', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    updatedAt: t.expose('updated_at', { type: 'DateTime' }),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+    project: t.field({
+      type: ProjectRef,
+      resolve: async (parent, _args, ctx) => {
+        const project = await ctx.loaders.projectById.load(parent.project_id);
+        if (!project) throw new NotFoundError('Project not found');
+        return project;
+      },
+    }),
+    task: t.field({
+      type: TaskRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.task_id) return null;
+        return ctx.loaders.taskById.load(parent.task_id);
+      },
+    }),
+  }),
+});
+
+// ResourceScheduleWeek type
+export const ResourceScheduleWeekRef = builder.objectRef<ResourceScheduleWeek>('ResourceScheduleWeek');
+ResourceScheduleWeekRef.implement({
+  fields: (t) => ({
+    weekStart: t.exposeString('week_start'),
+    weekEnd: t.exposeString('week_end'),
+  }),
+});
+
+// Planned and logged time of a member on a project in a week
+export const ResourceScheduleCellRef = builder.objectRef<ResourceScheduleCell>('ResourceScheduleCell');
+ResourceScheduleCellRef.implement({
+  fields: (t) => ({
+    userId: t.exposeID('user_id'),
+    projectId: t.exposeID('project_id'),
+    weekStart: t.exposeString('week_start'),
+    plannedSeconds: t.exposeInt('planned_seconds'),
+    actualSeconds: t.exposeInt('actual_seconds'),
+    project: t.field({
+      type: ProjectRef,
+      resolve: async (parent, _args, ctx) => {
+        const project = await ctx.loaders.projectById.load(parent.project_id);
+        if (!project) throw new NotFoundError('Project not found');
+        return project;
+      },
+    }),
+  }),
+});
+
+// A member's planned time in a week against the hours they are expected to work
+export const ResourceScheduleMemberWeekRef = builder.objectRef<ResourceScheduleMemberWeek>('ResourceScheduleMemberWeek');
+ResourceScheduleMemberWeekRef.implement({
+  fields: (t) => ({
+    userId: t.exposeID('user_id'),
+    weekStart: t.exposeString('week_start'),
+    weekEnd: t.exposeString('week_end'),
+    capacitySeconds: t.exposeInt('capacity_seconds'),
+    leaveSeconds: t.exposeInt('leave_seconds'),
+    expectedSeconds: t.exposeInt('expected_seconds'),
+    plannedSeconds: t.exposeInt('planned_seconds'),
+    actualSeconds: t.exposeInt('actual_seconds'),
+    // Planned time beyond the expected hours of the week
+    overbookedSeconds: t.int({
+      resolve: (parent) => Math.max(parent.planned_seconds - parent.expected_seconds, 0),
+    }),
+    conflictDates: t.exposeStringList('conflict_dates'),
+    user: t.field({
+      type: UserRef,
+      resolve: async (parent, _args, ctx) => {
+        const user = await ctx.loaders.userById.load(parent.user_id);
+        if (!user) throw new NotFoundError('User not found');
+        return user;
+      },
+    }),
+  }),
+});
+
+// ResourceSchedule type
+export const ResourceScheduleRef = builder.objectRef<ResourceSchedule>('ResourceSchedule');
+ResourceScheduleRef.implement({
+  fields: (t) => ({
+    teamId: t.exposeID('team_id'),
+    fromDate: t.exposeString('from_date'),
+    toDate: t.exposeString('to_date'),
+    weeks: t.field({ type: [ResourceScheduleWeekRef], resolve: (parent) => parent.weeks }),
+    memberWeeks: t.field({ type: [ResourceScheduleMemberWeekRef], resolve: (parent) => parent.member_weeks }),
+    cells: t.field({ type: [ResourceScheduleCellRef], resolve: (parent) => parent.cells }),
+    allocations: t.field({ type: [AllocationRef], resolve: (parent) => parent.allocations }),
+  }),
+});
+
+// PeriodClose type
+export const PeriodCloseRef = builder.objectRef<PeriodClose>('PeriodClose');
+PeriodCloseRef.implement({
+  fields: (t) => ({
+    id: t.exposeID('id'),
+    teamId: t.exposeID('team_id'),
+    closedThrough: t.expose('closed_through', { type: 'DateTime' }),
+    closedBy: t.exposeID('closed_by', { nullable: true }),
+    closedAt: t.expose('closed_at', { type: 'DateTime' }),
+    reopenedBy: t.exposeID('reopened_by', { nullable: true }),
+    reopenedAt: t.expose('reopened_at', { type: 'DateTime', nullable: true }),
+    reopenReason: t.exposeString('reopen_reason', { nullable: true }),
+    createdAt: t.expose('created_at', { type: 'DateTime' }),
+    closedByUser: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.closed_by) return null;
+        return ctx.loaders.userById.load(parent.closed_by);
+      },
+    }),
+    reopenedByUser: t.field({
+      type: UserRef,
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        if (!parent.reopened_by) return null;
+        return ctx.loaders.userById.load(parent.reopened_by);
+      },
+    }),
+  }),
+});
+
 // Project type
 export const ProjectRef = builder.objectRef<Project>('Project');
 ProjectRef.implement({
@@ -271,12 +1161,22 @@ ProjectRef.implement({
     status: t.expose('status', { type: StatusEnum }),
     color: t.exposeString('color', { nullable: true }),
     tags: t.exposeStringList('tags'),
-    defaultHourlyRateCents: t.exposeInt('default_hourly_rate_cents', { nullable: true }),
+    // Rate in effect now; scheduled changes apply once their date has passed
+    defaultHourlyRateCents: t.int({
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        const history = await getRateHistory(ctx, 'project', parent.id);
+        return rateEffectiveAt(history, parent.default_hourly_rate_cents, new Date());
+      },
+    }),
     budgetType: t.exposeString('budget_type', { nullable: true }),
     budgetHours: t.exposeFloat('budget_hours', { nullable: true }),
     budgetAmountCents: t.exposeInt('budget_amount_cents', { nullable: true }),
     startDate: t.expose('start_date', { type: 'DateTime', nullable: true }),
     dueDate: t.expose('due_date', { type: 'DateTime', nullable: true }),
+    roundingMode: t.expose('rounding_mode', { type: RoundingModeEnum, nullable: true }),
+    roundingIncrementMinutes: t.exposeInt('rounding_increment_minutes', { nullable: true }),
+    roundingMinimumMinutes: t.exposeInt('rounding_minimum_minutes', { nullable: true }),
     archivedAt: t.expose('archived_at', { type: 'DateTime', nullable: true }),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
     updatedAt: t.expose('updated_at', { type: 'DateTime' }),
@@ -359,8 +1259,18 @@ ClientRef.implement({
     contactName: t.exposeString('contact_name', { nullable: true }),
     billingAddress: t.expose('billing_address', { type: 'JSON', nullable: true }),
     taxId: t.exposeString('tax_id', { nullable: true }),
-    defaultHourlyRateCents: t.exposeInt('default_hourly_rate_cents', { nullable: true }),
+    // Rate in effect now; scheduled changes apply once their date has passed
+    defaultHourlyRateCents: t.int({
+      nullable: true,
+      resolve: async (parent, _args, ctx) => {
+        const history = await getRateHistory(ctx, 'client', parent.id);
+        return rateEffectiveAt(history, parent.default_hourly_rate_cents, new Date());
+      },
+    }),
     currency: t.exposeString('currency'),
+    roundingMode: t.expose('rounding_mode', { type: RoundingModeEnum, nullable: true }),
+    roundingIncrementMinutes: t.exposeInt('rounding_increment_minutes', { nullable: true }),
+    roundingMinimumMinutes: t.exposeInt('rounding_minimum_minutes', { nullable: true }),
     archivedAt: t.expose('archived_at', { type: 'DateTime', nullable: true }),
     createdAt: t.expose('created_at', { type: 'DateTime' }),
     updatedAt: t.expose('updated_at', { type: 'DateTime' }),
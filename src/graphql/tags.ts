@@ -0,0 +1,44 @@
+import { GraphQLContext } from './context';
+import { ValidationError } from './errors';
+import { TimeEntryTag } from './types';
+
+// Most tags a single time entry can carry
+export const MAX_TAGS_PER_TIME_ENTRY = 10;
+
+/**
+ * Validates the tags given for a time entry against the team's tag list.
+ * Tags are matched case-insensitively and stored with the team's spelling. Tags the entry
+ * already has are accepted as they are, so editing an entry never fails on its own tags.
+ */
+export async function resolveTimeEntryTags(
+  context: GraphQLContext,
+  teamId: string,
+  tags: string[],
+  currentTags: string[] = []
+): Promise<string[]> {
+  const result = await context.db.query<TimeEntryTag>('SELECT * FROM time_entry_tags WHERE team_id = $1', [teamId]);
+  const known = new Map(result.rows.map((tag) => [tag.name.toLowerCase(), tag.name]));
+  const current = new Map(currentTags.map((tag) => [tag.toLowerCase(), tag]));
+
+  const resolved: string[] = [];
+  for (const tag of tags) {
+    const key = tag.trim().toLowerCase();
+    if (!key) {
+      continue;
+    }
+
+    const name = known.get(key) ?? current.get(key);
+    if (!name) {
+      throw new ValidationError(`Unknown tag: ${tag.trim()}. Team owners and admins manage tags in the team settings`, 'tags');
+    }
+    if (!resolved.includes(name)) {
+      resolved.push(name);
+    }
+  }
+
+  if (resolved.length > MAX_TAGS_PER_TIME_ENTRY) {
+    throw new ValidationError(`A time entry can have at most ${MAX_TAGS_PER_TIME_ENTRY} tags`, 'tags');
+  }
+
+  return resolved;
+}
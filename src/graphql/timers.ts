@@ -0,0 +1,145 @@
+import { GraphQLContext, withTransaction } from './context';
+import { calculateBilling } from './billing';
+import { NotFoundError } from './errors';
+import { publishTimeEntryEvent } from './pubsub';
+import { TimeEntry } from './types';
+
+/**
+ * Sums the paused time of a time entry that falls between start and stop
+ */
+export async function getPausedSeconds(
+  query: (text: string, params?: any[]) => Promise<any>,
+  timeEntryId: string,
+  startedAt: Date,
+  stoppedAt: Date
+): Promise<number> {
+  const result = await query(
+    `
+    SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+      LEAST(COALESCE(resumed_at, $3), $3) - GREATEST(paused_at, $2)
+    ))), 0) AS paused_seconds
+    FROM time_entry_pauses
+    WHERE time_entry_id = $1 AND paused_at < $3 AND COALESCE(resumed_at, $3) > $2
+    `,
+    [timeEntryId, startedAt, stoppedAt]
+  );
+
+  return Math.floor(parseFloat(result.rows[0]?.paused_seconds || '0'));
+}
+
+/**
+ * Stops every timer that has run longer than its team's maximum timer duration.
+ * The entry ends exactly at the limit and is flagged with auto_stopped_at, so its user is asked
+ * to correct it. Pauses after the limit are dropped; an open pause ends at the limit.
+ * @returns The stopped time entries
+ */
+export async function stopRunawayTimers(context: GraphQLContext, now: Date = new Date()): Promise<TimeEntry[]> {
+  const runaway = await context.db.query<TimeEntry & { max_timer_hours: number }>(
+    `
+    SELECT te.*, t.max_timer_hours
+    FROM time_entries te
+    JOIN teams t ON t.id = te.team_id
+    WHERE te.stopped_at IS NULL
+      AND t.max_timer_hours IS NOT NULL
+      AND te.started_at + make_interval(hours => t.max_timer_hours) <= $1
+    ORDER BY te.started_at
+    `,
+    [now]
+  );
+
+  const stopped: TimeEntry[] = [];
+
+  // One transaction per timer, so a single failure doesn't keep the others running
+  for (const timeEntry of runaway.rows) {
+    try {
+      const result = await withTransaction(context, (tx) => autoStopTimer(tx, timeEntry, timeEntry.max_timer_hours, now));
+      if (result) {
+        stopped.push(result);
+        publishTimeEntryEvent('timer_stopped', result);
+      }
+    } catch (error) {
+      console.error(`Error auto-stopping time entry ${timeEntry.id}:`, error);
+    }
+  }
+
+  return stopped;
+}
+
+/**
+ * Helper to stop one timer at its maximum duration and recalculate its billing.
+ * Returns null when its user stopped the timer since the sweep started.
+ */
+async function autoStopTimer(
+  context: GraphQLContext,
+  timeEntry: TimeEntry,
+  maxTimerHours: number,
+  now: Date
+): Promise<TimeEntry | null> {
+  const current = await context.db.query<TimeEntry>('SELECT stopped_at FROM time_entries WHERE id = $1 FOR UPDATE', [
+    timeEntry.id,
+  ]);
+  if (!current.rows[0] || current.rows[0].stopped_at) {
+    return null;
+  }
+
+  const startedAt = new Date(timeEntry.started_at);
+  const stoppedAt = new Date(startedAt.getTime() + maxTimerHours * 60 * 60 * 1000);
+
+  await context.db.query('DELETE FROM time_entry_pauses WHERE time_entry_id = $1 AND paused_at >= $2', [
+    timeEntry.id,
+    stoppedAt,
+  ]);
+  await context.db.query(
+    'UPDATE time_entry_pauses SET resumed_at = $2 WHERE time_entry_id = $1 AND (resumed_at IS NULL OR resumed_at > $2)',
+    [timeEntry.id, stoppedAt]
+  );
+
+  const project = await context.loaders.projectById.load(timeEntry.project_id);
+  if (!project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  const pausedSeconds = await getPausedSeconds(context.db.query, timeEntry.id, startedAt, stoppedAt);
+  const durationSeconds = Math.floor((stoppedAt.getTime() - startedAt.getTime()) / 1000) - pausedSeconds;
+
+  const { billableDurationSeconds, hourlyRateCents, rateSource, amountCents, costCents } = await calculateBilling(
+    context,
+    project,
+    timeEntry.task_id,
+    timeEntry.user_id,
+    startedAt,
+    durationSeconds,
+    timeEntry.billable
+  );
+
+  const result = await context.db.query<TimeEntry>(
+    `
+    UPDATE time_entries
+    SET
+      stopped_at = $2,
+      duration_seconds = $3,
+      billable_duration_seconds = $4,
+      hourly_rate_cents = $5,
+      rate_source = $6,
+      amount_cents = $7,
+      cost_cents = $8,
+      auto_stopped_at = $9,
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [
+      timeEntry.id,
+      stoppedAt,
+      durationSeconds,
+      billableDurationSeconds,
+      hourlyRateCents,
+      rateSource,
+      amountCents,
+      costCents,
+      now,
+    ]
+  );
+
+  return result.rows[0];
+}
@@ -7,10 +7,17 @@ export interface Team {
   name: string;
   slug: string;
   billing_address: any | null;
+  rounding_mode: RoundingMode | null;
+  rounding_increment_minutes: number | null;
+  rounding_minimum_minutes: number | null;
+  overlap_policy: OverlapPolicy;
+  max_timer_hours: number | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export type OverlapPolicy = 'allow' | 'warn' | 'reject';
+
 export interface User {
   id: string;
   email: string;
@@ -18,15 +25,27 @@ export interface User {
   password_hash: string;
   instance_role: 'USER' | 'ADMIN';
   display_name: string | null;
+  time_zone: string;
+  week_start: number;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  token: string;
+  last_accessed_at: Date | null;
+  created_at: Date;
+}
+
 export interface TeamMembership {
   id: string;
   team_id: string;
   user_id: string;
   role: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER' | 'BILLING';
+  hourly_rate_cents: number | null;
+  created_at: Date;
 }
 
 export interface Client {
@@ -41,6 +60,9 @@ export interface Client {
   tax_id: string | null;
   default_hourly_rate_cents: number | null;
   currency: string;
+  rounding_mode: RoundingMode | null;
+  rounding_increment_minutes: number | null;
+  rounding_minimum_minutes: number | null;
   archived_at: Date | null;
   created_at: Date;
   updated_at: Date;
@@ -62,6 +84,9 @@ export interface Project {
   budget_amount_cents: number | null;
   start_date: Date | null;
   due_date: Date | null;
+  rounding_mode: RoundingMode | null;
+  rounding_increment_minutes: number | null;
+  rounding_minimum_minutes: number | null;
   archived_at: Date | null;
   created_at: Date;
   updated_at: Date;
@@ -69,6 +94,8 @@ export interface Project {
 
 export type ProjectStatus = 'active' | 'archived' | 'completed' | 'on_hold';
 
+export type RoundingMode = 'none' | 'up' | 'down' | 'nearest';
+
 export interface ProjectTask {
   id: string;
   team_id: string;
@@ -90,6 +117,36 @@ export interface ProjectMember {
   project_id: string;
   user_id: string;
   role: 'MANAGER' | 'CONTRIBUTOR' | 'VIEWER';
+  hourly_rate_cents: number | null;
+  created_at: Date;
+}
+
+export interface RateHistoryEntry {
+  id: string;
+  team_id: string;
+  client_id: string | null;
+  project_id: string | null;
+  task_id: string | null;
+  project_member_id: string | null;
+  team_membership_id: string | null;
+  hourly_rate_cents: number | null;
+  effective_from: Date;
+  effective_to?: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CostRate {
+  id: string;
+  team_id: string;
+  user_id: string;
+  hourly_cost_cents: number;
+  effective_from: Date;
+  effective_to?: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
 }
 
 export interface TaskAssignee {
@@ -107,16 +164,341 @@ export interface TimeEntry {
   user_id: string | null;
   client_id: string | null;
   note: string | null;
+  tags: string[];
   started_at: Date;
   stopped_at: Date | null;
   duration_seconds: number | null;
+  billable_duration_seconds: number | null;
   billable: boolean;
   hourly_rate_cents: number | null;
+  rate_source: RateSource | null;
   amount_cents: number | null;
+  cost_cents: number | null;
+  split_from_id: string | null;
+  merged_from_ids: string[];
+  auto_stopped_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export type RateSource = 'task' | 'project_member' | 'project' | 'user' | 'client';
+
+export type TimeEntryOperation = 'start_timer' | 'stop_timer' | 'pause_timer' | 'resume_timer' | 'create_time_entry';
+
+export type TimeEntryEventType = 'timer_started' | 'timer_stopped' | 'created' | 'updated' | 'deleted';
+
+export interface TimeEntryEvent {
+  type: TimeEntryEventType;
+  time_entry_id: string;
+  user_id: string | null;
+  time_entry: TimeEntry | null;
+}
+
+export interface TimeEntryTag {
+  id: string;
+  team_id: string;
+  name: string;
+  color: string | null;
+  created_at: Date;
+}
+
+// Time entry totals for one tag; an entry with several tags counts towards each of them
+export interface TagTotal {
+  tag: string | null;
+  entry_count: number;
+  duration_seconds: number;
+  billable_duration_seconds: number;
+  amount_cents: number;
+}
+
+export interface TimeEntryPause {
+  id: string;
+  team_id: string;
+  time_entry_id: string;
+  paused_at: Date;
+  resumed_at: Date | null;
+  created_at: Date;
+}
+
+export interface TimeEntryConflict {
+  time_entry_id: string;
+  conflicting_time_entry_id: string;
+  overlap_start: Date;
+  overlap_end: Date;
+}
+
+export interface TimeEntryRateChange {
+  time_entry_id: string;
+  previous_hourly_rate_cents: number | null;
+  hourly_rate_cents: number | null;
+  previous_rate_source: RateSource | null;
+  rate_source: RateSource | null;
+  previous_amount_cents: number | null;
+  amount_cents: number | null;
+  invoiced: boolean;
+  skipped_reason: 'invoiced' | 'locked' | null;
+}
+
+export interface RateRecalculation {
+  dry_run: boolean;
+  changes: TimeEntryRateChange[];
+}
+
+export type ImportFormat = 'toggl' | 'harvest' | 'clockify';
+
+export interface TimeEntryImportRow {
+  row_number: number;
+  client_name: string | null;
+  project_name: string | null;
+  task_name: string | null;
+  user_email: string | null;
+  note: string | null;
+  started_at: Date | null;
+  stopped_at: Date | null;
+  duration_seconds: number | null;
+  billable: boolean;
+  creates_client: boolean;
+  creates_project: boolean;
+  creates_task: boolean;
+  errors: string[];
+}
+
+export interface TimeEntryImport {
+  format: ImportFormat;
+  dry_run: boolean;
+  committed: boolean;
+  rows: TimeEntryImportRow[];
+}
+
+export interface TimeEntryBulkResult {
+  time_entry_id: string;
+  success: boolean;
+  error: string | null;
+  // The updated entry; null when deleted or when the operation failed
+  time_entry: TimeEntry | null;
+}
+
+export type CalendarRuleMatchType = 'title_keyword' | 'attendee_domain';
+
+export interface CalendarImportRule {
+  id: string;
+  team_id: string;
+  user_id: string;
+  match_type: CalendarRuleMatchType;
+  pattern: string;
+  project_id: string;
+  task_id: string | null;
+  created_at: Date;
+}
+
+export interface TimeEntrySuggestion {
+  uid: string;
+  summary: string;
+  description: string | null;
+  started_at: Date;
+  stopped_at: Date;
+  attendees: string[];
+  project_id: string | null;
+  task_id: string | null;
+  client_id: string | null;
+  match_reason: string | null;
+  overlaps_existing: boolean;
+}
+
+export interface ProfitabilityLine {
+  task_id: string | null;
+  user_id: string | null;
+  duration_seconds: number;
+  revenue_cents: number;
+  cost_cents: number;
+}
+
+export interface ProjectProfitability {
+  project_id: string;
+  from: Date | null;
+  to: Date | null;
+  total: ProfitabilityLine;
+  tasks: ProfitabilityLine[];
+  members: ProfitabilityLine[];
+}
+
+export interface MemberCapacity {
+  id: string;
+  team_id: string;
+  team_membership_id: string;
+  // Hours per weekday, Sunday first
+  weekday_hours: number[];
+  effective_from: Date;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  // Joined from team_memberships
+  user_id: string;
+  // When the member's next capacity took over, for listings
+  effective_to?: Date | null;
+}
+
+export type UtilizationGroupBy = 'member' | 'week' | 'month';
+
+export interface UtilizationRow {
+  user_id: string | null;
+  // Inclusive local dates of the period; the whole report range when grouped by member
+  period_start: string;
+  period_end: string;
+  capacity_seconds: number;
+  leave_seconds: number;
+  expected_seconds: number;
+  logged_seconds: number;
+  billable_seconds: number;
+}
+
+export interface UtilizationReport {
+  team_id: string;
+  from_date: string;
+  to_date: string;
+  group_by: UtilizationGroupBy;
+  rows: UtilizationRow[];
+  total: UtilizationRow;
+}
+
+export interface Allocation {
+  id: string;
+  team_id: string;
+  user_id: string;
+  project_id: string;
+  task_id: string | null;
+  start_date: Date;
+  end_date: Date;
+  hours_per_day: number;
+  note: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ResourceScheduleWeek {
+  // Inclusive local dates, clipped to the schedule range
+  week_start: string;
+  week_end: string;
+}
+
+// Planned and logged time of a member on a project in a week
+export interface ResourceScheduleCell {
+  user_id: string;
+  project_id: string;
+  week_start: string;
+  planned_seconds: number;
+  actual_seconds: number;
+}
+
+// A member's planned time in a week against the hours they are expected to work
+export interface ResourceScheduleMemberWeek {
+  user_id: string;
+  week_start: string;
+  week_end: string;
+  capacity_seconds: number;
+  leave_seconds: number;
+  expected_seconds: number;
+  planned_seconds: number;
+  actual_seconds: number;
+  // Days of the week with more time planned than expected, such as planned leave or holidays
+  conflict_dates: string[];
+}
+
+export interface ResourceSchedule {
+  team_id: string;
+  from_date: string;
+  to_date: string;
+  weeks: ResourceScheduleWeek[];
+  member_weeks: ResourceScheduleMemberWeek[];
+  cells: ResourceScheduleCell[];
+  allocations: Allocation[];
+}
+
+export interface Timesheet {
+  id: string;
+  team_id: string;
+  user_id: string;
+  week_start: Date;
+  week_end: Date;
+  status: TimesheetStatus;
+  submitted_at: Date;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_comment: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type TimesheetStatus = 'submitted' | 'approved' | 'rejected';
+
+export interface LeaveType {
+  id: string;
+  team_id: string;
+  name: string;
+  paid: boolean;
+  color: string | null;
+  archived_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeaveRequest {
+  id: string;
+  team_id: string;
+  user_id: string;
+  leave_type_id: string;
+  start_date: Date;
+  end_date: Date;
+  hours_per_day: number | null;
+  note: string | null;
+  status: LeaveRequestStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_comment: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface TeamHoliday {
+  id: string;
+  team_id: string;
+  date: Date;
+  name: string;
+  source_uid: string | null;
+  created_at: Date;
+}
+
+// A day of leave or a team holiday, as counted against expected hours
+export interface LeaveDay {
+  date: string;
+  kind: 'leave' | 'holiday';
+  // Null for team holidays, which apply to every member
+  user_id: string | null;
+  name: string;
+  paid: boolean;
+  // Hours off for partial days; null for whole days
+  hours: number | null;
+  // Only pending leave is ever listed besides approved leave and holidays
+  pending: boolean;
+  leave_request_id: string | null;
+  team_holiday_id: string | null;
+}
+
+export interface PeriodClose {
+  id: string;
+  team_id: string;
+  closed_through: Date;
+  closed_by: string | null;
+  closed_at: Date;
+  reopened_by: string | null;
+  reopened_at: Date | null;
+  reopen_reason: string | null;
+  created_at: Date;
+}
+
 export interface Invoice {
   id: string;
   team_id: string;
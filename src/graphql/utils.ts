@@ -1,4 +1,5 @@
 import { ValidationError } from './errors';
+import { addDays, isLocalDate, startOfLocalDay } from '@/lib/time-zones';
 
 export interface OffsetLimitResult {
   offset: number;
@@ -97,6 +98,37 @@ export function parseDateRange(
   };
 }
 
+export interface LocalDateRangeArgs {
+  from?: Date | null;
+  to?: Date | null;
+  fromDate?: string | null;
+  toDate?: string | null;
+}
+
+/**
+ * Resolves a date range given either as instants (from/to) or as local dates (fromDate/toDate).
+ * Local dates are whole days in the given time zone, both inclusive, and take precedence.
+ * @returns Inclusive bounds for parseDateRange
+ */
+export function resolveLocalDateRange(
+  args: LocalDateRangeArgs,
+  timeZone: string
+): { from: Date | null; to: Date | null } {
+  for (const field of ['fromDate', 'toDate'] as const) {
+    const value = args[field];
+    if (value && !isLocalDate(value)) {
+      throw new ValidationError(`Invalid date: ${value}. Use YYYY-MM-DD`, field);
+    }
+  }
+
+  return {
+    from: args.fromDate ? startOfLocalDay(args.fromDate, timeZone) : args.from ?? null,
+    to: args.toDate
+      ? new Date(startOfLocalDay(addDays(args.toDate, 1), timeZone).getTime() - 1)
+      : args.to ?? null,
+  };
+}
+
 /**
  * Validates and returns a safe ORDER BY column
  * @param orderBy Requested order by column
@@ -0,0 +1,121 @@
+/**
+ * Tests for the duration and time range parsing of manual time entries
+ *
+ * To run these tests, you'll need to:
+ * 1. Install test dependencies: npm install -D jest @types/jest ts-jest
+ * 2. Configure jest.config.js
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseDuration, parseDurationInput, parseTimeInput, parseTimeRange } from '../time-utils';
+
+describe('parseDurationInput', () => {
+  it('parses hours and minutes', () => {
+    expect(parseDurationInput('1h30')).toBe(5400);
+    expect(parseDurationInput('1h30m')).toBe(5400);
+    expect(parseDurationInput('1h 30m')).toBe(5400);
+    expect(parseDurationInput('1 hour 30 minutes')).toBe(5400);
+    expect(parseDurationInput('2 hrs 5 min')).toBe(7500);
+    expect(parseDurationInput('1:30')).toBe(5400);
+  });
+
+  it('parses decimal hours with either decimal separator', () => {
+    expect(parseDurationInput('1.75')).toBe(6300);
+    expect(parseDurationInput('1,75')).toBe(6300);
+    expect(parseDurationInput('1,5h')).toBe(5400);
+    expect(parseDurationInput('.5')).toBe(1800);
+    expect(parseDurationInput('2 hours')).toBe(7200);
+  });
+
+  it('reads bare numbers as hours', () => {
+    expect(parseDurationInput('2')).toBe(7200);
+    expect(parseDurationInput('0')).toBe(0);
+  });
+
+  it('parses minutes', () => {
+    expect(parseDurationInput('90m')).toBe(5400);
+    expect(parseDurationInput('90 min')).toBe(5400);
+    expect(parseDurationInput('45 minutes')).toBe(2700);
+    expect(parseDurationInput('7,5m')).toBe(450);
+  });
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(parseDurationInput('  1H 30M ')).toBe(5400);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDurationInput('')).toBeNull();
+    expect(parseDurationInput('abc')).toBeNull();
+    expect(parseDurationInput('1h75')).toBeNull();
+    expect(parseDurationInput('1:75')).toBeNull();
+    expect(parseDurationInput('-1h')).toBeNull();
+    expect(parseDurationInput('1.2.3')).toBeNull();
+    expect(parseDurationInput('9-11')).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('returns 0 for input that is not a duration', () => {
+    expect(parseDuration('2h 30m')).toBe(9000);
+    expect(parseDuration('2.5h')).toBe(9000);
+    expect(parseDuration('soon')).toBe(0);
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('parses 24-hour ranges', () => {
+    expect(parseTimeRange('9-11:30')).toEqual({ startMinutes: 540, endMinutes: 690 });
+    expect(parseTimeRange('9:15 - 17:45')).toEqual({ startMinutes: 555, endMinutes: 1065 });
+    expect(parseTimeRange('13:00–14:00')).toEqual({ startMinutes: 780, endMinutes: 840 });
+    expect(parseTimeRange('0-24')).toEqual({ startMinutes: 0, endMinutes: 1440 });
+  });
+
+  it('accepts "." and "h" between hours and minutes', () => {
+    expect(parseTimeRange('9.30-11')).toEqual({ startMinutes: 570, endMinutes: 660 });
+    expect(parseTimeRange('9h30 to 11h')).toEqual({ startMinutes: 570, endMinutes: 660 });
+  });
+
+  it('parses 12-hour ranges', () => {
+    expect(parseTimeRange('9am-1pm')).toEqual({ startMinutes: 540, endMinutes: 780 });
+    expect(parseTimeRange('9:30 a.m. - 12:15 p.m.')).toEqual({ startMinutes: 570, endMinutes: 735 });
+    expect(parseTimeRange('12am-1am')).toEqual({ startMinutes: 0, endMinutes: 60 });
+    expect(parseTimeRange('12pm-1pm')).toEqual({ startMinutes: 720, endMinutes: 780 });
+  });
+
+  it('gives the start the half of the day that makes the range shorter', () => {
+    expect(parseTimeRange('1-3pm')).toEqual({ startMinutes: 780, endMinutes: 900 });
+    expect(parseTimeRange('11-1pm')).toEqual({ startMinutes: 660, endMinutes: 780 });
+    expect(parseTimeRange('9-5pm')).toEqual({ startMinutes: 540, endMinutes: 1020 });
+  });
+
+  it('reads an earlier end as afternoon when it fits', () => {
+    expect(parseTimeRange('9-5')).toEqual({ startMinutes: 540, endMinutes: 1020 });
+    expect(parseTimeRange('10-2:30')).toEqual({ startMinutes: 600, endMinutes: 870 });
+    expect(parseTimeRange('9am-5')).toEqual({ startMinutes: 540, endMinutes: 1020 });
+  });
+
+  it('continues into the next day otherwise', () => {
+    expect(parseTimeRange('22-1')).toEqual({ startMinutes: 1320, endMinutes: 1500 });
+    expect(parseTimeRange('11pm-1am')).toEqual({ startMinutes: 1380, endMinutes: 1500 });
+    expect(parseTimeRange('9pm-2')).toEqual({ startMinutes: 1260, endMinutes: 1560 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimeRange('9')).toBeNull();
+    expect(parseTimeRange('9-')).toBeNull();
+    expect(parseTimeRange('25-26')).toBeNull();
+    expect(parseTimeRange('9:60-10')).toBeNull();
+    expect(parseTimeRange('13pm-2pm')).toBeNull();
+    expect(parseTimeRange('lunch-2')).toBeNull();
+  });
+});
+
+describe('parseTimeInput', () => {
+  it('tells ranges from durations', () => {
+    expect(parseTimeInput('9-11:30')).toEqual({ kind: 'range', startMinutes: 540, endMinutes: 690 });
+    expect(parseTimeInput('1h30')).toEqual({ kind: 'duration', seconds: 5400 });
+    expect(parseTimeInput('1.75')).toEqual({ kind: 'duration', seconds: 6300 });
+    expect(parseTimeInput('90m')).toEqual({ kind: 'duration', seconds: 5400 });
+    expect(parseTimeInput('whenever')).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * CSV parsing and formatting (RFC 4180)
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields, escaped quotes (""), embedded line breaks, CRLF and a leading BOM.
+ * Blank lines are skipped.
+ * @param text - CSV text
+ * @param delimiter - Field delimiter, "," by default
+ * @returns Rows of raw (untrimmed) field values
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+	const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== "") {
+			rows.push(row);
+		}
+		row = [];
+		field = "";
+	};
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === "") {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") {
+				i++;
+			}
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		endRow();
+	}
+
+	return rows;
+}
+
+/**
+ * Format one CSV line (without line break)
+ * Fields containing the delimiter, quotes or line breaks are quoted. Text starting with a character
+ * spreadsheets read as a formula (=, +, -, @, tab or carriage return) is prefixed with an apostrophe.
+ * @param values - Field values; null and undefined become empty fields
+ * @param delimiter - Field delimiter, "," by default
+ */
+export function formatCsvRow(
+	values: (string | number | boolean | null | undefined)[],
+	delimiter = ",",
+): string {
+	return values
+		.map((value) => {
+			let text = value === null || value === undefined ? "" : String(value);
+			if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+				text = `'${text}`;
+			}
+			return /[",\r\n]/.test(text) || text.includes(delimiter)
+				? `"${text.replace(/"/g, '""')}"`
+				: text;
+		})
+		.join(delimiter);
+}
@@ -9,3 +9,24 @@ export function gql(strings: TemplateStringsArray | string, ...values: any[]): s
 	}
 	return strings.reduce((acc, str, i) => acc + str + (values[i] || ""), "");
 }
+
+/**
+ * Result of the OfflineStartTimer mutation
+ */
+export interface OfflineStartTimerMutation {
+	startTimer: { id: string; startedAt: string };
+}
+
+/**
+ * Result of the OfflineStopTimer mutation
+ */
+export interface OfflineStopTimerMutation {
+	stopTimer: { id: string; stoppedAt: string | null; durationSeconds: number | null };
+}
+
+/**
+ * Result of the OfflineCreateTimeEntry mutation
+ */
+export interface OfflineCreateTimeEntryMutation {
+	createTimeEntry: { id: string; conflicts: Array<{ id: string }> };
+}
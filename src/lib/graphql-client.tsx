@@ -16,6 +16,8 @@ export function GraphQLProvider({ children }: { children: ReactNode }) {
     return createClient({
       url: '/api/graphql',
       exchanges: [cacheExchange, fetchExchange],
+      // Subscriptions are streamed as server-sent events over the same fetch, with the same headers
+      fetchSubscriptions: true,
       fetchOptions: () => {
         // Send team ID in header if user has selected a team
         const headers: Record<string, string> = {};
@@ -0,0 +1,255 @@
+import { getTimeZoneOffset } from "./time-zones";
+
+/**
+ * iCalendar (RFC 5545) formatting and parsing
+ */
+
+export interface IcsEvent {
+	uid: string;
+	start: Date;
+	end: Date;
+	summary: string;
+	description?: string | null;
+	status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+	updatedAt?: Date;
+}
+
+export interface ParsedIcsEvent {
+	uid: string;
+	summary: string;
+	description: string | null;
+	start: Date;
+	end: Date;
+	allDay: boolean;
+	status: string | null;
+	// E-mail addresses of the organizer and attendees, lowercase
+	attendees: string[];
+}
+
+/**
+ * Format events as a VCALENDAR document
+ * @param name - Calendar name shown by calendar apps
+ * @param events - Events to include
+ * @returns iCalendar text with CRLF line endings
+ */
+export function formatIcsCalendar(name: string, events: IcsEvent[]): string {
+	const now = formatIcsDate(new Date());
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//Ardine//Time Entries//EN",
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${escapeIcsText(name)}`,
+	];
+
+	for (const event of events) {
+		lines.push(
+			"BEGIN:VEVENT",
+			`UID:${event.uid}`,
+			`DTSTAMP:${event.updatedAt ? formatIcsDate(event.updatedAt) : now}`,
+			`DTSTART:${formatIcsDate(event.start)}`,
+			`DTEND:${formatIcsDate(event.end)}`,
+			`SUMMARY:${escapeIcsText(event.summary)}`,
+		);
+		if (event.description) {
+			lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+		}
+		lines.push(`STATUS:${event.status || "CONFIRMED"}`, "TRANSP:OPAQUE", "END:VEVENT");
+	}
+
+	lines.push("END:VCALENDAR");
+
+	return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Format a date as a UTC date-time (e.g., "20240105T093000Z")
+ */
+export function formatIcsDate(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escape text values (backslash, semicolon, comma and line breaks)
+ */
+function escapeIcsText(text: string): string {
+	return text
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line longer than 75 octets into continuation lines starting with a space
+ */
+function foldIcsLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = "";
+	let currentBytes = 0;
+
+	for (const char of line) {
+		const bytes = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards their 75 octets
+		const limit = parts.length === 0 ? 75 : 74;
+		if (currentBytes + bytes > limit) {
+			parts.push(current);
+			current = "";
+			currentBytes = 0;
+		}
+		current += char;
+		currentBytes += bytes;
+	}
+	parts.push(current);
+
+	return parts.join("\r\n ");
+}
+
+/**
+ * Parse the events of an iCalendar document
+ * Times with a TZID are converted with the time zone database; floating times (no Z, no TZID)
+ * are read with the given offset. Recurring events are returned once, at their first occurrence.
+ * @param text - iCalendar text
+ * @param timezoneOffsetMinutes - Offset for floating times, in Date#getTimezoneOffset() terms
+ * @returns Events with a start, in document order
+ */
+export function parseIcsEvents(text: string, timezoneOffsetMinutes = 0): ParsedIcsEvent[] {
+	const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+	const events: ParsedIcsEvent[] = [];
+	const components: string[] = [];
+	let properties: IcsProperty[] = [];
+
+	for (const line of lines) {
+		const property = parseIcsProperty(line);
+		if (!property) continue;
+
+		if (property.name === "BEGIN") {
+			components.push(property.value.toUpperCase());
+			if (property.value.toUpperCase() === "VEVENT") properties = [];
+		} else if (property.name === "END") {
+			if (components.pop() === "VEVENT") {
+				const event = toIcsEvent(properties, timezoneOffsetMinutes);
+				if (event) events.push(event);
+			}
+		} else if (components[components.length - 1] === "VEVENT") {
+			properties.push(property);
+		}
+	}
+
+	return events;
+}
+
+interface IcsProperty {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+/**
+ * Split a content line into name, parameters and value
+ */
+function parseIcsProperty(line: string): IcsProperty | null {
+	let inQuotes = false;
+	let separator = -1;
+	for (let i = 0; i < line.length; i++) {
+		if (line[i] === '"') inQuotes = !inQuotes;
+		if (line[i] === ":" && !inQuotes) {
+			separator = i;
+			break;
+		}
+	}
+	if (separator < 0) return null;
+
+	const [name, ...rawParams] = line.slice(0, separator).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+	if (!name) return null;
+
+	const params: Record<string, string> = {};
+	for (const param of rawParams) {
+		const [key, ...value] = param.split("=");
+		params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+	}
+
+	return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Build an event from its properties; null for events without a usable start
+ */
+function toIcsEvent(properties: IcsProperty[], timezoneOffsetMinutes: number): ParsedIcsEvent | null {
+	const get = (name: string) => properties.find((property) => property.name === name);
+
+	const dtstart = get("DTSTART");
+	const start = dtstart && parseIcsDate(dtstart, timezoneOffsetMinutes);
+	if (!start) return null;
+
+	const dtend = get("DTEND");
+	const duration = get("DURATION");
+	const durationSeconds = duration ? parseIcsDuration(duration.value) : null;
+	const end =
+		(dtend && parseIcsDate(dtend, timezoneOffsetMinutes)) ||
+		(durationSeconds !== null ? new Date(start.getTime() + durationSeconds * 1000) : start);
+
+	const attendees = properties
+		.filter((property) => property.name === "ATTENDEE" || property.name === "ORGANIZER")
+		.map((property) => property.value.replace(/^mailto:/i, "").toLowerCase())
+		.filter((email) => email.includes("@"));
+
+	return {
+		uid: get("UID")?.value || `${start.toISOString()}-${get("SUMMARY")?.value ?? ""}`,
+		summary: unescapeIcsText(get("SUMMARY")?.value ?? ""),
+		description: get("DESCRIPTION") ? unescapeIcsText(get("DESCRIPTION")!.value) : null,
+		start,
+		end,
+		allDay: dtstart.params.VALUE === "DATE" || /^\d{8}$/.test(dtstart.value),
+		status: get("STATUS")?.value.toUpperCase() ?? null,
+		attendees: [...new Set(attendees)],
+	};
+}
+
+/**
+ * Parse a DATE or DATE-TIME value (UTC, with TZID, or floating)
+ */
+function parseIcsDate(property: IcsProperty, timezoneOffsetMinutes: number): Date | null {
+	const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+	if (!match) return null;
+
+	const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part || 0));
+	const local = Date.UTC(year, month - 1, day, hour, minute, second);
+
+	if (match[7]) {
+		return new Date(local);
+	}
+	if (property.params.TZID) {
+		const offset = getTimeZoneOffset(local, property.params.TZID);
+		if (offset !== null) {
+			// Correct the offset once, in case the guess crossed a daylight saving change
+			return new Date(local - (getTimeZoneOffset(local - offset, property.params.TZID) ?? offset));
+		}
+	}
+
+	return new Date(local + timezoneOffsetMinutes * 60 * 1000);
+}
+
+/**
+ * Parse a DURATION value (e.g., "PT1H30M", "P1D") into seconds
+ */
+function parseIcsDuration(value: string): number | null {
+	const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+	if (!match) return null;
+
+	const [weeks, days, hours, minutes, seconds] = match.slice(2).map((part) => Number(part || 0));
+	const total = (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+	return match[1] === "-" ? -total : total;
+}
+
+/**
+ * Undo text escaping
+ */
+function unescapeIcsText(text: string): string {
+	return text.replace(/\\([\\;,nN])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
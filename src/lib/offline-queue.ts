@@ -0,0 +1,389 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useClient, type Client } from "urql";
+import {
+	gql,
+	type OfflineCreateTimeEntryMutation,
+	type OfflineStartTimerMutation,
+	type OfflineStopTimerMutation,
+} from "@/lib/gql";
+
+/**
+ * Offline queue for timer and time entry operations
+ * Operations made without a connection are stored in localStorage with the time they were made at,
+ * and replayed in order once the server is reachable. Each carries an idempotency key, so an
+ * operation that reaches the server more than once (e.g. from two tabs) takes effect only once.
+ */
+
+const STORAGE_KEY = "ardine_offline_queue";
+// Notifies the other queue users in this tab; other tabs get a storage event
+const CHANGE_EVENT = "ardine-offline-queue-change";
+// How often queued operations are retried while the browser claims to be online
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const OFFLINE_START_TIMER_MUTATION = gql(`
+  mutation OfflineStartTimer(
+    $projectId: ID!
+    $taskId: ID
+    $note: String
+    $tags: [String!]
+    $billable: Boolean = true
+    $startedAt: DateTime
+    $idempotencyKey: String
+  ) {
+    startTimer(
+      projectId: $projectId
+      taskId: $taskId
+      note: $note
+      tags: $tags
+      billable: $billable
+      startedAt: $startedAt
+      idempotencyKey: $idempotencyKey
+    ) {
+      id
+      startedAt
+    }
+  }
+`);
+
+const OFFLINE_STOP_TIMER_MUTATION = gql(`
+  mutation OfflineStopTimer($timeEntryId: ID!, $stoppedAt: DateTime, $idempotencyKey: String) {
+    stopTimer(timeEntryId: $timeEntryId, stoppedAt: $stoppedAt, idempotencyKey: $idempotencyKey) {
+      id
+      stoppedAt
+      durationSeconds
+    }
+  }
+`);
+
+const OFFLINE_CREATE_TIME_ENTRY_MUTATION = gql(`
+  mutation OfflineCreateTimeEntry(
+    $projectId: ID!
+    $taskId: ID
+    $note: String
+    $tags: [String!]
+    $billable: Boolean
+    $startedAt: DateTime!
+    $stoppedAt: DateTime!
+    $idempotencyKey: String
+  ) {
+    createTimeEntry(
+      projectId: $projectId
+      taskId: $taskId
+      note: $note
+      tags: $tags
+      billable: $billable
+      startedAt: $startedAt
+      stoppedAt: $stoppedAt
+      idempotencyKey: $idempotencyKey
+    ) {
+      id
+      conflicts {
+        id
+      }
+    }
+  }
+`);
+
+const MUTATIONS = {
+	startTimer: OFFLINE_START_TIMER_MUTATION,
+	stopTimer: OFFLINE_STOP_TIMER_MUTATION,
+	createTimeEntry: OFFLINE_CREATE_TIME_ENTRY_MUTATION,
+};
+
+export interface StartTimerVariables {
+	projectId: string;
+	taskId?: string | null;
+	note?: string | null;
+	tags?: string[];
+	billable?: boolean;
+}
+
+export interface CreateTimeEntryVariables {
+	projectId: string;
+	taskId?: string | null;
+	note?: string | null;
+	tags?: string[];
+	billable?: boolean;
+	startedAt: string;
+	stoppedAt: string;
+}
+
+interface QueuedOperationBase {
+	// Idempotency key, also identifying the operation in the queue
+	key: string;
+	teamId: string;
+	queuedAt: string;
+}
+
+export type QueuedOperation =
+	| (QueuedOperationBase & { kind: "startTimer"; variables: StartTimerVariables & { startedAt: string } })
+	| (QueuedOperationBase & {
+			kind: "stopTimer";
+			// A timer started offline has no ID until its start is replayed; startKey points at that start
+			variables: { timeEntryId?: string; stoppedAt: string };
+			startKey?: string;
+	  })
+	| (QueuedOperationBase & { kind: "createTimeEntry"; variables: CreateTimeEntryVariables });
+
+export interface QueueFailure {
+	kind: QueuedOperation["kind"];
+	queuedAt: string;
+	message: string;
+}
+
+interface QueueState {
+	operations: QueuedOperation[];
+	// Replayed operations the server rejected, kept until the user dismisses them
+	failures: QueueFailure[];
+}
+
+export interface QueueResult<TData = unknown> {
+	// The operation was stored to be sent once the connection returns
+	queued: boolean;
+	error: string | null;
+	data?: TData | null;
+}
+
+type OfflineMutation = OfflineStartTimerMutation | OfflineStopTimerMutation | OfflineCreateTimeEntryMutation;
+
+const NO_TEAM_RESULT: QueueResult<never> = { queued: false, error: "No team selected" };
+
+// One replay per tab at a time
+let replaying: Promise<void> | null = null;
+
+/**
+ * Timer and time entry operations that keep working offline
+ * @param teamId - Team whose operations are made and replayed
+ */
+export function useOfflineQueue(teamId: string | undefined) {
+	const client = useClient();
+	const [state, setState] = useState<QueueState>(readState);
+	const [isOnline, setIsOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
+
+	const replay = useCallback(() => {
+		if (!teamId || !navigator.onLine) return;
+		if (!replaying) {
+			replaying = replayOperations(client, teamId).finally(() => {
+				replaying = null;
+			});
+		}
+	}, [client, teamId]);
+
+	useEffect(() => {
+		const handleChange = () => setState(readState());
+		const handleStorage = (e: StorageEvent) => {
+			if (e.key === STORAGE_KEY) handleChange();
+		};
+		const handleOnline = () => {
+			setIsOnline(true);
+			replay();
+		};
+		const handleOffline = () => setIsOnline(false);
+
+		window.addEventListener(CHANGE_EVENT, handleChange);
+		window.addEventListener("storage", handleStorage);
+		window.addEventListener("online", handleOnline);
+		window.addEventListener("offline", handleOffline);
+
+		return () => {
+			window.removeEventListener(CHANGE_EVENT, handleChange);
+			window.removeEventListener("storage", handleStorage);
+			window.removeEventListener("online", handleOnline);
+			window.removeEventListener("offline", handleOffline);
+		};
+	}, [replay]);
+
+	const operations = useMemo(
+		() => state.operations.filter((operation) => operation.teamId === teamId),
+		[state.operations, teamId],
+	);
+
+	// Retry right away and then periodically: the browser may be online while the server is not reachable
+	const hasOperations = operations.length > 0;
+	useEffect(() => {
+		if (!hasOperations) return;
+
+		replay();
+		const retryInterval = setInterval(replay, RETRY_INTERVAL_MS);
+		return () => clearInterval(retryInterval);
+	}, [hasOperations, replay]);
+
+	// Sends an operation, or queues it when the server can't be reached.
+	// Operations queue behind earlier ones so they reach the server in order.
+	const run = useCallback(
+		async <TData extends OfflineMutation>(operation: QueuedOperation): Promise<QueueResult<TData>> => {
+			const mustQueue =
+				!navigator.onLine ||
+				readState().operations.some((queued) => queued.teamId === operation.teamId) ||
+				(operation.kind === "stopTimer" && !operation.variables.timeEntryId);
+
+			if (!mustQueue) {
+				// Online starts use the server's clock
+				const variables =
+					operation.kind === "startTimer" ? { ...operation.variables, startedAt: undefined } : operation.variables;
+				const result = await client
+					.mutation<TData>(MUTATIONS[operation.kind], { ...variables, idempotencyKey: operation.key })
+					.toPromise();
+
+				if (!result.error) {
+					return { queued: false, error: null, data: result.data };
+				}
+				if (!result.error.networkError) {
+					return { queued: false, error: result.error.message };
+				}
+			}
+
+			updateState((current) => ({ ...current, operations: [...current.operations, operation] }));
+			return { queued: true, error: null };
+		},
+		[client],
+	);
+
+	const startTimer = useCallback(
+		(variables: StartTimerVariables) => {
+			if (!teamId) return Promise.resolve(NO_TEAM_RESULT);
+			return run<OfflineStartTimerMutation>({
+				kind: "startTimer",
+				...newOperation(teamId),
+				variables: { ...variables, startedAt: new Date().toISOString() },
+			});
+		},
+		[run, teamId],
+	);
+
+	// Stops a timer known to the server by its ID, or a timer started offline by its start's key
+	const stopTimer = useCallback(
+		(timer: { timeEntryId: string } | { startKey: string }) => {
+			if (!teamId) return Promise.resolve(NO_TEAM_RESULT);
+			return run<OfflineStopTimerMutation>({
+				kind: "stopTimer",
+				...newOperation(teamId),
+				variables: {
+					timeEntryId: "timeEntryId" in timer ? timer.timeEntryId : undefined,
+					stoppedAt: new Date().toISOString(),
+				},
+				startKey: "startKey" in timer ? timer.startKey : undefined,
+			});
+		},
+		[run, teamId],
+	);
+
+	const createTimeEntry = useCallback(
+		(variables: CreateTimeEntryVariables) => {
+			if (!teamId) return Promise.resolve(NO_TEAM_RESULT);
+			return run<OfflineCreateTimeEntryMutation>({ kind: "createTimeEntry", ...newOperation(teamId), variables });
+		},
+		[run, teamId],
+	);
+
+	const dismissFailures = useCallback(() => {
+		updateState((current) => ({ ...current, failures: [] }));
+	}, []);
+
+	// The latest timer started offline, unless a queued stop ends it
+	const queuedTimer = useMemo(() => {
+		const starts = operations.filter((operation) => operation.kind === "startTimer");
+		const start = starts[starts.length - 1];
+		if (!start || operations.some((operation) => operation.kind === "stopTimer" && operation.startKey === start.key)) {
+			return null;
+		}
+		return { key: start.key, ...start.variables };
+	}, [operations]);
+
+	// Timers known to the server whose stop is still queued
+	const stoppedTimerIds = useMemo(
+		() =>
+			operations.flatMap((operation) =>
+				operation.kind === "stopTimer" && operation.variables.timeEntryId ? [operation.variables.timeEntryId] : [],
+			),
+		[operations],
+	);
+
+	return {
+		operations,
+		failures: state.failures,
+		isOnline,
+		queuedTimer,
+		stoppedTimerIds,
+		startTimer,
+		stopTimer,
+		createTimeEntry,
+		dismissFailures,
+	};
+}
+
+/**
+ * Replay a team's queued operations in order, until the queue is empty or the server can't be reached
+ */
+async function replayOperations(client: Client, teamId: string): Promise<void> {
+	for (;;) {
+		const operation = readState().operations.find((queued) => queued.teamId === teamId);
+		if (!operation) return;
+
+		const result = await client
+			.mutation<OfflineMutation>(MUTATIONS[operation.kind], { ...operation.variables, idempotencyKey: operation.key })
+			.toPromise();
+
+		// Still offline; the operation stays first in line
+		if (result.error?.networkError) return;
+
+		// A start the server accepted without returning the timer leaves nothing to stop
+		const timeEntryId = result.data && "startTimer" in result.data ? result.data.startTimer.id : null;
+		const error =
+			result.error?.message ??
+			(operation.kind === "startTimer" && !timeEntryId ? "The server did not return the started timer" : null);
+
+		updateState((current) => {
+			let operations = current.operations.filter((queued) => queued.key !== operation.key);
+			let failures = current.failures;
+
+			if (error) {
+				failures = [...failures, { kind: operation.kind, queuedAt: operation.queuedAt, message: error }];
+				// A timer that could not be started can't be stopped either
+				operations = operations.filter((queued) => queued.kind !== "stopTimer" || queued.startKey !== operation.key);
+			} else if (operation.kind === "startTimer" && timeEntryId) {
+				operations = operations.map((queued) =>
+					queued.kind === "stopTimer" && queued.startKey === operation.key
+						? { ...queued, variables: { ...queued.variables, timeEntryId }, startKey: undefined }
+						: queued,
+				);
+			}
+
+			return { operations, failures };
+		});
+	}
+}
+
+/**
+ * Read the queue from localStorage
+ */
+function readState(): QueueState {
+	if (typeof window === "undefined") return { operations: [], failures: [] };
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+		return { operations: stored?.operations || [], failures: stored?.failures || [] };
+	} catch {
+		return { operations: [], failures: [] };
+	}
+}
+
+/**
+ * Change the queue in localStorage and notify its users in this tab
+ */
+function updateState(update: (current: QueueState) => QueueState): void {
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(update(readState())));
+	window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Key and bookkeeping fields of a new operation
+ */
+function newOperation(teamId: string): QueuedOperationBase {
+	const key =
+		typeof crypto !== "undefined" && "randomUUID" in crypto
+			? crypto.randomUUID()
+			: `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+	return { key, teamId, queuedAt: new Date().toISOString() };
+}
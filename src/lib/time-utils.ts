@@ -58,12 +58,13 @@ export function formatDateRange(from: Date, to: Date): string {
 }
 
 /**
- * Get the start and end of a week (Monday - Sunday) for a given date
+ * Get the start and end of a week for a given date
+ * @param weekStart - First day of the week, 0 (Sunday) to 6 (Saturday); Monday by default
  */
-export function getWeekRange(date: Date): { start: Date; end: Date } {
+export function getWeekRange(date: Date, weekStart = 1): { start: Date; end: Date } {
 	const d = new Date(date);
 	const day = d.getDay();
-	const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust for Monday start
+	const diff = d.getDate() - ((day - weekStart + 7) % 7);
 
 	const start = new Date(d.setDate(diff));
 	start.setHours(0, 0, 0, 0);
@@ -150,25 +151,98 @@ export function formatElapsedTime(elapsedSeconds: number): string {
 
 /**
  * Parse duration string like "2h 30m" or "2.5h" into seconds
+ * @returns Seconds, or 0 when the input isn't a duration
  */
 export function parseDuration(input: string): number {
-	const trimmed = input.trim().toLowerCase();
+	return parseDurationInput(input) ?? 0;
+}
+
+/**
+ * Parse a typed duration into seconds. Understands hours and minutes ("1h30", "1h 30m", "1:30"),
+ * minutes ("90m", "90 min") and decimal hours with either decimal separator ("1.75", "1,75h").
+ * Bare numbers are hours.
+ * @returns Seconds, or null when the input isn't a duration
+ */
+export function parseDurationInput(input: string): number | null {
+	const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+
+	const clock = text.match(/^(\d+):([0-5]\d)$/);
+	if (clock) {
+		return Number(clock[1]) * 3600 + Number(clock[2]) * 60;
+	}
+
+	const hours = text.match(/^(\d*[.,]?\d+) ?(?:hours?|hrs?|h)?$/);
+	if (hours) {
+		return Math.round(parseDecimal(hours[1]) * 3600);
+	}
+
+	const minutes = text.match(/^(\d*[.,]?\d+) ?(?:minutes?|mins?|m)$/);
+	if (minutes) {
+		return Math.round(parseDecimal(minutes[1]) * 60);
+	}
+
+	const hoursAndMinutes = text.match(/^(\d+) ?(?:hours?|hrs?|h) ?([0-5]?\d) ?(?:minutes?|mins?|m)?$/);
+	if (hoursAndMinutes) {
+		return Number(hoursAndMinutes[1]) * 3600 + Number(hoursAndMinutes[2]) * 60;
+	}
+
+	return null;
+}
+
+export interface TimeRange {
+	// Minutes after midnight
+	startMinutes: number;
+	// Minutes after the start's midnight; more than a day's worth when the range ends the next day
+	endMinutes: number;
+}
+
+/**
+ * Parse a typed time range like "9-11:30", "9:15 - 17:45", "9am-1pm", "9.30-11" or "9h30 to 11h".
+ * Times without am/pm are on a 24-hour clock, with two exceptions:
+ * - When only the end has am/pm, the start gets whichever makes the range shorter ("11-1pm" is 11am to 1pm)
+ * - An end without am/pm that comes before the start is read as afternoon if that fits ("9-5" is 9:00 to 17:00),
+ *   and as the next day otherwise ("22-1")
+ * @returns Start and end, or null when the input isn't a time range
+ */
+export function parseTimeRange(input: string): TimeRange | null {
+	const match = input.trim().toLowerCase().match(/^(.+?)\s*(?:-|–|—|\bto\b)\s*(.+)$/);
+	if (!match) return null;
+
+	const start = parseClockTime(match[1]);
+	const end = parseClockTime(match[2]);
+	if (!start || !end) return null;
+
+	let startMinutes = toClockMinutes(start.hours, start.minutes, start.meridiem);
+	let endMinutes = toClockMinutes(end.hours, end.minutes, end.meridiem);
 
-	// Handle decimal hours (e.g., "2.5" or "2.5h")
-	const decimalMatch = trimmed.match(/^(\d+\.?\d*)h?$/);
-	if (decimalMatch) {
-		return Math.round(Number.parseFloat(decimalMatch[1]) * 3600);
+	if (!start.meridiem && end.meridiem && start.hours >= 1 && start.hours <= 12) {
+		const sameHalf = toClockMinutes(start.hours, start.minutes, end.meridiem);
+		const otherHalf = toClockMinutes(start.hours, start.minutes, end.meridiem === "am" ? "pm" : "am");
+		startMinutes = sameHalf <= endMinutes ? sameHalf : otherHalf;
 	}
 
-	// Handle "Xh Ym" format
-	const complexMatch = trimmed.match(/^(?:(\d+)h\s*)?(?:(\d+)m)?$/);
-	if (complexMatch) {
-		const hours = Number.parseInt(complexMatch[1] || "0", 10);
-		const minutes = Number.parseInt(complexMatch[2] || "0", 10);
-		return hours * 3600 + minutes * 60;
+	if (endMinutes <= startMinutes) {
+		const afternoon = endMinutes + 12 * 60;
+		endMinutes = !end.meridiem && endMinutes < 12 * 60 && afternoon > startMinutes ? afternoon : endMinutes + 24 * 60;
 	}
 
-	return 0;
+	return { startMinutes, endMinutes };
+}
+
+export type TimeInput = { kind: "duration"; seconds: number } | ({ kind: "range" } & TimeRange);
+
+/**
+ * Parse what was typed for a manual time entry: a time range ("9-11:30") or a duration ("1h30")
+ * @returns The range or duration, or null when the input is neither
+ */
+export function parseTimeInput(input: string): TimeInput | null {
+	const range = parseTimeRange(input);
+	if (range) {
+		return { kind: "range", ...range };
+	}
+
+	const seconds = parseDurationInput(input);
+	return seconds === null ? null : { kind: "duration", seconds };
 }
 
 /**
@@ -194,3 +268,33 @@ export function getRelativeTime(date: Date): string {
 		year: date.getFullYear() !== now.getFullYear() ? "numeric" : undefined,
 	});
 }
+
+/**
+ * Parse a number with either "." or "," as decimal separator
+ */
+function parseDecimal(value: string): number {
+	return Number.parseFloat(value.replace(",", "."));
+}
+
+/**
+ * Parse a time of day like "9", "9:30", "9.30", "9h30", "9am" or "9:30 p.m." as typed
+ */
+function parseClockTime(input: string): { hours: number; minutes: number; meridiem: "am" | "pm" | null } | null {
+	const match = input.trim().match(/^(\d{1,2})(?:[:.h]([0-5]\d)|h)?\s*(?:([ap])\.?m?\.?)?$/);
+	if (!match) return null;
+
+	const hours = Number(match[1]);
+	const minutes = Number(match[2] || 0);
+	const meridiem = match[3] ? (`${match[3]}m` as "am" | "pm") : null;
+
+	const valid = meridiem ? hours >= 1 && hours <= 12 : hours < 24 || (hours === 24 && minutes === 0);
+	return valid ? { hours, minutes, meridiem } : null;
+}
+
+/**
+ * Minutes after midnight of a time on a 12-hour (with am/pm) or 24-hour clock
+ */
+function toClockMinutes(hours: number, minutes: number, meridiem: "am" | "pm" | null): number {
+	if (!meridiem) return hours * 60 + minutes;
+	return ((hours % 12) + (meridiem === "pm" ? 12 : 0)) * 60 + minutes;
+}
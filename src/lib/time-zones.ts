@@ -0,0 +1,136 @@
+/**
+ * Calendar days in IANA time zones
+ * Dates are "YYYY-MM-DD" strings: a local date names a day without saying when it starts, so the
+ * zone is needed to turn it into instants. Shared by the server and the browser.
+ */
+
+const LOCAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a string names a time zone known to Intl (e.g., "Europe/Berlin")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	return getTimeZoneOffset(Date.now(), timeZone) !== null;
+}
+
+/**
+ * Check whether a string is a real "YYYY-MM-DD" date
+ */
+export function isLocalDate(value: string): boolean {
+	const match = value.match(LOCAL_DATE_PATTERN);
+	if (!match) return false;
+
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * The browser's time zone, or UTC when it can't be determined
+ */
+export function getBrowserTimeZone(): string {
+	try {
+		return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+	} catch {
+		return "UTC";
+	}
+}
+
+/**
+ * Offset (local minus UTC, in ms) of an IANA time zone at a moment; null for unknown zones
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number | null {
+	try {
+		const parts = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		}).formatToParts(new Date(timestamp));
+		const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+		const local = Date.UTC(
+			value("year"),
+			value("month") - 1,
+			value("day"),
+			value("hour"),
+			value("minute"),
+			value("second"),
+		);
+		return local - Math.floor(timestamp / 1000) * 1000;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The local date of an instant in a time zone
+ * @returns Date like "2024-03-31"
+ */
+export function toLocalDate(instant: Date, timeZone: string): string {
+	const offset = getTimeZoneOffset(instant.getTime(), timeZone) ?? 0;
+	return new Date(instant.getTime() + offset).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant a local date begins in a time zone.
+ * Days don't always begin at 00:00 (or last 24 hours) when daylight saving time changes.
+ */
+export function startOfLocalDay(date: string, timeZone: string): Date {
+	return fromLocalTime(Date.parse(`${date}T00:00:00Z`), timeZone);
+}
+
+/**
+ * The instant a local date and time occurs in a time zone
+ * @param local - The local date and time as milliseconds since the epoch, read as if it were UTC
+ */
+export function fromLocalTime(local: number, timeZone: string): Date {
+	const offset = getTimeZoneOffset(local, timeZone) ?? 0;
+	// Correct the offset once, in case the guess crossed a daylight saving change
+	return new Date(local - (getTimeZoneOffset(local - offset, timeZone) ?? offset));
+}
+
+/**
+ * Format a local date for display without shifting it into another zone
+ * @returns Date like "Mar 31, 2024"
+ */
+export function formatLocalDate(
+	date: string,
+	options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" },
+): string {
+	return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
+
+/**
+ * Add days to a local date
+ */
+export function addDays(date: string, days: number): string {
+	return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The week containing a local date
+ * @param weekStart - First day of the week, 0 (Sunday) to 6 (Saturday)
+ * @returns First and last day of the week, both inclusive
+ */
+export function getLocalWeekRange(date: string, weekStart = 1): { fromDate: string; toDate: string } {
+	const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+	const fromDate = addDays(date, -((day - weekStart + 7) % 7));
+	return { fromDate, toDate: addDays(fromDate, 6) };
+}
+
+/**
+ * The month containing a local date
+ * @returns First and last day of the month, both inclusive
+ */
+export function getLocalMonthRange(date: string): { fromDate: string; toDate: string } {
+	const [year, month] = date.split("-").map(Number);
+	const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+	const prefix = date.slice(0, 8);
+	return { fromDate: `${prefix}01`, toDate: `${prefix}${String(lastDay).padStart(2, "0")}` };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useQuery } from "urql";
+import { gql } from "@/lib/gql";
+
+const USER_PREFERENCES_QUERY = gql(`
+  query UserPreferences {
+    me {
+      id
+      timeZone
+      weekStart
+    }
+  }
+`);
+
+export interface UserPreferences {
+	// IANA time zone the user's days begin in
+	timeZone: string;
+	// First day of the week: 0 (Sunday) to 6 (Saturday)
+	weekStart: number;
+}
+
+/**
+ * The current user's time zone and week start, null until loaded.
+ * The server reads local dates (fromDate/toDate) in this time zone, so they must be computed in it too.
+ */
+export function useUserPreferences(): UserPreferences | null {
+	const [result] = useQuery({ query: USER_PREFERENCES_QUERY });
+	const me = result.data?.me;
+
+	return me ? { timeZone: me.timeZone, weekStart: me.weekStart } : null;
+}
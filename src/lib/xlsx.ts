@@ -0,0 +1,179 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer for server-side exports
+ */
+
+import { deflateRawSync } from "node:zlib";
+
+export type XlsxCell = string | number | boolean | Date | null | undefined;
+
+/**
+ * Build a single-sheet XLSX workbook
+ * The first row is written in bold. Dates are written as date-time cells in UTC.
+ * @param rows - Rows of cell values, header first
+ * @param sheetName - Worksheet name (max. 31 characters)
+ * @returns The .xlsx file contents
+ */
+export function buildXlsx(rows: XlsxCell[][], sheetName = "Sheet1"): Buffer {
+	const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31));
+
+	return zip([
+		{
+			path: "[Content_Types].xml",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+		},
+		{
+			path: "_rels/.rels",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+		},
+		{
+			path: "xl/workbook.xml",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+		},
+		{
+			path: "xl/_rels/workbook.xml.rels",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+		},
+		{
+			// Cell styles: 0 = default, 1 = date-time, 2 = bold header
+			path: "xl/styles.xml",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+		},
+		{
+			path: "xl/worksheets/sheet1.xml",
+			content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows
+				.map(
+					(row, rowIndex) =>
+						`<row r="${rowIndex + 1}">${row
+							.map((cell, columnIndex) =>
+								formatCell(cell, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0),
+							)
+							.join("")}</row>`,
+				)
+				.join("")}</sheetData></worksheet>`,
+		},
+	]);
+}
+
+/**
+ * Format one worksheet cell as XML
+ */
+function formatCell(value: XlsxCell, ref: string, header: boolean): string {
+	const style = header ? ' s="2"' : "";
+
+	if (value === null || value === undefined || value === "") {
+		return "";
+	}
+	if (value instanceof Date) {
+		// Spreadsheet dates count days since 1899-12-30
+		const serial = value.getTime() / 86400000 + 25569;
+		return `<c r="${ref}" s="1"><v>${serial}</v></c>`;
+	}
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : "";
+	}
+	if (typeof value === "boolean") {
+		return `<c r="${ref}" t="b"${style}><v>${value ? 1 : 0}</v></c>`;
+	}
+	return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Convert a zero-based column index into a column name (0 = A, 26 = AA)
+ */
+function columnName(index: number): string {
+	let name = "";
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+/**
+ * Escape text for XML, dropping control characters XML cannot represent
+ */
+function escapeXml(text: string): string {
+	return text
+		// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping characters invalid in XML
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+/**
+ * CRC-32 checksum of a buffer, as used by ZIP
+ */
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack files into a deflate-compressed ZIP archive
+ */
+function zip(files: { path: string; content: string }[]): Buffer {
+	const parts: Buffer[] = [];
+	const directory: Buffer[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const path = Buffer.from(file.path, "utf8");
+		const data = Buffer.from(file.content, "utf8");
+		const compressed = deflateRawSync(data);
+		const crc = crc32(data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+		local.writeUInt16LE(20, 4); // Version needed to extract
+		local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+		local.writeUInt16LE(8, 8); // Deflate
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(path.length, 26);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+		central.writeUInt16LE(20, 4); // Version made by
+		central.writeUInt16LE(20, 6); // Version needed to extract
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(path.length, 28);
+		central.writeUInt32LE(offset, 42);
+
+		parts.push(local, path, compressed);
+		directory.push(central, path);
+		offset += local.length + path.length + compressed.length;
+	}
+
+	const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(directorySize, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...parts, ...directory, end]);
+}